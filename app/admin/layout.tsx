@@ -0,0 +1,28 @@
+import Link from 'next/link';
+
+// Staff pages, behind the server's ADMIN_API_TOKEN rather than a learner account
+export default function AdminLayout({
+  children,
+}: Readonly<{
+  children: React.ReactNode;
+}>) {
+  return (
+    <main className="min-h-screen bg-gray-50">
+      <header className="bg-white shadow-sm border-b border-gray-200">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4 flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Voice Tutor admin</h1>
+            <p className="text-sm text-gray-600 mt-1">How the tutor teaches, without a deploy</p>
+          </div>
+          <nav className="flex items-center gap-6 text-sm">
+            <Link href="/admin/practice-modes" className="text-gray-700 hover:text-blue-600">Practice modes</Link>
+            <Link href="/" className="text-gray-500 hover:text-gray-700">Back to the app</Link>
+          </nav>
+        </div>
+      </header>
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {children}
+      </div>
+    </main>
+  );
+}
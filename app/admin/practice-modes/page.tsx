@@ -0,0 +1,5 @@
+import { PracticeModeAdmin } from '@/components/PracticeModeAdmin';
+
+export default function PracticeModesPage() {
+  return <PracticeModeAdmin />;
+}
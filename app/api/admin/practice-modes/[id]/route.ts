@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isAdminRequest } from '@/server/auth';
+import { deletePracticeMode, savePracticeMode } from '@/server/practice-modes';
+
+// PUT /api/admin/practice-modes/:id - replace a mode's definition
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    if (!isAdminRequest(request.headers.get('authorization'))) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const { mode, error, notFound } = await savePracticeMode(await request.json(), id);
+    if (notFound) {
+      return NextResponse.json({ error: 'No such practice mode' }, { status: 404 });
+    }
+    if (error) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+    return NextResponse.json({ mode });
+  } catch (error) {
+    console.error('Failed to save practice mode:', error);
+    return NextResponse.json(
+      { error: 'Failed to save practice mode' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/admin/practice-modes/:id - delete a mode, or reset a built-in one
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    if (!isAdminRequest(request.headers.get('authorization'))) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const { mode, notFound } = await deletePracticeMode(id);
+    if (notFound) {
+      return NextResponse.json({ error: 'No such practice mode' }, { status: 404 });
+    }
+    return NextResponse.json({ mode });
+  } catch (error) {
+    console.error('Failed to delete practice mode:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete practice mode' },
+      { status: 500 }
+    );
+  }
+}
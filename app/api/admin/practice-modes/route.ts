@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isAdminRequest } from '@/server/auth';
+import { listPracticeModes, practiceModeOptions, savePracticeMode } from '@/server/practice-modes';
+
+// GET /api/admin/practice-modes - every practice mode in full, with what the editor offers
+export async function GET(request: NextRequest) {
+  try {
+    if (!isAdminRequest(request.headers.get('authorization'))) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const modes = await listPracticeModes();
+    return NextResponse.json({ modes, options: practiceModeOptions() });
+  } catch (error) {
+    console.error('Failed to load practice modes:', error);
+    return NextResponse.json(
+      { error: 'Failed to load practice modes' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/admin/practice-modes - add a mode; its id is made from the name
+export async function POST(request: NextRequest) {
+  try {
+    if (!isAdminRequest(request.headers.get('authorization'))) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const { mode, error } = await savePracticeMode(await request.json());
+    if (error) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+    return NextResponse.json({ mode });
+  } catch (error) {
+    console.error('Failed to save practice mode:', error);
+    return NextResponse.json(
+      { error: 'Failed to save practice mode' },
+      { status: 500 }
+    );
+  }
+}
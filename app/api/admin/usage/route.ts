@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isAdminRequest } from '@/server/auth';
+import { QUOTAS, listUsage, usageDay } from '@/server/usage';
+
+// GET /api/admin/usage?day=YYYY-MM-DD - every learner's Realtime usage for a UTC day (default today)
+export async function GET(request: NextRequest) {
+  try {
+    if (!isAdminRequest(request.headers.get('authorization'))) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const day = request.nextUrl.searchParams.get('day') || usageDay();
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(day)) {
+      return NextResponse.json({ error: 'day must be YYYY-MM-DD' }, { status: 400 });
+    }
+
+    const learners = await listUsage(day);
+    return NextResponse.json({ day, quotas: QUOTAS, learners });
+  } catch (error) {
+    console.error('Failed to load usage:', error);
+    return NextResponse.json(
+      { error: 'Failed to load usage' },
+      { status: 500 }
+    );
+  }
+}
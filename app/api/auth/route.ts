@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateLearner, getLearner } from '@/server/learners';
+import { AUTH_COOKIE, issueLearnerToken, learnerIdFromToken, setAuthCookie } from '@/server/auth';
+
+// Who is signed in
+export async function GET(request: NextRequest) {
+  try {
+    const learnerId = learnerIdFromToken(request.cookies.get(AUTH_COOKIE)?.value);
+    const learner = learnerId ? await getLearner(learnerId) : null;
+
+    if (!learner) {
+      return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+    }
+
+    return NextResponse.json({ learner });
+  } catch (error) {
+    console.error('Failed to load learner:', error);
+    return NextResponse.json(
+      { error: 'Failed to load learner' },
+      { status: 500 }
+    );
+  }
+}
+
+// Sign in with a username and password
+export async function POST(request: NextRequest) {
+  try {
+    const { username, password } = await request.json();
+
+    if (typeof username !== 'string' || typeof password !== 'string') {
+      return NextResponse.json(
+        { error: 'Request must include a username and password' },
+        { status: 400 }
+      );
+    }
+
+    const learner = await authenticateLearner(username, password);
+    if (!learner) {
+      return NextResponse.json(
+        { error: 'Wrong username or password' },
+        { status: 401 }
+      );
+    }
+
+    const response = NextResponse.json({ learner });
+    setAuthCookie(response, issueLearnerToken(learner.id).token);
+    return response;
+  } catch (error) {
+    console.error('Failed to sign in:', error);
+    return NextResponse.json(
+      { error: 'Failed to sign in' },
+      { status: 500 }
+    );
+  }
+}
+
+// Sign out
+export async function DELETE() {
+  const response = NextResponse.json({ signedOut: true });
+  response.cookies.delete(AUTH_COOKIE);
+  return response;
+}
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { MAX_APKG_BYTES, readApkg } from '@/server/anki';
+import { AUTH_COOKIE, learnerIdFromToken } from '@/server/auth';
+import { readBody } from '@/server/request-body';
+
+// Body is the raw .apkg; nothing is saved - the notes come back for the import preview
+export async function POST(request: NextRequest) {
+  try {
+    const learnerId = learnerIdFromToken(request.cookies.get(AUTH_COOKIE)?.value);
+    if (!learnerId) {
+      return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+    }
+
+    const data = await readBody(request, MAX_APKG_BYTES);
+    if (!data || data.length === 0) {
+      return NextResponse.json(
+        { error: `Anki packages must be between 1 and ${MAX_APKG_BYTES} bytes` },
+        { status: 413 }
+      );
+    }
+
+    const notes = await readApkg(data);
+    if ('error' in notes) {
+      return NextResponse.json({ error: notes.error }, { status: 400 });
+    }
+
+    return NextResponse.json(notes);
+  } catch (error) {
+    console.error('Failed to read Anki package:', error);
+    return NextResponse.json(
+      { error: 'Failed to read Anki package' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createLearner } from '@/server/learners';
+import { issueLearnerToken, setAuthCookie } from '@/server/auth';
+
+const MIN_PASSWORD_LENGTH = 8;
+
+// Register a local account and sign it in
+export async function POST(request: NextRequest) {
+  try {
+    const { username, displayName, password } = await request.json();
+
+    if (typeof username !== 'string' || !username.trim() || typeof password !== 'string') {
+      return NextResponse.json(
+        { error: 'Request must include a username and password' },
+        { status: 400 }
+      );
+    }
+
+    if (password.length < MIN_PASSWORD_LENGTH) {
+      return NextResponse.json(
+        { error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    const learner = await createLearner({
+      username,
+      displayName: typeof displayName === 'string' ? displayName : undefined,
+      password
+    });
+    if (!learner) {
+      return NextResponse.json(
+        { error: 'That username is already taken' },
+        { status: 409 }
+      );
+    }
+
+    const response = NextResponse.json({ learner }, { status: 201 });
+    setAuthCookie(response, issueLearnerToken(learner.id).token);
+    return response;
+  } catch (error) {
+    console.error('Failed to register learner:', error);
+    return NextResponse.json(
+      { error: 'Failed to register learner' },
+      { status: 500 }
+    );
+  }
+}
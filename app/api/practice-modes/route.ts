@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { listLearnerPracticeModes } from '@/server/practice-modes';
+import { AUTH_COOKIE, learnerIdFromToken } from '@/server/auth';
+
+// GET /api/practice-modes - the practice modes the app offers, as set up in the admin console
+export async function GET(request: NextRequest) {
+  try {
+    const learnerId = learnerIdFromToken(request.cookies.get(AUTH_COOKIE)?.value);
+    if (!learnerId) {
+      return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+    }
+
+    const modes = await listLearnerPracticeModes();
+    return NextResponse.json({ modes });
+  } catch (error) {
+    console.error('Failed to load practice modes:', error);
+    return NextResponse.json(
+      { error: 'Failed to load practice modes' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,20 +1,45 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { getTokenIssuer } from '@/server/session-tokens';
+import { AUTH_COOKIE, learnerIdFromToken } from '@/server/auth';
+import { getSessionRateLimiter } from '@/server/rate-limit';
+import { checkQuota } from '@/server/usage';
 
 export async function POST(request: NextRequest) {
   try {
-    const apiKey = process.env.OPENAI_API_KEY;
-    
-    if (!apiKey) {
+    if (!process.env.OPENAI_API_KEY && !process.env.REALTIME_MOCK_SCENARIO) {
       return NextResponse.json(
         { error: 'OpenAI API key not configured' },
         { status: 500 }
       );
     }
 
-    // For now, return the API key directly (in production, use ephemeral tokens)
-    // OpenAI Realtime API currently uses direct API key authentication
+    const learnerId = learnerIdFromToken(request.cookies.get(AUTH_COOKIE)?.value);
+    if (!learnerId) {
+      return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+    }
+
+    const limit = getSessionRateLimiter().take(learnerId);
+    if (!limit.ok) {
+      return NextResponse.json(
+        { error: 'Too many sessions started - wait a moment and try again' },
+        { status: 429, headers: { 'Retry-After': String(limit.retryAfterSeconds) } }
+      );
+    }
+
+    // Refuse up front rather than open a socket the proxy would close straight away
+    const exceeded = await checkQuota(learnerId);
+    if (exceeded) {
+      return NextResponse.json({ error: "Today's practice limit is reached", quota: exceeded }, { status: 429 });
+    }
+
+    // A short-lived token for the signed-in learner, checked by the WebSocket proxy on upgrade -
+    // the API key never leaves the server
+    const { token, expiresAt } = getTokenIssuer().issue(learnerId);
     return NextResponse.json({
-      client_secret: apiKey,
+      client_secret: {
+        value: token,
+        expires_at: expiresAt
+      }
     });
   } catch (error) {
     console.error('Realtime API error:', error);
@@ -23,4 +48,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AUDIO_TYPES, MAX_TURN_AUDIO_BYTES, getTurnAudio, saveTurnAudio } from '@/server/turn-audio';
+import { AUTH_COOKIE, learnerIdFromToken } from '@/server/auth';
+import { readBody } from '@/server/request-body';
+
+type Params = { params: Promise<{ id: string; turnId: string }> };
+
+export async function GET(request: NextRequest, { params }: Params) {
+  try {
+    const learnerId = learnerIdFromToken(request.cookies.get(AUTH_COOKIE)?.value);
+    if (!learnerId) {
+      return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+    }
+
+    const { id, turnId } = await params;
+    const audio = await getTurnAudio(learnerId, id, turnId);
+    if (!audio) {
+      return NextResponse.json({ error: 'No recording for this turn' }, { status: 404 });
+    }
+
+    return new NextResponse(new Uint8Array(audio.data), {
+      headers: {
+        'Content-Type': audio.mimeType,
+        'Cache-Control': 'private, max-age=86400'
+      }
+    });
+  } catch (error) {
+    console.error('Failed to load turn audio:', error);
+    return NextResponse.json(
+      { error: 'Failed to load turn audio' },
+      { status: 500 }
+    );
+  }
+}
+
+// Body is the raw recording, typed by its Content-Type
+export async function PUT(request: NextRequest, { params }: Params) {
+  try {
+    const learnerId = learnerIdFromToken(request.cookies.get(AUTH_COOKIE)?.value);
+    if (!learnerId) {
+      return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+    }
+
+    const mimeType = (request.headers.get('content-type') || '').split(';')[0].trim();
+    if (!AUDIO_TYPES.includes(mimeType)) {
+      return NextResponse.json(
+        { error: `Audio must be one of ${AUDIO_TYPES.join(', ')}` },
+        { status: 415 }
+      );
+    }
+
+    const data = await readBody(request, MAX_TURN_AUDIO_BYTES);
+    if (!data || data.length === 0) {
+      return NextResponse.json(
+        { error: `Audio must be between 1 and ${MAX_TURN_AUDIO_BYTES} bytes` },
+        { status: 413 }
+      );
+    }
+
+    const { id, turnId } = await params;
+    await saveTurnAudio(learnerId, id, turnId, mimeType, data);
+    return NextResponse.json({ saved: 1 });
+  } catch (error) {
+    console.error('Failed to save turn audio:', error);
+    return NextResponse.json(
+      { error: 'Failed to save turn audio' },
+      { status: 500 }
+    );
+  }
+}
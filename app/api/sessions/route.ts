@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { listSessions, saveSessions } from '@/server/sessions';
+import { AUTH_COOKIE, learnerIdFromToken } from '@/server/auth';
+
+export async function GET(request: NextRequest) {
+  try {
+    const learnerId = learnerIdFromToken(request.cookies.get(AUTH_COOKIE)?.value);
+    if (!learnerId) {
+      return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+    }
+
+    const sessions = await listSessions(learnerId);
+    return NextResponse.json({ sessions });
+  } catch (error) {
+    console.error('Failed to load sessions:', error);
+    return NextResponse.json(
+      { error: 'Failed to load sessions' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const learnerId = learnerIdFromToken(request.cookies.get(AUTH_COOKIE)?.value);
+    if (!learnerId) {
+      return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+    }
+
+    // Either one session, or `{ sessions: [...] }` for a batch
+    const body = await request.json();
+    const sessions = Array.isArray(body?.sessions) ? body.sessions : [body];
+
+    if (sessions.some((session: { id?: string; startTime?: string; mode?: string } | null) =>
+      !session?.id || !session.startTime || !session.mode)) {
+      return NextResponse.json(
+        { error: 'Session must include id, startTime and mode' },
+        { status: 400 }
+      );
+    }
+
+    if (sessions.some((session: { turns?: unknown }) => session.turns !== undefined && !Array.isArray(session.turns))) {
+      return NextResponse.json(
+        { error: 'Session turns must be an array' },
+        { status: 400 }
+      );
+    }
+
+    await saveSessions(learnerId, sessions);
+    return NextResponse.json({ saved: sessions.length });
+  } catch (error) {
+    console.error('Failed to save session:', error);
+    return NextResponse.json(
+      { error: 'Failed to save session' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,195 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSyncState, linkAccount, unlinkAccount, stageSync, commitSync, recordSyncError } from '@/server/vocabulary-sync';
+import { AUTH_COOKIE, learnerIdFromToken } from '@/server/auth';
+import { FLASHACADEMY, createFlashAcademySource, isFlashAcademyConfigured, redeemFlashAcademyLinkCode } from '@/lib/flashacademy-source';
+import type { LearnedWord, MasteryUpdate } from '@/lib/vocabulary-source';
+
+// A sync follows the cursor for at most this many pages; the next sync carries on from there
+const MAX_PAGES = 20;
+const MAX_LINK_CODE_LENGTH = 100;
+
+async function status(learnerId: string) {
+  const state = await getSyncState(learnerId, FLASHACADEMY);
+  return {
+    source: FLASHACADEMY,
+    name: 'FlashAcademy',
+    configured: isFlashAcademyConfigured(),
+    accountId: state?.accountId ?? null,
+    lastSyncedAt: state?.lastSyncedAt,
+    lastPushedAt: state?.lastPushedAt,
+    lastError: state?.lastError,
+    wordsSynced: state?.wordsSynced ?? 0
+  };
+}
+
+// Mastery updates from the request body; anything malformed is dropped
+function parseMasteryUpdates(raw: unknown): MasteryUpdate[] {
+  if (!Array.isArray(raw)) return [];
+  return raw.flatMap((u): MasteryUpdate[] => {
+    if (typeof u?.externalId !== 'string' || typeof u.mastery !== 'number' || typeof u.practiceCount !== 'number') {
+      return [];
+    }
+    const lastPracticed = u.lastPracticed ? new Date(u.lastPracticed) : undefined;
+    return [{
+      externalId: u.externalId,
+      mastery: Math.max(0, Math.min(100, Math.round(u.mastery))),
+      practiceCount: Math.max(0, Math.round(u.practiceCount)),
+      lastPracticed: lastPracticed && !Number.isNaN(lastPracticed.getTime()) ? lastPracticed : undefined
+    }];
+  });
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const learnerId = learnerIdFromToken(request.cookies.get(AUTH_COOKIE)?.value);
+    if (!learnerId) {
+      return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+    }
+
+    return NextResponse.json({ status: await status(learnerId) });
+  } catch (error) {
+    console.error('Failed to load sync status:', error);
+    return NextResponse.json(
+      { error: 'Failed to load sync status' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Link the learner's FlashAcademy account with a one-time code FlashAcademy gave them
+ * (`{ linkCode }`), or unlink it (`{ linkCode: null }`). The code is what proves the account
+ * is theirs; the student ID it was issued to is what gets linked.
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const learnerId = learnerIdFromToken(request.cookies.get(AUTH_COOKIE)?.value);
+    if (!learnerId) {
+      return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    if (body?.linkCode === null) {
+      await unlinkAccount(learnerId, FLASHACADEMY);
+      return NextResponse.json({ status: await status(learnerId) });
+    }
+
+    const linkCode = typeof body?.linkCode === 'string' ? body.linkCode.trim() : '';
+    if (!linkCode || linkCode.length > MAX_LINK_CODE_LENGTH) {
+      return NextResponse.json(
+        { error: `Linking code must be 1-${MAX_LINK_CODE_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    const redeeming = redeemFlashAcademyLinkCode(linkCode);
+    if (!redeeming) {
+      return NextResponse.json({ error: 'FlashAcademy sync is not configured on this server' }, { status: 503 });
+    }
+    let accountId: string;
+    try {
+      accountId = await redeeming;
+    } catch (error) {
+      return NextResponse.json(
+        { error: `FlashAcademy didn't accept that code: ${(error as Error).message}` },
+        { status: 400 }
+      );
+    }
+
+    await linkAccount(learnerId, FLASHACADEMY, accountId);
+    return NextResponse.json({ status: await status(learnerId) });
+  } catch (error) {
+    console.error('Failed to link account:', error);
+    return NextResponse.json(
+      { error: 'Failed to link account' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Pull the words learned since the last sync and push back `{ mastery: [...] }` for synced
+ * words practiced since. `{ full: true }` ignores the cursor and pulls everything again.
+ * Returns the pulled words for the client to merge into the learner's list, and the `syncId`
+ * it confirms with (PATCH) once they are saved - the cursor only moves on then.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const learnerId = learnerIdFromToken(request.cookies.get(AUTH_COOKIE)?.value);
+    if (!learnerId) {
+      return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+    }
+
+    const state = await getSyncState(learnerId, FLASHACADEMY);
+    if (!state) {
+      return NextResponse.json({ error: 'Link a FlashAcademy account first' }, { status: 400 });
+    }
+    const source = createFlashAcademySource(state.accountId);
+    if (!source) {
+      return NextResponse.json({ error: 'FlashAcademy sync is not configured on this server' }, { status: 503 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const mastery = parseMasteryUpdates(body?.mastery);
+
+    const words: LearnedWord[] = [];
+    let cursor = body?.full ? null : state.cursor;
+    try {
+      for (let page = 0; page < MAX_PAGES; page++) {
+        const result = await source.fetchLearnedWords(cursor);
+        words.push(...result.words);
+        cursor = result.cursor ?? cursor;
+        if (!result.hasMore) break;
+      }
+      await source.pushMastery(mastery);
+    } catch (error) {
+      const message = (error as Error).message;
+      await recordSyncError(learnerId, FLASHACADEMY, message);
+      return NextResponse.json(
+        { error: `FlashAcademy sync failed: ${message}`, status: await status(learnerId) },
+        { status: 502 }
+      );
+    }
+
+    const syncId = await stageSync(learnerId, FLASHACADEMY, {
+      cursor,
+      syncedAt: new Date(),
+      pushed: mastery.length > 0,
+      wordsSynced: body?.full ? 0 : words.length
+    });
+    return NextResponse.json({ words, pushed: mastery.length, syncId, status: await status(learnerId) });
+  } catch (error) {
+    console.error('Failed to sync vocabulary:', error);
+    return NextResponse.json(
+      { error: 'Failed to sync vocabulary' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Confirm the words a sync pulled are saved (`{ syncId }`), moving the cursor on past them.
+ * `committed` is false if a later sync or a relink replaced it; that sync pulls them again.
+ */
+export async function PATCH(request: NextRequest) {
+  try {
+    const learnerId = learnerIdFromToken(request.cookies.get(AUTH_COOKIE)?.value);
+    if (!learnerId) {
+      return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => null);
+    if (typeof body?.syncId !== 'string' || !body.syncId) {
+      return NextResponse.json({ error: 'Missing syncId' }, { status: 400 });
+    }
+
+    const committed = await commitSync(learnerId, FLASHACADEMY, body.syncId, new Date());
+    return NextResponse.json({ committed, status: await status(learnerId) });
+  } catch (error) {
+    console.error('Failed to confirm sync:', error);
+    return NextResponse.json(
+      { error: 'Failed to confirm sync' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { validateWord, saveWords } from '@/server/words';
+import { AUTH_COOKIE, learnerIdFromToken } from '@/server/auth';
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const learnerId = learnerIdFromToken(request.cookies.get(AUTH_COOKIE)?.value);
+    if (!learnerId) {
+      return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const word = await request.json().catch(() => null);
+
+    if (!word || word.id !== id) {
+      return NextResponse.json(
+        { error: 'Word id does not match the URL' },
+        { status: 400 }
+      );
+    }
+
+    const invalid = validateWord(word);
+    if (invalid) {
+      return NextResponse.json({ error: invalid }, { status: 400 });
+    }
+
+    await saveWords(learnerId, [word]);
+    return NextResponse.json({ saved: 1 });
+  } catch (error) {
+    console.error('Failed to save word:', error);
+    return NextResponse.json(
+      { error: 'Failed to save word' },
+      { status: 500 }
+    );
+  }
+}
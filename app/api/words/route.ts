@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { validateWord, listWords, saveWords, deleteWords } from '@/server/words';
+import { AUTH_COOKIE, learnerIdFromToken } from '@/server/auth';
+
+export async function GET(request: NextRequest) {
+  try {
+    const learnerId = learnerIdFromToken(request.cookies.get(AUTH_COOKIE)?.value);
+    if (!learnerId) {
+      return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+    }
+
+    const words = await listWords(learnerId);
+    return NextResponse.json({ words });
+  } catch (error) {
+    console.error('Failed to load words:', error);
+    return NextResponse.json(
+      { error: 'Failed to load words' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const learnerId = learnerIdFromToken(request.cookies.get(AUTH_COOKIE)?.value);
+    if (!learnerId) {
+      return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => null);
+    const words = Array.isArray(body?.words) ? body.words : [];
+
+    if (words.length === 0) {
+      return NextResponse.json(
+        { error: 'Request must include a non-empty "words" array' },
+        { status: 400 }
+      );
+    }
+
+    const invalid = words.map(validateWord).find(Boolean);
+    if (invalid) {
+      return NextResponse.json({ error: invalid }, { status: 400 });
+    }
+
+    await saveWords(learnerId, words);
+    return NextResponse.json({ saved: words.length });
+  } catch (error) {
+    console.error('Failed to save words:', error);
+    return NextResponse.json(
+      { error: 'Failed to save words' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const learnerId = learnerIdFromToken(request.cookies.get(AUTH_COOKIE)?.value);
+    if (!learnerId) {
+      return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const ids = Array.isArray(body.ids) ? body.ids.filter((id: unknown) => typeof id === 'string') : [];
+
+    if (ids.length === 0) {
+      return NextResponse.json(
+        { error: 'Request must include a non-empty "ids" array' },
+        { status: 400 }
+      );
+    }
+
+    const deleted = await deleteWords(learnerId, ids);
+    return NextResponse.json({ deleted });
+  } catch (error) {
+    console.error('Failed to delete words:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete words' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,69 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+import { format } from 'date-fns';
+import { Mic, Volume2 } from 'lucide-react';
+import { Turn } from '@/lib/store';
+import { useTranslation } from '@/lib/i18n';
+
+type ChatTurn = Omit<Turn, 'id'>;
+
+interface ChatLogProps {
+  turns: ChatTurn[];
+  pending?: string;   // Tutor reply still being spoken
+  className?: string;
+}
+
+// Scrollable transcript of a session, newest at the bottom
+export function ChatLog({ turns, pending, className = 'max-h-96' }: ChatLogProps) {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const { t } = useTranslation();
+
+  // Follow the conversation as it grows, without scrolling the page itself
+  useEffect(() => {
+    const log = scrollRef.current;
+    if (log) log.scrollTop = log.scrollHeight;
+  }, [turns.length, pending]);
+
+  if (turns.length === 0 && !pending) {
+    return <p className="text-center text-sm text-gray-500 py-4">{t('chat.empty')}</p>;
+  }
+
+  return (
+    <div ref={scrollRef} className={`w-full overflow-y-auto space-y-3 pe-1 ${className}`}>
+      {turns.map((turn, index) => (
+        <ChatBubble key={index} {...turn} />
+      ))}
+      {pending && <ChatBubble role="tutor" text={pending} />}
+    </div>
+  );
+}
+
+// A pending reply has no timestamp until it is finished
+function ChatBubble({ role, text, timestamp, word, interrupted, audioUrl }: Omit<ChatTurn, 'timestamp'> & { timestamp?: Date }) {
+  const isTutor = role === 'tutor';
+  const Icon = isTutor ? Volume2 : Mic;
+  const { t, dateLocale } = useTranslation();
+
+  return (
+    <div className={`flex ${isTutor ? 'justify-start' : 'justify-end'}`}>
+      <div className={`max-w-[85%] rounded-lg p-3 ${isTutor ? 'bg-green-50' : 'bg-blue-50'}`}>
+        <div className="flex items-center gap-2 mb-1">
+          <Icon className={`w-4 h-4 ${isTutor ? 'text-green-600' : 'text-blue-600'}`} />
+          <span className={`text-xs font-medium ${isTutor ? 'text-green-600' : 'text-blue-600'}`}>
+            {isTutor ? t('chat.tutor') : t('chat.you')}
+          </span>
+          {word && <span className="text-xs text-gray-500">· <bdi>{word}</bdi></span>}
+          {timestamp && <span className="text-xs text-gray-400">{format(timestamp, 'pp', { locale: dateLocale })}</span>}
+        </div>
+        {/* Each line takes its direction from its own first letters, so an Arabic
+            instruction quoting an English word (or the other way round) reads correctly */}
+        <p dir="auto" className="text-gray-800 whitespace-pre-wrap [unicode-bidi:plaintext]">
+          {text}
+          {interrupted && <span className="text-gray-400"> …</span>}
+        </p>
+        {audioUrl && <audio controls preload="none" src={audioUrl} className="w-full h-8 mt-2" />}
+      </div>
+    </div>
+  );
+}
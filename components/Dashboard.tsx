@@ -1,22 +1,31 @@
 'use client';
 
-import { TrendingUp, Target, Clock, Award } from 'lucide-react';
+import { useState } from 'react';
+import { TrendingUp, Target, Clock, Award, MessageSquare, X } from 'lucide-react';
 import { useStore } from '@/lib/store';
+import { useTranslation } from '@/lib/i18n';
+import { sessionTitle } from '@/lib/practice-modes';
+import { ChatLog } from './ChatLog';
 import { LineChart, Line, BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
 import { format, startOfWeek, eachDayOfInterval } from 'date-fns';
 
 export function Dashboard() {
-  const { words, sessions, getTotalWords, getMasteredWords, getTodaysPractice } = useStore();
+  const { words, sessions, practiceModes, getTotalWords, getMasteredWords, getTodaysPractice, getDecks } = useStore();
+  const { t, dateLocale } = useTranslation();
+  const [showAllSessions, setShowAllSessions] = useState(false);
+  const [reviewedSessionId, setReviewedSessionId] = useState<string | null>(null);
+  const reviewedSession = sessions.find(s => s.id === reviewedSessionId);
+  const listedSessions = (showAllSessions ? sessions : sessions.slice(-5)).slice().reverse();
   
   // Calculate practice data for the last 7 days
-  const weekStart = startOfWeek(new Date());
+  const weekStart = startOfWeek(new Date(), { locale: dateLocale });
   const weekDays = eachDayOfInterval({
     start: weekStart,
     end: new Date()
   });
   
   const practiceData = weekDays.map(day => {
-    const dayStr = format(day, 'EEE');
+    const dayStr = format(day, 'EEE', { locale: dateLocale });
     const sessionsOnDay = sessions.filter(s => 
       format(new Date(s.startTime), 'yyyy-MM-dd') === format(day, 'yyyy-MM-dd')
     );
@@ -29,36 +38,49 @@ export function Dashboard() {
   
   // Calculate mastery distribution
   const masteryData = [
-    { level: 'Beginner', count: words.filter(w => w.mastery < 30).length },
-    { level: 'Learning', count: words.filter(w => w.mastery >= 30 && w.mastery < 60).length },
-    { level: 'Proficient', count: words.filter(w => w.mastery >= 60 && w.mastery < 80).length },
-    { level: 'Mastered', count: words.filter(w => w.mastery >= 80).length }
+    { level: t('mastery.beginner'), count: words.filter(w => w.mastery < 30).length },
+    { level: t('mastery.learning'), count: words.filter(w => w.mastery >= 30 && w.mastery < 60).length },
+    { level: t('mastery.proficient'), count: words.filter(w => w.mastery >= 60 && w.mastery < 80).length },
+    { level: t('mastery.mastered'), count: words.filter(w => w.mastery >= 80).length }
   ];
 
+  // Mastery per deck, over the words still in practice
+  const deckMastery = getDecks().map(deck => {
+    const deckWords = words.filter(w => !w.archived && (w.decks ?? []).includes(deck));
+    return {
+      deck,
+      total: deckWords.length,
+      mastered: deckWords.filter(w => w.mastery >= 80).length,
+      average: deckWords.length > 0
+        ? Math.round(deckWords.reduce((acc, w) => acc + w.mastery, 0) / deckWords.length)
+        : 0
+    };
+  });
+
   const stats = [
     {
-      label: 'Total Words',
+      label: t('stats.totalWords'),
       value: getTotalWords(),
       icon: Target,
       color: 'text-blue-600',
       bgColor: 'bg-blue-100'
     },
     {
-      label: 'Mastered',
+      label: t('stats.mastered'),
       value: getMasteredWords(),
       icon: Award,
       color: 'text-green-600',
       bgColor: 'bg-green-100'
     },
     {
-      label: "Today's Practice",
+      label: t('stats.todaysPractice'),
       value: getTodaysPractice(),
       icon: Clock,
       color: 'text-purple-600',
       bgColor: 'bg-purple-100'
     },
     {
-      label: 'Streak',
+      label: t('stats.streak'),
       value: calculateStreak(),
       icon: TrendingUp,
       color: 'text-orange-600',
@@ -112,7 +134,7 @@ export function Dashboard() {
       <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
         {/* Practice Trend */}
         <div className="bg-white rounded-xl shadow-lg p-6">
-          <h3 className="text-lg font-semibold text-gray-800 mb-4">Weekly Practice</h3>
+          <h3 className="text-lg font-semibold text-gray-800 mb-4">{t('dashboard.weeklyPractice')}</h3>
           <ResponsiveContainer width="100%" height={200}>
             <LineChart data={practiceData}>
               <CartesianGrid strokeDasharray="3 3" />
@@ -124,14 +146,14 @@ export function Dashboard() {
                 dataKey="sessions" 
                 stroke="#3B82F6" 
                 strokeWidth={2}
-                name="Sessions"
+                name={t('dashboard.sessions')}
               />
               <Line 
                 type="monotone" 
                 dataKey="words" 
                 stroke="#10B981" 
                 strokeWidth={2}
-                name="Words Practiced"
+                name={t('dashboard.wordsPracticed')}
               />
             </LineChart>
           </ResponsiveContainer>
@@ -139,44 +161,123 @@ export function Dashboard() {
 
         {/* Mastery Distribution */}
         <div className="bg-white rounded-xl shadow-lg p-6">
-          <h3 className="text-lg font-semibold text-gray-800 mb-4">Mastery Levels</h3>
+          <h3 className="text-lg font-semibold text-gray-800 mb-4">{t('dashboard.masteryLevels')}</h3>
           <ResponsiveContainer width="100%" height={200}>
             <BarChart data={masteryData}>
               <CartesianGrid strokeDasharray="3 3" />
               <XAxis dataKey="level" />
               <YAxis />
               <Tooltip />
-              <Bar dataKey="count" fill="#8B5CF6" />
+              <Bar dataKey="count" fill="#8B5CF6" name={t('dashboard.words')} />
             </BarChart>
           </ResponsiveContainer>
         </div>
       </div>
 
+      {/* Per-deck Mastery */}
+      {deckMastery.length > 0 && (
+        <div className="bg-white rounded-xl shadow-lg p-6">
+          <h3 className="text-lg font-semibold text-gray-800 mb-4">{t('dashboard.masteryByDeck')}</h3>
+          <div className="space-y-3">
+            {deckMastery.map(({ deck, total, mastered, average }) => (
+              <div key={deck}>
+                <div className="flex items-center justify-between text-sm mb-1">
+                  <span className="font-medium text-gray-800">{deck}</span>
+                  <span className="text-gray-600">
+                    {t('dashboard.deckMastery', { mastered, total, average })}
+                  </span>
+                </div>
+                <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+                  <div className="h-full bg-purple-500" style={{ width: `${average}%` }} />
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Recent Sessions */}
       <div className="bg-white rounded-xl shadow-lg p-6">
-        <h3 className="text-lg font-semibold text-gray-800 mb-4">Recent Sessions</h3>
-        <div className="space-y-3">
-          {sessions.slice(-5).reverse().map((session) => (
-            <div key={session.id} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-semibold text-gray-800">
+            {showAllSessions ? t('dashboard.allSessions') : t('dashboard.recentSessions')}
+          </h3>
+          {sessions.length > 5 && (
+            <button
+              onClick={() => setShowAllSessions(!showAllSessions)}
+              className="text-sm text-blue-600 hover:text-blue-700"
+            >
+              {showAllSessions ? t('dashboard.showRecent') : t('dashboard.showAll', { count: sessions.length })}
+            </button>
+          )}
+        </div>
+        <div className={`space-y-3 ${showAllSessions ? 'max-h-96 overflow-y-auto' : ''}`}>
+          {listedSessions.map((session) => (
+            <button
+              key={session.id}
+              onClick={() => setReviewedSessionId(session.id === reviewedSessionId ? null : session.id)}
+              className={`w-full flex items-center justify-between p-3 rounded-lg text-start transition-colors ${
+                session.id === reviewedSessionId ? 'bg-blue-50 ring-1 ring-blue-200' : 'bg-gray-50 hover:bg-gray-100'
+              }`}
+            >
               <div>
-                <p className="font-medium text-gray-800 capitalize">{session.mode} Practice</p>
+                <p className="font-medium text-gray-800">{sessionTitle(session.mode, practiceModes, t)}</p>
                 <p className="text-sm text-gray-600">
-                  {format(new Date(session.startTime), 'MMM d, h:mm a')}
+                  {format(new Date(session.startTime), 'PPp', { locale: dateLocale })}
                 </p>
               </div>
-              <div className="text-right">
-                <p className="font-medium text-gray-800">{session.wordsReviewed.length} words</p>
-                <p className="text-sm text-gray-600">
-                  {session.duration ? `${Math.round(session.duration / 60000)} min` : 'In progress'}
+              <div className="text-end">
+                <p className="font-medium text-gray-800">{t('dashboard.wordCount', { count: session.wordsReviewed.length })}</p>
+                <p className="text-sm text-gray-600 flex items-center justify-end gap-1">
+                  {session.turns.length > 0 && (
+                    <>
+                      <MessageSquare className="w-3 h-3" />
+                      <span>{session.turns.length} ·</span>
+                    </>
+                  )}
+                  <span>{session.duration ? t('dashboard.minutes', { count: Math.round(session.duration / 60000) }) : t('dashboard.inProgress')}</span>
                 </p>
               </div>
-            </div>
+            </button>
           ))}
           {sessions.length === 0 && (
-            <p className="text-center text-gray-500 py-4">No practice sessions yet</p>
+            <p className="text-center text-gray-500 py-4">{t('dashboard.noSessions')}</p>
           )}
         </div>
       </div>
+
+      {/* Session Review */}
+      {reviewedSession && (
+        <div className="bg-white rounded-xl shadow-lg p-6">
+          <div className="flex items-start justify-between mb-4">
+            <div>
+              <h3 className="text-lg font-semibold text-gray-800">{sessionTitle(reviewedSession.mode, practiceModes, t)}</h3>
+              <p className="text-sm text-gray-600">
+                {format(new Date(reviewedSession.startTime), 'EEEE, PPp', { locale: dateLocale })}
+                {reviewedSession.duration ? ` · ${t('dashboard.minutes', { count: Math.round(reviewedSession.duration / 60000) })}` : ''}
+              </p>
+              {reviewedSession.wordsReviewed.length > 0 && (
+                <p className="text-sm text-gray-600 mt-1">
+                  {t('dashboard.sessionWords', {
+                    words: reviewedSession.wordsReviewed
+                      .map(id => words.find(w => w.id === id)?.word)
+                      .filter(Boolean)
+                      .join(', ')
+                  })}
+                </p>
+              )}
+            </div>
+            <button
+              onClick={() => setReviewedSessionId(null)}
+              className="p-1 text-gray-400 hover:text-gray-600"
+              aria-label={t('dashboard.closeReview')}
+            >
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+          <ChatLog turns={reviewedSession.turns} className="max-h-[28rem]" />
+        </div>
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,36 @@
+'use client';
+
+import { Layers } from 'lucide-react';
+import { useStore } from '@/lib/store';
+import { useTranslation } from '@/lib/i18n';
+
+// Which deck practice and tests draw their words from. Hidden until the learner has a deck
+export function DeckSelector({ disabled = false }: { disabled?: boolean }) {
+  const { practiceDeck, setPracticeDeck, getDecks, getAllWords, getPracticeScope } = useStore();
+  const { t } = useTranslation();
+  const { language } = getPracticeScope();
+  const decks = getDecks();
+  if (decks.length === 0) return null;
+
+  return (
+    <label className="flex items-center gap-2 text-sm text-gray-700">
+      <Layers className="w-4 h-4 text-gray-500" />
+      <span>{t('deck.label')}</span>
+      <select
+        value={practiceDeck ?? ''}
+        onChange={(e) => setPracticeDeck(e.target.value || null)}
+        disabled={disabled}
+        className={`px-3 py-1.5 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+          disabled ? 'opacity-50 cursor-not-allowed bg-gray-50' : 'bg-white'
+        }`}
+      >
+        <option value="">{t('deck.allWords', { count: getAllWords(false, { language }).length })}</option>
+        {decks.map((deck) => (
+          <option key={deck} value={deck}>
+            {deck} ({getAllWords(false, { language, deck }).length})
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
@@ -0,0 +1,17 @@
+'use client';
+
+import { useEffect } from 'react';
+import { useTranslation } from '@/lib/i18n';
+
+// Keeps <html lang dir> on the home language. The root layout is rendered on the
+// server before the learner's settings are known, so it starts out as English/LTR.
+export function DocumentLanguage() {
+  const { code, dir } = useTranslation();
+
+  useEffect(() => {
+    document.documentElement.lang = code;
+    document.documentElement.dir = dir;
+  }, [code, dir]);
+
+  return null;
+}
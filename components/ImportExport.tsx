@@ -0,0 +1,329 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { Upload, Download, FileWarning, CheckCircle } from 'lucide-react';
+import { useStore } from '@/lib/store';
+import * as persistence from '@/lib/persistence';
+import {
+  BackupData,
+  ImportError,
+  ImportField,
+  ImportTable,
+  IMPORT_FIELDS,
+  RowStatus,
+  errorReportCsv,
+  guessMapping,
+  parseAnkiText,
+  parseBackup,
+  parseCsv,
+  previewImport
+} from '@/lib/word-import';
+import { entryKey } from '@/lib/normalize';
+import { useTranslation, type MessageKey } from '@/lib/i18n';
+import { buildBackup, downloadFile, sessionsToCsv, wordsToCsv } from '@/lib/word-export';
+import { format } from 'date-fns';
+
+const FIELD_LABELS: Record<typeof IMPORT_FIELDS[number], MessageKey> = {
+  word: 'import.field.word',
+  ipa: 'import.field.ipa',
+  syllables: 'import.field.syllables',
+  stress: 'import.field.stress',
+  partOfSpeech: 'import.field.partOfSpeech',
+  definition: 'import.field.definition',
+  example: 'import.field.example',
+  mastery: 'import.field.mastery',
+  practiceCount: 'import.field.practiceCount',
+  ease: 'import.field.ease',
+  interval: 'import.field.interval',
+  repetitions: 'import.field.repetitions',
+  lapses: 'import.field.lapses',
+  lastPracticed: 'import.field.lastPracticed',
+  dueDate: 'import.field.dueDate',
+  added: 'import.field.added',
+  archived: 'import.field.archived',
+  decks: 'import.field.decks',
+  tags: 'import.field.tags'
+};
+
+const STATUS_STYLES: Record<RowStatus, { label: MessageKey; className: string }> = {
+  new: { label: 'import.status.new', className: 'bg-green-100 text-green-700' },
+  duplicate: { label: 'import.status.duplicate', className: 'bg-gray-100 text-gray-600' },
+  repeated: { label: 'import.status.repeated', className: 'bg-gray-100 text-gray-600' },
+  error: { label: 'import.status.error', className: 'bg-red-100 text-red-700' }
+};
+
+const PREVIEW_ROWS = 50;
+
+export function ImportExport() {
+  const { learner, words, sessions, homeLanguage, targetLanguage, importData } = useStore();
+  const { t, languageName } = useTranslation();
+  const language = targetLanguage; // Imported words go in as this language
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [table, setTable] = useState<ImportTable | null>(null);
+  const [mapping, setMapping] = useState<(ImportField | null)[]>([]);
+  const [backup, setBackup] = useState<{ data: BackupData; errors: ImportError[] } | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [result, setResult] = useState<string | null>(null);
+
+  // Languages offered as translation targets when mapping columns
+  const languages = useMemo(() => Array.from(new Set([
+    ...(homeLanguage !== targetLanguage ? [homeLanguage] : []),
+    ...words.flatMap(w => Object.keys(w.details?.translations ?? {})),
+    ...mapping.filter((f): f is ImportField => !!f?.startsWith('translation:')).map(f => f.slice('translation:'.length))
+  ])), [homeLanguage, targetLanguage, words, mapping]);
+
+  // Only words in the same language can be duplicates of the imported ones
+  const preview = useMemo(
+    () => (table ? previewImport(table, mapping, words.filter(w => w.language === language)) : []),
+    [table, mapping, words, language]
+  );
+
+  const errors: ImportError[] = table
+    ? [...table.errors, ...preview.filter(r => r.status === 'error').map(r => ({ line: r.line, message: r.message ?? t('import.invalidRow') }))]
+    : backup?.errors ?? [];
+  const counts = preview.reduce(
+    (totals, row) => ({ ...totals, [row.status]: totals[row.status] + 1 }),
+    { new: 0, duplicate: 0, repeated: 0, error: 0 } as Record<RowStatus, number>
+  );
+  const knownWords = new Set(words.map(w => entryKey(w.word, w.language)));
+  const newBackupWords = backup
+    ? new Set(backup.data.words.map(w => entryKey(w.word, w.language || language)).filter(key => !knownWords.has(key))).size
+    : 0;
+
+  const reset = () => {
+    setFileName(null);
+    setTable(null);
+    setMapping([]);
+    setBackup(null);
+    setLoadError(null);
+  };
+
+  const handleFile = async (file: File) => {
+    reset();
+    setResult(null);
+    setFileName(file.name);
+    const extension = file.name.split('.').pop()?.toLowerCase();
+
+    try {
+      if (extension === 'json') {
+        setBackup(parseBackup(await file.text()));
+        return;
+      }
+
+      let parsed: ImportTable;
+      if (extension === 'apkg') {
+        const notes = await persistence.readAnkiPackage(file);
+        parsed = { source: 'anki', ...notes, errors: [], html: true };
+      } else if (extension === 'tsv' || extension === 'txt') {
+        parsed = parseAnkiText(await file.text());
+      } else {
+        parsed = parseCsv(await file.text());
+      }
+
+      const guessed = guessMapping(parsed.columns, languages);
+      // Anki and header-less files: the first field is almost always the word
+      if (!guessed.includes('word') && guessed.length > 0 && !guessed[0]) guessed[0] = 'word';
+      setTable(parsed);
+      setMapping(guessed);
+    } catch (error) {
+      setLoadError((error as Error).message);
+    }
+  };
+
+  const handleImport = () => {
+    const added = table
+      ? importData({ words: preview.filter(r => r.status === 'new' && r.word).map(r => r.word!) })
+      : backup
+        ? importData(backup.data)
+        : null;
+    if (!added) return;
+    const wordCount = t('import.words', { count: added.words });
+    setResult(backup
+      ? t('import.importedWithSessions', { words: wordCount, sessions: t('import.sessions', { count: added.sessions }), file: fileName ?? '' })
+      : t('import.imported', { words: wordCount, file: fileName ?? '' }));
+    reset();
+  };
+
+  const stamp = format(new Date(), 'yyyy-MM-dd');
+
+  return (
+    <div className="bg-white rounded-2xl shadow-xl p-6">
+      <h2 className="text-2xl font-bold text-gray-800 mb-2">{t('import.title')}</h2>
+      <p className="text-sm text-gray-600 mb-6">{t('import.intro')}</p>
+
+      {/* Export */}
+      <div className="flex flex-wrap gap-2 mb-6">
+        <button
+          onClick={() => learner && downloadFile(`voice-tutor-backup-${stamp}.json`, buildBackup(learner, words, sessions), 'application/json')}
+          className="flex items-center gap-2 px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors"
+        >
+          <Download className="w-4 h-4" />
+          <span>{t('import.backup')}</span>
+        </button>
+        <button
+          onClick={() => downloadFile(`voice-tutor-words-${stamp}.csv`, wordsToCsv(words), 'text/csv')}
+          className="flex items-center gap-2 px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors"
+        >
+          <Download className="w-4 h-4" />
+          <span>{t('import.exportWords')}</span>
+        </button>
+        <button
+          onClick={() => downloadFile(`voice-tutor-sessions-${stamp}.csv`, sessionsToCsv(sessions, words), 'text/csv')}
+          className="flex items-center gap-2 px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors"
+        >
+          <Download className="w-4 h-4" />
+          <span>{t('import.exportSessions')}</span>
+        </button>
+      </div>
+
+      {/* Import */}
+      <label className="flex items-center justify-center gap-2 p-4 border-2 border-dashed border-gray-300 rounded-lg cursor-pointer hover:border-blue-400 hover:bg-blue-50 transition-colors">
+        <Upload className="w-5 h-5 text-gray-500" />
+        <span className="text-sm text-gray-600">{fileName ?? t('import.chooseFile')}</span>
+        <input
+          type="file"
+          accept=".csv,.tsv,.txt,.json,.apkg"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) handleFile(file);
+            e.target.value = '';
+          }}
+        />
+      </label>
+
+      {result && (
+        <p className="mt-4 flex items-center gap-2 text-sm text-green-700">
+          <CheckCircle className="w-4 h-4" />
+          <span>{result}</span>
+        </p>
+      )}
+
+      {loadError && <p className="mt-4 text-sm text-red-600">{loadError}</p>}
+
+      {/* Column mapping and preview for tabular files */}
+      {table && (
+        <div className="mt-6 space-y-4">
+          <div>
+            <h3 className="font-semibold text-gray-700 mb-2">{t('import.columns')}</h3>
+            <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+              {table.columns.map((column, i) => (
+                <label key={i} className="text-xs text-gray-600">
+                  {column || t('import.column', { number: i + 1 })}
+                  <select
+                    value={mapping[i] ?? ''}
+                    onChange={(e) => setMapping(current => current.map((field, n) =>
+                      n === i ? (e.target.value as ImportField) || null : field
+                    ))}
+                    className="w-full px-2 py-1.5 border border-gray-300 rounded-lg text-sm"
+                  >
+                    <option value="">{t('import.ignore')}</option>
+                    {IMPORT_FIELDS.map(field => (
+                      <option key={field} value={field}>{t(FIELD_LABELS[field])}</option>
+                    ))}
+                    {languages.map(language => (
+                      <option key={language} value={`translation:${language}`}>
+                        {t('import.translation', { language: languageName(language) })}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <p className="text-sm text-gray-700">
+            {t('import.summary', { new: counts.new, duplicate: counts.duplicate, repeated: counts.repeated, error: counts.error })}
+            {counts.duplicate + counts.repeated > 0 && ` ${t('import.duplicatesSkipped')}`}
+          </p>
+
+          <div className="max-h-80 overflow-y-auto border border-gray-200 rounded-lg">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50 text-start text-gray-600 sticky top-0">
+                <tr>
+                  <th className="px-3 py-2">{t('import.line')}</th>
+                  <th className="px-3 py-2">{t('import.word')}</th>
+                  <th className="px-3 py-2">{t('import.details')}</th>
+                  <th className="px-3 py-2">{t('import.status')}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {preview.slice(0, PREVIEW_ROWS).map(row => (
+                  <tr key={row.line} className="border-t border-gray-100">
+                    <td className="px-3 py-2 text-gray-400">{row.line}</td>
+                    <td dir="auto" className="px-3 py-2 font-medium text-gray-800">{row.word?.word}</td>
+                    <td className="px-3 py-2 text-gray-600">
+                      {row.word?.details?.ipa && <span dir="ltr">/{row.word.details.ipa}/ </span>}
+                      {row.word?.details?.definition ?? Object.values(row.word?.details?.translations ?? {})[0]}
+                      {row.message}
+                    </td>
+                    <td className="px-3 py-2">
+                      <span className={`px-2 py-0.5 rounded-full text-xs ${STATUS_STYLES[row.status].className}`}>
+                        {t(STATUS_STYLES[row.status].label)}
+                      </span>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {preview.length > PREVIEW_ROWS && (
+              <p className="px-3 py-2 text-xs text-gray-500">{t('import.moreRows', { count: preview.length - PREVIEW_ROWS })}</p>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Backup summary */}
+      {backup && (
+        <p className="mt-6 text-sm text-gray-700">
+          {t('import.backupSummary', {
+            words: t('import.words', { count: backup.data.words.length }),
+            new: newBackupWords,
+            sessions: t('import.sessions', { count: backup.data.sessions.length })
+          })}
+        </p>
+      )}
+
+      {/* Error report */}
+      {errors.length > 0 && (
+        <div className="mt-4 p-4 bg-red-50 rounded-lg">
+          <div className="flex items-center justify-between mb-2">
+            <p className="flex items-center gap-2 text-sm font-semibold text-red-700">
+              <FileWarning className="w-4 h-4" />
+              <span>{t('import.problems', { count: errors.length })}</span>
+            </p>
+            <button
+              onClick={() => downloadFile(`import-errors-${stamp}.csv`, errorReportCsv(errors), 'text/csv')}
+              className="text-xs text-red-700 underline"
+            >
+              {t('import.errorReport')}
+            </button>
+          </div>
+          <ul className="text-xs text-red-700 space-y-1 max-h-32 overflow-y-auto">
+            {errors.slice(0, 20).map((error, i) => (
+              <li key={i}>{error.line > 0 ? t('import.errorLine', { line: error.line, message: error.message }) : error.message}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {(table || backup) && (
+        <div className="mt-4 flex justify-end gap-2">
+          <button
+            onClick={reset}
+            className="px-4 py-2 text-sm text-gray-600 hover:text-gray-800"
+          >
+            {t('import.cancel')}
+          </button>
+          <button
+            onClick={handleImport}
+            disabled={table ? counts.new === 0 : !backup || (newBackupWords === 0 && backup.data.sessions.length === 0)}
+            className="px-4 py-2 bg-green-500 text-white rounded-lg hover:bg-green-600 disabled:bg-gray-300 transition-colors"
+          >
+            {t('import.import')}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -2,60 +2,62 @@
 
 import { Globe } from 'lucide-react';
 import { useStore } from '@/lib/store';
-
-const languages = [
-  { code: 'en', name: 'English', native: 'English' },
-  { code: 'es', name: 'Spanish', native: 'Español' },
-  { code: 'fr', name: 'French', native: 'Français' },
-  { code: 'de', name: 'German', native: 'Deutsch' },
-  { code: 'it', name: 'Italian', native: 'Italiano' },
-  { code: 'pt', name: 'Portuguese', native: 'Português' },
-  { code: 'ru', name: 'Russian', native: 'Русский' },
-  { code: 'zh', name: 'Chinese', native: '中文' },
-  { code: 'ja', name: 'Japanese', native: '日本語' },
-  { code: 'ko', name: 'Korean', native: '한국어' },
-  { code: 'ar', name: 'Arabic', native: 'العربية' },
-  { code: 'hi', name: 'Hindi', native: 'हिन्दी' },
-  { code: 'tr', name: 'Turkish', native: 'Türkçe' },
-  { code: 'pl', name: 'Polish', native: 'Polski' },
-  { code: 'nl', name: 'Dutch', native: 'Nederlands' },
-  { code: 'sv', name: 'Swedish', native: 'Svenska' }
-];
+import { LANGUAGES } from '@/lib/languages';
+import { useTranslation } from '@/lib/i18n';
 
 export function LanguageSelector() {
-  const { homeLanguage, setHomeLanguage, isRecording } = useStore();
+  const { homeLanguage, setHomeLanguage, targetLanguage, setTargetLanguage, isRecording } = useStore();
+  const { t, languageName } = useTranslation();
+
+  const selectClass = `w-full px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+    isRecording ? 'opacity-50 cursor-not-allowed bg-gray-50' : 'bg-white'
+  }`;
+  const options = LANGUAGES.map((lang) => (
+    <option key={lang.code} value={lang.code}>
+      {languageName(lang.code)} ({lang.native})
+    </option>
+  ));
 
   return (
     <div className="bg-white rounded-2xl shadow-xl p-6">
-      <div className="flex items-center space-x-2 mb-4">
+      <div className="flex items-center gap-2 mb-4">
         <Globe className="w-5 h-5 text-blue-600" />
-        <h2 className="text-xl font-bold text-gray-800">Home Language</h2>
+        <h2 className="text-xl font-bold text-gray-800">{t('languages.title')}</h2>
       </div>
       
-      <p className="text-sm text-gray-600 mb-4">
-        Instructions and support will be provided in this language
+      <label className="block text-sm font-medium text-gray-700 mb-1">{t('languages.home')}</label>
+      <p className="text-sm text-gray-600 mb-2">
+        {t('languages.homeHelp')}
       </p>
       
       <select
         value={homeLanguage}
         onChange={(e) => setHomeLanguage(e.target.value)}
         disabled={isRecording}
-        className={`w-full px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 ${
-          isRecording ? 'opacity-50 cursor-not-allowed bg-gray-50' : 'bg-white'
-        }`}
+        className={selectClass}
+      >
+        {options}
+      </select>
+
+      <label className="block text-sm font-medium text-gray-700 mt-4 mb-1">{t('languages.target')}</label>
+      <p className="text-sm text-gray-600 mb-2">
+        {t('languages.targetHelp')}
+      </p>
+
+      <select
+        value={targetLanguage}
+        onChange={(e) => setTargetLanguage(e.target.value)}
+        disabled={isRecording}
+        className={selectClass}
       >
-        {languages.map((lang) => (
-          <option key={lang.code} value={lang.name}>
-            {lang.name} ({lang.native})
-          </option>
-        ))}
+        {options}
       </select>
       
       {isRecording && (
         <p className="text-xs text-gray-500 mt-2">
-          Language cannot be changed during an active session
+          {t('languages.locked')}
         </p>
       )}
     </div>
   );
-}
\ No newline at end of file
+}
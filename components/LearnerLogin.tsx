@@ -0,0 +1,119 @@
+'use client';
+
+import { useState } from 'react';
+import { Globe, LogIn, UserPlus } from 'lucide-react';
+import { useStore } from '@/lib/store';
+import { LANGUAGES } from '@/lib/languages';
+import { useTranslation } from '@/lib/i18n';
+
+export function LearnerLogin() {
+  const [mode, setMode] = useState<'sign-in' | 'register'>('sign-in');
+  const [username, setUsername] = useState('');
+  const [displayName, setDisplayName] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const { signIn, register, homeLanguage, setHomeLanguage } = useStore();
+  const { t } = useTranslation();
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setIsSubmitting(true);
+    try {
+      if (mode === 'sign-in') {
+        await signIn(username.trim(), password);
+      } else {
+        await register(username.trim(), displayName.trim(), password);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('login.failed'));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const inputClass = 'w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+  return (
+    <div className="max-w-md mx-auto bg-white rounded-2xl shadow-xl p-8">
+      <div className="flex items-start justify-between mb-2">
+        <h2 className="text-2xl font-bold text-gray-800">
+          {mode === 'sign-in' ? t('login.signIn') : t('login.register')}
+        </h2>
+        {/* Pick a language before signing in, so the form itself can be read */}
+        <label className="flex items-center gap-1 text-sm text-gray-500">
+          <Globe className="w-4 h-4" />
+          <select
+            value={homeLanguage}
+            onChange={(e) => setHomeLanguage(e.target.value)}
+            aria-label={t('languages.home')}
+            className="bg-transparent focus:outline-none"
+          >
+            {LANGUAGES.map((lang) => (
+              <option key={lang.code} value={lang.code}>
+                {lang.native}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+      <p className="text-sm text-gray-600 mb-6">
+        {t('login.intro')}
+      </p>
+
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <input
+          type="text"
+          value={username}
+          onChange={(e) => setUsername(e.target.value)}
+          placeholder={t('login.username')}
+          autoComplete="username"
+          required
+          className={inputClass}
+        />
+        {mode === 'register' && (
+          <input
+            type="text"
+            value={displayName}
+            onChange={(e) => setDisplayName(e.target.value)}
+            placeholder={t('login.displayName')}
+            autoComplete="name"
+            className={inputClass}
+          />
+        )}
+        <input
+          type="password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          placeholder={t('login.password')}
+          autoComplete={mode === 'sign-in' ? 'current-password' : 'new-password'}
+          required
+          className={inputClass}
+        />
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        <button
+          type="submit"
+          disabled={isSubmitting}
+          className="w-full py-3 bg-blue-500 hover:bg-blue-600 disabled:opacity-50 text-white font-semibold rounded-lg transition-colors flex items-center justify-center gap-2"
+        >
+          {mode === 'sign-in' ? <LogIn className="w-4 h-4" /> : <UserPlus className="w-4 h-4" />}
+          <span>{mode === 'sign-in' ? t('login.signIn') : t('login.createAccount')}</span>
+        </button>
+      </form>
+
+      <button
+        onClick={() => {
+          setMode(mode === 'sign-in' ? 'register' : 'sign-in');
+          setError('');
+        }}
+        className="mt-4 text-sm text-blue-600 hover:text-blue-700 underline"
+      >
+        {mode === 'sign-in' ? t('login.toRegister') : t('login.toSignIn')}
+      </button>
+    </div>
+  );
+}
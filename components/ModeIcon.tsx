@@ -0,0 +1,18 @@
+import { BookOpen, GraduationCap, Headphones, MessageCircle, Mic, Repeat, Sparkles, Target, type LucideIcon } from 'lucide-react';
+
+// The icons a practice mode can have, by the names server/practice-modes.js accepts
+const icons: Record<string, LucideIcon> = {
+  mic: Mic,
+  'book-open': BookOpen,
+  'message-circle': MessageCircle,
+  headphones: Headphones,
+  target: Target,
+  sparkles: Sparkles,
+  'graduation-cap': GraduationCap,
+  repeat: Repeat
+};
+
+export function ModeIcon({ icon, className }: { icon: string; className?: string }) {
+  const Icon = icons[icon] ?? MessageCircle;
+  return <Icon className={className} />;
+}
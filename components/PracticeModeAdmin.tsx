@@ -0,0 +1,239 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Plus, Pencil, RotateCcw, Trash2, LogOut } from 'lucide-react';
+import * as persistence from '@/lib/persistence';
+import type { PracticeModeDefinition, PracticeModeDraft, PracticeModeOptions } from '@/lib/practice-modes';
+import { PracticeModeEditor } from './PracticeModeEditor';
+import { ModeIcon } from './ModeIcon';
+
+// Held for the browser tab only - it's the server's ADMIN_API_TOKEN
+const TOKEN_KEY = 'voice-tutor-admin-token';
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+// A new mode starts from the tuning of the built-in conversation mode
+function newDraft(modes: PracticeModeDefinition[]): PracticeModeDraft {
+  const template = modes.find(m => m.id === 'conversation');
+  return {
+    base: 'conversation',
+    name: '',
+    description: '',
+    icon: 'sparkles',
+    color: 'teal',
+    enabled: true,
+    prompts: {},
+    attemptsPerWord: template?.attemptsPerWord ?? 3,
+    turnDetection: template?.turnDetection ?? { threshold: 0.5, prefixPaddingMs: 300, silenceDurationMs: 500 },
+    scoring: { passingScore: null, rubric: '' }
+  };
+}
+
+export function PracticeModeAdmin() {
+  const [token, setToken] = useState<string | null>(null);
+  const [tokenInput, setTokenInput] = useState('');
+  const [modes, setModes] = useState<PracticeModeDefinition[]>([]);
+  const [options, setOptions] = useState<PracticeModeOptions | null>(null);
+  const [editing, setEditing] = useState<{ draft: PracticeModeDraft; builtIn: boolean } | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  useEffect(() => {
+    setToken(sessionStorage.getItem(TOKEN_KEY));
+  }, []);
+
+  const signOut = useCallback(() => {
+    sessionStorage.removeItem(TOKEN_KEY);
+    setToken(null);
+    setModes([]);
+    setOptions(null);
+    setEditing(null);
+  }, []);
+
+  useEffect(() => {
+    if (!token) return;
+    persistence.fetchAdminPracticeModes(token)
+      .then(result => {
+        setModes(result.modes);
+        setOptions(result.options);
+        setError(null);
+      })
+      .catch(error => {
+        setError(error.message);
+        // A wrong token (or admin routes switched off) - ask again
+        if (error.message === 'Forbidden') signOut();
+      });
+  }, [token, signOut]);
+
+  const handleSignIn = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!tokenInput.trim()) return;
+    sessionStorage.setItem(TOKEN_KEY, tokenInput.trim());
+    setToken(tokenInput.trim());
+    setTokenInput('');
+  };
+
+  const replaceMode = (id: string, mode: PracticeModeDefinition | null) => {
+    setModes(current => {
+      if (!mode) return current.filter(m => m.id !== id);
+      return current.some(m => m.id === id) ? current.map(m => (m.id === id ? mode : m)) : [...current, mode];
+    });
+  };
+
+  const handleSave = async (draft: PracticeModeDraft) => {
+    if (!token) return;
+    setSaving(true);
+    setError(null);
+    try {
+      const saved = await persistence.saveAdminPracticeMode(token, draft);
+      replaceMode(saved.id, saved);
+      setEditing(null);
+      setNotice(`Saved "${saved.name}" - it applies from the next lesson a learner starts.`);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : String(error));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (mode: PracticeModeDefinition) => {
+    if (!token) return;
+    const question = mode.builtIn
+      ? `Reset "${mode.name}" to how it ships? Your changes to it will be lost.`
+      : `Delete "${mode.name}"? Learners' past sessions in it are kept.`;
+    if (!confirm(question)) return;
+    setError(null);
+    try {
+      replaceMode(mode.id, await persistence.deleteAdminPracticeMode(token, mode.id));
+      if (editing?.draft.id === mode.id) setEditing(null);
+      setNotice(mode.builtIn ? `Reset "${mode.name}".` : `Deleted "${mode.name}".`);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  if (!token) {
+    return (
+      <form onSubmit={handleSignIn} className="max-w-md mx-auto bg-white rounded-xl shadow-lg p-6 space-y-3">
+        <h2 className="text-xl font-semibold text-gray-800">Admin sign-in</h2>
+        <p className="text-sm text-gray-600">Enter the server&apos;s admin token (ADMIN_API_TOKEN).</p>
+        <input
+          type="password"
+          value={tokenInput}
+          onChange={(e) => setTokenInput(e.target.value)}
+          autoComplete="off"
+          className={inputClass}
+        />
+        {error && <p className="text-sm text-red-600">{error}</p>}
+        <button
+          type="submit"
+          disabled={!tokenInput.trim()}
+          className="w-full px-4 py-2 bg-blue-600 text-white text-sm rounded-lg hover:bg-blue-700 disabled:bg-gray-300"
+        >
+          Sign in
+        </button>
+      </form>
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-5 gap-6">
+      <div className="lg:col-span-2 space-y-4">
+        <div className="bg-white rounded-xl shadow-lg p-6">
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-xl font-semibold text-gray-800">Practice modes</h2>
+            <div className="flex items-center gap-3">
+              <button
+                type="button"
+                onClick={() => options && setEditing({ draft: newDraft(modes), builtIn: false })}
+                disabled={!options}
+                className="flex items-center gap-1 text-sm text-blue-600 hover:text-blue-700 disabled:text-gray-400"
+              >
+                <Plus className="w-4 h-4" />
+                <span>New mode</span>
+              </button>
+              <button
+                type="button"
+                onClick={signOut}
+                title="Sign out"
+                className="text-gray-500 hover:text-gray-700"
+              >
+                <LogOut className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+
+          <ul className="space-y-2">
+            {modes.map(mode => (
+              <li
+                key={mode.id}
+                className={`flex items-center justify-between p-3 rounded-lg ${
+                  editing?.draft.id === mode.id ? 'bg-blue-50 ring-1 ring-blue-200' : 'bg-gray-50'
+                }`}
+              >
+                <div className="flex items-center gap-3 min-w-0">
+                  <ModeIcon icon={mode.icon} className="w-5 h-5 text-gray-600 shrink-0" />
+                  <div className="min-w-0">
+                    <p className="font-medium text-gray-800 truncate">
+                      {mode.name}
+                      {!mode.enabled && <span className="ms-2 text-xs text-gray-500">(off)</span>}
+                    </p>
+                    <p className="text-xs text-gray-500 truncate">
+                      {mode.id} · {mode.base}{mode.builtIn ? ' · built in' : ''}
+                      {mode.updatedAt ? ` · edited ${new Date(mode.updatedAt).toLocaleDateString()}` : ''}
+                    </p>
+                  </div>
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  <button
+                    type="button"
+                    onClick={() => setEditing({ draft: mode, builtIn: mode.builtIn })}
+                    title="Edit"
+                    className="text-gray-500 hover:text-blue-600"
+                  >
+                    <Pencil className="w-4 h-4" />
+                  </button>
+                  {(!mode.builtIn || mode.updatedAt) && (
+                    <button
+                      type="button"
+                      onClick={() => handleDelete(mode)}
+                      title={mode.builtIn ? 'Reset to how it ships' : 'Delete'}
+                      className="text-gray-500 hover:text-red-600"
+                    >
+                      {mode.builtIn ? <RotateCcw className="w-4 h-4" /> : <Trash2 className="w-4 h-4" />}
+                    </button>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+        {notice && !error && <p className="text-sm text-green-700">{notice}</p>}
+      </div>
+
+      <div className="lg:col-span-3">
+        {editing && options ? (
+          <PracticeModeEditor
+            // Start afresh when a different mode is opened
+            key={editing.draft.id ?? 'new'}
+            mode={editing.draft}
+            options={options}
+            builtIn={editing.builtIn}
+            saving={saving}
+            onSave={handleSave}
+            onCancel={() => setEditing(null)}
+          />
+        ) : (
+          <div className="bg-white rounded-xl shadow-lg p-6 text-sm text-gray-600">
+            Pick a mode to edit its prompts, pacing, turn detection and scoring, or add a new one.
+            Changes apply from the next lesson a learner starts; names and icons update when the
+            app is next opened.
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,294 @@
+'use client';
+
+import { useState } from 'react';
+import { Save, X, Copy } from 'lucide-react';
+import type { LessonMode } from '@/lib/lesson-engine';
+import type { PracticeModeDraft, PracticeModeOptions, TurnDetection } from '@/lib/practice-modes';
+import { ModeIcon } from './ModeIcon';
+
+interface PracticeModeEditorProps {
+  mode: PracticeModeDraft;
+  options: PracticeModeOptions;
+  builtIn: boolean;
+  saving: boolean;
+  onSave: (mode: PracticeModeDraft) => void;
+  onCancel: () => void;
+}
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+const BASE_LABELS: Record<LessonMode, string> = {
+  pronunciation: 'Pronunciation drill - a fixed number of attempts per word',
+  vocabulary: 'Vocabulary - meanings and usage',
+  conversation: 'Conversation - words worked into free dialogue',
+  'pronunciation-test': 'Pronunciation test - scored attempts'
+};
+
+export function PracticeModeEditor({ mode, options, builtIn, saving, onSave, onCancel }: PracticeModeEditorProps) {
+  const [draft, setDraft] = useState<PracticeModeDraft>(mode);
+  const isTest = draft.base === 'pronunciation-test';
+  const templateNames = options.templatesByBase[draft.base];
+
+  const update = (changes: Partial<PracticeModeDraft>) => setDraft(current => ({ ...current, ...changes }));
+  const updateVad = (changes: Partial<TurnDetection>) => update({ turnDetection: { ...draft.turnDetection, ...changes } });
+  const updatePrompt = (name: string, text: string) => update({ prompts: { ...draft.prompts, [name]: text } });
+
+  // Overrides for templates the new base doesn't use would be refused on save
+  const handleBaseChange = (base: LessonMode) => {
+    const names = options.templatesByBase[base];
+    update({
+      base,
+      prompts: Object.fromEntries(Object.entries(draft.prompts).filter(([name]) => names.includes(name)))
+    });
+  };
+
+  const handleSave = () => {
+    onSave({
+      ...draft,
+      prompts: Object.fromEntries(Object.entries(draft.prompts).filter(([, text]) => text.trim()))
+    });
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-6 space-y-5">
+      <div className="flex items-center justify-between">
+        <h2 className="text-xl font-semibold text-gray-800">
+          {draft.id ? `Edit "${mode.name}"` : 'New practice mode'}
+        </h2>
+        <button type="button" onClick={onCancel} className="text-gray-500 hover:text-gray-700" title="Close">
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      <section className="space-y-3">
+        <h3 className="font-semibold text-gray-700">What learners see</h3>
+        <div className="grid grid-cols-2 gap-3">
+          <label className="text-xs text-gray-600">
+            Name
+            <input
+              type="text"
+              value={draft.name}
+              onChange={(e) => update({ name: e.target.value })}
+              maxLength={40}
+              className={inputClass}
+            />
+          </label>
+          <label className="text-xs text-gray-600">
+            Lesson type
+            <select
+              value={draft.base}
+              onChange={(e) => handleBaseChange(e.target.value as LessonMode)}
+              disabled={builtIn}
+              className={inputClass}
+            >
+              {options.bases
+                .filter(base => builtIn || base !== 'pronunciation-test')
+                .map(base => (
+                  <option key={base} value={base}>{BASE_LABELS[base]}</option>
+                ))}
+            </select>
+          </label>
+        </div>
+        <label className="block text-xs text-gray-600">
+          Description
+          <input
+            type="text"
+            value={draft.description}
+            onChange={(e) => update({ description: e.target.value })}
+            maxLength={160}
+            className={inputClass}
+          />
+        </label>
+        {builtIn && (
+          <p className="text-xs text-gray-500">
+            While the name and description are unchanged, learners see them translated into their language.
+          </p>
+        )}
+
+        <div className="text-xs text-gray-600">
+          Icon
+          <div className="flex flex-wrap gap-2 mt-1">
+            {options.icons.map(icon => (
+              <button
+                key={icon}
+                type="button"
+                onClick={() => update({ icon })}
+                title={icon}
+                className={`p-2 rounded-lg border-2 ${
+                  draft.icon === icon ? 'border-blue-500 bg-blue-50 text-blue-600' : 'border-gray-200 text-gray-600 hover:border-gray-300'
+                }`}
+              >
+                <ModeIcon icon={icon} className="w-5 h-5" />
+              </button>
+            ))}
+          </div>
+        </div>
+        <label className="block text-xs text-gray-600">
+          Colour
+          <select value={draft.color} onChange={(e) => update({ color: e.target.value })} className={inputClass}>
+            {options.colors.map(color => (
+              <option key={color} value={color}>{color}</option>
+            ))}
+          </select>
+        </label>
+        {!isTest && (
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input type="checkbox" checked={draft.enabled} onChange={(e) => update({ enabled: e.target.checked })} />
+            Offered to learners
+          </label>
+        )}
+      </section>
+
+      <section className="space-y-3">
+        <h3 className="font-semibold text-gray-700">Pacing and turn detection</h3>
+        <div className="grid grid-cols-2 gap-3">
+          <label className="text-xs text-gray-600">
+            Attempts per word
+            <input
+              type="number"
+              min={1}
+              max={5}
+              value={draft.attemptsPerWord}
+              onChange={(e) => update({ attemptsPerWord: Number(e.target.value) })}
+              className={inputClass}
+            />
+          </label>
+          <label className="text-xs text-gray-600">
+            VAD threshold (0.1-0.95)
+            <input
+              type="number"
+              min={0.1}
+              max={0.95}
+              step={0.05}
+              value={draft.turnDetection.threshold}
+              onChange={(e) => updateVad({ threshold: Number(e.target.value) })}
+              className={inputClass}
+            />
+          </label>
+          <label className="text-xs text-gray-600">
+            Prefix padding (ms)
+            <input
+              type="number"
+              min={0}
+              max={2000}
+              step={50}
+              value={draft.turnDetection.prefixPaddingMs}
+              onChange={(e) => updateVad({ prefixPaddingMs: Number(e.target.value) })}
+              className={inputClass}
+            />
+          </label>
+          <label className="text-xs text-gray-600">
+            Silence before the turn ends (ms)
+            <input
+              type="number"
+              min={200}
+              max={3000}
+              step={50}
+              value={draft.turnDetection.silenceDurationMs}
+              onChange={(e) => updateVad({ silenceDurationMs: Number(e.target.value) })}
+              className={inputClass}
+            />
+          </label>
+        </div>
+        <p className="text-xs text-gray-500">
+          A higher threshold needs louder speech to count as a turn; a longer silence gives slow,
+          careful attempts time to finish.
+        </p>
+      </section>
+
+      <section className="space-y-3">
+        <h3 className="font-semibold text-gray-700">Scoring</h3>
+        {isTest && (
+          <label className="block text-xs text-gray-600">
+            Passing score (0-100)
+            <input
+              type="number"
+              min={0}
+              max={100}
+              value={draft.scoring.passingScore ?? ''}
+              onChange={(e) => update({ scoring: { ...draft.scoring, passingScore: e.target.value === '' ? null : Number(e.target.value) } })}
+              className={inputClass}
+            />
+          </label>
+        )}
+        <label className="block text-xs text-gray-600">
+          Rubric
+          <textarea
+            value={draft.scoring.rubric}
+            onChange={(e) => update({ scoring: { ...draft.scoring, rubric: e.target.value } })}
+            rows={5}
+            maxLength={2000}
+            placeholder={'- The vowel length is right\n- The stress is on the right syllable'}
+            className={`${inputClass} font-mono`}
+          />
+          <span className="text-gray-500">
+            {isTest
+              ? 'The scoring guide the tutor grades each attempt by.'
+              : 'Optional - what the tutor judges attempts against. Leave empty for none.'}
+          </span>
+        </label>
+      </section>
+
+      <section className="space-y-3">
+        <h3 className="font-semibold text-gray-700">Prompts</h3>
+        <p className="text-xs text-gray-500">
+          Leave a prompt empty to use the one that ships with the app. Placeholders in braces are
+          filled in for each lesson; only the ones listed can be used.
+        </p>
+        {templateNames.map(name => {
+          const template = options.templates[name];
+          const text = draft.prompts[name] ?? '';
+          return (
+            <div key={name} className="space-y-1">
+              <div className="flex items-center justify-between">
+                <span className="text-xs font-medium text-gray-700">
+                  {name} <span className="text-gray-400">v{template.version}</span>
+                </span>
+                <button
+                  type="button"
+                  onClick={() => updatePrompt(name, template.text)}
+                  disabled={Boolean(text)}
+                  className="flex items-center gap-1 text-xs text-blue-600 hover:text-blue-700 disabled:text-gray-400"
+                >
+                  <Copy className="w-3 h-3" />
+                  <span>Start from the shipped text</span>
+                </button>
+              </div>
+              <textarea
+                value={text}
+                onChange={(e) => updatePrompt(name, e.target.value)}
+                rows={text ? 8 : 2}
+                placeholder="Shipped text"
+                className={`${inputClass} font-mono`}
+              />
+              {template.variables.length > 0 && (
+                <p className="text-xs text-gray-500">
+                  {template.variables.map(variable => `{${variable}}`).join(' ')}
+                </p>
+              )}
+            </div>
+          );
+        })}
+      </section>
+
+      <div className="flex justify-end gap-2">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-4 py-2 text-sm text-gray-600 hover:text-gray-800"
+        >
+          Cancel
+        </button>
+        <button
+          type="button"
+          onClick={handleSave}
+          disabled={saving || !draft.name.trim()}
+          className="flex items-center gap-1 px-4 py-2 bg-blue-600 text-white text-sm rounded-lg hover:bg-blue-700 disabled:bg-gray-300"
+        >
+          <Save className="w-4 h-4" />
+          <span>{saving ? 'Saving...' : 'Save'}</span>
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -1,49 +1,33 @@
 'use client';
 
-import { Mic, BookOpen, MessageCircle } from 'lucide-react';
 import { useStore } from '@/lib/store';
+import { useTranslation } from '@/lib/i18n';
+import { modeDescription, modeName, selectableModes } from '@/lib/practice-modes';
+import { ModeIcon } from './ModeIcon';
 
-const modes = [
-  {
-    id: 'pronunciation' as const,
-    name: 'Pronunciation',
-    icon: Mic,
-    description: 'Focus on speaking words clearly and correctly',
-    color: 'blue'
-  },
-  {
-    id: 'vocabulary' as const,
-    name: 'Vocabulary',
-    icon: BookOpen,
-    description: 'Learn word meanings and usage in context',
-    color: 'green'
-  },
-  {
-    id: 'conversation' as const,
-    name: 'Conversation',
-    icon: MessageCircle,
-    description: 'Practice natural conversation with learned words',
-    color: 'purple'
-  }
-];
+// Active colours for the palette server/practice-modes.js offers
+const colorClasses = {
+  blue: 'bg-blue-500 border-blue-500 text-blue-600 bg-blue-50',
+  green: 'bg-green-500 border-green-500 text-green-600 bg-green-50',
+  purple: 'bg-purple-500 border-purple-500 text-purple-600 bg-purple-50',
+  amber: 'bg-amber-500 border-amber-500 text-amber-600 bg-amber-50',
+  rose: 'bg-rose-500 border-rose-500 text-rose-600 bg-rose-50',
+  teal: 'bg-teal-500 border-teal-500 text-teal-600 bg-teal-50'
+};
 
 export function PracticeModes() {
-  const { practiceMode, setPracticeMode, isRecording } = useStore();
+  const { practiceModes, practiceMode, setPracticeMode, isRecording } = useStore();
+  const { t } = useTranslation();
+  const modes = selectableModes(practiceModes);
 
   return (
     <div className="bg-white rounded-2xl shadow-xl p-6">
-      <h2 className="text-2xl font-bold text-gray-800 mb-6">Practice Mode</h2>
+      <h2 className="text-2xl font-bold text-gray-800 mb-6">{t('modes.title')}</h2>
       
       <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
         {modes.map((mode) => {
-          const Icon = mode.icon;
           const isActive = practiceMode === mode.id;
-          const colorClasses = {
-            blue: 'bg-blue-500 border-blue-500 text-blue-600 bg-blue-50',
-            green: 'bg-green-500 border-green-500 text-green-600 bg-green-50',
-            purple: 'bg-purple-500 border-purple-500 text-purple-600 bg-purple-50'
-          };
-          const colors = colorClasses[mode.color as keyof typeof colorClasses];
+          const colors = colorClasses[mode.color as keyof typeof colorClasses] ?? colorClasses.blue;
           
           return (
             <button
@@ -60,7 +44,7 @@ export function PracticeModes() {
                 <div className={`p-3 rounded-full ${
                   isActive ? colors.split(' ')[0] : 'bg-gray-100'
                 }`}>
-                  <Icon className={`w-6 h-6 ${
+                  <ModeIcon icon={mode.icon} className={`w-6 h-6 ${
                     isActive ? 'text-white' : 'text-gray-600'
                   }`} />
                 </div>
@@ -68,10 +52,10 @@ export function PracticeModes() {
                   <h3 className={`font-semibold ${
                     isActive ? colors.split(' ')[2] : 'text-gray-800'
                   }`}>
-                    {mode.name}
+                    {modeName(mode, t)}
                   </h3>
                   <p className="text-xs text-gray-600 mt-1">
-                    {mode.description}
+                    {modeDescription(mode, t)}
                   </p>
                 </div>
               </div>
@@ -82,7 +66,7 @@ export function PracticeModes() {
       
       {isRecording && (
         <p className="text-sm text-gray-500 text-center mt-4">
-          Mode cannot be changed during an active session
+          {t('modes.locked')}
         </p>
       )}
     </div>
@@ -1,9 +1,19 @@
 'use client';
 
 import { useState, useEffect, useRef } from 'react';
-import { Phone, PhoneOff, Volume2, Check, X, Award, RotateCcw } from 'lucide-react';
-import { useStore } from '@/lib/store';
-import { RealtimeClient } from '@/lib/openai-realtime';
+import { Phone, PhoneOff, Volume2, Check, X, Award, RotateCcw, AlertTriangle } from 'lucide-react';
+import { useStore, Turn, Word } from '@/lib/store';
+import { RealtimeClient, PronunciationAssessment, QuotaExceeded } from '@/lib/openai-realtime';
+import { LessonState } from '@/lib/lesson-engine';
+import { lessonOptions, PRONUNCIATION_TEST_MODE } from '@/lib/practice-modes';
+import { scoreToGrade } from '@/lib/srs';
+import { ScoreCrossCheck } from '@/lib/pronunciation-check';
+import { stressPattern } from '@/lib/dictionary';
+import { ttsVoice } from '@/lib/languages';
+import { useTranslation } from '@/lib/i18n';
+import { ChatLog } from './ChatLog';
+import { QuotaNotice } from './QuotaNotice';
+import { DeckSelector } from './DeckSelector';
 
 interface PronunciationScore {
   wordId: string;
@@ -12,37 +22,129 @@ interface PronunciationScore {
   attempts: number;
   feedback: string;
   passed: boolean;
+  assessment?: PronunciationAssessment;
+  crossCheck?: ScoreCrossCheck; // Tutor vs transcript for the latest attempt
+}
+
+function AssessmentDetails({ assessment }: { assessment: PronunciationAssessment }) {
+  const { t } = useTranslation();
+
+  return (
+    <div className="mt-2 space-y-1 text-sm text-gray-700">
+      {assessment.phonemeIssues.map((issue, idx) => (
+        <p key={idx}>
+          <span className="font-mono font-semibold">/{issue.phoneme}/</span> {issue.issue}
+          {issue.suggestion && <span className="text-gray-500"> — {issue.suggestion}</span>}
+        </p>
+      ))}
+      {!assessment.stress.correct && (
+        <p>{t('test.stress', { feedback: assessment.stress.feedback || t('test.stressHint') })}</p>
+      )}
+      {assessment.tips.length > 0 && (
+        <ul className="list-disc list-inside text-gray-600">
+          {assessment.tips.map((tip, idx) => <li key={idx}>{tip}</li>)}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+// Where the score came from, flagged when the tutor and the transcript disagree sharply
+function ScoreBreakdown({ crossCheck }: { crossCheck: ScoreCrossCheck }) {
+  const { t } = useTranslation();
+  if (crossCheck.localScore === null) return null;
+
+  return (
+    <div className={`mt-2 text-xs ${crossCheck.disagreement ? 'text-amber-700' : 'text-gray-500'}`}>
+      <p className="flex items-center gap-1">
+        {crossCheck.disagreement && <AlertTriangle className="w-3 h-3" />}
+        <span>
+          {t('test.scoreSources', { tutor: crossCheck.tutorScore, transcript: crossCheck.localScore })}
+          {crossCheck.check?.heard && <> {t('test.heard', { text: crossCheck.check.heard })}</>}
+        </span>
+      </p>
+      {crossCheck.disagreement && (
+        <p className="mt-1">{t('test.disagreement')}</p>
+      )}
+    </div>
+  );
+}
+
+// "My attempt" next to "tutor model" for one word, from the turns recorded during the test
+function WordRecordings({ word, turns }: { word: string; turns: Turn[] }) {
+  const { t } = useTranslation();
+  const recorded = turns.filter(turn => turn.word === word && turn.audioUrl);
+  const model = recorded.find(turn => turn.role === 'tutor');
+  const attempts = recorded.filter(turn => turn.role === 'learner');
+  if (!model && attempts.length === 0) return null;
+
+  return (
+    <div className="mt-3 grid grid-cols-1 sm:grid-cols-2 gap-3">
+      <div>
+        <p className="text-xs font-medium text-gray-500 mb-1">{t('test.myAttempts', { count: attempts.length })}</p>
+        {attempts.map((turn) => (
+          <audio key={turn.id} controls preload="none" src={turn.audioUrl} className="w-full h-8 mb-1" />
+        ))}
+      </div>
+      {model && (
+        <div>
+          <p className="text-xs font-medium text-gray-500 mb-1">{t('test.tutorModel')}</p>
+          <audio controls preload="none" src={model.audioUrl} className="w-full h-8" />
+        </div>
+      )}
+    </div>
+  );
 }
 
 export function PronunciationTest() {
   const [isTestActive, setIsTestActive] = useState(false);
   const [isConnected, setIsConnected] = useState(false);
-  const [currentWordIndex, setCurrentWordIndex] = useState(0);
-  const [currentAttempt, setCurrentAttempt] = useState(0);
+  const [lesson, setLesson] = useState<LessonState | null>(null);
   const [isListening, setIsListening] = useState(false);
-  const [userTranscript, setUserTranscript] = useState('');
-  const [tutorTranscript, setTutorTranscript] = useState('');
+  const [turns, setTurns] = useState<Turn[]>([]);
+  const [pendingReply, setPendingReply] = useState('');
   const [scores, setScores] = useState<PronunciationScore[]>([]);
   const [showResults, setShowResults] = useState(false);
-  const [waitingForPronunciation, setWaitingForPronunciation] = useState(false);
+  const [lockedWords, setLockedWords] = useState<Word[]>([]);
+  const [quotaExceeded, setQuotaExceeded] = useState<QuotaExceeded | null>(null);
   const clientRef = useRef<RealtimeClient | null>(null);
+  const { t, languageName } = useTranslation();
   
   const {
     homeLanguage,
     updateWordMastery,
     incrementPracticeCount,
+    reviewWord,
     startSession,
     endSession,
     addWordToSession,
+    addTurnToSession,
+    recordAudio,
     getWordsForPractice,
-    getAllWords
+    getAllWords,
+    getPracticeScope,
+    practiceDeck,
+    targetLanguage,
+    practiceModes
   } = useStore();
 
-  // Get words to test - prioritize least practiced words
-  const allWords = getAllWords();
-  const practiceWords = getWordsForPractice(10);
+  // The pass mark and attempts are set on the pronunciation test mode in the admin console
+  const testOptions = lessonOptions(practiceModes, PRONUNCIATION_TEST_MODE);
+  const passingScore = testOptions.passingScore ?? 70;
+
+  // Get words to test in the language being learned, from the chosen deck - words due for review today come first
+  const scope = getPracticeScope();
+  const allWords = getAllWords(false, scope);
+  const practiceWords = getWordsForPractice(10, scope);
   // Use practice words if available, otherwise use all words
-  const testWords = practiceWords.length > 0 ? practiceWords : allWords.slice(0, 10);
+  const candidateWords = practiceWords.length > 0 ? practiceWords : allWords.slice(0, 10);
+  // Reviews reschedule words mid-test, so the list is frozen once the test starts
+  const testWords = isTestActive ? lockedWords : candidateWords;
+  // The lesson engine in RealtimeClient owns progression; the UI just mirrors it
+  const currentWordIndex = lesson?.index ?? 0;
+  const currentAttempt = lesson?.attempt ?? 0;
+  const maxAttempts = lesson?.options.attemptsPerWord ?? testOptions.attemptsPerWord;
+  const canRetry = lesson?.phase === 'attempt' && currentAttempt > 0 && currentAttempt < maxAttempts;
   const currentWord = testWords[currentWordIndex];
 
   useEffect(() => {
@@ -55,17 +157,18 @@ export function PronunciationTest() {
   }, []);
 
   const startTest = async () => {
+    const words = candidateWords;
+    setLockedWords(words);
     setIsTestActive(true);
-    setCurrentWordIndex(0);
-    setCurrentAttempt(0);
-    setScores([]);
+    setLesson(null);
     setShowResults(false);
-    setUserTranscript('');
-    setTutorTranscript('');
-    startSession('pronunciation');
+    setQuotaExceeded(null);
+    setTurns([]);
+    setPendingReply('');
+    startSession(PRONUNCIATION_TEST_MODE);
     
     // Initialize scores for all test words
-    const initialScores = testWords.map(word => ({
+    const initialScores = words.map(word => ({
       wordId: word.id,
       word: word.word,
       score: 0,
@@ -76,17 +179,16 @@ export function PronunciationTest() {
     setScores(initialScores);
 
     // Start the conversational test
-    await connectToTutor();
+    await connectToTutor(words);
   };
 
-  const connectToTutor = async () => {
-    if (!testWords[0]) return;
+  const connectToTutor = async (words: Word[]) => {
+    if (!words[0]) return;
     
     try {
-      setUserTranscript('');
-      setTutorTranscript('');
+      setPendingReply('');
       
-      const client = new RealtimeClient();
+      const client = new RealtimeClient({ recordAudio });
       
       client.on('connected', () => {
         setIsConnected(true);
@@ -101,60 +203,65 @@ export function PronunciationTest() {
         setIsListening(false);
       });
 
-      client.on('user.transcript', (text: string) => {
-        setUserTranscript(text);
-        
-        // If we're waiting for pronunciation and user speaks
-        if (waitingForPronunciation && text.trim()) {
-          setWaitingForPronunciation(false);
-          setCurrentAttempt(prev => prev + 1);
-        }
+      client.on('assistant.transcript', (text: string) => {
+        setPendingReply(text);
       });
 
-      client.on('assistant.transcript', (text: string) => {
-        setTutorTranscript(text);
-        
-        // Check if tutor is asking for pronunciation
-        if (text.toLowerCase().includes('pronounce') || 
-            text.toLowerCase().includes('say') || 
-            text.toLowerCase().includes('repeat') ||
-            text.toLowerCase().includes('try')) {
-          setWaitingForPronunciation(true);
-        }
-        
-        // Parse feedback for score - look for various formats
-        const scorePatterns = [
-          /Score:\s*(\d+)/i,
-          /(\d+)\s*\/\s*100/i,
-          /(\d+)%/i
-        ];
-        
-        for (const pattern of scorePatterns) {
-          const match = text.match(pattern);
-          if (match) {
-            const score = parseInt(match[1]);
-            evaluatePronunciation(score, text);
-            break;
-          }
+      client.on('assistant.transcript.delta', (delta: string) => {
+        setPendingReply(prev => prev + delta);
+      });
+
+      // The whole test stays in the chat log and the session transcript
+      client.on('turn', (turn) => {
+        if (turn.role === 'tutor') setPendingReply('');
+        const stored = addTurnToSession(turn);
+        if (stored) setTurns(prev => [...prev, stored]);
+      });
+
+      client.on('lesson.state', (state) => {
+        setLesson(state);
+      });
+
+      // Scores come from the tutor's structured tool call, cross-checked against the transcript
+      client.on('pronunciation.scored', (assessment, index, crossCheck) => {
+        recordScore(index, assessment, crossCheck);
+      });
+
+      client.on('word.finished', ({ index, attempts, bestScore }) => {
+        const word = words[index];
+        if (!word) return;
+
+        setScores(prev => prev.map((s, idx) => idx === index ? { ...s, attempts } : s));
+
+        // Its best score becomes the review grade
+        reviewWord(word.id, scoreToGrade(bestScore ?? 0));
+        if ((bestScore ?? 0) >= passingScore) {
+          // `word` is the snapshot taken when the test started; build on the word as it is now
+          const current = useStore.getState().words.find(w => w.id === word.id) ?? word;
+          updateWordMastery(word.id, Math.min(100, current.mastery + 10));
+          incrementPracticeCount(word.id);
+          addWordToSession(word.id);
         }
       });
 
-      client.on('assistant.transcript.delta', (delta: string) => {
-        setTutorTranscript(prev => prev + delta);
+      client.on('lesson.complete', () => {
+        endTest();
       });
 
       client.on('disconnected', () => {
         setIsConnected(false);
       });
 
-      // Configure for pronunciation testing with first word
-      const clientWithMethods = client as RealtimeClient & {
-        setTestWord: (word: string) => void;
-        setPracticeMode: (mode: string) => void;
-      };
-      clientWithMethods.setTestWord(testWords[0].word);
-      clientWithMethods.setPracticeMode('pronunciation-test');
-      client.updateContext([], homeLanguage);
+      // Out of practice time for today: back to the start screen, which explains why
+      client.on('quota.exceeded', (quota) => {
+        setQuotaExceeded(quota);
+        client.disconnect();
+        stopTest();
+      });
+
+      // Configure for pronunciation testing - the client walks through the words itself
+      client.setPracticeMode(PRONUNCIATION_TEST_MODE, testOptions);
+      client.updateContext(words, homeLanguage, targetLanguage);
       
       await client.connect();
       
@@ -166,101 +273,24 @@ export function PronunciationTest() {
     }
   };
 
-  const evaluatePronunciation = (score: number, feedback: string) => {
-    if (!currentWord) return;
+  const recordScore = (index: number, assessment: PronunciationAssessment, crossCheck: ScoreCrossCheck) => {
+    // The tutor's score blended with the local transcript check - the same one the lesson grades on
+    const score = crossCheck.score;
     
-    // Update scores
     setScores(prev => prev.map((s, idx) => {
-      if (idx === currentWordIndex) {
+      if (idx === index) {
         return {
           ...s,
           score: Math.max(s.score, score),
-          attempts: currentAttempt,
-          feedback: feedback,
-          passed: score >= 70
+          attempts: s.attempts + 1,
+          feedback: assessment.tips.join(' '),
+          passed: s.passed || score >= passingScore,
+          assessment,
+          crossCheck
         };
       }
       return s;
     }));
-    
-    // Update word mastery if passed
-    if (score >= 70) {
-      updateWordMastery(currentWord.id, Math.min(100, currentWord.mastery + 10));
-      incrementPracticeCount(currentWord.id);
-      addWordToSession(currentWord.id);
-    }
-
-    // Automatically move to next word after a short delay
-    setTimeout(() => {
-      if (score >= 70 || currentAttempt >= 3) {
-        moveToNextWord();
-      }
-    }, 3000);
-  };
-
-  const moveToNextWord = () => {
-    if (currentWordIndex < testWords.length - 1) {
-      const nextIndex = currentWordIndex + 1;
-      setCurrentWordIndex(nextIndex);
-      setCurrentAttempt(0);
-      setUserTranscript('');
-      setWaitingForPronunciation(false);
-      
-      // Update the test word for the AI
-      if (clientRef.current && testWords[nextIndex]) {
-        const clientWithMethods = clientRef.current as RealtimeClient & {
-          setTestWord: (word: string) => void;
-          ws: WebSocket | null;
-        };
-        clientWithMethods.setTestWord(testWords[nextIndex].word);
-        
-        // Send instruction to test next word
-        if (clientWithMethods.ws && clientWithMethods.ws.readyState === WebSocket.OPEN) {
-          clientWithMethods.ws.send(JSON.stringify({
-            type: 'conversation.item.create',
-            item: {
-              type: 'message',
-              role: 'system',
-              content: [{
-                type: 'text',
-                text: `NEXT WORD TEST: "${testWords[nextIndex].word}"
-                       
-                       EVALUATION REQUIREMENTS:
-                       1. Ask the student to pronounce "${testWords[nextIndex].word}" clearly
-                       2. Listen with expert precision for:
-                          - Phoneme accuracy (each sound)
-                          - Stress placement
-                          - Clarity and flow
-                       3. Provide SPECIFIC feedback:
-                          - Exactly which sounds need work
-                          - HOW to position mouth/tongue
-                          - What was good
-                       4. Give a fair score (0-100):
-                          - 90+: Excellent, near-native
-                          - 75-89: Good, minor issues
-                          - 60-74: Fair, noticeable errors
-                          - Below 60: Needs significant work
-                       5. ALWAYS end with: "Score: [number]/100"
-                       
-                       Be honest but constructive - accurate feedback drives improvement!`
-              }]
-            }
-          }));
-          
-          // Trigger response
-          clientWithMethods.ws.send(JSON.stringify({
-            type: 'response.create',
-            response: {
-              modalities: ['text', 'audio'],
-              instructions: `Now test the word "${testWords[nextIndex].word}". Be critical but constructive in your evaluation.`
-            }
-          }));
-        }
-      }
-    } else {
-      // Test complete
-      endTest();
-    }
   };
 
   const endTest = () => {
@@ -287,55 +317,14 @@ export function PronunciationTest() {
   const playWordAudio = () => {
     if (currentWord && 'speechSynthesis' in window) {
       const utterance = new SpeechSynthesisUtterance(currentWord.word);
-      utterance.lang = 'en-US';
+      utterance.lang = ttsVoice(currentWord.language);
       utterance.rate = 0.8;
       speechSynthesis.speak(utterance);
     }
   };
 
   const retryWord = () => {
-    setUserTranscript('');
-    setWaitingForPronunciation(true);
-    
-    // Ask AI to retry the current word
-    if (clientRef.current && currentWord) {
-      const clientWithWs = clientRef.current as RealtimeClient & { ws: WebSocket | null };
-      if (clientWithWs.ws && clientWithWs.ws.readyState === WebSocket.OPEN) {
-        clientWithWs.ws.send(JSON.stringify({
-          type: 'conversation.item.create',
-          item: {
-            type: 'message',
-            role: 'system',
-            content: [{
-              type: 'text',
-              text: `The student wants to try pronouncing "${currentWord.word}" again.
-                     
-                     RETRY EVALUATION PROTOCOL:
-                     - Listen MORE carefully to this attempt
-                     - Compare directly to their previous attempt
-                     - Note SPECIFIC improvements:
-                       * "The 'th' sound is better now"
-                       * "Your stress placement improved"
-                     - Identify remaining issues:
-                       * "The 'r' still needs more curl"
-                       * "Watch the vowel length"
-                     - Adjust score based on improvement
-                     - End with "Score: [number]/100"
-                     
-                     Acknowledge effort while maintaining high standards!`
-            }]
-          }
-        }));
-        
-        clientWithWs.ws.send(JSON.stringify({
-          type: 'response.create',
-          response: {
-            modalities: ['text', 'audio'],
-            instructions: `Ask them to try "${currentWord.word}" again. Evaluate critically but note any improvements.`
-          }
-        }));
-      }
-    }
+    clientRef.current?.retryWord();
   };
 
   if (showResults) {
@@ -346,12 +335,12 @@ export function PronunciationTest() {
       <div className="bg-white rounded-2xl shadow-xl p-8">
         <div className="text-center mb-8">
           <Award className="w-16 h-16 text-yellow-500 mx-auto mb-4" />
-          <h2 className="text-3xl font-bold text-gray-800 mb-2">Test Complete!</h2>
+          <h2 className="text-3xl font-bold text-gray-800 mb-2">{t('test.complete')}</h2>
           <p className="text-xl text-gray-600">
-            Overall Score: <span className="font-bold text-blue-600">{totalScore.toFixed(0)}%</span>
+            {t('test.overallScore')} <span className="font-bold text-blue-600">{totalScore.toFixed(0)}%</span>
           </p>
           <p className="text-lg text-gray-600 mt-2">
-            Passed: {passedCount} / {scores.length} words
+            {t('test.passed', { passed: passedCount, total: scores.length })}
           </p>
         </div>
         
@@ -361,8 +350,8 @@ export function PronunciationTest() {
               score.passed ? 'border-green-200 bg-green-50' : 'border-red-200 bg-red-50'
             }`}>
               <div className="flex items-center justify-between mb-2">
-                <span className="font-semibold text-lg">{score.word}</span>
-                <div className="flex items-center space-x-2">
+                <span dir="auto" className="font-semibold text-lg">{score.word}</span>
+                <div className="flex items-center gap-2">
                   <span className={`font-bold ${
                     score.passed ? 'text-green-600' : 'text-red-600'
                   }`}>
@@ -375,7 +364,10 @@ export function PronunciationTest() {
                   )}
                 </div>
               </div>
-              <p className="text-sm text-gray-600">Attempts: {score.attempts}</p>
+              <p className="text-sm text-gray-600">{t('test.attempts', { count: score.attempts })}</p>
+              {score.crossCheck && <ScoreBreakdown crossCheck={score.crossCheck} />}
+              {score.assessment && <AssessmentDetails assessment={score.assessment} />}
+              <WordRecordings word={score.word} turns={turns} />
             </div>
           ))}
         </div>
@@ -387,7 +379,7 @@ export function PronunciationTest() {
           }}
           className="w-full py-3 bg-blue-500 hover:bg-blue-600 text-white font-semibold rounded-lg transition-colors"
         >
-          Finish
+          {t('test.finish')}
         </button>
       </div>
     );
@@ -398,32 +390,39 @@ export function PronunciationTest() {
       <div className="bg-white rounded-2xl shadow-xl p-8">
         <div className="text-center">
           <Phone className="w-16 h-16 text-blue-500 mx-auto mb-4" />
-          <h2 className="text-2xl font-bold text-gray-800 mb-4">Pronunciation Test</h2>
+          <h2 className="text-2xl font-bold text-gray-800 mb-4">{t('test.title')}</h2>
           <p className="text-gray-600 mb-6">
-            Connect with your AI tutor for a conversational pronunciation test. 
-            Your tutor will guide you through testing your pronunciation skills.
+            {t('test.intro')}
           </p>
+
+          {quotaExceeded && (
+            <div className="mb-6 text-start">
+              <QuotaNotice quota={quotaExceeded} />
+            </div>
+          )}
           
+          <div className="flex justify-center mb-6">
+            <DeckSelector />
+          </div>
+
           {testWords.length === 0 ? (
             <p className="text-amber-600 mb-6">
-              Please add some words to your vocabulary first!
+              {practiceDeck ? t('test.emptyDeck') : t('test.noWords', { language: languageName(targetLanguage) })}
             </p>
           ) : (
             <>
               <div className="bg-blue-50 rounded-lg p-4 mb-6">
                 <p className="text-sm text-blue-800">
-                  <strong>How it works:</strong> Your AI tutor will test your pronunciation one word at a time.
-                  Just speak naturally when prompted. You can interrupt anytime, and the tutor will 
-                  provide detailed feedback. Words scoring 70% or higher pass.
+                  <strong>{t('test.howItWorks')}</strong> {t('test.howItWorksBody', { score: passingScore })}
                 </p>
               </div>
               
               <button
                 onClick={startTest}
-                className="px-8 py-3 bg-blue-500 hover:bg-blue-600 text-white font-semibold rounded-lg transition-colors inline-flex items-center space-x-2"
+                className="px-8 py-3 bg-blue-500 hover:bg-blue-600 text-white font-semibold rounded-lg transition-colors inline-flex items-center gap-2"
               >
                 <Phone className="w-5 h-5" />
-                <span>Start Conversation Test</span>
+                <span>{t('test.start')}</span>
               </button>
             </>
           )}
@@ -436,15 +435,15 @@ export function PronunciationTest() {
     <div className="bg-white rounded-2xl shadow-xl p-8">
       <div className="mb-6">
         <div className="flex items-center justify-between mb-4">
-          <h2 className="text-2xl font-bold text-gray-800">Pronunciation Test</h2>
-          <div className="flex items-center space-x-4">
+          <h2 className="text-2xl font-bold text-gray-800">{t('test.title')}</h2>
+          <div className="flex items-center gap-4">
             <span className="text-sm text-gray-600">
-              Word {currentWordIndex + 1} of {testWords.length}
+              {t('test.progress', { current: currentWordIndex + 1, total: testWords.length })}
             </span>
-            <div className={`flex items-center space-x-2 ${isConnected ? 'text-green-600' : 'text-gray-500'}`}>
+            <div className={`flex items-center gap-2 ${isConnected ? 'text-green-600' : 'text-gray-500'}`}>
               <div className={`w-3 h-3 rounded-full ${isConnected ? 'bg-green-500' : 'bg-gray-300'} ${isListening ? 'animate-pulse' : ''}`} />
               <span className="text-sm">
-                {isConnected ? (isListening ? 'Listening...' : 'Connected') : 'Connecting...'}
+                {isConnected ? (isListening ? t('status.listening') : t('status.connected')) : t('status.connecting')}
               </span>
             </div>
           </div>
@@ -461,77 +460,71 @@ export function PronunciationTest() {
       {currentWord && (
         <div className="space-y-6">
           <div className="bg-blue-50 rounded-xl p-6 text-center">
-            <p className="text-sm text-gray-600 mb-2">Current word:</p>
-            <h3 className="text-4xl font-bold text-blue-600 mb-4">{currentWord.word}</h3>
+            <p className="text-sm text-gray-600 mb-2">{t('test.currentWord')}</p>
+            <h3 dir="auto" className="text-4xl font-bold text-blue-600 mb-4">{currentWord.word}</h3>
+            {currentWord.details && (currentWord.details.ipa || stressPattern(currentWord.details)) && (
+              <p className="-mt-2 mb-4 text-gray-600">
+                {currentWord.details.ipa && <span dir="ltr" className="me-3">/{currentWord.details.ipa}/</span>}
+                {stressPattern(currentWord.details) && (
+                  <span className="text-sm text-gray-500">{stressPattern(currentWord.details)}</span>
+                )}
+              </p>
+            )}
             
-            <div className="flex justify-center space-x-4">
+            <div className="flex justify-center gap-4">
               <button
                 onClick={playWordAudio}
-                className="inline-flex items-center space-x-2 px-4 py-2 bg-white rounded-lg hover:bg-gray-50 transition-colors"
+                className="inline-flex items-center gap-2 px-4 py-2 bg-white rounded-lg hover:bg-gray-50 transition-colors"
               >
                 <Volume2 className="w-5 h-5 text-gray-600" />
-                <span className="text-sm text-gray-600">Hear it</span>
+                <span className="text-sm text-gray-600">{t('test.hearIt')}</span>
               </button>
               
-              {currentAttempt > 0 && currentAttempt < 3 && scores[currentWordIndex]?.score < 70 && (
+              {canRetry && scores[currentWordIndex]?.score < passingScore && (
                 <button
                   onClick={retryWord}
-                  className="inline-flex items-center space-x-2 px-4 py-2 bg-amber-500 text-white rounded-lg hover:bg-amber-600 transition-colors"
+                  className="inline-flex items-center gap-2 px-4 py-2 bg-amber-500 text-white rounded-lg hover:bg-amber-600 transition-colors"
                 >
                   <RotateCcw className="w-5 h-5" />
-                  <span className="text-sm">Try Again</span>
+                  <span className="text-sm">{t('test.tryAgain')}</span>
                 </button>
               )}
             </div>
 
             {currentAttempt > 0 && (
               <p className="text-sm text-gray-600 mt-3">
-                Attempt {currentAttempt} / 3
+                {t('test.attempt', { current: currentAttempt, max: maxAttempts })}
               </p>
             )}
           </div>
 
           {/* Conversation Area */}
-          <div className="space-y-4">
-            {tutorTranscript && (
-              <div className="bg-green-50 rounded-lg p-4">
-                <div className="flex items-center space-x-2 mb-2">
-                  <Volume2 className="w-4 h-4 text-green-600" />
-                  <span className="text-sm font-medium text-green-600">Tutor</span>
-                </div>
-                <p className="text-gray-800 whitespace-pre-wrap">{tutorTranscript}</p>
-              </div>
-            )}
-            
-            {userTranscript && (
-              <div className="bg-blue-50 rounded-lg p-4">
-                <div className="flex items-center space-x-2 mb-2">
-                  <div className="w-4 h-4 rounded-full bg-blue-600" />
-                  <span className="text-sm font-medium text-blue-600">You</span>
-                </div>
-                <p className="text-gray-800">{userTranscript}</p>
-              </div>
-            )}
-          </div>
+          <ChatLog turns={turns} pending={pendingReply} className="max-h-80" />
 
           {/* Control Button */}
           <div className="flex justify-center">
             <button
               onClick={stopTest}
-              className="px-8 py-4 bg-red-500 hover:bg-red-600 text-white font-semibold rounded-lg transition-colors inline-flex items-center space-x-2"
+              className="px-8 py-4 bg-red-500 hover:bg-red-600 text-white font-semibold rounded-lg transition-colors inline-flex items-center gap-2"
             >
               <PhoneOff className="w-5 h-5" />
-              <span>End Test</span>
+              <span>{t('test.end')}</span>
             </button>
           </div>
 
           {scores[currentWordIndex]?.score > 0 && (
             <div className="bg-yellow-50 rounded-lg p-4">
               <p className="text-sm font-semibold text-yellow-800 mb-1">
-                Score: {scores[currentWordIndex].score}%
+                {t('test.score', { score: scores[currentWordIndex].score })}
               </p>
-              {scores[currentWordIndex].score >= 70 && (
-                <p className="text-green-600 font-medium">Great job! Moving to next word...</p>
+              {scores[currentWordIndex].score >= passingScore && (
+                <p className="text-green-600 font-medium">{t('test.greatJob')}</p>
+              )}
+              {scores[currentWordIndex].crossCheck && (
+                <ScoreBreakdown crossCheck={scores[currentWordIndex].crossCheck} />
+              )}
+              {scores[currentWordIndex].assessment && (
+                <AssessmentDetails assessment={scores[currentWordIndex].assessment} />
               )}
             </div>
           )}
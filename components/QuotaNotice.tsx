@@ -0,0 +1,22 @@
+'use client';
+
+import { format } from 'date-fns';
+import { Clock } from 'lucide-react';
+import { QuotaExceeded } from '@/lib/openai-realtime';
+import { useTranslation } from '@/lib/i18n';
+
+export function QuotaNotice({ quota }: { quota: QuotaExceeded }) {
+  const { t, dateLocale } = useTranslation();
+
+  return (
+    <div className="w-full flex items-start gap-3 bg-amber-50 border border-amber-200 rounded-lg p-4">
+      <Clock className="w-5 h-5 text-amber-600 mt-0.5 flex-shrink-0" />
+      <div>
+        <p className="text-sm font-medium text-amber-800">{t(quota.messageKey)}</p>
+        <p className="text-xs text-amber-700 mt-1">
+          {t('quota.reopens', { time: format(new Date(quota.resetsAt), 'EEEE, p', { locale: dateLocale }) })}
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,32 @@
+'use client';
+
+import { Disc } from 'lucide-react';
+import { useStore } from '@/lib/store';
+import { useTranslation } from '@/lib/i18n';
+
+export function RecordingSettings() {
+  const { recordAudio, setRecordAudio, isRecording } = useStore();
+  const { t } = useTranslation();
+
+  return (
+    <div className="bg-white rounded-2xl shadow-xl p-6">
+      <div className="flex items-center gap-2 mb-4">
+        <Disc className="w-5 h-5 text-blue-600" />
+        <h2 className="text-xl font-bold text-gray-800">{t('recordings.title')}</h2>
+      </div>
+
+      <label className={`flex items-start gap-3 ${isRecording ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'}`}>
+        <input
+          type="checkbox"
+          checked={recordAudio}
+          onChange={(e) => setRecordAudio(e.target.checked)}
+          disabled={isRecording}
+          className="mt-1 w-4 h-4 text-blue-600 rounded focus:ring-blue-500"
+        />
+        <span className="text-sm text-gray-600">
+          {t('recordings.description')}
+        </span>
+      </label>
+    </div>
+  );
+}
@@ -0,0 +1,151 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { RefreshCw, Link2, Unlink, AlertTriangle } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { useStore } from '@/lib/store';
+import { useTranslation } from '@/lib/i18n';
+
+// Link a FlashAcademy account and see how syncing it is going
+export function SyncSettings() {
+  const { syncStatus, isSyncing, refreshSyncStatus, linkSyncAccount, syncVocabulary } = useStore();
+  const { t, dateLocale } = useTranslation();
+  const [linkCode, setLinkCode] = useState('');
+  const [notice, setNotice] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    refreshSyncStatus().catch(error => setError((error as Error).message));
+  }, [refreshSyncStatus]);
+
+  const run = async (action: () => Promise<string | null>) => {
+    setError(null);
+    setNotice(null);
+    try {
+      setNotice(await action());
+    } catch (error) {
+      setError((error as Error).message);
+    }
+  };
+
+  const handleSync = (full: boolean) => run(async () => {
+    const { added, pushed } = await syncVocabulary(full);
+    return t('sync.result', { added: t('sync.added', { count: added }), pushed: t('sync.pushed', { count: pushed }) });
+  });
+
+  const handleLink = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!linkCode.trim()) return;
+    run(async () => {
+      await linkSyncAccount(linkCode);
+      setLinkCode('');
+      const { added } = await syncVocabulary();
+      return t('sync.linked', { count: added });
+    });
+  };
+
+  const handleUnlink = () => {
+    if (!window.confirm(t('sync.confirmUnlink'))) return;
+    run(async () => {
+      await linkSyncAccount(null);
+      return null;
+    });
+  };
+
+  return (
+    <div className="bg-white rounded-2xl shadow-xl p-6">
+      <div className="flex items-center gap-2 mb-4">
+        <RefreshCw className="w-5 h-5 text-blue-600" />
+        <h2 className="text-xl font-bold text-gray-800">{t('sync.title')}</h2>
+      </div>
+
+      <p className="text-sm text-gray-600 mb-4">{t('sync.intro')}</p>
+
+      {!syncStatus ? (
+        <p className="text-sm text-gray-500">{t('sync.loading')}</p>
+      ) : !syncStatus.configured ? (
+        <p className="text-sm text-amber-700">{t('sync.notConfigured')}</p>
+      ) : !syncStatus.accountId ? (
+        <form onSubmit={handleLink} className="space-y-2">
+          <p className="text-sm text-gray-600">{t('sync.linkIntro')}</p>
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={linkCode}
+              onChange={(e) => setLinkCode(e.target.value)}
+              placeholder={t('sync.linkCode')}
+              autoComplete="off"
+              className="flex-1 px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <button
+              type="submit"
+              disabled={!linkCode.trim() || isSyncing}
+              className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 disabled:bg-gray-300 transition-colors flex items-center gap-2"
+            >
+              <Link2 className="w-4 h-4" />
+              <span>{t('sync.link')}</span>
+            </button>
+          </div>
+        </form>
+      ) : (
+        <div className="space-y-3">
+          <dl className="grid grid-cols-2 gap-2 text-sm">
+            <dt className="text-gray-500">{t('sync.account')}</dt>
+            <dd className="text-gray-800">{syncStatus.accountId}</dd>
+            <dt className="text-gray-500">{t('sync.lastSynced')}</dt>
+            <dd className="text-gray-800">
+              {syncStatus.lastSyncedAt
+                ? formatDistanceToNow(syncStatus.lastSyncedAt, { addSuffix: true, locale: dateLocale })
+                : t('sync.never')}
+            </dd>
+            <dt className="text-gray-500">{t('sync.wordsSynced')}</dt>
+            <dd className="text-gray-800">{syncStatus.wordsSynced}</dd>
+            <dt className="text-gray-500">{t('sync.lastPushed')}</dt>
+            <dd className="text-gray-800">
+              {syncStatus.lastPushedAt
+                ? formatDistanceToNow(syncStatus.lastPushedAt, { addSuffix: true, locale: dateLocale })
+                : t('sync.never')}
+            </dd>
+          </dl>
+
+          {syncStatus.lastError && (
+            <p className="flex items-start gap-2 text-sm text-red-600">
+              <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+              <span>{t('sync.lastError', { error: syncStatus.lastError })}</span>
+            </p>
+          )}
+
+          <div className="flex items-center gap-4">
+            <button
+              onClick={() => handleSync(false)}
+              disabled={isSyncing}
+              className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 disabled:bg-gray-300 transition-colors flex items-center gap-2"
+            >
+              <RefreshCw className={`w-4 h-4 ${isSyncing ? 'animate-spin' : ''}`} />
+              <span>{isSyncing ? t('sync.syncing') : t('sync.syncNow')}</span>
+            </button>
+            <button
+              onClick={() => handleSync(true)}
+              disabled={isSyncing}
+              title={t('sync.reimportHint')}
+              className="text-sm text-blue-600 hover:text-blue-700 underline disabled:text-gray-400"
+            >
+              {t('sync.reimport')}
+            </button>
+            <button
+              onClick={handleUnlink}
+              disabled={isSyncing}
+              className="text-sm text-gray-500 hover:text-gray-700 flex items-center gap-1"
+            >
+              <Unlink className="w-4 h-4" />
+              <span>{t('sync.unlink')}</span>
+            </button>
+          </div>
+        </div>
+      )}
+
+      {notice && <p className="mt-3 text-sm text-gray-600">{notice}</p>}
+      {error && <p className="mt-3 text-sm text-red-600">{error}</p>}
+    </div>
+  );
+}
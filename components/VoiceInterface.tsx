@@ -1,28 +1,42 @@
 'use client';
 
 import { useEffect, useRef, useState } from 'react';
-import { Mic, Phone, PhoneOff, Volume2 } from 'lucide-react';
-import { useStore } from '@/lib/store';
-import { RealtimeClient } from '@/lib/openai-realtime';
+import { Phone, PhoneOff } from 'lucide-react';
+import { useStore, Turn } from '@/lib/store';
+import { RealtimeClient, QuotaExceeded } from '@/lib/openai-realtime';
+import { useTranslation } from '@/lib/i18n';
+import { lessonOptions } from '@/lib/practice-modes';
+import { ChatLog } from './ChatLog';
+import { QuotaNotice } from './QuotaNotice';
+import { DeckSelector } from './DeckSelector';
 
 export function VoiceInterface() {
   const [isConnected, setIsConnected] = useState(false);
   const [isListening, setIsListening] = useState(false);
-  const [transcript, setTranscript] = useState('');
-  const [assistantTranscript, setAssistantTranscript] = useState('');
+  const [turns, setTurns] = useState<Turn[]>([]);
+  const [pendingReply, setPendingReply] = useState('');
+  const [quotaExceeded, setQuotaExceeded] = useState<QuotaExceeded | null>(null);
   const clientRef = useRef<RealtimeClient | null>(null);
+  const { t } = useTranslation();
   
   const {
     isRecording,
     setIsRecording,
     practiceMode,
+    practiceModes,
+    getPracticeScope,
     homeLanguage,
+    targetLanguage,
     getRecentWords,
     getWordsForPractice,
-    getAllWords,
     currentSession,
     startSession,
-    endSession
+    endSession,
+    addWordToSession,
+    addTurnToSession,
+    recordAudio,
+    incrementPracticeCount,
+    reviewWord
   } = useStore();
 
   useEffect(() => {
@@ -35,15 +49,16 @@ export function VoiceInterface() {
 
   const startConversation = async () => {
     try {
-      // Clear previous transcripts
-      setTranscript('');
-      setAssistantTranscript('');
+      // Clear the previous conversation
+      setTurns([]);
+      setPendingReply('');
+      setQuotaExceeded(null);
       
       if (!currentSession) {
         startSession(practiceMode);
       }
 
-      const client = new RealtimeClient();
+      const client = new RealtimeClient({ recordAudio });
 
       client.on('connected', () => {
         setIsConnected(true);
@@ -59,18 +74,21 @@ export function VoiceInterface() {
         setIsListening(false);
       });
 
-      client.on('user.transcript', (text: string) => {
-        setTranscript(text);
-      });
-
       client.on('assistant.transcript', (text: string) => {
         // Full transcript replacement (not a delta)
-        setAssistantTranscript(text);
+        setPendingReply(text);
       });
 
       client.on('assistant.transcript.delta', (delta: string) => {
         // Incremental update only
-        setAssistantTranscript(prev => prev + delta);
+        setPendingReply(prev => prev + delta);
+      });
+
+      // Every finished turn goes into the chat log and the session transcript
+      client.on('turn', (turn) => {
+        if (turn.role === 'tutor') setPendingReply('');
+        const stored = addTurnToSession(turn);
+        if (stored) setTurns(prev => [...prev, stored]);
       });
       
       client.on('response.complete', () => {
@@ -81,17 +99,36 @@ export function VoiceInterface() {
         console.error('Realtime error:', error);
       });
 
+      // The proxy hangs up once today's quota is used; end the session with it.
+      // This can fire while connect() is still running, before clientRef is set
+      client.on('quota.exceeded', (quota) => {
+        setQuotaExceeded(quota);
+        client.disconnect();
+        stopConversation();
+      });
+
       // Set context BEFORE connecting so it's available during session creation
-      // For pronunciation mode, use ALL words in their original order
-      const wordsToUse = practiceMode === 'pronunciation' 
-        ? getAllWords().slice(0, 10)  // Get first 10 words in original order
-        : getRecentWords(20);
+      // Practice whatever the scheduler says is due today, falling back to recent words -
+      // both in the language being learned and from the chosen deck, if there is one
+      const scope = getPracticeScope();
+      const mode = practiceModes.find(m => m.id === practiceMode);
+      const dueWords = getWordsForPractice(mode?.base === 'pronunciation' ? 10 : 20, scope);
+      const wordsToUse = dueWords.length > 0 ? dueWords : getRecentWords(20, scope);
+
+      client.on('word.finished', ({ index }) => {
+        const word = wordsToUse[index];
+        if (!word) return;
+        // Finishing the guided attempts counts as a successful, if effortful, review
+        reviewWord(word.id, 3);
+        incrementPracticeCount(word.id);
+        addWordToSession(word.id);
+      });
       
       console.log('🎯 Practice mode:', practiceMode);
       console.log('🎯 Words being sent:', wordsToUse.map(w => w.word));
       
-      client.updateContext(wordsToUse, homeLanguage);
-      client.setPracticeMode(practiceMode);
+      client.updateContext(wordsToUse, homeLanguage, targetLanguage);
+      client.setPracticeMode(practiceMode, lessonOptions(practiceModes, practiceMode));
       
       // Now connect with the context already set
       await client.connect();
@@ -117,11 +154,13 @@ export function VoiceInterface() {
   return (
     <div className="bg-white rounded-2xl shadow-xl p-8">
       <div className="flex flex-col items-center space-y-6">
+        <DeckSelector disabled={isRecording} />
+
         {/* Status Indicator */}
-        <div className="flex items-center space-x-2">
+        <div className="flex items-center gap-2">
           <div className={`w-3 h-3 rounded-full ${isConnected ? 'bg-green-500' : 'bg-gray-300'} ${isListening ? 'animate-pulse' : ''}`} />
           <span className="text-sm text-gray-600">
-            {isConnected ? (isListening ? 'Listening...' : 'Connected') : 'Not connected'}
+            {isConnected ? (isListening ? t('status.listening') : t('status.connected')) : t('status.notConnected')}
           </span>
         </div>
 
@@ -151,32 +190,16 @@ export function VoiceInterface() {
 
         <p className="text-gray-600 text-center">
           {isRecording 
-            ? 'Tap to end conversation' 
-            : 'Tap to start practicing'}
+            ? t('voice.tapToEnd') 
+            : t('voice.tapToStart')}
         </p>
 
-        {/* Transcripts */}
-        {(transcript || assistantTranscript) && (
-          <div className="w-full space-y-4 mt-6">
-            {assistantTranscript && (
-              <div className="bg-green-50 rounded-lg p-4">
-                <div className="flex items-center space-x-2 mb-2">
-                  <Volume2 className="w-4 h-4 text-green-600" />
-                  <span className="text-sm font-medium text-green-600">Tutor</span>
-                </div>
-                <p className="text-gray-800 whitespace-pre-wrap">{assistantTranscript}</p>
-              </div>
-            )}
-            
-            {transcript && (
-              <div className="bg-blue-50 rounded-lg p-4">
-                <div className="flex items-center space-x-2 mb-2">
-                  <Mic className="w-4 h-4 text-blue-600" />
-                  <span className="text-sm font-medium text-blue-600">You</span>
-                </div>
-                <p className="text-gray-800">{transcript}</p>
-              </div>
-            )}
+        {quotaExceeded && <QuotaNotice quota={quotaExceeded} />}
+
+        {/* Conversation */}
+        {(turns.length > 0 || pendingReply) && (
+          <div className="w-full mt-6">
+            <ChatLog turns={turns} pending={pendingReply} />
           </div>
         )}
       </div>
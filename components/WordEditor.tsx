@@ -0,0 +1,227 @@
+'use client';
+
+import { useState } from 'react';
+import { Wand2, Save, X } from 'lucide-react';
+import { useStore, Word, WordDetails } from '@/lib/store';
+import { PARTS_OF_SPEECH, autoFillDetails, lookupWord } from '@/lib/dictionary';
+import { cleanDeckName, cleanWordText, entryKey } from '@/lib/normalize';
+import { useTranslation } from '@/lib/i18n';
+
+interface WordEditorProps {
+  word: Word;
+  onClose: () => void;
+}
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+// Syllables are edited as "ap-ple"
+function parseSyllables(text: string): string[] {
+  return text.split(/[-·\s]+/).map(s => s.trim()).filter(Boolean);
+}
+
+// Decks are edited as "Unit 3 - Food, Travel", with the home language's own comma if it has one
+function parseDecks(text: string): string[] {
+  const decks: string[] = [];
+  for (const name of text.split(/[,，、،]/).map(cleanDeckName)) {
+    if (name && !decks.some(d => d.toLowerCase() === name.toLowerCase())) decks.push(name);
+  }
+  return decks;
+}
+
+export function WordEditor({ word, onClose }: WordEditorProps) {
+  const { homeLanguage, words, updateWord, getDecks } = useStore();
+  const { t, languageName } = useTranslation();
+  const [text, setText] = useState(word.word);
+  const [details, setDetails] = useState<WordDetails>(word.details ?? {});
+  const [syllableText, setSyllableText] = useState((word.details?.syllables ?? []).join('-'));
+  const [deckText, setDeckText] = useState((word.decks ?? []).join(', '));
+
+  const syllables = parseSyllables(syllableText);
+  const cleaned = cleanWordText(text);
+  // Renaming onto another entry would make a duplicate
+  const clash = words.find(w => w.id !== word.id && entryKey(w.word, w.language) === entryKey(cleaned, word.language));
+  const translations = details.translations ?? {};
+  // Always offer the learner's own language, even before it has a translation
+  const translationLanguages = Array.from(new Set([
+    ...(homeLanguage !== word.language ? [homeLanguage] : []),
+    ...Object.keys(translations)
+  ]));
+
+  const update = (changes: Partial<WordDetails>) => setDetails(current => ({ ...current, ...changes }));
+
+  const handleSyllablesChange = (text: string) => {
+    setSyllableText(text);
+    const count = parseSyllables(text).length;
+    if (details.stress !== undefined && details.stress >= count) update({ stress: undefined });
+  };
+
+  const handleAutoFill = () => {
+    const filled = autoFillDetails(text, { ...details, syllables }, word.language);
+    setDetails(filled);
+    setSyllableText((filled.syllables ?? []).join('-'));
+  };
+
+  const handleSave = () => {
+    if (!cleaned || clash) return;
+    updateWord(word.id, {
+      word: cleaned,
+      details: {
+        ...details,
+        syllables: syllables.length > 0 ? syllables : undefined,
+        translations: Object.fromEntries(
+          Object.entries(translations).filter(([, translation]) => translation.trim())
+        )
+      },
+      decks: parseDecks(deckText)
+    });
+    onClose();
+  };
+
+  return (
+    <div className="mt-3 p-4 bg-white border border-gray-200 rounded-lg space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="font-semibold text-gray-700">{t('editor.title', { word: word.word })}</h4>
+        <button
+          type="button"
+          onClick={handleAutoFill}
+          disabled={!lookupWord(text, word.language)}
+          title={lookupWord(text, word.language) ? t('editor.autoFillHint') : t('editor.notInDictionary')}
+          className="flex items-center gap-1 text-sm text-purple-600 hover:text-purple-700 disabled:text-gray-400"
+        >
+          <Wand2 className="w-4 h-4" />
+          <span>{t('editor.autoFill')}</span>
+        </button>
+      </div>
+
+      <label className="block text-xs text-gray-600">
+        {t('editor.word')}
+        <input
+          type="text"
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          className={inputClass}
+        />
+        {clash && (
+          <span className="text-red-600">{t('editor.clash', { word: clash.word })}</span>
+        )}
+      </label>
+
+      <label className="block text-xs text-gray-600">
+        {t('editor.decks')}
+        <input
+          type="text"
+          value={deckText}
+          onChange={(e) => setDeckText(e.target.value)}
+          placeholder={getDecks().slice(0, 2).join(', ') || t('editor.decksPlaceholder')}
+          className={inputClass}
+        />
+        <span className="text-gray-500">{t('editor.decksHint')}</span>
+      </label>
+
+      <div className="grid grid-cols-2 gap-3">
+        <label className="text-xs text-gray-600">
+          {t('editor.ipa')}
+          <input
+            type="text"
+            value={details.ipa ?? ''}
+            onChange={(e) => update({ ipa: e.target.value })}
+            placeholder="ˈæp.əl"
+            className={inputClass}
+          />
+        </label>
+        <label className="text-xs text-gray-600">
+          {t('editor.partOfSpeech')}
+          <select
+            value={details.partOfSpeech ?? ''}
+            onChange={(e) => update({ partOfSpeech: e.target.value || undefined })}
+            className={inputClass}
+          >
+            <option value="">—</option>
+            {PARTS_OF_SPEECH.map(pos => (
+              <option key={pos} value={pos}>{t(`pos.${pos}`)}</option>
+            ))}
+          </select>
+        </label>
+        <label className="text-xs text-gray-600">
+          {t('editor.syllables')}
+          <input
+            type="text"
+            value={syllableText}
+            onChange={(e) => handleSyllablesChange(e.target.value)}
+            placeholder="ap-ple"
+            className={inputClass}
+          />
+        </label>
+        <label className="text-xs text-gray-600">
+          {t('editor.stress')}
+          <select
+            value={details.stress ?? ''}
+            onChange={(e) => update({ stress: e.target.value === '' ? undefined : Number(e.target.value) })}
+            disabled={syllables.length === 0}
+            className={inputClass}
+          >
+            <option value="">—</option>
+            {syllables.map((syllable, i) => (
+              <option key={i} value={i}>{i + 1}. {syllable}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <label className="block text-xs text-gray-600">
+        {t('editor.definition')}
+        <textarea
+          value={details.definition ?? ''}
+          onChange={(e) => update({ definition: e.target.value })}
+          rows={2}
+          className={inputClass}
+        />
+      </label>
+      <label className="block text-xs text-gray-600">
+        {t('editor.example')}
+        <input
+          type="text"
+          value={details.example ?? ''}
+          onChange={(e) => update({ example: e.target.value })}
+          className={inputClass}
+        />
+      </label>
+
+      {translationLanguages.length > 0 && (
+        <div className="grid grid-cols-2 gap-3">
+          {translationLanguages.map(language => (
+            <label key={language} className="text-xs text-gray-600">
+              {languageName(language)}
+              <input
+                type="text"
+                value={translations[language] ?? ''}
+                onChange={(e) => update({ translations: { ...translations, [language]: e.target.value } })}
+                className={inputClass}
+              />
+            </label>
+          ))}
+        </div>
+      )}
+
+      <div className="flex justify-end gap-2">
+        <button
+          type="button"
+          onClick={onClose}
+          className="px-3 py-1.5 text-sm text-gray-600 hover:text-gray-800 flex items-center gap-1"
+        >
+          <X className="w-4 h-4" />
+          <span>{t('editor.cancel')}</span>
+        </button>
+        <button
+          type="button"
+          onClick={handleSave}
+          disabled={!cleaned || !!clash}
+          className="px-3 py-1.5 text-sm bg-blue-500 text-white rounded-lg hover:bg-blue-600 disabled:bg-gray-300 transition-colors flex items-center gap-1"
+        >
+          <Save className="w-4 h-4" />
+          <span>{t('editor.save')}</span>
+        </button>
+      </div>
+    </div>
+  );
+}
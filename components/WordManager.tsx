@@ -1,69 +1,175 @@
 'use client';
 
 import { useState } from 'react';
-import { Plus, Clock, Hash, TrendingUp } from 'lucide-react';
-import { useStore } from '@/lib/store';
+import { Plus, Clock, Hash, TrendingUp, Pencil, GripVertical, Archive, ArchiveRestore, Trash2, Layers, FolderPlus, Check, X } from 'lucide-react';
+import { useStore, Word } from '@/lib/store';
+import { stressPattern } from '@/lib/dictionary';
+import { cleanDeckName, cleanWordText, entryKey, isPhrase } from '@/lib/normalize';
+import { useTranslation } from '@/lib/i18n';
 import { format } from 'date-fns';
+import { WordEditor } from './WordEditor';
 
 export function WordManager() {
   const [newWord, setNewWord] = useState('');
   const [bulkWords, setBulkWords] = useState('');
   const [showBulkAdd, setShowBulkAdd] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [showArchived, setShowArchived] = useState(false);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [openDeck, setOpenDeck] = useState<string | null>(null);
+  const [targetDeck, setTargetDeck] = useState(''); // Deck the selected words are added to
+  const [renamingDeck, setRenamingDeck] = useState(false);
+  const [deckName, setDeckName] = useState('');
+  const { t } = useTranslation();
   
-  const { words, addWord, bulkAddWords, getRecentWords } = useStore();
-  const recentWords = getRecentWords(10);
+  const {
+    words,
+    addWord,
+    bulkAddWords,
+    getAllWords,
+    setWordsArchived,
+    deleteWords,
+    moveWord,
+    mergeDuplicates,
+    getDecks,
+    setWordsInDeck,
+    renameDeck,
+    deleteDeck,
+    targetLanguage
+  } = useStore();
+  const language = targetLanguage; // New words go in as this language
+  const decks = getDecks();
+  // The open deck disappears once its last word leaves it
+  const deck = openDeck ? decks.find(d => d.toLowerCase() === openDeck.toLowerCase()) ?? null : null;
+  // Positions for reordering are always in the full list, archived words included
+  const orderedWords = getAllWords(true);
+  const deckWords = orderedWords.filter(w => !deck || (w.decks ?? []).includes(deck));
+  const listedWords = showArchived ? deckWords : deckWords.filter(w => !w.archived);
+  const activeWords = words.filter(w => !w.archived);
+  const archivedCount = words.length - activeWords.length;
+  const selectedIds = listedWords.filter(w => selected.has(w.id)).map(w => w.id);
+  const duplicateCount = words.length - new Set(words.map(w => entryKey(w.word, w.language))).size;
 
   const handleAddWord = (e: React.FormEvent) => {
     e.preventDefault();
-    if (newWord.trim()) {
-      addWord(newWord.trim());
+    const text = cleanWordText(newWord);
+    if (text) {
+      const existing = words.find(w => entryKey(w.word, w.language) === entryKey(text, language));
+      addWord(text, undefined, deck ? [deck] : undefined); // Words added with a deck open go into it
+      setNotice(existing ? t('words.alreadyAdded', { word: existing.word }) : null);
       setNewWord('');
     }
   };
 
   const handleBulkAdd = () => {
-    const wordsArray = bulkWords.split('\n').filter(w => w.trim());
+    // One word or phrase per line
+    const wordsArray = bulkWords.split('\n').filter(w => cleanWordText(w));
     // Use the same timestamp for all bulk-added words to maintain proper order
     const currentTime = new Date();
     const wordsWithTimestamps = wordsArray.map((word) => ({
       word: word.trim(),
       timestamp: currentTime
     }));
-    bulkAddWords(wordsWithTimestamps);
+    const known = new Set(words.map(w => entryKey(w.word, w.language)));
+    const newCount = new Set(wordsArray.map(w => entryKey(w, language)).filter(key => !known.has(key))).size;
+    bulkAddWords(wordsWithTimestamps, deck ? [deck] : undefined);
+    setNotice(newCount < wordsArray.length
+      ? t('words.bulkAdded', { added: newCount, skipped: wordsArray.length - newCount })
+      : null);
     setBulkWords('');
     setShowBulkAdd(false);
   };
 
+  const toggleSelected = (id: string) => {
+    setSelected(current => {
+      const next = new Set(current);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const toggleSelectAll = () => {
+    setSelected(selectedIds.length === listedWords.length ? new Set() : new Set(listedWords.map(w => w.id)));
+  };
+
+  const handleDelete = (ids: string[]) => {
+    if (!window.confirm(t('words.confirmDelete', { count: ids.length }))) return;
+    deleteWords(ids);
+    setSelected(current => new Set([...current].filter(id => !ids.includes(id))));
+  };
+
+  const handleArchive = (ids: string[], archived: boolean) => {
+    setWordsArchived(ids, archived);
+    setSelected(new Set());
+  };
+
+  const handleAddToDeck = () => {
+    if (!cleanDeckName(targetDeck)) return;
+    setWordsInDeck(selectedIds, targetDeck, true);
+    setTargetDeck('');
+    setSelected(new Set());
+  };
+
+  const handleRenameDeck = () => {
+    const name = cleanDeckName(deckName);
+    if (deck && name) {
+      renameDeck(deck, name);
+      setOpenDeck(name);
+    }
+    setRenamingDeck(false);
+  };
+
+  const handleDeleteDeck = () => {
+    if (!deck || !window.confirm(t('words.confirmDeleteDeck', { deck }))) return;
+    deleteDeck(deck);
+    setOpenDeck(null);
+  };
+
+  const handleDrop = (target: Word) => {
+    if (draggingId && draggingId !== target.id) {
+      moveWord(draggingId, orderedWords.findIndex(w => w.id === target.id));
+    }
+    setDraggingId(null);
+  };
+
   return (
     <div className="bg-white rounded-2xl shadow-xl p-6">
-      <h2 className="text-2xl font-bold text-gray-800 mb-6">Word Management</h2>
+      <h2 className="text-2xl font-bold text-gray-800 mb-6">{t('words.title')}</h2>
       
       {/* Add Word Form */}
       <form onSubmit={handleAddWord} className="mb-6">
-        <div className="flex space-x-2">
+        <div className="flex gap-2">
           <input
             type="text"
             value={newWord}
             onChange={(e) => setNewWord(e.target.value)}
-            placeholder="Enter a new word..."
+            placeholder={t('words.placeholder')}
             className="flex-1 px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
           />
           <button
             type="submit"
-            className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors flex items-center space-x-2"
+            className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors flex items-center gap-2"
           >
             <Plus className="w-4 h-4" />
-            <span>Add Word</span>
+            <span>{t('words.add')}</span>
           </button>
         </div>
       </form>
 
+      {notice && <p className="-mt-4 mb-4 text-sm text-gray-600">{notice}</p>}
+
       {/* Bulk Add Toggle */}
       <button
         onClick={() => setShowBulkAdd(!showBulkAdd)}
         className="mb-4 text-sm text-blue-600 hover:text-blue-700 underline"
       >
-        {showBulkAdd ? 'Hide' : 'Show'} Bulk Add (Simulate DB)
+        {showBulkAdd ? t('words.hideBulkAdd') : t('words.showBulkAdd')}
       </button>
 
       {/* Bulk Add Form */}
@@ -72,74 +178,377 @@ export function WordManager() {
           <textarea
             value={bulkWords}
             onChange={(e) => setBulkWords(e.target.value)}
-            placeholder="Enter multiple words, one per line..."
+            placeholder={t('words.bulkPlaceholder')}
             className="w-full h-32 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
           />
           <button
             onClick={handleBulkAdd}
             className="mt-2 px-4 py-2 bg-green-500 text-white rounded-lg hover:bg-green-600 transition-colors"
           >
-            Add All Words
+            {t('words.addAll')}
           </button>
         </div>
       )}
 
-      {/* Recent Words List */}
+      {/* Word List */}
       <div className="space-y-2">
-        <h3 className="text-lg font-semibold text-gray-700 mb-3">Recent Words</h3>
-        {recentWords.length === 0 ? (
-          <p className="text-gray-500 text-center py-4">No words added yet</p>
-        ) : (
-          <div className="space-y-2 max-h-96 overflow-y-auto">
-            {recentWords.map((word) => (
-              <div
-                key={word.id}
-                className="flex items-center justify-between p-3 bg-gray-50 rounded-lg hover:bg-gray-100 transition-colors"
+        <div className="flex items-center justify-between mb-3">
+          <h3 className="text-lg font-semibold text-gray-700">{t('words.yourWords')}</h3>
+          {archivedCount > 0 && (
+            <label className="flex items-center gap-2 text-sm text-gray-600">
+              <input
+                type="checkbox"
+                checked={showArchived}
+                onChange={(e) => setShowArchived(e.target.checked)}
+              />
+              <span>{t('words.showArchived', { count: archivedCount })}</span>
+            </label>
+          )}
+        </div>
+        {duplicateCount > 0 && (
+          <div className="flex items-center justify-between p-3 mb-2 bg-amber-50 rounded-lg text-sm text-amber-800">
+            <span>{t('words.duplicates', { count: duplicateCount })}</span>
+            <button
+              onClick={() => {
+                const merged = mergeDuplicates();
+                setNotice(t('words.merged', { count: merged }));
+              }}
+              className="underline hover:text-amber-900"
+            >
+              {t('words.mergeDuplicates')}
+            </button>
+          </div>
+        )}
+        {/* Decks - open one to see, add to and manage just its words */}
+        {decks.length > 0 && (
+          <div className="flex flex-wrap items-center gap-2 mb-2">
+            <Layers className="w-4 h-4 text-gray-500" />
+            {[null, ...decks].map((name) => (
+              <button
+                key={name ?? ''}
+                onClick={() => {
+                  setOpenDeck(name);
+                  setRenamingDeck(false);
+                  setSelected(new Set());
+                }}
+                className={`px-3 py-1 rounded-full text-sm transition-colors ${
+                  deck === name ? 'bg-blue-500 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                }`}
               >
-                <div className="flex-1">
-                  <p className="font-medium text-gray-800">{word.word}</p>
-                  <div className="flex items-center space-x-4 mt-1 text-xs text-gray-500">
-                    <span className="flex items-center space-x-1">
-                      <Clock className="w-3 h-3" />
-                      <span>{format(new Date(word.timestamp), 'MMM d, h:mm a')}</span>
-                    </span>
-                    <span className="flex items-center space-x-1">
-                      <Hash className="w-3 h-3" />
-                      <span>{word.practiceCount} practices</span>
-                    </span>
-                    <span className="flex items-center space-x-1">
-                      <TrendingUp className="w-3 h-3" />
-                      <span>{word.mastery}% mastery</span>
-                    </span>
-                  </div>
-                </div>
-              </div>
+                {name ?? t('words.allWords')}
+                {name && (
+                  <span className="ms-1 opacity-75">
+                    {words.filter(w => !w.archived && (w.decks ?? []).includes(name)).length}
+                  </span>
+                )}
+              </button>
             ))}
           </div>
         )}
+        {deck && (
+          <div className="flex items-center gap-3 mb-2 text-sm text-gray-600">
+            {renamingDeck ? (
+              <>
+                <input
+                  type="text"
+                  value={deckName}
+                  onChange={(e) => setDeckName(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && handleRenameDeck()}
+                  autoFocus
+                  className="px-2 py-1 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+                <button onClick={handleRenameDeck} title={t('words.saveDeckName')} className="hover:text-gray-800">
+                  <Check className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => setRenamingDeck(false)}
+                  title={t('words.cancel')}
+                  className="hover:text-gray-800"
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              </>
+            ) : (
+              <>
+                <span>{t('words.deckHint')}</span>
+                <button
+                  onClick={() => {
+                    setRenamingDeck(true);
+                    setDeckName(deck);
+                  }}
+                  className="flex items-center gap-1 hover:text-gray-800"
+                >
+                  <Pencil className="w-4 h-4" />
+                  <span>{t('words.renameDeck')}</span>
+                </button>
+                <button onClick={handleDeleteDeck} className="flex items-center gap-1 text-red-600 hover:text-red-700">
+                  <Trash2 className="w-4 h-4" />
+                  <span>{t('words.deleteDeck')}</span>
+                </button>
+              </>
+            )}
+          </div>
+        )}
+        {listedWords.length === 0 ? (
+          <p className="text-gray-500 text-center py-4">
+            {words.length === 0 ? t('words.empty') : deckWords.length === 0 ? t('words.emptyDeck') : t('words.allArchived')}
+          </p>
+        ) : (
+          <>
+            {/* Bulk actions for the selected words */}
+            <div className="flex items-center justify-between px-3 py-2 text-sm text-gray-600">
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={selectedIds.length === listedWords.length}
+                  onChange={toggleSelectAll}
+                />
+                <span>{selectedIds.length > 0 ? t('words.selected', { count: selectedIds.length }) : t('words.selectAll')}</span>
+              </label>
+              {selectedIds.length > 0 && (
+                <div className="flex items-center gap-3">
+                  <input
+                    type="text"
+                    value={targetDeck}
+                    onChange={(e) => setTargetDeck(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && handleAddToDeck()}
+                    list="deck-names"
+                    placeholder={t('words.deckName')}
+                    className="w-32 px-2 py-1 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                  <datalist id="deck-names">
+                    {decks.map((name) => <option key={name} value={name} />)}
+                  </datalist>
+                  <button
+                    onClick={handleAddToDeck}
+                    disabled={!cleanDeckName(targetDeck)}
+                    className="flex items-center gap-1 hover:text-gray-800 disabled:text-gray-400"
+                  >
+                    <FolderPlus className="w-4 h-4" />
+                    <span>{t('words.addToDeck')}</span>
+                  </button>
+                  {deck && (
+                    <button
+                      onClick={() => {
+                        setWordsInDeck(selectedIds, deck, false);
+                        setSelected(new Set());
+                      }}
+                      className="flex items-center gap-1 hover:text-gray-800"
+                    >
+                      <X className="w-4 h-4" />
+                      <span>{t('words.removeFromDeck')}</span>
+                    </button>
+                  )}
+                  <button
+                    onClick={() => handleArchive(selectedIds, true)}
+                    className="flex items-center gap-1 hover:text-gray-800"
+                  >
+                    <Archive className="w-4 h-4" />
+                    <span>{t('words.archive')}</span>
+                  </button>
+                  {showArchived && (
+                    <button
+                      onClick={() => handleArchive(selectedIds, false)}
+                      className="flex items-center gap-1 hover:text-gray-800"
+                    >
+                      <ArchiveRestore className="w-4 h-4" />
+                      <span>{t('words.restore')}</span>
+                    </button>
+                  )}
+                  <button
+                    onClick={() => handleDelete(selectedIds)}
+                    className="flex items-center gap-1 text-red-600 hover:text-red-700"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                    <span>{t('words.delete')}</span>
+                  </button>
+                </div>
+              )}
+            </div>
+
+            <div className="space-y-2 max-h-96 overflow-y-auto">
+              {listedWords.map((word) => (
+                <WordRow
+                  key={word.id}
+                  word={word}
+                  selected={selected.has(word.id)}
+                  editing={editingId === word.id}
+                  dragging={draggingId === word.id}
+                  onToggleSelected={() => toggleSelected(word.id)}
+                  onEdit={() => setEditingId(editingId === word.id ? null : word.id)}
+                  onCloseEditor={() => setEditingId(null)}
+                  onArchive={() => handleArchive([word.id], !word.archived)}
+                  onDelete={() => handleDelete([word.id])}
+                  onDragStart={() => setDraggingId(word.id)}
+                  onDragEnd={() => setDraggingId(null)}
+                  onDrop={() => handleDrop(word)}
+                />
+              ))}
+            </div>
+          </>
+        )}
       </div>
 
       {/* Stats */}
       <div className="mt-6 pt-6 border-t border-gray-200">
         <div className="grid grid-cols-3 gap-4 text-center">
           <div>
-            <p className="text-2xl font-bold text-blue-600">{words.length}</p>
-            <p className="text-sm text-gray-600">Total Words</p>
+            <p className="text-2xl font-bold text-blue-600">{activeWords.length}</p>
+            <p className="text-sm text-gray-600">{t('stats.totalWords')}</p>
           </div>
           <div>
             <p className="text-2xl font-bold text-green-600">
-              {words.filter(w => w.mastery >= 80).length}
+              {activeWords.filter(w => w.mastery >= 80).length}
             </p>
-            <p className="text-sm text-gray-600">Mastered</p>
+            <p className="text-sm text-gray-600">{t('stats.mastered')}</p>
           </div>
           <div>
             <p className="text-2xl font-bold text-orange-600">
-              {words.filter(w => w.mastery < 80).length}
+              {activeWords.filter(w => w.mastery < 80).length}
+            </p>
+            <p className="text-sm text-gray-600">{t('stats.learning')}</p>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+interface WordRowProps {
+  word: Word;
+  selected: boolean;
+  editing: boolean;
+  dragging: boolean;
+  onToggleSelected: () => void;
+  onEdit: () => void;
+  onCloseEditor: () => void;
+  onArchive: () => void;
+  onDelete: () => void;
+  onDragStart: () => void;
+  onDragEnd: () => void;
+  onDrop: () => void;
+}
+
+function WordRow({
+  word,
+  selected,
+  editing,
+  dragging,
+  onToggleSelected,
+  onEdit,
+  onCloseEditor,
+  onArchive,
+  onDelete,
+  onDragStart,
+  onDragEnd,
+  onDrop
+}: WordRowProps) {
+  const homeLanguage = useStore(state => state.homeLanguage);
+  const targetLanguage = useStore(state => state.targetLanguage);
+  const { t, dateLocale, languageName } = useTranslation();
+  const translation = word.details?.translations?.[homeLanguage];
+  // Words from another language the learner studies are labelled with it
+  const otherLanguage = word.language !== targetLanguage
+    ? languageName(word.language)
+    : null;
+  const stress = word.details ? stressPattern(word.details) : null;
+
+  return (
+    <div
+      draggable={!editing}
+      onDragStart={onDragStart}
+      onDragEnd={onDragEnd}
+      onDragOver={(e) => e.preventDefault()}
+      onDrop={(e) => {
+        e.preventDefault();
+        onDrop();
+      }}
+      className={`p-3 rounded-lg transition-colors ${
+        word.archived ? 'bg-gray-50 opacity-60' : 'bg-gray-50 hover:bg-gray-100'
+      } ${dragging ? 'ring-2 ring-blue-300' : ''}`}
+    >
+      <div className="flex items-center gap-3">
+        <GripVertical className="w-4 h-4 text-gray-400 cursor-grab" />
+        <input
+          type="checkbox"
+          checked={selected}
+          onChange={onToggleSelected}
+          aria-label={t('words.select', { word: word.word })}
+        />
+        <div className="flex-1">
+          <p className="font-medium text-gray-800">
+            <bdi>{word.word}</bdi>
+            {word.details?.ipa && (
+              <span dir="ltr" className="ms-2 font-normal text-gray-500">/{word.details.ipa}/</span>
+            )}
+            {stress && (
+              <span className="ms-2 text-xs font-normal text-gray-500">{stress}</span>
+            )}
+            {word.details?.partOfSpeech && (
+              <span className="ms-2 text-xs font-normal italic text-gray-500">{word.details.partOfSpeech}</span>
+            )}
+            {otherLanguage && (
+              <span className="ms-2 px-1.5 py-0.5 text-xs font-normal bg-green-100 text-green-700 rounded">{otherLanguage}</span>
+            )}
+            {isPhrase(word.word) && (
+              <span className="ms-2 px-1.5 py-0.5 text-xs font-normal bg-purple-100 text-purple-700 rounded">{t('words.phrase')}</span>
+            )}
+            {word.archived && (
+              <span className="ms-2 text-xs font-normal text-gray-500">{t('words.archived')}</span>
+            )}
+          </p>
+          {word.decks && word.decks.length > 0 && (
+            <p className="flex flex-wrap gap-1 my-1">
+              {word.decks.map((name) => (
+                <span key={name} className="px-1.5 py-0.5 text-xs bg-blue-100 text-blue-700 rounded">{name}</span>
+              ))}
+            </p>
+          )}
+          {(word.details?.definition || translation) && (
+            <p className="text-sm text-gray-600">
+              {translation && <span className="font-medium">{translation}</span>}
+              {translation && word.details?.definition && ' — '}
+              {word.details?.definition}
             </p>
-            <p className="text-sm text-gray-600">Learning</p>
+          )}
+          <div className="flex items-center gap-4 mt-1 text-xs text-gray-500">
+            <span className="flex items-center gap-1">
+              <Clock className="w-3 h-3" />
+              <span>{format(new Date(word.timestamp), 'PPp', { locale: dateLocale })}</span>
+            </span>
+            <span className="flex items-center gap-1">
+              <Hash className="w-3 h-3" />
+              <span>{t('words.practices', { count: word.practiceCount })}</span>
+            </span>
+            <span className="flex items-center gap-1">
+              <TrendingUp className="w-3 h-3" />
+              <span>{t('words.mastery', { mastery: word.mastery })}</span>
+            </span>
           </div>
         </div>
+        <button
+          onClick={onEdit}
+          title={t('words.edit')}
+          className="p-2 text-gray-400 hover:text-blue-600"
+        >
+          <Pencil className="w-4 h-4" />
+        </button>
+        <button
+          onClick={onArchive}
+          title={word.archived ? t('words.restoreHint') : t('words.archiveHint')}
+          className="p-2 text-gray-400 hover:text-gray-700"
+        >
+          {word.archived ? <ArchiveRestore className="w-4 h-4" /> : <Archive className="w-4 h-4" />}
+        </button>
+        <button
+          onClick={onDelete}
+          title={t('words.deleteWord')}
+          className="p-2 text-gray-400 hover:text-red-600"
+        >
+          <Trash2 className="w-4 h-4" />
+        </button>
       </div>
+      {editing && <WordEditor word={word} onClose={onCloseEditor} />}
     </div>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,48 @@
+import type { WordDetails } from './store';
+import entries from './dictionary-en.json';
+import { wordKey } from './normalize';
+
+// Bundled offline dictionary for common English words, so new words arrive with their
+// pronunciation and meaning without a network lookup. Translations are keyed by language
+// code ("es", "fr", ...), like the home language setting.
+
+const dictionary: Record<string, WordDetails> = entries;
+
+export const PARTS_OF_SPEECH = [
+  'noun', 'verb', 'adjective', 'adverb', 'pronoun', 'preposition', 'conjunction', 'interjection', 'number', 'phrase'
+] as const;
+
+// Only English words are in it, so a word in any other language (by code) finds nothing
+export function lookupWord(word: string, language = 'en'): WordDetails | null {
+  const entry = language === 'en' ? dictionary[wordKey(word)] : undefined;
+  return entry ? { ...entry, translations: { ...entry.translations } } : null;
+}
+
+/** Fill the empty fields of `details` from the dictionary, keeping anything already set. */
+export function autoFillDetails(word: string, details: WordDetails = {}, language = 'en'): WordDetails {
+  const entry = lookupWord(word, language);
+  if (!entry) return details;
+
+  const filled: WordDetails = { ...details };
+  for (const key of ['ipa', 'partOfSpeech', 'definition', 'example'] as const) {
+    if (!filled[key]) filled[key] = entry[key];
+  }
+  if (!filled.syllables?.length) {
+    filled.syllables = entry.syllables;
+    filled.stress = entry.stress;
+  }
+  filled.translations = { ...entry.translations, ...dropEmpty(details.translations) };
+  return filled;
+}
+
+function dropEmpty(translations: Record<string, string> = {}): Record<string, string> {
+  return Object.fromEntries(Object.entries(translations).filter(([, text]) => text.trim()));
+}
+
+// "AP·ple" - syllables with the stressed one in capitals
+export function stressPattern(details: WordDetails): string | null {
+  if (!details.syllables || details.syllables.length === 0) return null;
+  return details.syllables
+    .map((syllable, i) => (i === details.stress ? syllable.toUpperCase() : syllable))
+    .join('·');
+}
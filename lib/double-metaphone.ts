@@ -0,0 +1,596 @@
+// Double Metaphone phonetic keys (Lawrence Philips, 2000).
+// Words that sound alike get the same key, so "nite" and "night" both encode to NT.
+// Returns a primary key and an alternate for words with a second common pronunciation.
+
+const VOWELS = new Set(['A', 'E', 'I', 'O', 'U', 'Y']);
+const SLAVO_GERMANIC = /W|K|CZ|WITZ/;
+
+function isVowel(char: string | undefined): boolean {
+  return char !== undefined && VOWELS.has(char);
+}
+
+export function doubleMetaphone(input: string): [string, string] {
+  const value = input.toUpperCase().replace(/[^A-ZÇÑ]/g, '');
+  const length = value.length;
+  const last = length - 1;
+  const isSlavoGermanic = SLAVO_GERMANIC.test(value);
+  const isGermanic = /^(VAN |VON |SCH)/.test(value);
+
+  let primary = '';
+  let secondary = '';
+  let index = 0;
+
+  const at = (position: number) => value.charAt(position);
+  // True if the substring at `start` matches any of `options`
+  const matches = (start: number, ...options: string[]) =>
+    start >= 0 && options.some(option => value.startsWith(option, start));
+  const add = (main: string, alternate: string = main) => {
+    primary += main;
+    secondary += alternate;
+  };
+
+  if (length === 0) return ['', ''];
+
+  // Skip these when at the start of a word
+  if (matches(0, 'GN', 'KN', 'PN', 'WR', 'PS')) index++;
+
+  // Initial X is pronounced Z (Xavier)
+  if (at(0) === 'X') {
+    add('S');
+    index++;
+  }
+
+  while (index < length) {
+    const char = at(index);
+    const prev = at(index - 1);
+    const next = at(index + 1);
+
+    switch (char) {
+      case 'A':
+      case 'E':
+      case 'I':
+      case 'O':
+      case 'U':
+      case 'Y':
+        // Vowels only count at the start of a word
+        if (index === 0) add('A');
+        index++;
+        break;
+
+      case 'B':
+        add('P');
+        index += next === 'B' ? 2 : 1;
+        break;
+
+      case 'Ç':
+        add('S');
+        index++;
+        break;
+
+      case 'C':
+        // Various Germanic: "bacher", "macher"
+        if (
+          index > 1 &&
+          !isVowel(at(index - 2)) &&
+          matches(index - 1, 'ACH') &&
+          at(index + 2) !== 'I' &&
+          (at(index + 2) !== 'E' || matches(index - 2, 'BACHER', 'MACHER'))
+        ) {
+          add('K');
+          index += 2;
+          break;
+        }
+
+        // Caesar
+        if (index === 0 && matches(index, 'CAESAR')) {
+          add('S');
+          index += 2;
+          break;
+        }
+
+        // Chianti
+        if (matches(index, 'CHIA')) {
+          add('K');
+          index += 2;
+          break;
+        }
+
+        if (next === 'H') {
+          // Michael
+          if (index > 0 && matches(index, 'CHAE')) {
+            add('K', 'X');
+            index += 2;
+            break;
+          }
+
+          // Greek roots: chemistry, chorus
+          if (
+            index === 0 &&
+            (matches(index + 1, 'HARAC', 'HARIS') || matches(index + 1, 'HOR', 'HYM', 'HIA', 'HEM')) &&
+            !matches(0, 'CHORE')
+          ) {
+            add('K');
+            index += 2;
+            break;
+          }
+
+          // Germanic, Greek, or otherwise "ch" for "kh": orchestra, orchid, architect
+          if (
+            isGermanic ||
+            matches(index - 2, 'ORCHES', 'ARCHIT', 'ORCHID') ||
+            at(index + 2) === 'T' ||
+            at(index + 2) === 'S' ||
+            ((index === 0 || matches(index - 1, 'A', 'O', 'U', 'E')) &&
+              (index + 2 >= length || matches(index + 2, 'L', 'R', 'N', 'M', 'B', 'H', 'F', 'V', 'W', ' ')))
+          ) {
+            add('K');
+          } else if (index > 0) {
+            add(matches(0, 'MC') ? 'K' : 'X', 'K');
+          } else {
+            add('X');
+          }
+          index += 2;
+          break;
+        }
+
+        // Czerny
+        if (next === 'Z' && !matches(index - 2, 'WI')) {
+          add('S', 'X');
+          index += 2;
+          break;
+        }
+
+        // Focaccia
+        if (matches(index + 1, 'CIA')) {
+          add('X');
+          index += 3;
+          break;
+        }
+
+        // Double C, but not McClellan
+        if (next === 'C' && !(index === 1 && at(0) === 'M')) {
+          // Bellocchio, but not bacchus
+          if (matches(index + 2, 'I', 'E', 'H') && !matches(index + 2, 'HU')) {
+            // Accident, accede, succeed
+            if ((index === 1 && prev === 'A') || matches(index - 1, 'UCCEE', 'UCCES')) {
+              add('KS');
+            } else {
+              // Bacci, bertucci
+              add('X');
+            }
+            index += 3;
+            break;
+          }
+          // Pierce's rule
+          add('K');
+          index += 2;
+          break;
+        }
+
+        if (matches(index + 1, 'K', 'G', 'Q')) {
+          add('K');
+          index += 2;
+          break;
+        }
+
+        if (matches(index + 1, 'I', 'E', 'Y')) {
+          // Italian vs English
+          if (matches(index + 1, 'IO', 'IE', 'IA')) {
+            add('S', 'X');
+          } else {
+            add('S');
+          }
+          index += 2;
+          break;
+        }
+
+        add('K');
+        // Mac Caffrey, Mac Gregor
+        if (matches(index + 1, ' C', ' Q', ' G')) {
+          index += 3;
+        } else if (matches(index + 1, 'C', 'K', 'Q') && !matches(index + 1, 'CE', 'CI')) {
+          index += 2;
+        } else {
+          index++;
+        }
+        break;
+
+      case 'D':
+        if (next === 'G') {
+          // Edge
+          if (matches(index + 2, 'I', 'E', 'Y')) {
+            add('J');
+            index += 3;
+          } else {
+            // Edgar
+            add('TK');
+            index += 2;
+          }
+          break;
+        }
+        add('T');
+        index += next === 'T' || next === 'D' ? 2 : 1;
+        break;
+
+      case 'F':
+        add('F');
+        index += next === 'F' ? 2 : 1;
+        break;
+
+      case 'G':
+        if (next === 'H') {
+          if (index > 0 && !isVowel(prev)) {
+            add('K');
+            index += 2;
+            break;
+          }
+
+          // Ghislane, ghiradelli
+          if (index === 0) {
+            add(at(index + 2) === 'I' ? 'J' : 'K');
+            index += 2;
+            break;
+          }
+
+          // Parker's rule (with refinements): hugh, bough, broughton
+          if (
+            matches(index - 2, 'B', 'H', 'D') ||
+            matches(index - 3, 'B', 'H', 'D') ||
+            matches(index - 4, 'B', 'H')
+          ) {
+            index += 2;
+            break;
+          }
+
+          // Laugh, McLaughlin, cough, gough, rough, tough
+          if (index > 2 && prev === 'U' && matches(index - 3, 'C', 'G', 'L', 'R', 'T')) {
+            add('F');
+          } else if (index > 0 && prev !== 'I') {
+            add('K');
+          }
+          index += 2;
+          break;
+        }
+
+        if (next === 'N') {
+          if (index === 1 && isVowel(at(0)) && !isSlavoGermanic) {
+            add('KN', 'N');
+          } else if (!matches(index + 2, 'EY') && !isSlavoGermanic) {
+            add('N', 'KN');
+          } else {
+            add('KN');
+          }
+          index += 2;
+          break;
+        }
+
+        // Tagliaro
+        if (matches(index + 1, 'LI') && !isSlavoGermanic) {
+          add('KL', 'L');
+          index += 2;
+          break;
+        }
+
+        // -ges-, -gep-, -gel- at the beginning
+        if (index === 0 && (next === 'Y' || matches(index + 1, 'ES', 'EP', 'EB', 'EL', 'EY', 'IB', 'IL', 'IN', 'IE', 'EI', 'ER'))) {
+          add('K', 'J');
+          index += 2;
+          break;
+        }
+
+        // -ger-, -gy-
+        if (
+          (matches(index + 1, 'ER') || next === 'Y') &&
+          !matches(0, 'DANGER', 'RANGER', 'MANGER') &&
+          !matches(index - 1, 'E', 'I') &&
+          !matches(index - 1, 'RGY', 'OGY')
+        ) {
+          add('K', 'J');
+          index += 2;
+          break;
+        }
+
+        // Italian: biaggi
+        if (matches(index + 1, 'E', 'I', 'Y') || matches(index - 1, 'AGGI', 'OGGI')) {
+          if (isGermanic || matches(index + 1, 'ET')) {
+            add('K');
+          } else if (matches(index + 1, 'IER')) {
+            add('J');
+          } else {
+            add('J', 'K');
+          }
+          index += 2;
+          break;
+        }
+
+        add('K');
+        index += next === 'G' ? 2 : 1;
+        break;
+
+      case 'H':
+        // Only keep if first and before a vowel, or between two vowels
+        if ((index === 0 || isVowel(prev)) && isVowel(next)) {
+          add('H');
+          index += 2;
+        } else {
+          index++;
+        }
+        break;
+
+      case 'J':
+        // Obvious Spanish: jose, San Jacinto
+        if (matches(index, 'JOSE') || matches(0, 'SAN ')) {
+          if ((index === 0 && at(index + 4) === ' ') || matches(0, 'SAN ')) {
+            add('H');
+          } else {
+            add('J', 'H');
+          }
+          index++;
+          break;
+        }
+
+        if (index === 0) {
+          // Yankelovich, Jankelowicz
+          add('J', 'A');
+        } else if (!isSlavoGermanic && isVowel(prev) && (next === 'A' || next === 'O')) {
+          // Spanish pronunciation of bajador
+          add('J', 'H');
+        } else if (index === last) {
+          add('J', '');
+        } else if (!matches(index + 1, 'L', 'T', 'K', 'S', 'N', 'M', 'B', 'Z') && !matches(index - 1, 'S', 'K', 'L')) {
+          add('J');
+        }
+        index += next === 'J' ? 2 : 1;
+        break;
+
+      case 'K':
+        add('K');
+        index += next === 'K' ? 2 : 1;
+        break;
+
+      case 'L':
+        if (next === 'L') {
+          // Spanish: cabrillo, gallegos
+          if (
+            (index === length - 3 && matches(index - 1, 'ILLO', 'ILLA', 'ALLE')) ||
+            ((matches(last - 1, 'AS', 'OS') || matches(last, 'A', 'O')) && matches(index - 1, 'ALLE'))
+          ) {
+            add('L', '');
+            index += 2;
+            break;
+          }
+          index += 2;
+        } else {
+          index++;
+        }
+        add('L');
+        break;
+
+      case 'M':
+        add('M');
+        // Dumb, thumb
+        if (next === 'M' || (matches(index - 1, 'UMB') && (index + 1 === last || matches(index + 2, 'ER')))) {
+          index += 2;
+        } else {
+          index++;
+        }
+        break;
+
+      case 'N':
+        add('N');
+        index += next === 'N' ? 2 : 1;
+        break;
+
+      case 'Ñ':
+        add('N');
+        index++;
+        break;
+
+      case 'P':
+        if (next === 'H') {
+          add('F');
+          index += 2;
+          break;
+        }
+        // Campbell, raspberry
+        add('P');
+        index += next === 'P' || next === 'B' ? 2 : 1;
+        break;
+
+      case 'Q':
+        add('K');
+        index += next === 'Q' ? 2 : 1;
+        break;
+
+      case 'R':
+        // French: rogier, but not hochmeier
+        if (index === last && !isSlavoGermanic && matches(index - 2, 'IE') && !matches(index - 4, 'ME', 'MA')) {
+          add('', 'R');
+        } else {
+          add('R');
+        }
+        index += next === 'R' ? 2 : 1;
+        break;
+
+      case 'S':
+        // Isle, sugar, but not sisl
+        if (matches(index - 1, 'ISL', 'YSL')) {
+          index++;
+          break;
+        }
+
+        // Sugar
+        if (index === 0 && matches(index, 'SUGAR')) {
+          add('X', 'S');
+          index++;
+          break;
+        }
+
+        if (next === 'H') {
+          // Germanic: holm, holz
+          if (matches(index + 1, 'HEIM', 'HOEK', 'HOLM', 'HOLZ')) {
+            add('S');
+          } else {
+            add('X');
+          }
+          index += 2;
+          break;
+        }
+
+        // Italian and Armenian: sio, sia
+        if (matches(index, 'SIO', 'SIA', 'SIAN')) {
+          if (isSlavoGermanic) {
+            add('S');
+          } else {
+            add('S', 'X');
+          }
+          index += 3;
+          break;
+        }
+
+        // German and anglicisations: smith/schmidt, snider/schneider
+        if ((index === 0 && matches(index + 1, 'M', 'N', 'L', 'W')) || next === 'Z') {
+          add('S', 'X');
+          index += next === 'Z' ? 2 : 1;
+          break;
+        }
+
+        if (matches(index, 'SC')) {
+          // Schlesinger's rule
+          if (at(index + 2) === 'H') {
+            // Dutch origin: school, schooner
+            if (matches(index + 3, 'OO', 'ER', 'EN', 'UY', 'ED', 'EM')) {
+              // Schermerhorn, schenker
+              if (matches(index + 3, 'ER', 'EN')) {
+                add('X', 'SK');
+              } else {
+                add('SK');
+              }
+              index += 3;
+              break;
+            }
+            if (index === 0 && !isVowel(at(3)) && at(3) !== 'W') {
+              add('X', 'S');
+            } else {
+              add('X');
+            }
+            index += 3;
+            break;
+          }
+
+          if (matches(index + 2, 'I', 'E', 'Y')) {
+            add('S');
+            index += 3;
+            break;
+          }
+
+          add('SK');
+          index += 3;
+          break;
+        }
+
+        // French: resnais, artois
+        if (index === last && matches(index - 2, 'AI', 'OI')) {
+          add('', 'S');
+        } else {
+          add('S');
+        }
+        index += next === 'S' || next === 'Z' ? 2 : 1;
+        break;
+
+      case 'T':
+        if (matches(index, 'TION', 'TIA', 'TCH')) {
+          add('X');
+          index += 3;
+          break;
+        }
+
+        if (matches(index, 'TH', 'TTH')) {
+          // Special case: thomas, thames, or Germanic
+          if (matches(index + 2, 'OM', 'AM') || isGermanic) {
+            add('T');
+          } else {
+            add('0', 'T');
+          }
+          index += 2;
+          break;
+        }
+
+        add('T');
+        index += next === 'T' || next === 'D' ? 2 : 1;
+        break;
+
+      case 'V':
+        add('F');
+        index += next === 'V' ? 2 : 1;
+        break;
+
+      case 'W':
+        // Can also be in the middle of a word (as already taken care of for initial)
+        if (next === 'R') {
+          add('R');
+          index += 2;
+          break;
+        }
+
+        if (index === 0) {
+          // Wasserman should match vasserman
+          if (isVowel(next)) {
+            add('A', 'F');
+          } else if (next === 'H') {
+            // Need Uomo to match Womo
+            add('A');
+          }
+        }
+
+        // Arnow should match arnoff
+        if (
+          (index === last && isVowel(prev)) ||
+          matches(index - 1, 'EWSKI', 'EWSKY', 'OWSKI', 'OWSKY') ||
+          matches(0, 'SCH')
+        ) {
+          add('', 'F');
+          index++;
+          break;
+        }
+
+        // Polish: filipowicz
+        if (matches(index, 'WICZ', 'WITZ')) {
+          add('TS', 'FX');
+          index += 4;
+          break;
+        }
+
+        index++;
+        break;
+
+      case 'X':
+        // French: breaux
+        if (!(index === last && (matches(index - 3, 'IAU', 'EAU') || matches(index - 2, 'AU', 'OU')))) {
+          add('KS');
+        }
+        index += next === 'C' || next === 'X' ? 2 : 1;
+        break;
+
+      case 'Z':
+        // Chinese pinyin: zhao
+        if (next === 'H') {
+          add('J');
+          index += 2;
+          break;
+        }
+        if (matches(index + 1, 'ZO', 'ZI', 'ZA') || (isSlavoGermanic && index > 0 && prev !== 'T')) {
+          add('S', 'TS');
+        } else {
+          add('S');
+        }
+        index += next === 'Z' ? 2 : 1;
+        break;
+
+      default:
+        index++;
+    }
+  }
+
+  return [primary, secondary];
+}
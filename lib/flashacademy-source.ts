@@ -0,0 +1,143 @@
+import type { LearnedWord, LearnedWordsPage, MasteryUpdate, VocabularySource } from './vocabulary-source';
+import { toLanguageCode } from './languages';
+
+// FlashAcademy's partner REST API. Server-only: it is configured from FLASHACADEMY_API_URL
+// and FLASHACADEMY_API_KEY, and the key must never reach the browser. For local development,
+// `npm run mock:flashacademy` serves the same API (server/mock-flashacademy.js).
+
+export const FLASHACADEMY = 'flashacademy';
+
+const PAGE_SIZE = 100;
+
+// Words as the API returns them
+interface ApiWord {
+  id: string;
+  text: string;
+  learned_at: string;
+  language?: string;
+  unit?: string;
+  translation?: { language: string; text: string }; // Language by English name
+}
+
+interface ApiPage {
+  words: ApiWord[];
+  next_cursor: string | null;
+  has_more: boolean;
+}
+
+function toLearnedWord(word: ApiWord): LearnedWord {
+  return {
+    externalId: String(word.id),
+    word: word.text,
+    learnedAt: new Date(word.learned_at),
+    language: word.language,
+    decks: word.unit ? [word.unit] : undefined,
+    details: word.translation
+      ? { translations: { [toLanguageCode(word.translation.language) ?? word.translation.language]: word.translation.text } }
+      : undefined
+  };
+}
+
+export interface FlashAcademyConfig {
+  baseUrl: string;
+  apiKey: string;
+  studentId: string; // The learner's FlashAcademy account
+}
+
+async function callApi<T>(baseUrl: string, apiKey: string, path: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(`${baseUrl.replace(/\/$/, '')}/v1${path}`, {
+    ...init,
+    headers: {
+      'Authorization': `Bearer ${apiKey}`,
+      'Content-Type': 'application/json',
+      ...init?.headers
+    },
+    signal: AbortSignal.timeout(15000)
+  });
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.error || `FlashAcademy answered ${response.status}`);
+  }
+  return response.json();
+}
+
+export class FlashAcademySource implements VocabularySource {
+  readonly id = FLASHACADEMY;
+  readonly name = 'FlashAcademy';
+  private config: FlashAcademyConfig;
+
+  constructor(config: FlashAcademyConfig) {
+    this.config = config;
+  }
+
+  private request<T>(path: string, init?: RequestInit): Promise<T> {
+    const { baseUrl, apiKey, studentId } = this.config;
+    return callApi<T>(baseUrl, apiKey, `/students/${encodeURIComponent(studentId)}${path}`, init);
+  }
+
+  async fetchLearnedWords(cursor: string | null): Promise<LearnedWordsPage> {
+    const query = new URLSearchParams({ limit: String(PAGE_SIZE) });
+    if (cursor) query.set('since', cursor);
+    const page = await this.request<ApiPage>(`/learned-words?${query}`);
+    if (!Array.isArray(page?.words)) {
+      throw new Error('FlashAcademy sent a page of learned words without a words list');
+    }
+    return {
+      // Skip anything malformed rather than failing the whole sync over it
+      words: page.words
+        .filter(w => w?.id && typeof w.text === 'string' && !Number.isNaN(new Date(w.learned_at).getTime()))
+        .map(toLearnedWord),
+      cursor: page.next_cursor,
+      hasMore: page.has_more
+    };
+  }
+
+  async pushMastery(updates: MasteryUpdate[]): Promise<void> {
+    if (updates.length === 0) return;
+    await this.request('/mastery', {
+      method: 'POST',
+      body: JSON.stringify({
+        updates: updates.map(u => ({
+          word_id: u.externalId,
+          mastery: u.mastery,
+          practice_count: u.practiceCount,
+          last_practiced: u.lastPracticed?.toISOString() ?? null
+        }))
+      })
+    });
+  }
+}
+
+/**
+ * Trade a linking code for the student ID it was issued to. Learners get a code from
+ * FlashAcademy itself, which is how they prove the account is theirs - a student ID alone
+ * proves nothing. Codes are single-use and short-lived; FlashAcademy rejects anything else.
+ */
+export async function redeemLinkCode(config: Omit<FlashAcademyConfig, 'studentId'>, code: string): Promise<string> {
+  const { student_id: studentId } = await callApi<{ student_id: string }>(config.baseUrl, config.apiKey, '/link-codes/redeem', {
+    method: 'POST',
+    body: JSON.stringify({ code })
+  });
+  if (typeof studentId !== 'string' || !studentId) throw new Error('FlashAcademy returned no student for that code');
+  return studentId;
+}
+
+/** The student ID a linking code was issued to, or null if the server isn't configured for FlashAcademy. */
+export function redeemFlashAcademyLinkCode(code: string): Promise<string> | null {
+  const baseUrl = process.env.FLASHACADEMY_API_URL;
+  const apiKey = process.env.FLASHACADEMY_API_KEY;
+  if (!baseUrl || !apiKey) return null;
+  return redeemLinkCode({ baseUrl, apiKey }, code);
+}
+
+/** The adapter for a learner's FlashAcademy account, or null if the server isn't configured for it. */
+export function createFlashAcademySource(studentId: string): FlashAcademySource | null {
+  const baseUrl = process.env.FLASHACADEMY_API_URL;
+  const apiKey = process.env.FLASHACADEMY_API_KEY;
+  if (!baseUrl || !apiKey) return null;
+  return new FlashAcademySource({ baseUrl, apiKey, studentId });
+}
+
+export function isFlashAcademyConfigured(): boolean {
+  return !!process.env.FLASHACADEMY_API_URL && !!process.env.FLASHACADEMY_API_KEY;
+}
@@ -0,0 +1,64 @@
+// UI text in the learner's home language. Messages live in lib/messages/<code>.ts;
+// anything a catalog leaves out falls back to English.
+
+import { useMemo } from 'react';
+import type { Locale } from 'date-fns';
+import { ar, de, enUS, es, fr, hi, it, ja, ko, nl, pl, pt, ru, sv, tr, zhCN } from 'date-fns/locale';
+import { useStore } from './store';
+import { textDirection } from './languages';
+import { catalogs, en, type Message, type MessageKey } from './messages';
+
+export type { MessageKey } from './messages';
+
+export type MessageValues = Record<string, string | number>;
+export type Translate = (key: MessageKey, values?: MessageValues) => string;
+
+const dateLocales: Record<string, Locale> = {
+  en: enUS, es, fr, de, it, pt, ru, zh: zhCN, ja, ko, ar, hi, tr, pl, nl, sv
+};
+
+function pick(message: Message, code: string, values: MessageValues): string {
+  if (typeof message === 'string') return message;
+  const count = Number(values.count ?? 0);
+  const category = new Intl.PluralRules(code).select(count);
+  return message[category] ?? message.other;
+}
+
+// Text filled into a message (a learner's word, a deck name) may run the other way
+// from the message around it; first-strong isolates keep it from reordering its neighbours.
+function isolate(value: string | number): string {
+  return typeof value === 'string' ? `\u2068${value}\u2069` : String(value);
+}
+
+/** The message for `key` in the language with `code`, with `{name}` placeholders filled in. */
+export function translate(code: string, key: MessageKey, values: MessageValues = {}): string {
+  const message = catalogs[code]?.[key] ?? en[key];
+  return pick(message, code, values).replace(/\{(\w+)\}/g, (match, name: string) =>
+    name in values ? isolate(values[name]) : match
+  );
+}
+
+export function dateLocale(code: string): Locale {
+  return dateLocales[code] ?? enUS;
+}
+
+/**
+ * Translation helpers for the current home language. Reads it from the store, so
+ * components re-render in the new language as soon as it's changed.
+ */
+export function useTranslation() {
+  const code = useStore(state => state.homeLanguage);
+
+  return useMemo(() => {
+    const t: Translate = (key, values) => translate(code, key, values);
+    const names = new Intl.DisplayNames([code], { type: 'language' });
+    return {
+      code,
+      dir: textDirection(code),
+      t,
+      dateLocale: dateLocale(code),
+      // "Spanish" as written in the home language ("espagnol", "Spanisch")
+      languageName: (other: string) => names.of(other) ?? other
+    };
+  }, [code]);
+}
@@ -0,0 +1,59 @@
+// The languages a learner can speak or study. The registry itself is lib/languages.json so
+// the proxy (server/session-config.js) reads the same list. Settings and words hold the
+// code; the English name is what the tutor's prompts use.
+
+import registry from './languages.json';
+
+export interface Language {
+  code: string;           // BCP-47 - what settings, words and translations are keyed by
+  name: string;           // English name, for the prompts
+  native: string;         // As written in the language itself, for pickers
+  dir: 'ltr' | 'rtl';
+  ttsVoice: string;       // SpeechSynthesisUtterance.lang for the "Play" button
+  whisper: string;        // Whisper's ISO 639-1 transcription hint
+}
+
+export const LANGUAGES = registry as Language[];
+
+export const DEFAULT_LANGUAGE = 'en';
+
+/** The registry entry for a code. A regional code ("es-MX") finds its base language. */
+export function languageByCode(code: string): Language | undefined {
+  const tag = code.trim().toLowerCase();
+  return LANGUAGES.find(l => l.code.toLowerCase() === tag)
+    ?? LANGUAGES.find(l => l.code.toLowerCase() === tag.split('-')[0]);
+}
+
+export function languageByName(name: string): Language | undefined {
+  return LANGUAGES.find(l => l.name.toLowerCase() === name.trim().toLowerCase());
+}
+
+/**
+ * The registry code for a code or an English name. Settings, translations and export
+ * files from before languages were stored by code hold names ("Spanish").
+ */
+export function toLanguageCode(value: string): string | undefined {
+  return (languageByCode(value) ?? languageByName(value))?.code;
+}
+
+/** The English name for a code, for prompts and labels; unknown codes are shown as they are. */
+export function languageName(code: string): string {
+  return languageByCode(code)?.name ?? code;
+}
+
+/** The voice to speak a word in, given its stored code. Unknown codes are passed through. */
+export function ttsVoice(code: string): string {
+  return languageByCode(code)?.ttsVoice ?? code;
+}
+
+/** The writing direction for a language code, for `dir` attributes. */
+export function textDirection(code: string): 'ltr' | 'rtl' {
+  return languageByCode(code)?.dir ?? 'ltr';
+}
+
+/** Translations re-keyed from English names to codes; keys that aren't known languages stay as they are. */
+export function translationsByCode(translations: Record<string, string>): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(translations).map(([language, text]) => [toLanguageCode(language) ?? language, text])
+  );
+}
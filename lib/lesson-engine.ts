@@ -0,0 +1,197 @@
+// Word-by-word lesson flow, independent of any transport.
+//
+// `transition` is a pure function: given the current state and something that happened
+// (the tutor finished talking, the learner made an attempt, a score came in) it returns
+// the next state plus the commands the transport should carry out. RealtimeClient feeds it
+// socket events and executes the commands; nothing here touches a WebSocket or a timer.
+
+export type LessonMode = 'pronunciation' | 'vocabulary' | 'conversation' | 'pronunciation-test';
+
+/**
+ * - idle:      not started
+ * - introduce: the tutor is presenting the current word (or asking for a retry)
+ * - attempt:   waiting for the learner to try the word
+ * - feedback:  the tutor is responding to an attempt
+ * - scoring:   the tutor has finished responding, but the attempt's score hasn't come in yet
+ * - advance:   the word is finished; waiting for the tutor to wrap up before moving on
+ * - complete:  every word has been practiced
+ */
+export type LessonPhase = 'idle' | 'introduce' | 'attempt' | 'feedback' | 'scoring' | 'advance' | 'complete';
+
+export interface LessonOptions {
+  attemptsPerWord: number;
+  passingScore?: number; // When set, a score at or above it finishes the word early - and every attempt waits for its score
+}
+
+export interface LessonState {
+  phase: LessonPhase;
+  words: string[];
+  index: number;            // Current word
+  attempt: number;          // Attempts made on the current word
+  bestScore: number | null; // Best score on the current word, if scoring is used
+  scored: boolean;          // The latest attempt's score has come in
+  options: LessonOptions;
+}
+
+export type LessonEvent =
+  | { type: 'start' }
+  | { type: 'tutor.done' }
+  | { type: 'learner.attempt'; transcript: string }
+  | { type: 'scored'; score: number }
+  | { type: 'retry' }
+  | { type: 'skip' };
+
+export type LessonCommand =
+  | { type: 'introduce-word'; word: string; index: number; total: number; previousWord?: string; resume?: boolean }
+  | { type: 'request-retry'; word: string; attempt: number; maxAttempts: number }
+  | { type: 'word-finished'; word: string; index: number; attempts: number; bestScore: number | null }
+  | { type: 'complete'; total: number };
+
+export interface LessonTransition {
+  state: LessonState;
+  commands: LessonCommand[];
+}
+
+export const defaultLessonOptions: Record<LessonMode, LessonOptions> = {
+  pronunciation: { attemptsPerWord: 2 },
+  vocabulary: { attemptsPerWord: 2 },
+  conversation: { attemptsPerWord: 3 },
+  'pronunciation-test': { attemptsPerWord: 3, passingScore: 70 }
+};
+
+export function createLesson(words: string[], options: LessonOptions): LessonState {
+  return {
+    phase: 'idle',
+    words,
+    index: 0,
+    attempt: 0,
+    bestScore: null,
+    scored: false,
+    options
+  };
+}
+
+export function currentWord(state: LessonState): string | undefined {
+  return state.words[state.index];
+}
+
+function finishWord(state: LessonState): LessonCommand {
+  return {
+    type: 'word-finished',
+    word: state.words[state.index],
+    index: state.index,
+    attempts: state.attempt,
+    bestScore: state.bestScore
+  };
+}
+
+// Move to the next word, or complete the lesson if that was the last one
+function nextWord(state: LessonState): LessonTransition {
+  const index = state.index + 1;
+  if (index >= state.words.length) {
+    return {
+      state: { ...state, phase: 'complete' },
+      commands: [{ type: 'complete', total: state.words.length }]
+    };
+  }
+  return {
+    state: { ...state, phase: 'introduce', index, attempt: 0, bestScore: null, scored: false },
+    commands: [{
+      type: 'introduce-word',
+      word: state.words[index],
+      index,
+      total: state.words.length,
+      previousWord: state.words[state.index]
+    }]
+  };
+}
+
+export function transition(state: LessonState, event: LessonEvent): LessonTransition {
+  const stay = { state, commands: [] };
+  if (state.phase === 'complete') return stay;
+
+  switch (event.type) {
+    case 'start':
+      if (state.words.length === 0) {
+        return { state: { ...state, phase: 'complete' }, commands: [{ type: 'complete', total: 0 }] };
+      }
+      if (state.phase !== 'idle') {
+        // Resuming after a reconnect - present the current word again, keeping its attempts
+        return {
+          state: { ...state, phase: 'introduce' },
+          commands: [{ type: 'introduce-word', word: state.words[state.index], index: state.index, total: state.words.length, resume: true }]
+        };
+      }
+      return {
+        state: { ...state, phase: 'introduce', index: 0, attempt: 0, bestScore: null, scored: false },
+        commands: [{ type: 'introduce-word', word: state.words[0], index: 0, total: state.words.length }]
+      };
+
+    case 'learner.attempt':
+      // The learner may jump in while the tutor is still introducing the word
+      if (state.phase !== 'introduce' && state.phase !== 'attempt') return stay;
+      if (!event.transcript.trim()) return stay;
+      return { state: { ...state, phase: 'feedback', attempt: state.attempt + 1, scored: false }, commands: [] };
+
+    case 'scored': {
+      if (state.phase !== 'feedback' && state.phase !== 'scoring') return stay;
+      const bestScore = Math.max(state.bestScore ?? 0, event.score);
+      const scored = { ...state, bestScore, scored: true };
+      const passed = state.options.passingScore !== undefined && event.score >= state.options.passingScore;
+      const wordDone = passed || state.attempt >= state.options.attemptsPerWord;
+      if (state.phase === 'scoring') {
+        // The tutor has already finished talking, so carry straight on
+        if (!wordDone) return { state: { ...scored, phase: 'attempt' }, commands: [] };
+        const finished = nextWord(scored);
+        return { state: finished.state, commands: [finishWord(scored), ...finished.commands] };
+      }
+      if (wordDone) {
+        // Let the tutor finish its feedback before the next word is introduced
+        return { state: { ...scored, phase: 'advance' }, commands: [finishWord(scored)] };
+      }
+      return { state: scored, commands: [] };
+    }
+
+    case 'tutor.done':
+      switch (state.phase) {
+        case 'introduce':
+          return { state: { ...state, phase: 'attempt' }, commands: [] };
+        case 'feedback':
+          // The score can arrive after the tutor stops talking; a scored lesson waits for it
+          if (state.options.passingScore !== undefined && !state.scored) {
+            return { state: { ...state, phase: 'scoring' }, commands: [] };
+          }
+          if (state.attempt >= state.options.attemptsPerWord) {
+            const finished = nextWord(state);
+            return { state: finished.state, commands: [finishWord(state), ...finished.commands] };
+          }
+          return { state: { ...state, phase: 'attempt' }, commands: [] };
+        case 'advance':
+          return nextWord(state);
+        default:
+          return stay;
+      }
+
+    case 'retry':
+      // Only once the tutor has finished - never talk over its feedback
+      if (state.phase !== 'attempt') return stay;
+      if (state.attempt >= state.options.attemptsPerWord) return stay;
+      return {
+        state: { ...state, phase: 'introduce' },
+        commands: [{
+          type: 'request-retry',
+          word: state.words[state.index],
+          attempt: state.attempt + 1,
+          maxAttempts: state.options.attemptsPerWord
+        }]
+      };
+
+    case 'skip': {
+      if (state.phase === 'idle') return stay;
+      // Already reported as finished - just move on
+      if (state.phase === 'advance') return nextWord(state);
+      const finished = nextWord(state);
+      return { state: finished.state, commands: [finishWord(state), ...finished.commands] };
+    }
+  }
+}
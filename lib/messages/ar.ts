@@ -0,0 +1,364 @@
+import type { Catalog } from './en';
+
+export const ar: Catalog = {
+  'app.tagline': 'مساعد لتعلّم اللغات مدعوم بالذكاء الاصطناعي',
+  'app.signOut': 'تسجيل الخروج',
+  'app.poweredBy': 'بدعم من',
+  'tab.practice': 'تدريب',
+  'tab.test': 'اختبار',
+  'tab.words': 'الكلمات',
+  'tab.dashboard': 'لوحة المتابعة',
+  'tab.settings': 'الإعدادات',
+  'about.title': 'حول التطبيق',
+  'about.realtime': 'يستخدم Voice Tutor واجهة Realtime API من OpenAI لتقديم تدريب لغوي قائم على المحادثة.',
+  'about.flashacademy': 'يتابع النظام الكلمات التي تعلّمتها على منصة FlashAcademy ويساعدك على التدرّب على النطق والمفردات ومهارات المحادثة.',
+  'about.features': 'الميزات:',
+  'about.feature.flow': 'محادثة متواصلة — لا حاجة للضغط على التسجيل لكل كلمة',
+  'about.feature.modes': 'ثلاثة أوضاع تدريب لأهداف تعلّم مختلفة',
+  'about.feature.languages': 'تعليمات وقوائم بـ 16 لغة',
+  'about.feature.feedback': 'ملاحظات فورية على النطق',
+  'about.feature.progress': 'متابعة التقدّم والإحصاءات',
+  'about.feature.words': 'إدارة الكلمات مع تاريخ الإضافة',
+  'about.feature.sync': 'مزامنة المفردات مع FlashAcademy',
+
+  'login.signIn': 'تسجيل الدخول',
+  'login.register': 'إنشاء حساب',
+  'login.intro': 'تُحفظ كلماتك وسجل تدريبك في حسابك.',
+  'login.username': 'اسم المستخدم',
+  'login.displayName': 'اسمك (اختياري)',
+  'login.password': 'كلمة المرور',
+  'login.createAccount': 'إنشاء الحساب',
+  'login.toRegister': 'مستخدم جديد؟ أنشئ حسابًا',
+  'login.toSignIn': 'لديك حساب بالفعل؟ سجّل الدخول',
+  'login.failed': 'حدث خطأ ما',
+
+  'modes.title': 'وضع التدريب',
+  'modes.locked': 'لا يمكن تغيير الوضع أثناء جلسة نشطة',
+  'mode.pronunciation': 'النطق',
+  'mode.pronunciation.description': 'ركّز على نطق الكلمات بوضوح وبشكل صحيح',
+  'mode.vocabulary': 'المفردات',
+  'mode.vocabulary.description': 'تعلّم معاني الكلمات واستخدامها في السياق',
+  'mode.conversation': 'المحادثة',
+  'mode.conversation.description': 'تدرّب على محادثة طبيعية باستخدام الكلمات التي تعلّمتها',
+  'session.pronunciation': 'تدريب على النطق',
+  'session.vocabulary': 'تدريب على المفردات',
+  'session.conversation': 'تدريب على المحادثة',
+
+  'session.pronunciation-test': 'اختبار النطق',
+
+  'status.listening': 'جارٍ الاستماع...',
+  'status.connected': 'متصل',
+  'status.connecting': 'جارٍ الاتصال...',
+  'status.notConnected': 'غير متصل',
+  'voice.tapToEnd': 'اضغط لإنهاء المحادثة',
+  'voice.tapToStart': 'اضغط لبدء التدريب',
+  'chat.empty': 'لم يُقل شيء بعد',
+  'chat.tutor': 'المعلّم',
+  'chat.you': 'أنت',
+  'quota.reached': 'وصلت إلى حد التدريب لهذا اليوم — عمل رائع! سيكون معلّمك جاهزًا مرة أخرى غدًا.',
+  'quota.reopens': 'يُتاح التدريب مجددًا {time}.',
+  'deck.label': 'المجموعة',
+  'deck.allWords': 'كل الكلمات ({count})',
+
+  'test.title': 'اختبار النطق',
+  'test.intro': 'تواصل مع معلّمك الذكي لإجراء اختبار نطق على شكل محادثة. سيرشدك المعلّم خلال الاختبار.',
+  'test.emptyDeck': 'لا توجد كلمات في هذه المجموعة للاختبار بعد.',
+  'test.noWords': 'أضف أولًا بعض الكلمات بـ{language} إلى مفرداتك!',
+  'test.howItWorks': 'كيف يعمل:',
+  'test.howItWorksBody': 'سيختبر معلّمك الذكي نطقك كلمةً كلمة. تحدّث بشكل طبيعي عندما يُطلب منك ذلك. يمكنك المقاطعة في أي وقت، وسيقدّم لك المعلّم ملاحظات مفصّلة. تنجح الكلمات التي تحصل على {score}% أو أكثر.',
+  'test.start': 'ابدأ اختبار المحادثة',
+  'test.progress': 'الكلمة {current} من {total}',
+  'test.currentWord': 'الكلمة الحالية:',
+  'test.hearIt': 'استمع',
+  'test.tryAgain': 'حاول مجددًا',
+  'test.attempt': 'المحاولة {current} / {max}',
+  'test.end': 'إنهاء الاختبار',
+  'test.score': 'النتيجة: {score}%',
+  'test.greatJob': 'أحسنت! ننتقل إلى الكلمة التالية...',
+  'test.complete': 'اكتمل الاختبار!',
+  'test.overallScore': 'النتيجة الإجمالية:',
+  'test.passed': 'الناجحة: {passed} / {total} كلمة',
+  'test.attempts': 'المحاولات: {count}',
+  'test.finish': 'إنهاء',
+  'test.stress': 'النبر: {feedback}',
+  'test.stressHint': 'تحقّق من المقطع الذي يقع عليه النبر',
+  'test.scoreSources': 'المعلّم {tutor}% · النص المكتوب {transcript}%',
+  'test.heard': '(سُمع «{text}»)',
+  'test.disagreement': 'المعلّم والنص المكتوب غير متفقين على هذه المحاولة — يستحسن الاستماع إليها مجددًا.',
+  'test.myAttempts': {
+    zero: 'محاولاتي',
+    one: 'محاولتي',
+    two: 'محاولتاي',
+    few: 'محاولاتي',
+    many: 'محاولاتي',
+    other: 'محاولاتي'
+  },
+  'test.tutorModel': 'نطق المعلّم',
+
+  'words.title': 'إدارة الكلمات',
+  'words.placeholder': 'أدخل كلمة أو عبارة جديدة...',
+  'words.add': 'إضافة كلمة',
+  'words.alreadyAdded': '«{word}» موجودة في قائمتك بالفعل — تقدّمك محفوظ',
+  'words.showBulkAdd': 'إظهار الإضافة الجماعية',
+  'words.hideBulkAdd': 'إخفاء الإضافة الجماعية',
+  'words.bulkPlaceholder': 'أدخل عدة كلمات أو عبارات، واحدة في كل سطر...',
+  'words.addAll': 'إضافة الكل',
+  'words.bulkAdded': 'أُضيفت {added} جديدة؛ {skipped} كانت في قائمتك أو مكررة',
+  'words.yourWords': 'كلماتك',
+  'words.showArchived': 'إظهار المؤرشفة ({count})',
+  'words.duplicates': {
+    zero: 'لا توجد إدخالات مكررة',
+    one: 'إدخال واحد يكرر كلمة أخرى (بصرف النظر عن حالة الأحرف والتشكيل)',
+    two: 'إدخالان يكرران كلمة أخرى (بصرف النظر عن حالة الأحرف والتشكيل)',
+    few: '{count} إدخالات تكرر كلمة أخرى (بصرف النظر عن حالة الأحرف والتشكيل)',
+    many: '{count} إدخالًا يكرر كلمة أخرى (بصرف النظر عن حالة الأحرف والتشكيل)',
+    other: '{count} إدخال يكرر كلمة أخرى (بصرف النظر عن حالة الأحرف والتشكيل)'
+  },
+  'words.mergeDuplicates': 'دمج المكررات',
+  'words.merged': {
+    zero: 'لم يُدمج أي مكرر',
+    one: 'دُمج مكرر واحد — جُمع سجل التدريب',
+    two: 'دُمج مكرران — جُمع سجل التدريب',
+    few: 'دُمجت {count} مكررات — جُمع سجل التدريب',
+    many: 'دُمج {count} مكررًا — جُمع سجل التدريب',
+    other: 'دُمج {count} مكرر — جُمع سجل التدريب'
+  },
+  'words.allWords': 'كل الكلمات',
+  'words.saveDeckName': 'حفظ الاسم',
+  'words.cancel': 'إلغاء',
+  'words.deckHint': 'تُضاف الكلمات الجديدة إلى هذه المجموعة.',
+  'words.renameDeck': 'إعادة تسمية',
+  'words.deleteDeck': 'حذف المجموعة',
+  'words.confirmDeleteDeck': 'حذف المجموعة «{deck}»؟ تبقى كلماتها في قائمتك.',
+  'words.empty': 'لم تُضف أي كلمات بعد',
+  'words.emptyDeck': 'لا توجد كلمات في هذه المجموعة بعد',
+  'words.allArchived': 'كل كلماتك مؤرشفة',
+  'words.selected': 'المحدد: {count}',
+  'words.selectAll': 'تحديد الكل',
+  'words.deckName': 'اسم المجموعة',
+  'words.addToDeck': 'إضافة إلى المجموعة',
+  'words.removeFromDeck': 'إزالة من المجموعة',
+  'words.archive': 'أرشفة',
+  'words.restore': 'استعادة',
+  'words.delete': 'حذف',
+  'words.confirmDelete': {
+    zero: 'لا توجد كلمات لحذفها.',
+    one: 'حذف هذه الكلمة وتقدّمها؟ لا يمكن التراجع عن ذلك.',
+    two: 'حذف هاتين الكلمتين وتقدّمهما؟ لا يمكن التراجع عن ذلك.',
+    few: 'حذف {count} كلمات وتقدّمها؟ لا يمكن التراجع عن ذلك.',
+    many: 'حذف {count} كلمةً وتقدّمها؟ لا يمكن التراجع عن ذلك.',
+    other: 'حذف {count} كلمة وتقدّمها؟ لا يمكن التراجع عن ذلك.'
+  },
+  'words.select': 'تحديد {word}',
+  'words.phrase': 'عبارة',
+  'words.archived': '(مؤرشفة)',
+  'words.practices': {
+    zero: 'لا تدريبات',
+    one: 'تدريب واحد',
+    two: 'تدريبان',
+    few: '{count} تدريبات',
+    many: '{count} تدريبًا',
+    other: '{count} تدريب'
+  },
+  'words.mastery': 'إتقان {mastery}%',
+  'words.edit': 'تعديل الكلمة',
+  'words.restoreHint': 'إعادتها إلى التدريب',
+  'words.archiveHint': 'أرشفة — الاحتفاظ بها مع إيقاف التدريب عليها',
+  'words.deleteWord': 'حذف الكلمة',
+
+  'editor.title': 'تعديل «{word}»',
+  'editor.autoFill': 'تعبئة تلقائية',
+  'editor.autoFillHint': 'تعبئة الحقول الفارغة من القاموس',
+  'editor.notInDictionary': 'غير موجودة في القاموس دون اتصال',
+  'editor.word': 'الكلمة',
+  'editor.clash': '«{word}» موجودة في قائمتك بالفعل',
+  'editor.decks': 'المجموعات',
+  'editor.decksPlaceholder': 'الوحدة 3 - الطعام، السفر',
+  'editor.decksHint': 'افصل بين المجموعات بفواصل',
+  'editor.ipa': 'الأبجدية الصوتية الدولية',
+  'editor.partOfSpeech': 'نوع الكلمة',
+  'editor.syllables': 'المقاطع',
+  'editor.stress': 'المقطع المنبور',
+  'editor.definition': 'التعريف',
+  'editor.example': 'جملة مثال',
+  'editor.cancel': 'إلغاء',
+  'editor.save': 'حفظ',
+  'pos.noun': 'اسم',
+  'pos.verb': 'فعل',
+  'pos.adjective': 'صفة',
+  'pos.adverb': 'ظرف',
+  'pos.pronoun': 'ضمير',
+  'pos.preposition': 'حرف جر',
+  'pos.conjunction': 'حرف عطف',
+  'pos.interjection': 'أداة تعجّب',
+  'pos.number': 'عدد',
+  'pos.phrase': 'عبارة',
+
+  'stats.totalWords': 'إجمالي الكلمات',
+  'stats.mastered': 'متقنة',
+  'stats.learning': 'قيد التعلّم',
+  'stats.todaysPractice': 'تدريب اليوم',
+  'stats.streak': 'أيام متتالية',
+  'dashboard.weeklyPractice': 'التدريب الأسبوعي',
+  'dashboard.sessions': 'الجلسات',
+  'dashboard.wordsPracticed': 'الكلمات المتدرَّب عليها',
+  'dashboard.masteryLevels': 'مستويات الإتقان',
+  'dashboard.words': 'الكلمات',
+  'mastery.beginner': 'مبتدئ',
+  'mastery.learning': 'قيد التعلّم',
+  'mastery.proficient': 'متمكّن',
+  'mastery.mastered': 'متقن',
+  'dashboard.masteryByDeck': 'الإتقان حسب المجموعة',
+  'dashboard.deckMastery': '{mastered}/{total} متقنة · المتوسط {average}%',
+  'dashboard.recentSessions': 'الجلسات الأخيرة',
+  'dashboard.allSessions': 'كل الجلسات',
+  'dashboard.showRecent': 'إظهار الأخيرة',
+  'dashboard.showAll': 'إظهار الكل ({count})',
+  'dashboard.wordCount': {
+    zero: 'لا كلمات',
+    one: 'كلمة واحدة',
+    two: 'كلمتان',
+    few: '{count} كلمات',
+    many: '{count} كلمةً',
+    other: '{count} كلمة'
+  },
+  'dashboard.minutes': '{count} د',
+  'dashboard.inProgress': 'جارية',
+  'dashboard.noSessions': 'لا توجد جلسات تدريب بعد',
+  'dashboard.sessionWords': 'الكلمات: {words}',
+  'dashboard.closeReview': 'إغلاق مراجعة الجلسة',
+
+  'languages.title': 'اللغات',
+  'languages.home': 'اللغة الأم',
+  'languages.homeHelp': 'ستظهر التعليمات والمساعدة وهذه القوائم بهذه اللغة',
+  'languages.target': 'أتعلّم',
+  'languages.targetHelp': 'تُضاف الكلمات الجديدة بهذه اللغة، ويستخدم التدريب والاختبار كلماتها',
+  'languages.locked': 'لا يمكن تغيير اللغات أثناء جلسة نشطة',
+  'recordings.title': 'التسجيلات',
+  'recordings.description': 'سجّل جلسات تدريبي لأتمكن من الاستماع إلى كل محاولة ومقارنتها بالمعلّم. تُحفظ التسجيلات مع الجلسة ولا يمكن لأحد غيرك تشغيلها.',
+
+  'import.title': 'الاستيراد والتصدير',
+  'import.intro': 'استورد الكلمات من ملف CSV، أو مجموعة Anki ‏(.apkg)، أو تصدير Anki كنص عادي (.txt/.tsv)، أو نسخة احتياطية من Voice Tutor ‏(.json). تتضمن الملفات المصدَّرة مستوى الإتقان وجداول المراجعة.',
+  'import.backup': 'نسخة احتياطية (JSON)',
+  'import.exportWords': 'الكلمات (CSV)',
+  'import.exportSessions': 'الجلسات (CSV)',
+  'import.chooseFile': 'اختر ملفًا لاستيراده...',
+  'import.columns': 'الأعمدة',
+  'import.column': 'العمود {number}',
+  'import.ignore': 'تجاهل',
+  'import.translation': 'الترجمة ({language})',
+  'import.field.word': 'الكلمة',
+  'import.field.ipa': 'الأبجدية الصوتية الدولية',
+  'import.field.syllables': 'المقاطع',
+  'import.field.stress': 'المقطع المنبور (1، 2، ...)',
+  'import.field.partOfSpeech': 'نوع الكلمة',
+  'import.field.definition': 'التعريف',
+  'import.field.example': 'جملة مثال',
+  'import.field.mastery': 'الإتقان %',
+  'import.field.practiceCount': 'عدد التدريبات',
+  'import.field.ease': 'سهولة SRS',
+  'import.field.interval': 'فاصل SRS (بالأيام)',
+  'import.field.repetitions': 'تكرارات SRS',
+  'import.field.lapses': 'مرات النسيان في SRS',
+  'import.field.lastPracticed': 'آخر تدريب',
+  'import.field.dueDate': 'موعد المراجعة',
+  'import.field.added': 'تاريخ الإضافة',
+  'import.field.archived': 'مؤرشفة',
+  'import.field.decks': 'المجموعات (مفصولة بـ ;)',
+  'import.field.tags': 'الوسوم (كمجموعات)',
+  'import.summary': 'جديدة: {new} · في قائمتك بالفعل: {duplicate} · مكررة: {repeated} · بها أخطاء: {error}',
+  'import.duplicatesSkipped': '— يتم تخطي المكررات',
+  'import.line': 'السطر',
+  'import.word': 'الكلمة',
+  'import.details': 'التفاصيل',
+  'import.status': 'الحالة',
+  'import.status.new': 'جديدة',
+  'import.status.duplicate': 'مضافة بالفعل',
+  'import.status.repeated': 'مكررة في الملف',
+  'import.status.error': 'خطأ',
+  'import.invalidRow': 'سطر غير صالح',
+  'import.moreRows': {
+    zero: '…ولا أسطر أخرى',
+    one: '…وسطر آخر',
+    two: '…وسطران آخران',
+    few: '…و{count} أسطر أخرى',
+    many: '…و{count} سطرًا آخر',
+    other: '…و{count} سطر آخر'
+  },
+  'import.words': {
+    zero: 'لا كلمات',
+    one: 'كلمة واحدة',
+    two: 'كلمتان',
+    few: '{count} كلمات',
+    many: '{count} كلمةً',
+    other: '{count} كلمة'
+  },
+  'import.sessions': {
+    zero: 'لا جلسات تدريب',
+    one: 'جلسة تدريب واحدة',
+    two: 'جلستا تدريب',
+    few: '{count} جلسات تدريب',
+    many: '{count} جلسة تدريب',
+    other: '{count} جلسة تدريب'
+  },
+  'import.backupSummary': '{words} (جديدة: {new}، وتبقى الكلمات الموجودة في قائمتك كما هي) و{sessions}.',
+  'import.problems': {
+    zero: 'لا مشكلات',
+    one: 'مشكلة واحدة — سيتم تخطي هذا السطر',
+    two: 'مشكلتان — سيتم تخطي هذين السطرين',
+    few: '{count} مشكلات — سيتم تخطي هذه الأسطر',
+    many: '{count} مشكلةً — سيتم تخطي هذه الأسطر',
+    other: '{count} مشكلة — سيتم تخطي هذه الأسطر'
+  },
+  'import.errorReport': 'تنزيل تقرير الأخطاء',
+  'import.errorLine': 'السطر {line}: {message}',
+  'import.cancel': 'إلغاء',
+  'import.import': 'استيراد',
+  'import.imported': 'تم استيراد {words} من {file}',
+  'import.importedWithSessions': 'تم استيراد {words} و{sessions} من {file}',
+
+  'sync.title': 'المزامنة مع FlashAcademy',
+  'sync.intro': 'تُضاف الكلمات التي تتعلمها في دروس FlashAcademy إلى هنا تلقائيًا، مع تاريخ تعلّمها. وتُرسل نتائج تدريبك إلى FlashAcademy بعد كل جلسة.',
+  'sync.loading': 'جارٍ تحميل حالة المزامنة...',
+  'sync.notConfigured': 'لم يتم إعداد المزامنة على هذا الخادم بعد (تحتاج إلى FLASHACADEMY_API_URL وFLASHACADEMY_API_KEY).',
+  'sync.linkIntro': 'لربط حسابك، احصل على رمز ربط من FlashAcademy وأدخله هنا. يعمل كل رمز مرة واحدة فقط.',
+  'sync.linkCode': 'رمز الربط',
+  'sync.link': 'ربط',
+  'sync.account': 'الحساب',
+  'sync.lastSynced': 'آخر مزامنة',
+  'sync.never': 'أبدًا',
+  'sync.wordsSynced': 'الكلمات المتزامنة',
+  'sync.lastPushed': 'آخر إرسال للإتقان',
+  'sync.lastError': 'فشلت آخر مزامنة: {error}',
+  'sync.syncing': 'جارٍ المزامنة...',
+  'sync.syncNow': 'زامن الآن',
+  'sync.reimport': 'إعادة استيراد الكل',
+  'sync.reimportHint': 'جلب كل الكلمات مرة أخرى، مثلًا بعد حذف بعضها هنا عن طريق الخطأ',
+  'sync.unlink': 'إلغاء الربط',
+  'sync.confirmUnlink': 'إلغاء ربط حسابك في FlashAcademy؟ تبقى الكلمات المتزامنة بالفعل في قائمتك.',
+  'sync.result': '{added}، {pushed}',
+  'sync.added': {
+    zero: 'لم تُضف كلمات جديدة',
+    one: 'أُضيفت كلمة جديدة واحدة',
+    two: 'أُضيفت كلمتان جديدتان',
+    few: 'أُضيفت {count} كلمات جديدة',
+    many: 'أُضيفت {count} كلمةً جديدة',
+    other: 'أُضيفت {count} كلمة جديدة'
+  },
+  'sync.pushed': {
+    zero: 'لم تُرسل تحديثات للإتقان',
+    one: 'أُرسل تحديث واحد للإتقان',
+    two: 'أُرسل تحديثان للإتقان',
+    few: 'أُرسلت {count} تحديثات للإتقان',
+    many: 'أُرسل {count} تحديثًا للإتقان',
+    other: 'أُرسل {count} تحديث للإتقان'
+  },
+  'sync.linked': {
+    zero: 'تم الربط — لم تُضف كلمات من FlashAcademy',
+    one: 'تم الربط — أُضيفت كلمة واحدة من FlashAcademy',
+    two: 'تم الربط — أُضيفت كلمتان من FlashAcademy',
+    few: 'تم الربط — أُضيفت {count} كلمات من FlashAcademy',
+    many: 'تم الربط — أُضيفت {count} كلمةً من FlashAcademy',
+    other: 'تم الربط — أُضيفت {count} كلمة من FlashAcademy'
+  }
+};
@@ -0,0 +1,282 @@
+import type { Catalog } from './en';
+
+export const de: Catalog = {
+  'app.tagline': 'KI-gestützter Sprachlernassistent',
+  'app.signOut': 'Abmelden',
+  'app.poweredBy': 'Unterstützt von',
+  'tab.practice': 'Üben',
+  'tab.test': 'Test',
+  'tab.words': 'Wörter',
+  'tab.dashboard': 'Übersicht',
+  'tab.settings': 'Einstellungen',
+  'about.title': 'Über',
+  'about.realtime': 'Voice Tutor nutzt die Realtime-API von OpenAI für Sprachübungen im Gespräch.',
+  'about.flashacademy': 'Das System berücksichtigt die Wörter, die du auf der Plattform FlashAcademy gelernt hast, und hilft dir, Aussprache, Wortschatz und Gesprächsfähigkeit zu üben.',
+  'about.features': 'Funktionen:',
+  'about.feature.flow': 'Durchgehendes Gespräch – du musst nicht für jedes Wort auf Aufnahme drücken',
+  'about.feature.modes': 'Drei Übungsmodi für unterschiedliche Lernziele',
+  'about.feature.languages': 'Anleitungen und Menüs in 16 Sprachen',
+  'about.feature.feedback': 'Aussprache-Feedback in Echtzeit',
+  'about.feature.progress': 'Fortschrittsverfolgung und Statistiken',
+  'about.feature.words': 'Wortverwaltung mit Zeitstempel',
+  'about.feature.sync': 'Wortschatz-Synchronisierung mit FlashAcademy',
+
+  'login.signIn': 'Anmelden',
+  'login.register': 'Konto erstellen',
+  'login.intro': 'Deine Wörter und dein Übungsverlauf werden in deinem Konto gespeichert.',
+  'login.username': 'Benutzername',
+  'login.displayName': 'Dein Name (optional)',
+  'login.password': 'Passwort',
+  'login.createAccount': 'Konto erstellen',
+  'login.toRegister': 'Neu hier? Konto erstellen',
+  'login.toSignIn': 'Du hast schon ein Konto? Anmelden',
+  'login.failed': 'Etwas ist schiefgelaufen',
+
+  'modes.title': 'Übungsmodus',
+  'modes.locked': 'Der Modus kann während einer laufenden Sitzung nicht geändert werden',
+  'mode.pronunciation': 'Aussprache',
+  'mode.pronunciation.description': 'Konzentriere dich darauf, Wörter klar und richtig auszusprechen',
+  'mode.vocabulary': 'Wortschatz',
+  'mode.vocabulary.description': 'Lerne Bedeutung und Gebrauch von Wörtern im Zusammenhang',
+  'mode.conversation': 'Gespräch',
+  'mode.conversation.description': 'Übe natürliche Gespräche mit den gelernten Wörtern',
+  'session.pronunciation': 'Ausspracheübung',
+  'session.vocabulary': 'Wortschatzübung',
+  'session.conversation': 'Gesprächsübung',
+
+  'session.pronunciation-test': 'Aussprachetest',
+
+  'status.listening': 'Hört zu...',
+  'status.connected': 'Verbunden',
+  'status.connecting': 'Verbindung wird hergestellt...',
+  'status.notConnected': 'Nicht verbunden',
+  'voice.tapToEnd': 'Tippen, um das Gespräch zu beenden',
+  'voice.tapToStart': 'Tippen, um mit dem Üben zu beginnen',
+  'chat.empty': 'Noch nichts gesagt',
+  'chat.tutor': 'Tutor',
+  'chat.you': 'Du',
+  'quota.reached': 'Du hast das heutige Übungslimit erreicht – super gemacht! Dein Tutor ist morgen wieder für dich da.',
+  'quota.reopens': 'Das Üben ist wieder möglich ab {time}.',
+  'deck.label': 'Stapel',
+  'deck.allWords': 'Alle Wörter ({count})',
+
+  'test.title': 'Aussprachetest',
+  'test.intro': 'Verbinde dich mit deinem KI-Tutor für einen Aussprachetest im Gespräch. Dein Tutor führt dich durch den Test.',
+  'test.emptyDeck': 'In diesem Stapel gibt es noch keine Wörter zum Testen.',
+  'test.noWords': 'Füge deinem Wortschatz zuerst einige Wörter auf {language} hinzu!',
+  'test.howItWorks': 'So funktioniert es:',
+  'test.howItWorksBody': 'Dein KI-Tutor testet deine Aussprache Wort für Wort. Sprich einfach natürlich, wenn du dazu aufgefordert wirst. Du kannst jederzeit unterbrechen, und der Tutor gibt dir ausführliches Feedback. Wörter mit {score} % oder mehr sind bestanden.',
+  'test.start': 'Gesprächstest starten',
+  'test.progress': 'Wort {current} von {total}',
+  'test.currentWord': 'Aktuelles Wort:',
+  'test.hearIt': 'Anhören',
+  'test.tryAgain': 'Noch einmal',
+  'test.attempt': 'Versuch {current} / {max}',
+  'test.end': 'Test beenden',
+  'test.score': 'Punktzahl: {score} %',
+  'test.greatJob': 'Sehr gut! Weiter zum nächsten Wort...',
+  'test.complete': 'Test abgeschlossen!',
+  'test.overallScore': 'Gesamtpunktzahl:',
+  'test.passed': 'Bestanden: {passed} / {total} Wörter',
+  'test.attempts': 'Versuche: {count}',
+  'test.finish': 'Fertig',
+  'test.stress': 'Betonung: {feedback}',
+  'test.stressHint': 'prüfe, welche Silbe betont wird',
+  'test.scoreSources': 'Tutor {tutor} % · Transkript {transcript} %',
+  'test.heard': '(gehört: „{text}“)',
+  'test.disagreement': 'Tutor und Transkript sind sich bei diesem Versuch uneinig – hör ihn dir noch einmal an.',
+  'test.myAttempts': { one: 'Mein Versuch', other: 'Meine Versuche' },
+  'test.tutorModel': 'Vorbild des Tutors',
+
+  'words.title': 'Wortverwaltung',
+  'words.placeholder': 'Neues Wort oder neue Wendung eingeben...',
+  'words.add': 'Wort hinzufügen',
+  'words.alreadyAdded': '„{word}“ ist schon in deiner Liste – dein Fortschritt bleibt erhalten',
+  'words.showBulkAdd': 'Mehrere hinzufügen anzeigen',
+  'words.hideBulkAdd': 'Mehrere hinzufügen ausblenden',
+  'words.bulkPlaceholder': 'Mehrere Wörter oder Wendungen eingeben, eine pro Zeile...',
+  'words.addAll': 'Alle hinzufügen',
+  'words.bulkAdded': '{added} neu hinzugefügt; {skipped} waren schon in deiner Liste oder doppelt',
+  'words.yourWords': 'Deine Wörter',
+  'words.showArchived': 'Archivierte anzeigen ({count})',
+  'words.duplicates': {
+    one: '{count} Eintrag doppelt ein anderes Wort (ohne Groß-/Kleinschreibung und Akzente)',
+    other: '{count} Einträge doppeln ein anderes Wort (ohne Groß-/Kleinschreibung und Akzente)'
+  },
+  'words.mergeDuplicates': 'Duplikate zusammenführen',
+  'words.merged': {
+    one: '{count} Duplikat zusammengeführt – der Übungsverlauf wurde kombiniert',
+    other: '{count} Duplikate zusammengeführt – der Übungsverlauf wurde kombiniert'
+  },
+  'words.allWords': 'Alle Wörter',
+  'words.saveDeckName': 'Namen speichern',
+  'words.cancel': 'Abbrechen',
+  'words.deckHint': 'Neue Wörter werden diesem Stapel hinzugefügt.',
+  'words.renameDeck': 'Umbenennen',
+  'words.deleteDeck': 'Stapel löschen',
+  'words.confirmDeleteDeck': 'Den Stapel „{deck}“ löschen? Seine Wörter bleiben in deiner Liste.',
+  'words.empty': 'Noch keine Wörter hinzugefügt',
+  'words.emptyDeck': 'Noch keine Wörter in diesem Stapel',
+  'words.allArchived': 'Alle deine Wörter sind archiviert',
+  'words.selected': '{count} ausgewählt',
+  'words.selectAll': 'Alle auswählen',
+  'words.deckName': 'Stapelname',
+  'words.addToDeck': 'Zum Stapel hinzufügen',
+  'words.removeFromDeck': 'Aus dem Stapel entfernen',
+  'words.archive': 'Archivieren',
+  'words.restore': 'Wiederherstellen',
+  'words.delete': 'Löschen',
+  'words.confirmDelete': {
+    one: 'Dieses Wort und seinen Fortschritt löschen? Das kann nicht rückgängig gemacht werden.',
+    other: '{count} Wörter und ihren Fortschritt löschen? Das kann nicht rückgängig gemacht werden.'
+  },
+  'words.select': '{word} auswählen',
+  'words.phrase': 'Wendung',
+  'words.archived': '(archiviert)',
+  'words.practices': { one: '{count} Übung', other: '{count} Übungen' },
+  'words.mastery': '{mastery} % beherrscht',
+  'words.edit': 'Wort bearbeiten',
+  'words.restoreHint': 'Wieder üben',
+  'words.archiveHint': 'Archivieren – behalten, aber nicht mehr üben',
+  'words.deleteWord': 'Wort löschen',
+
+  'editor.title': '„{word}“ bearbeiten',
+  'editor.autoFill': 'Automatisch ausfüllen',
+  'editor.autoFillHint': 'Leere Felder aus dem Wörterbuch ausfüllen',
+  'editor.notInDictionary': 'Nicht im Offline-Wörterbuch',
+  'editor.word': 'Wort',
+  'editor.clash': '„{word}“ ist schon in deiner Liste',
+  'editor.decks': 'Stapel',
+  'editor.decksPlaceholder': 'Lektion 3 – Essen, Reisen',
+  'editor.decksHint': 'Stapel durch Kommas trennen',
+  'editor.ipa': 'IPA',
+  'editor.partOfSpeech': 'Wortart',
+  'editor.syllables': 'Silben',
+  'editor.stress': 'Betonte Silbe',
+  'editor.definition': 'Bedeutung',
+  'editor.example': 'Beispielsatz',
+  'editor.cancel': 'Abbrechen',
+  'editor.save': 'Speichern',
+  'pos.noun': 'Substantiv',
+  'pos.verb': 'Verb',
+  'pos.adjective': 'Adjektiv',
+  'pos.adverb': 'Adverb',
+  'pos.pronoun': 'Pronomen',
+  'pos.preposition': 'Präposition',
+  'pos.conjunction': 'Konjunktion',
+  'pos.interjection': 'Interjektion',
+  'pos.number': 'Zahlwort',
+  'pos.phrase': 'Wendung',
+
+  'stats.totalWords': 'Wörter gesamt',
+  'stats.mastered': 'Beherrscht',
+  'stats.learning': 'Am Lernen',
+  'stats.todaysPractice': 'Heute geübt',
+  'stats.streak': 'Serie',
+  'dashboard.weeklyPractice': 'Übungen dieser Woche',
+  'dashboard.sessions': 'Sitzungen',
+  'dashboard.wordsPracticed': 'Geübte Wörter',
+  'dashboard.masteryLevels': 'Beherrschungsstufen',
+  'dashboard.words': 'Wörter',
+  'mastery.beginner': 'Anfänger',
+  'mastery.learning': 'Am Lernen',
+  'mastery.proficient': 'Sicher',
+  'mastery.mastered': 'Beherrscht',
+  'dashboard.masteryByDeck': 'Beherrschung nach Stapel',
+  'dashboard.deckMastery': '{mastered}/{total} beherrscht · {average} % im Durchschnitt',
+  'dashboard.recentSessions': 'Letzte Sitzungen',
+  'dashboard.allSessions': 'Alle Sitzungen',
+  'dashboard.showRecent': 'Letzte anzeigen',
+  'dashboard.showAll': 'Alle {count} anzeigen',
+  'dashboard.wordCount': { one: '{count} Wort', other: '{count} Wörter' },
+  'dashboard.minutes': '{count} Min.',
+  'dashboard.inProgress': 'Läuft',
+  'dashboard.noSessions': 'Noch keine Übungssitzungen',
+  'dashboard.sessionWords': 'Wörter: {words}',
+  'dashboard.closeReview': 'Sitzungsrückblick schließen',
+
+  'languages.title': 'Sprachen',
+  'languages.home': 'Muttersprache',
+  'languages.homeHelp': 'Anleitungen, Hilfe und diese Menüs erscheinen in dieser Sprache',
+  'languages.target': 'Ich lerne',
+  'languages.targetHelp': 'Neue Wörter werden in dieser Sprache hinzugefügt, und Übungen und Tests verwenden ihre Wörter',
+  'languages.locked': 'Die Sprachen können während einer laufenden Sitzung nicht geändert werden',
+  'recordings.title': 'Aufnahmen',
+  'recordings.description': 'Meine Übungssitzungen aufnehmen, damit ich jeden Versuch anhören und mit dem Tutor vergleichen kann. Aufnahmen werden mit der Sitzung gespeichert und nur du kannst sie abspielen.',
+
+  'import.title': 'Import & Export',
+  'import.intro': 'Importiere Wörter aus einer CSV-Datei, einem Anki-Stapel (.apkg), einem Anki-Textexport (.txt/.tsv) oder einer Voice-Tutor-Sicherung (.json). Exporte enthalten den Lernstand und die Wiederholungspläne.',
+  'import.backup': 'Sicherung (JSON)',
+  'import.exportWords': 'Wörter (CSV)',
+  'import.exportSessions': 'Sitzungen (CSV)',
+  'import.chooseFile': 'Datei zum Importieren auswählen...',
+  'import.columns': 'Spalten',
+  'import.column': 'Spalte {number}',
+  'import.ignore': 'Ignorieren',
+  'import.translation': 'Übersetzung ({language})',
+  'import.field.word': 'Wort',
+  'import.field.ipa': 'IPA',
+  'import.field.syllables': 'Silben',
+  'import.field.stress': 'Betonte Silbe (1, 2, ...)',
+  'import.field.partOfSpeech': 'Wortart',
+  'import.field.definition': 'Bedeutung',
+  'import.field.example': 'Beispielsatz',
+  'import.field.mastery': 'Lernstand %',
+  'import.field.practiceCount': 'Anzahl Übungen',
+  'import.field.ease': 'SRS-Leichtigkeit',
+  'import.field.interval': 'SRS-Intervall (Tage)',
+  'import.field.repetitions': 'SRS-Wiederholungen',
+  'import.field.lapses': 'SRS-Fehler',
+  'import.field.lastPracticed': 'Zuletzt geübt',
+  'import.field.dueDate': 'Fällig am',
+  'import.field.added': 'Hinzugefügt am',
+  'import.field.archived': 'Archiviert',
+  'import.field.decks': 'Stapel (durch ; getrennt)',
+  'import.field.tags': 'Schlagwörter (als Stapel)',
+  'import.summary': '{new} neu · {duplicate} schon in deiner Liste · {repeated} wiederholt · {error} fehlerhaft',
+  'import.duplicatesSkipped': '– Duplikate werden übersprungen',
+  'import.line': 'Zeile',
+  'import.word': 'Wort',
+  'import.details': 'Details',
+  'import.status': 'Status',
+  'import.status.new': 'Neu',
+  'import.status.duplicate': 'Schon vorhanden',
+  'import.status.repeated': 'Doppelt in der Datei',
+  'import.status.error': 'Fehler',
+  'import.invalidRow': 'Ungültige Zeile',
+  'import.moreRows': { one: '…und {count} weitere Zeile', other: '…und {count} weitere Zeilen' },
+  'import.words': { one: '{count} Wort', other: '{count} Wörter' },
+  'import.sessions': { one: '{count} Übungssitzung', other: '{count} Übungssitzungen' },
+  'import.backupSummary': '{words} ({new} neu, die schon in deiner Liste bleiben, wie sie sind) und {sessions}.',
+  'import.problems': { one: '{count} Problem – diese Zeile wird übersprungen', other: '{count} Probleme – diese Zeilen werden übersprungen' },
+  'import.errorReport': 'Fehlerbericht herunterladen',
+  'import.errorLine': 'Zeile {line}: {message}',
+  'import.cancel': 'Abbrechen',
+  'import.import': 'Importieren',
+  'import.imported': '{words} aus {file} importiert',
+  'import.importedWithSessions': '{words} und {sessions} aus {file} importiert',
+
+  'sync.title': 'FlashAcademy-Synchronisierung',
+  'sync.intro': 'Wörter, die du in FlashAcademy-Lektionen lernst, werden hier automatisch hinzugefügt – mit dem Datum, an dem du sie gelernt hast. Deine Übungsergebnisse gehen nach jeder Sitzung an FlashAcademy zurück.',
+  'sync.loading': 'Synchronisierungsstatus wird geladen...',
+  'sync.notConfigured': 'Die Synchronisierung ist auf diesem Server noch nicht eingerichtet (dafür werden FLASHACADEMY_API_URL und FLASHACADEMY_API_KEY gebraucht).',
+  'sync.linkIntro': 'Um dein Konto zu verknüpfen, hol dir bei FlashAcademy einen Verknüpfungscode und gib ihn hier ein. Jeder Code funktioniert nur einmal.',
+  'sync.linkCode': 'Verknüpfungscode',
+  'sync.link': 'Verknüpfen',
+  'sync.account': 'Konto',
+  'sync.lastSynced': 'Zuletzt synchronisiert',
+  'sync.never': 'Nie',
+  'sync.wordsSynced': 'Synchronisierte Wörter',
+  'sync.lastPushed': 'Lernstand zuletzt gesendet',
+  'sync.lastError': 'Letzte Synchronisierung fehlgeschlagen: {error}',
+  'sync.syncing': 'Wird synchronisiert...',
+  'sync.syncNow': 'Jetzt synchronisieren',
+  'sync.reimport': 'Alles neu importieren',
+  'sync.reimportHint': 'Alle Wörter noch einmal abrufen, z. B. wenn du hier versehentlich welche gelöscht hast',
+  'sync.unlink': 'Verknüpfung aufheben',
+  'sync.confirmUnlink': 'Verknüpfung mit deinem FlashAcademy-Konto aufheben? Bereits synchronisierte Wörter bleiben in deiner Liste.',
+  'sync.result': '{added}, {pushed}',
+  'sync.added': { one: '{count} neues Wort hinzugefügt', other: '{count} neue Wörter hinzugefügt' },
+  'sync.pushed': { one: '{count} Lernstand gesendet', other: '{count} Lernstände gesendet' },
+  'sync.linked': { one: 'Verknüpft – {count} Wort aus FlashAcademy hinzugefügt', other: 'Verknüpft – {count} Wörter aus FlashAcademy hinzugefügt' }
+};
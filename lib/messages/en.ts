@@ -0,0 +1,301 @@
+// The UI's English text, and the key list every other catalog translates. `{name}` is filled
+// in by translate(); a message with plural forms is picked by `{count}` (Intl.PluralRules).
+
+type PluralCategory = 'zero' | 'one' | 'two' | 'few' | 'many' | 'other';
+export type Message = string | ({ other: string } & Partial<Record<PluralCategory, string>>);
+
+export const en = {
+  // Header and navigation (app/page.tsx)
+  'app.tagline': 'AI-powered language learning assistant',
+  'app.signOut': 'Sign out',
+  'app.poweredBy': 'Powered by',
+  'tab.practice': 'Practice',
+  'tab.test': 'Test',
+  'tab.words': 'Words',
+  'tab.dashboard': 'Dashboard',
+  'tab.settings': 'Settings',
+  'about.title': 'About',
+  'about.realtime': "Voice Tutor uses OpenAI's Realtime API to provide conversational language practice.",
+  'about.flashacademy': "The system observes words you've learned on the FlashAcademy platform and helps you practice pronunciation, vocabulary, and conversation skills.",
+  'about.features': 'Features:',
+  'about.feature.flow': 'Continuous conversation flow - no need to press record for each word',
+  'about.feature.modes': 'Three practice modes tailored to different learning goals',
+  'about.feature.languages': 'Instructions and menus in 16 languages',
+  'about.feature.feedback': 'Real-time pronunciation feedback',
+  'about.feature.progress': 'Progress tracking and analytics',
+  'about.feature.words': 'Word management with timestamp tracking',
+  'about.feature.sync': 'Vocabulary sync with FlashAcademy',
+
+  // Sign in
+  'login.signIn': 'Sign in',
+  'login.register': 'Create an account',
+  'login.intro': 'Your words and practice history are saved to your account.',
+  'login.username': 'Username',
+  'login.displayName': 'Your name (optional)',
+  'login.password': 'Password',
+  'login.createAccount': 'Create account',
+  'login.toRegister': 'New here? Create an account',
+  'login.toSignIn': 'Already have an account? Sign in',
+  'login.failed': 'Something went wrong',
+
+  // Practice modes
+  'modes.title': 'Practice Mode',
+  'modes.locked': 'Mode cannot be changed during an active session',
+  'mode.pronunciation': 'Pronunciation',
+  'mode.pronunciation.description': 'Focus on speaking words clearly and correctly',
+  'mode.vocabulary': 'Vocabulary',
+  'mode.vocabulary.description': 'Learn word meanings and usage in context',
+  'mode.conversation': 'Conversation',
+  'mode.conversation.description': 'Practice natural conversation with learned words',
+  'session.pronunciation': 'Pronunciation Practice',
+  'session.vocabulary': 'Vocabulary Practice',
+  'session.conversation': 'Conversation Practice',
+  'session.pronunciation-test': 'Pronunciation Test',
+
+  // Voice session
+  'status.listening': 'Listening...',
+  'status.connected': 'Connected',
+  'status.connecting': 'Connecting...',
+  'status.notConnected': 'Not connected',
+  'voice.tapToEnd': 'Tap to end conversation',
+  'voice.tapToStart': 'Tap to start practicing',
+  'chat.empty': 'Nothing said yet',
+  'chat.tutor': 'Tutor',
+  'chat.you': 'You',
+  'quota.reached': "You've reached today's practice limit - great work! Your tutor will be ready again tomorrow.",
+  'quota.reopens': 'Practice opens again {time}.',
+  'deck.label': 'Deck',
+  'deck.allWords': 'All words ({count})',
+
+  // Pronunciation test
+  'test.title': 'Pronunciation Test',
+  'test.intro': 'Connect with your AI tutor for a conversational pronunciation test. Your tutor will guide you through testing your pronunciation skills.',
+  'test.emptyDeck': 'This deck has no words to test yet.',
+  'test.noWords': 'Please add some words in {language} to your vocabulary first!',
+  'test.howItWorks': 'How it works:',
+  'test.howItWorksBody': 'Your AI tutor will test your pronunciation one word at a time. Just speak naturally when prompted. You can interrupt anytime, and the tutor will provide detailed feedback. Words scoring {score}% or higher pass.',
+  'test.start': 'Start Conversation Test',
+  'test.progress': 'Word {current} of {total}',
+  'test.currentWord': 'Current word:',
+  'test.hearIt': 'Hear it',
+  'test.tryAgain': 'Try Again',
+  'test.attempt': 'Attempt {current} / {max}',
+  'test.end': 'End Test',
+  'test.score': 'Score: {score}%',
+  'test.greatJob': 'Great job! Moving to next word...',
+  'test.complete': 'Test Complete!',
+  'test.overallScore': 'Overall Score:',
+  'test.passed': 'Passed: {passed} / {total} words',
+  'test.attempts': 'Attempts: {count}',
+  'test.finish': 'Finish',
+  'test.stress': 'Stress: {feedback}',
+  'test.stressHint': 'check which syllable is emphasised',
+  'test.scoreSources': 'Tutor {tutor}% · Transcript {transcript}%',
+  'test.heard': '(heard “{text}”)',
+  'test.disagreement': 'The tutor and the transcript disagree on this attempt - worth listening back.',
+  'test.myAttempts': { one: 'My attempt', other: 'My attempts' },
+  'test.tutorModel': 'Tutor model',
+
+  // Word management
+  'words.title': 'Word Management',
+  'words.placeholder': 'Enter a new word or phrase...',
+  'words.add': 'Add Word',
+  'words.alreadyAdded': '"{word}" is already in your list - your progress on it is kept',
+  'words.showBulkAdd': 'Show Bulk Add',
+  'words.hideBulkAdd': 'Hide Bulk Add',
+  'words.bulkPlaceholder': 'Enter multiple words or phrases, one per line...',
+  'words.addAll': 'Add All Words',
+  'words.bulkAdded': 'Added {added} new; {skipped} were already in your list or repeated',
+  'words.yourWords': 'Your Words',
+  'words.showArchived': 'Show archived ({count})',
+  'words.duplicates': {
+    one: '{count} entry duplicates another word (ignoring case and accents)',
+    other: '{count} entries duplicate another word (ignoring case and accents)'
+  },
+  'words.mergeDuplicates': 'Merge duplicates',
+  'words.merged': {
+    one: 'Merged {count} duplicate - practice history was combined',
+    other: 'Merged {count} duplicates - practice history was combined'
+  },
+  'words.allWords': 'All words',
+  'words.saveDeckName': 'Save name',
+  'words.cancel': 'Cancel',
+  'words.deckHint': 'New words are added to this deck.',
+  'words.renameDeck': 'Rename',
+  'words.deleteDeck': 'Delete deck',
+  'words.confirmDeleteDeck': 'Delete the deck "{deck}"? Its words stay in your list.',
+  'words.empty': 'No words added yet',
+  'words.emptyDeck': 'No words in this deck yet',
+  'words.allArchived': 'All your words are archived',
+  'words.selected': '{count} selected',
+  'words.selectAll': 'Select all',
+  'words.deckName': 'Deck name',
+  'words.addToDeck': 'Add to deck',
+  'words.removeFromDeck': 'Remove from deck',
+  'words.archive': 'Archive',
+  'words.restore': 'Restore',
+  'words.delete': 'Delete',
+  'words.confirmDelete': {
+    one: 'Delete this word and its progress? This cannot be undone.',
+    other: 'Delete {count} words and their progress? This cannot be undone.'
+  },
+  'words.select': 'Select {word}',
+  'words.phrase': 'phrase',
+  'words.archived': '(archived)',
+  'words.practices': { one: '{count} practice', other: '{count} practices' },
+  'words.mastery': '{mastery}% mastery',
+  'words.edit': 'Edit word',
+  'words.restoreHint': 'Restore to practice',
+  'words.archiveHint': 'Archive - keep it, but stop practicing it',
+  'words.deleteWord': 'Delete word',
+
+  // Word editor
+  'editor.title': 'Edit "{word}"',
+  'editor.autoFill': 'Auto-fill',
+  'editor.autoFillHint': 'Fill empty fields from the dictionary',
+  'editor.notInDictionary': 'Not in the offline dictionary',
+  'editor.word': 'Word',
+  'editor.clash': '"{word}" is already in your list',
+  'editor.decks': 'Decks',
+  'editor.decksPlaceholder': 'Unit 3 - Food, Travel',
+  'editor.decksHint': 'Separate decks with commas',
+  'editor.ipa': 'IPA',
+  'editor.partOfSpeech': 'Part of speech',
+  'editor.syllables': 'Syllables',
+  'editor.stress': 'Stressed syllable',
+  'editor.definition': 'Definition',
+  'editor.example': 'Example sentence',
+  'editor.cancel': 'Cancel',
+  'editor.save': 'Save',
+  'pos.noun': 'noun',
+  'pos.verb': 'verb',
+  'pos.adjective': 'adjective',
+  'pos.adverb': 'adverb',
+  'pos.pronoun': 'pronoun',
+  'pos.preposition': 'preposition',
+  'pos.conjunction': 'conjunction',
+  'pos.interjection': 'interjection',
+  'pos.number': 'number',
+  'pos.phrase': 'phrase',
+
+  // Dashboard and word stats
+  'stats.totalWords': 'Total Words',
+  'stats.mastered': 'Mastered',
+  'stats.learning': 'Learning',
+  'stats.todaysPractice': "Today's Practice",
+  'stats.streak': 'Streak',
+  'dashboard.weeklyPractice': 'Weekly Practice',
+  'dashboard.sessions': 'Sessions',
+  'dashboard.wordsPracticed': 'Words Practiced',
+  'dashboard.masteryLevels': 'Mastery Levels',
+  'dashboard.words': 'Words',
+  'mastery.beginner': 'Beginner',
+  'mastery.learning': 'Learning',
+  'mastery.proficient': 'Proficient',
+  'mastery.mastered': 'Mastered',
+  'dashboard.masteryByDeck': 'Mastery by Deck',
+  'dashboard.deckMastery': '{mastered}/{total} mastered · {average}% average',
+  'dashboard.recentSessions': 'Recent Sessions',
+  'dashboard.allSessions': 'All Sessions',
+  'dashboard.showRecent': 'Show recent',
+  'dashboard.showAll': 'Show all {count}',
+  'dashboard.wordCount': { one: '{count} word', other: '{count} words' },
+  'dashboard.minutes': '{count} min',
+  'dashboard.inProgress': 'In progress',
+  'dashboard.noSessions': 'No practice sessions yet',
+  'dashboard.sessionWords': 'Words: {words}',
+  'dashboard.closeReview': 'Close session review',
+
+  // Settings
+  'languages.title': 'Languages',
+  'languages.home': 'Home language',
+  'languages.homeHelp': 'Instructions, support and these menus will be in this language',
+  'languages.target': 'Learning',
+  'languages.targetHelp': 'New words are added in this language, and practice and tests use its words',
+  'languages.locked': 'Languages cannot be changed during an active session',
+  'recordings.title': 'Recordings',
+  'recordings.description': 'Record my practice sessions so I can listen back to each attempt and compare it with the tutor. Recordings are saved with the session and only you can play them.',
+
+  // Import and export
+  'import.title': 'Import & Export',
+  'import.intro': 'Import words from a CSV, an Anki deck (.apkg) or Anki plain-text export (.txt/.tsv), or a Voice Tutor backup (.json). Exports include mastery and review schedules.',
+  'import.backup': 'Backup (JSON)',
+  'import.exportWords': 'Words (CSV)',
+  'import.exportSessions': 'Sessions (CSV)',
+  'import.chooseFile': 'Choose a file to import...',
+  'import.columns': 'Columns',
+  'import.column': 'Column {number}',
+  'import.ignore': 'Ignore',
+  'import.translation': 'Translation ({language})',
+  'import.field.word': 'Word',
+  'import.field.ipa': 'IPA',
+  'import.field.syllables': 'Syllables',
+  'import.field.stress': 'Stressed syllable (1, 2, ...)',
+  'import.field.partOfSpeech': 'Part of speech',
+  'import.field.definition': 'Definition',
+  'import.field.example': 'Example sentence',
+  'import.field.mastery': 'Mastery %',
+  'import.field.practiceCount': 'Practice count',
+  'import.field.ease': 'SRS ease',
+  'import.field.interval': 'SRS interval (days)',
+  'import.field.repetitions': 'SRS repetitions',
+  'import.field.lapses': 'SRS lapses',
+  'import.field.lastPracticed': 'Last practiced',
+  'import.field.dueDate': 'Due date',
+  'import.field.added': 'Date added',
+  'import.field.archived': 'Archived',
+  'import.field.decks': 'Decks (; separated)',
+  'import.field.tags': 'Tags (as decks)',
+  'import.summary': '{new} new · {duplicate} already in your list · {repeated} repeated · {error} with errors',
+  'import.duplicatesSkipped': '- duplicates are skipped',
+  'import.line': 'Line',
+  'import.word': 'Word',
+  'import.details': 'Details',
+  'import.status': 'Status',
+  'import.status.new': 'New',
+  'import.status.duplicate': 'Already added',
+  'import.status.repeated': 'Repeated in file',
+  'import.status.error': 'Error',
+  'import.invalidRow': 'Invalid row',
+  'import.moreRows': { one: '…and {count} more row', other: '…and {count} more rows' },
+  'import.words': { one: '{count} word', other: '{count} words' },
+  'import.sessions': { one: '{count} practice session', other: '{count} practice sessions' },
+  'import.backupSummary': '{words} ({new} new, the rest already in your list are kept as they are) and {sessions}.',
+  'import.problems': { one: '{count} problem - this row will be skipped', other: '{count} problems - these rows will be skipped' },
+  'import.errorReport': 'Download error report',
+  'import.errorLine': 'Line {line}: {message}',
+  'import.cancel': 'Cancel',
+  'import.import': 'Import',
+  'import.imported': 'Imported {words} from {file}',
+  'import.importedWithSessions': 'Imported {words} and {sessions} from {file}',
+
+  // FlashAcademy sync
+  'sync.title': 'FlashAcademy Sync',
+  'sync.intro': 'Words you learn in FlashAcademy lessons are added here automatically, with the date you learned them. Your practice results are sent back to FlashAcademy after each session.',
+  'sync.loading': 'Loading sync status...',
+  'sync.notConfigured': "Sync isn't set up on this server yet (it needs FLASHACADEMY_API_URL and FLASHACADEMY_API_KEY).",
+  'sync.linkIntro': 'To link your account, get a linking code from FlashAcademy and enter it here. Each code works once.',
+  'sync.linkCode': 'Linking code',
+  'sync.link': 'Link',
+  'sync.account': 'Account',
+  'sync.lastSynced': 'Last synced',
+  'sync.never': 'Never',
+  'sync.wordsSynced': 'Words synced',
+  'sync.lastPushed': 'Mastery last sent',
+  'sync.lastError': 'Last sync failed: {error}',
+  'sync.syncing': 'Syncing...',
+  'sync.syncNow': 'Sync now',
+  'sync.reimport': 'Re-import all',
+  'sync.reimportHint': 'Fetch every word again, e.g. after deleting some here by mistake',
+  'sync.unlink': 'Unlink',
+  'sync.confirmUnlink': 'Unlink your FlashAcademy account? Words already synced stay in your list.',
+  'sync.result': '{added}, {pushed}',
+  'sync.added': { one: '{count} new word added', other: '{count} new words added' },
+  'sync.pushed': { one: '{count} mastery update sent', other: '{count} mastery updates sent' },
+  'sync.linked': { one: 'Linked - {count} word added from FlashAcademy', other: 'Linked - {count} words added from FlashAcademy' }
+} satisfies Record<string, Message>;
+
+export type MessageKey = keyof typeof en;
+
+// Translations may leave keys out; those show in English
+export type Catalog = Partial<Record<MessageKey, Message>>;
@@ -0,0 +1,282 @@
+import type { Catalog } from './en';
+
+export const es: Catalog = {
+  'app.tagline': 'Asistente de aprendizaje de idiomas con IA',
+  'app.signOut': 'Cerrar sesión',
+  'app.poweredBy': 'Con la tecnología de',
+  'tab.practice': 'Práctica',
+  'tab.test': 'Prueba',
+  'tab.words': 'Palabras',
+  'tab.dashboard': 'Panel',
+  'tab.settings': 'Ajustes',
+  'about.title': 'Acerca de',
+  'about.realtime': 'Voice Tutor usa la API Realtime de OpenAI para ofrecer práctica de idiomas conversacional.',
+  'about.flashacademy': 'El sistema tiene en cuenta las palabras que has aprendido en la plataforma FlashAcademy y te ayuda a practicar la pronunciación, el vocabulario y la conversación.',
+  'about.features': 'Funciones:',
+  'about.feature.flow': 'Conversación continua: no hace falta pulsar grabar para cada palabra',
+  'about.feature.modes': 'Tres modos de práctica adaptados a distintos objetivos',
+  'about.feature.languages': 'Instrucciones y menús en 16 idiomas',
+  'about.feature.feedback': 'Corrección de pronunciación en tiempo real',
+  'about.feature.progress': 'Seguimiento del progreso y estadísticas',
+  'about.feature.words': 'Gestión de palabras con fecha de incorporación',
+  'about.feature.sync': 'Sincronización de vocabulario con FlashAcademy',
+
+  'login.signIn': 'Iniciar sesión',
+  'login.register': 'Crear una cuenta',
+  'login.intro': 'Tus palabras y tu historial de práctica se guardan en tu cuenta.',
+  'login.username': 'Nombre de usuario',
+  'login.displayName': 'Tu nombre (opcional)',
+  'login.password': 'Contraseña',
+  'login.createAccount': 'Crear cuenta',
+  'login.toRegister': '¿Eres nuevo? Crea una cuenta',
+  'login.toSignIn': '¿Ya tienes una cuenta? Inicia sesión',
+  'login.failed': 'Algo ha salido mal',
+
+  'modes.title': 'Modo de práctica',
+  'modes.locked': 'No se puede cambiar el modo durante una sesión activa',
+  'mode.pronunciation': 'Pronunciación',
+  'mode.pronunciation.description': 'Céntrate en pronunciar las palabras con claridad y corrección',
+  'mode.vocabulary': 'Vocabulario',
+  'mode.vocabulary.description': 'Aprende el significado y el uso de las palabras en contexto',
+  'mode.conversation': 'Conversación',
+  'mode.conversation.description': 'Practica una conversación natural con las palabras aprendidas',
+  'session.pronunciation': 'Práctica de pronunciación',
+  'session.vocabulary': 'Práctica de vocabulario',
+  'session.conversation': 'Práctica de conversación',
+
+  'session.pronunciation-test': 'Prueba de pronunciación',
+
+  'status.listening': 'Escuchando...',
+  'status.connected': 'Conectado',
+  'status.connecting': 'Conectando...',
+  'status.notConnected': 'Sin conexión',
+  'voice.tapToEnd': 'Toca para terminar la conversación',
+  'voice.tapToStart': 'Toca para empezar a practicar',
+  'chat.empty': 'Todavía no se ha dicho nada',
+  'chat.tutor': 'Tutor',
+  'chat.you': 'Tú',
+  'quota.reached': '¡Has llegado al límite de práctica de hoy, buen trabajo! Tu tutor volverá a estar disponible mañana.',
+  'quota.reopens': 'La práctica vuelve a estar disponible el {time}.',
+  'deck.label': 'Mazo',
+  'deck.allWords': 'Todas las palabras ({count})',
+
+  'test.title': 'Prueba de pronunciación',
+  'test.intro': 'Conéctate con tu tutor de IA para una prueba de pronunciación conversacional. Tu tutor te guiará para evaluar tu pronunciación.',
+  'test.emptyDeck': 'Este mazo todavía no tiene palabras para evaluar.',
+  'test.noWords': '¡Primero añade algunas palabras en {language} a tu vocabulario!',
+  'test.howItWorks': 'Cómo funciona:',
+  'test.howItWorksBody': 'Tu tutor de IA evaluará tu pronunciación palabra por palabra. Habla con naturalidad cuando te lo pida. Puedes interrumpir en cualquier momento y el tutor te dará comentarios detallados. Las palabras con un {score}% o más se aprueban.',
+  'test.start': 'Empezar la prueba de conversación',
+  'test.progress': 'Palabra {current} de {total}',
+  'test.currentWord': 'Palabra actual:',
+  'test.hearIt': 'Escuchar',
+  'test.tryAgain': 'Intentar de nuevo',
+  'test.attempt': 'Intento {current} / {max}',
+  'test.end': 'Terminar la prueba',
+  'test.score': 'Puntuación: {score}%',
+  'test.greatJob': '¡Muy bien! Pasamos a la siguiente palabra...',
+  'test.complete': '¡Prueba completada!',
+  'test.overallScore': 'Puntuación total:',
+  'test.passed': 'Aprobadas: {passed} / {total} palabras',
+  'test.attempts': 'Intentos: {count}',
+  'test.finish': 'Terminar',
+  'test.stress': 'Acento: {feedback}',
+  'test.stressHint': 'revisa qué sílaba se acentúa',
+  'test.scoreSources': 'Tutor {tutor}% · Transcripción {transcript}%',
+  'test.heard': '(se oyó «{text}»)',
+  'test.disagreement': 'El tutor y la transcripción no coinciden en este intento: conviene volver a escucharlo.',
+  'test.myAttempts': { one: 'Mi intento', other: 'Mis intentos' },
+  'test.tutorModel': 'Modelo del tutor',
+
+  'words.title': 'Gestión de palabras',
+  'words.placeholder': 'Escribe una palabra o frase nueva...',
+  'words.add': 'Añadir palabra',
+  'words.alreadyAdded': '«{word}» ya está en tu lista: se conserva tu progreso',
+  'words.showBulkAdd': 'Mostrar añadir en bloque',
+  'words.hideBulkAdd': 'Ocultar añadir en bloque',
+  'words.bulkPlaceholder': 'Escribe varias palabras o frases, una por línea...',
+  'words.addAll': 'Añadir todas',
+  'words.bulkAdded': 'Se añadieron {added} nuevas; {skipped} ya estaban en tu lista o estaban repetidas',
+  'words.yourWords': 'Tus palabras',
+  'words.showArchived': 'Mostrar archivadas ({count})',
+  'words.duplicates': {
+    one: '{count} entrada duplica otra palabra (sin distinguir mayúsculas ni acentos)',
+    other: '{count} entradas duplican otra palabra (sin distinguir mayúsculas ni acentos)'
+  },
+  'words.mergeDuplicates': 'Combinar duplicados',
+  'words.merged': {
+    one: 'Se combinó {count} duplicado: se unió el historial de práctica',
+    other: 'Se combinaron {count} duplicados: se unió el historial de práctica'
+  },
+  'words.allWords': 'Todas las palabras',
+  'words.saveDeckName': 'Guardar nombre',
+  'words.cancel': 'Cancelar',
+  'words.deckHint': 'Las palabras nuevas se añaden a este mazo.',
+  'words.renameDeck': 'Renombrar',
+  'words.deleteDeck': 'Eliminar mazo',
+  'words.confirmDeleteDeck': '¿Eliminar el mazo «{deck}»? Sus palabras se quedan en tu lista.',
+  'words.empty': 'Todavía no hay palabras',
+  'words.emptyDeck': 'Este mazo todavía no tiene palabras',
+  'words.allArchived': 'Todas tus palabras están archivadas',
+  'words.selected': '{count} seleccionadas',
+  'words.selectAll': 'Seleccionar todo',
+  'words.deckName': 'Nombre del mazo',
+  'words.addToDeck': 'Añadir al mazo',
+  'words.removeFromDeck': 'Quitar del mazo',
+  'words.archive': 'Archivar',
+  'words.restore': 'Restaurar',
+  'words.delete': 'Eliminar',
+  'words.confirmDelete': {
+    one: '¿Eliminar esta palabra y su progreso? No se puede deshacer.',
+    other: '¿Eliminar {count} palabras y su progreso? No se puede deshacer.'
+  },
+  'words.select': 'Seleccionar {word}',
+  'words.phrase': 'frase',
+  'words.archived': '(archivada)',
+  'words.practices': { one: '{count} práctica', other: '{count} prácticas' },
+  'words.mastery': '{mastery}% de dominio',
+  'words.edit': 'Editar palabra',
+  'words.restoreHint': 'Volver a practicarla',
+  'words.archiveHint': 'Archivar: se conserva, pero deja de practicarse',
+  'words.deleteWord': 'Eliminar palabra',
+
+  'editor.title': 'Editar «{word}»',
+  'editor.autoFill': 'Autocompletar',
+  'editor.autoFillHint': 'Rellenar los campos vacíos con el diccionario',
+  'editor.notInDictionary': 'No está en el diccionario sin conexión',
+  'editor.word': 'Palabra',
+  'editor.clash': '«{word}» ya está en tu lista',
+  'editor.decks': 'Mazos',
+  'editor.decksPlaceholder': 'Unidad 3 - Comida, Viajes',
+  'editor.decksHint': 'Separa los mazos con comas',
+  'editor.ipa': 'AFI',
+  'editor.partOfSpeech': 'Categoría gramatical',
+  'editor.syllables': 'Sílabas',
+  'editor.stress': 'Sílaba tónica',
+  'editor.definition': 'Definición',
+  'editor.example': 'Frase de ejemplo',
+  'editor.cancel': 'Cancelar',
+  'editor.save': 'Guardar',
+  'pos.noun': 'sustantivo',
+  'pos.verb': 'verbo',
+  'pos.adjective': 'adjetivo',
+  'pos.adverb': 'adverbio',
+  'pos.pronoun': 'pronombre',
+  'pos.preposition': 'preposición',
+  'pos.conjunction': 'conjunción',
+  'pos.interjection': 'interjección',
+  'pos.number': 'número',
+  'pos.phrase': 'frase',
+
+  'stats.totalWords': 'Palabras en total',
+  'stats.mastered': 'Dominadas',
+  'stats.learning': 'Aprendiendo',
+  'stats.todaysPractice': 'Práctica de hoy',
+  'stats.streak': 'Racha',
+  'dashboard.weeklyPractice': 'Práctica semanal',
+  'dashboard.sessions': 'Sesiones',
+  'dashboard.wordsPracticed': 'Palabras practicadas',
+  'dashboard.masteryLevels': 'Niveles de dominio',
+  'dashboard.words': 'Palabras',
+  'mastery.beginner': 'Principiante',
+  'mastery.learning': 'Aprendiendo',
+  'mastery.proficient': 'Competente',
+  'mastery.mastered': 'Dominada',
+  'dashboard.masteryByDeck': 'Dominio por mazo',
+  'dashboard.deckMastery': '{mastered}/{total} dominadas · {average}% de media',
+  'dashboard.recentSessions': 'Sesiones recientes',
+  'dashboard.allSessions': 'Todas las sesiones',
+  'dashboard.showRecent': 'Mostrar recientes',
+  'dashboard.showAll': 'Mostrar las {count}',
+  'dashboard.wordCount': { one: '{count} palabra', other: '{count} palabras' },
+  'dashboard.minutes': '{count} min',
+  'dashboard.inProgress': 'En curso',
+  'dashboard.noSessions': 'Todavía no hay sesiones de práctica',
+  'dashboard.sessionWords': 'Palabras: {words}',
+  'dashboard.closeReview': 'Cerrar la revisión de la sesión',
+
+  'languages.title': 'Idiomas',
+  'languages.home': 'Idioma materno',
+  'languages.homeHelp': 'Las instrucciones, la ayuda y estos menús estarán en este idioma',
+  'languages.target': 'Aprendiendo',
+  'languages.targetHelp': 'Las palabras nuevas se añaden en este idioma, y la práctica y las pruebas usan sus palabras',
+  'languages.locked': 'No se pueden cambiar los idiomas durante una sesión activa',
+  'recordings.title': 'Grabaciones',
+  'recordings.description': 'Grabar mis sesiones de práctica para volver a escuchar cada intento y compararlo con el tutor. Las grabaciones se guardan con la sesión y solo tú puedes reproducirlas.',
+
+  'import.title': 'Importar y exportar',
+  'import.intro': 'Importa palabras desde un CSV, un mazo de Anki (.apkg) o una exportación de Anki en texto plano (.txt/.tsv), o desde una copia de seguridad de Voice Tutor (.json). Las exportaciones incluyen el dominio y los calendarios de repaso.',
+  'import.backup': 'Copia de seguridad (JSON)',
+  'import.exportWords': 'Palabras (CSV)',
+  'import.exportSessions': 'Sesiones (CSV)',
+  'import.chooseFile': 'Elige un archivo para importar...',
+  'import.columns': 'Columnas',
+  'import.column': 'Columna {number}',
+  'import.ignore': 'Ignorar',
+  'import.translation': 'Traducción ({language})',
+  'import.field.word': 'Palabra',
+  'import.field.ipa': 'AFI',
+  'import.field.syllables': 'Sílabas',
+  'import.field.stress': 'Sílaba tónica (1, 2, ...)',
+  'import.field.partOfSpeech': 'Categoría gramatical',
+  'import.field.definition': 'Definición',
+  'import.field.example': 'Frase de ejemplo',
+  'import.field.mastery': '% de dominio',
+  'import.field.practiceCount': 'Número de prácticas',
+  'import.field.ease': 'Facilidad SRS',
+  'import.field.interval': 'Intervalo SRS (días)',
+  'import.field.repetitions': 'Repeticiones SRS',
+  'import.field.lapses': 'Fallos SRS',
+  'import.field.lastPracticed': 'Última práctica',
+  'import.field.dueDate': 'Fecha de repaso',
+  'import.field.added': 'Fecha de alta',
+  'import.field.archived': 'Archivada',
+  'import.field.decks': 'Mazos (separados por ;)',
+  'import.field.tags': 'Etiquetas (como mazos)',
+  'import.summary': '{new} nuevas · {duplicate} ya en tu lista · {repeated} repetidas · {error} con errores',
+  'import.duplicatesSkipped': '- los duplicados se omiten',
+  'import.line': 'Línea',
+  'import.word': 'Palabra',
+  'import.details': 'Detalles',
+  'import.status': 'Estado',
+  'import.status.new': 'Nueva',
+  'import.status.duplicate': 'Ya añadida',
+  'import.status.repeated': 'Repetida en el archivo',
+  'import.status.error': 'Error',
+  'import.invalidRow': 'Fila no válida',
+  'import.moreRows': { one: '…y {count} fila más', other: '…y {count} filas más' },
+  'import.words': { one: '{count} palabra', other: '{count} palabras' },
+  'import.sessions': { one: '{count} sesión de práctica', other: '{count} sesiones de práctica' },
+  'import.backupSummary': '{words} ({new} nuevas; las que ya están en tu lista se quedan como están) y {sessions}.',
+  'import.problems': { one: '{count} problema: esta fila se omitirá', other: '{count} problemas: estas filas se omitirán' },
+  'import.errorReport': 'Descargar informe de errores',
+  'import.errorLine': 'Línea {line}: {message}',
+  'import.cancel': 'Cancelar',
+  'import.import': 'Importar',
+  'import.imported': 'Se importaron {words} de {file}',
+  'import.importedWithSessions': 'Se importaron {words} y {sessions} de {file}',
+
+  'sync.title': 'Sincronización con FlashAcademy',
+  'sync.intro': 'Las palabras que aprendes en las lecciones de FlashAcademy se añaden aquí automáticamente, con la fecha en que las aprendiste. Tus resultados de práctica se envían a FlashAcademy después de cada sesión.',
+  'sync.loading': 'Cargando el estado de la sincronización...',
+  'sync.notConfigured': 'La sincronización aún no está configurada en este servidor (necesita FLASHACADEMY_API_URL y FLASHACADEMY_API_KEY).',
+  'sync.linkIntro': 'Para vincular tu cuenta, consigue un código de vinculación en FlashAcademy e introdúcelo aquí. Cada código sirve una sola vez.',
+  'sync.linkCode': 'Código de vinculación',
+  'sync.link': 'Vincular',
+  'sync.account': 'Cuenta',
+  'sync.lastSynced': 'Última sincronización',
+  'sync.never': 'Nunca',
+  'sync.wordsSynced': 'Palabras sincronizadas',
+  'sync.lastPushed': 'Último envío de dominio',
+  'sync.lastError': 'La última sincronización falló: {error}',
+  'sync.syncing': 'Sincronizando...',
+  'sync.syncNow': 'Sincronizar ahora',
+  'sync.reimport': 'Volver a importar todo',
+  'sync.reimportHint': 'Vuelve a descargar todas las palabras, por ejemplo si borraste algunas aquí por error',
+  'sync.unlink': 'Desvincular',
+  'sync.confirmUnlink': '¿Desvincular tu cuenta de FlashAcademy? Las palabras ya sincronizadas se quedan en tu lista.',
+  'sync.result': '{added}, {pushed}',
+  'sync.added': { one: '{count} palabra nueva añadida', other: '{count} palabras nuevas añadidas' },
+  'sync.pushed': { one: '{count} actualización de dominio enviada', other: '{count} actualizaciones de dominio enviadas' },
+  'sync.linked': { one: 'Vinculada: {count} palabra añadida desde FlashAcademy', other: 'Vinculada: {count} palabras añadidas desde FlashAcademy' }
+};
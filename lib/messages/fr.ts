@@ -0,0 +1,282 @@
+import type { Catalog } from './en';
+
+export const fr: Catalog = {
+  'app.tagline': "Assistant d'apprentissage des langues propulsé par l'IA",
+  'app.signOut': 'Se déconnecter',
+  'app.poweredBy': 'Propulsé par',
+  'tab.practice': 'Pratique',
+  'tab.test': 'Test',
+  'tab.words': 'Mots',
+  'tab.dashboard': 'Tableau de bord',
+  'tab.settings': 'Paramètres',
+  'about.title': 'À propos',
+  'about.realtime': "Voice Tutor utilise l'API Realtime d'OpenAI pour proposer une pratique conversationnelle des langues.",
+  'about.flashacademy': 'Le système suit les mots que vous avez appris sur la plateforme FlashAcademy et vous aide à travailler la prononciation, le vocabulaire et la conversation.',
+  'about.features': 'Fonctionnalités :',
+  'about.feature.flow': "Conversation continue : pas besoin d'appuyer sur enregistrer pour chaque mot",
+  'about.feature.modes': "Trois modes de pratique adaptés à différents objectifs d'apprentissage",
+  'about.feature.languages': 'Instructions et menus en 16 langues',
+  'about.feature.feedback': 'Correction de la prononciation en temps réel',
+  'about.feature.progress': 'Suivi des progrès et statistiques',
+  'about.feature.words': "Gestion des mots avec leur date d'ajout",
+  'about.feature.sync': 'Synchronisation du vocabulaire avec FlashAcademy',
+
+  'login.signIn': 'Se connecter',
+  'login.register': 'Créer un compte',
+  'login.intro': 'Vos mots et votre historique de pratique sont enregistrés dans votre compte.',
+  'login.username': "Nom d'utilisateur",
+  'login.displayName': 'Votre nom (facultatif)',
+  'login.password': 'Mot de passe',
+  'login.createAccount': 'Créer le compte',
+  'login.toRegister': 'Nouveau ici ? Créez un compte',
+  'login.toSignIn': 'Vous avez déjà un compte ? Connectez-vous',
+  'login.failed': "Une erreur s'est produite",
+
+  'modes.title': 'Mode de pratique',
+  'modes.locked': 'Le mode ne peut pas être changé pendant une session',
+  'mode.pronunciation': 'Prononciation',
+  'mode.pronunciation.description': 'Concentrez-vous sur une prononciation claire et correcte des mots',
+  'mode.vocabulary': 'Vocabulaire',
+  'mode.vocabulary.description': 'Apprenez le sens des mots et leur usage en contexte',
+  'mode.conversation': 'Conversation',
+  'mode.conversation.description': 'Pratiquez une conversation naturelle avec les mots appris',
+  'session.pronunciation': 'Pratique de la prononciation',
+  'session.vocabulary': 'Pratique du vocabulaire',
+  'session.conversation': 'Pratique de la conversation',
+
+  'session.pronunciation-test': 'Test de prononciation',
+
+  'status.listening': 'À l’écoute...',
+  'status.connected': 'Connecté',
+  'status.connecting': 'Connexion...',
+  'status.notConnected': 'Non connecté',
+  'voice.tapToEnd': 'Touchez pour terminer la conversation',
+  'voice.tapToStart': 'Touchez pour commencer à pratiquer',
+  'chat.empty': "Rien n'a encore été dit",
+  'chat.tutor': 'Tuteur',
+  'chat.you': 'Vous',
+  'quota.reached': "Vous avez atteint la limite d'entraînement du jour - bravo ! Votre tuteur sera de nouveau disponible demain.",
+  'quota.reopens': 'La pratique rouvre {time}.',
+  'deck.label': 'Paquet',
+  'deck.allWords': 'Tous les mots ({count})',
+
+  'test.title': 'Test de prononciation',
+  'test.intro': 'Connectez-vous avec votre tuteur IA pour un test de prononciation sous forme de conversation. Votre tuteur vous guidera tout au long du test.',
+  'test.emptyDeck': "Ce paquet n'a pas encore de mots à tester.",
+  'test.noWords': "Ajoutez d'abord quelques mots en {language} à votre vocabulaire !",
+  'test.howItWorks': 'Comment ça marche :',
+  'test.howItWorksBody': "Votre tuteur IA teste votre prononciation mot par mot. Parlez naturellement quand il vous le demande. Vous pouvez l'interrompre à tout moment, et il vous donnera des commentaires détaillés. Les mots notés {score} % ou plus sont réussis.",
+  'test.start': 'Commencer le test de conversation',
+  'test.progress': 'Mot {current} sur {total}',
+  'test.currentWord': 'Mot actuel :',
+  'test.hearIt': 'Écouter',
+  'test.tryAgain': 'Réessayer',
+  'test.attempt': 'Essai {current} / {max}',
+  'test.end': 'Terminer le test',
+  'test.score': 'Score : {score} %',
+  'test.greatJob': 'Bravo ! On passe au mot suivant...',
+  'test.complete': 'Test terminé !',
+  'test.overallScore': 'Score global :',
+  'test.passed': 'Réussis : {passed} / {total} mots',
+  'test.attempts': 'Essais : {count}',
+  'test.finish': 'Terminer',
+  'test.stress': 'Accent : {feedback}',
+  'test.stressHint': 'vérifiez quelle syllabe est accentuée',
+  'test.scoreSources': 'Tuteur {tutor} % · Transcription {transcript} %',
+  'test.heard': '(entendu « {text} »)',
+  'test.disagreement': 'Le tuteur et la transcription ne sont pas d’accord sur cet essai : réécoutez-le.',
+  'test.myAttempts': { one: 'Mon essai', other: 'Mes essais' },
+  'test.tutorModel': 'Modèle du tuteur',
+
+  'words.title': 'Gestion des mots',
+  'words.placeholder': 'Saisissez un nouveau mot ou une expression...',
+  'words.add': 'Ajouter le mot',
+  'words.alreadyAdded': '« {word} » est déjà dans votre liste : vos progrès sont conservés',
+  'words.showBulkAdd': "Afficher l'ajout en lot",
+  'words.hideBulkAdd': "Masquer l'ajout en lot",
+  'words.bulkPlaceholder': 'Saisissez plusieurs mots ou expressions, un par ligne...',
+  'words.addAll': 'Ajouter tous les mots',
+  'words.bulkAdded': '{added} ajoutés ; {skipped} étaient déjà dans votre liste ou répétés',
+  'words.yourWords': 'Vos mots',
+  'words.showArchived': 'Afficher les archivés ({count})',
+  'words.duplicates': {
+    one: '{count} entrée fait doublon avec un autre mot (sans tenir compte de la casse ni des accents)',
+    other: '{count} entrées font doublon avec un autre mot (sans tenir compte de la casse ni des accents)'
+  },
+  'words.mergeDuplicates': 'Fusionner les doublons',
+  'words.merged': {
+    one: '{count} doublon fusionné : les historiques de pratique ont été réunis',
+    other: '{count} doublons fusionnés : les historiques de pratique ont été réunis'
+  },
+  'words.allWords': 'Tous les mots',
+  'words.saveDeckName': 'Enregistrer le nom',
+  'words.cancel': 'Annuler',
+  'words.deckHint': 'Les nouveaux mots sont ajoutés à ce paquet.',
+  'words.renameDeck': 'Renommer',
+  'words.deleteDeck': 'Supprimer le paquet',
+  'words.confirmDeleteDeck': 'Supprimer le paquet « {deck} » ? Ses mots restent dans votre liste.',
+  'words.empty': 'Aucun mot pour le moment',
+  'words.emptyDeck': 'Aucun mot dans ce paquet pour le moment',
+  'words.allArchived': 'Tous vos mots sont archivés',
+  'words.selected': '{count} sélectionnés',
+  'words.selectAll': 'Tout sélectionner',
+  'words.deckName': 'Nom du paquet',
+  'words.addToDeck': 'Ajouter au paquet',
+  'words.removeFromDeck': 'Retirer du paquet',
+  'words.archive': 'Archiver',
+  'words.restore': 'Restaurer',
+  'words.delete': 'Supprimer',
+  'words.confirmDelete': {
+    one: 'Supprimer ce mot et sa progression ? Cette action est irréversible.',
+    other: 'Supprimer {count} mots et leur progression ? Cette action est irréversible.'
+  },
+  'words.select': 'Sélectionner {word}',
+  'words.phrase': 'expression',
+  'words.archived': '(archivé)',
+  'words.practices': { one: '{count} pratique', other: '{count} pratiques' },
+  'words.mastery': '{mastery} % de maîtrise',
+  'words.edit': 'Modifier le mot',
+  'words.restoreHint': 'Le remettre en pratique',
+  'words.archiveHint': 'Archiver : le garder, mais ne plus le pratiquer',
+  'words.deleteWord': 'Supprimer le mot',
+
+  'editor.title': 'Modifier « {word} »',
+  'editor.autoFill': 'Remplissage auto',
+  'editor.autoFillHint': 'Remplir les champs vides à partir du dictionnaire',
+  'editor.notInDictionary': 'Absent du dictionnaire hors ligne',
+  'editor.word': 'Mot',
+  'editor.clash': '« {word} » est déjà dans votre liste',
+  'editor.decks': 'Paquets',
+  'editor.decksPlaceholder': 'Unité 3 - Nourriture, Voyages',
+  'editor.decksHint': 'Séparez les paquets par des virgules',
+  'editor.ipa': 'API',
+  'editor.partOfSpeech': 'Nature du mot',
+  'editor.syllables': 'Syllabes',
+  'editor.stress': 'Syllabe accentuée',
+  'editor.definition': 'Définition',
+  'editor.example': "Phrase d'exemple",
+  'editor.cancel': 'Annuler',
+  'editor.save': 'Enregistrer',
+  'pos.noun': 'nom',
+  'pos.verb': 'verbe',
+  'pos.adjective': 'adjectif',
+  'pos.adverb': 'adverbe',
+  'pos.pronoun': 'pronom',
+  'pos.preposition': 'préposition',
+  'pos.conjunction': 'conjonction',
+  'pos.interjection': 'interjection',
+  'pos.number': 'nombre',
+  'pos.phrase': 'expression',
+
+  'stats.totalWords': 'Mots au total',
+  'stats.mastered': 'Maîtrisés',
+  'stats.learning': 'En cours',
+  'stats.todaysPractice': "Pratique d'aujourd'hui",
+  'stats.streak': 'Série',
+  'dashboard.weeklyPractice': 'Pratique de la semaine',
+  'dashboard.sessions': 'Sessions',
+  'dashboard.wordsPracticed': 'Mots pratiqués',
+  'dashboard.masteryLevels': 'Niveaux de maîtrise',
+  'dashboard.words': 'Mots',
+  'mastery.beginner': 'Débutant',
+  'mastery.learning': 'En cours',
+  'mastery.proficient': 'Bon niveau',
+  'mastery.mastered': 'Maîtrisé',
+  'dashboard.masteryByDeck': 'Maîtrise par paquet',
+  'dashboard.deckMastery': '{mastered}/{total} maîtrisés · {average} % en moyenne',
+  'dashboard.recentSessions': 'Sessions récentes',
+  'dashboard.allSessions': 'Toutes les sessions',
+  'dashboard.showRecent': 'Afficher les récentes',
+  'dashboard.showAll': 'Afficher les {count}',
+  'dashboard.wordCount': { one: '{count} mot', other: '{count} mots' },
+  'dashboard.minutes': '{count} min',
+  'dashboard.inProgress': 'En cours',
+  'dashboard.noSessions': 'Aucune session de pratique pour le moment',
+  'dashboard.sessionWords': 'Mots : {words}',
+  'dashboard.closeReview': 'Fermer le récapitulatif de la session',
+
+  'languages.title': 'Langues',
+  'languages.home': 'Langue maternelle',
+  'languages.homeHelp': "Les instructions, l'aide et ces menus seront dans cette langue",
+  'languages.target': 'Apprentissage',
+  'languages.targetHelp': 'Les nouveaux mots sont ajoutés dans cette langue, et la pratique et les tests utilisent ses mots',
+  'languages.locked': 'Les langues ne peuvent pas être changées pendant une session',
+  'recordings.title': 'Enregistrements',
+  'recordings.description': "Enregistrer mes sessions de pratique pour réécouter chaque essai et le comparer au tuteur. Les enregistrements sont conservés avec la session et vous seul pouvez les écouter.",
+
+  'import.title': 'Import et export',
+  'import.intro': 'Importez des mots depuis un CSV, un paquet Anki (.apkg), un export Anki en texte brut (.txt/.tsv) ou une sauvegarde Voice Tutor (.json). Les exports incluent la maîtrise et le calendrier de révision.',
+  'import.backup': 'Sauvegarde (JSON)',
+  'import.exportWords': 'Mots (CSV)',
+  'import.exportSessions': 'Sessions (CSV)',
+  'import.chooseFile': 'Choisissez un fichier à importer...',
+  'import.columns': 'Colonnes',
+  'import.column': 'Colonne {number}',
+  'import.ignore': 'Ignorer',
+  'import.translation': 'Traduction ({language})',
+  'import.field.word': 'Mot',
+  'import.field.ipa': 'API',
+  'import.field.syllables': 'Syllabes',
+  'import.field.stress': 'Syllabe accentuée (1, 2, ...)',
+  'import.field.partOfSpeech': 'Nature du mot',
+  'import.field.definition': 'Définition',
+  'import.field.example': "Phrase d'exemple",
+  'import.field.mastery': 'Maîtrise %',
+  'import.field.practiceCount': "Nombre d'entraînements",
+  'import.field.ease': 'Facilité SRS',
+  'import.field.interval': 'Intervalle SRS (jours)',
+  'import.field.repetitions': 'Répétitions SRS',
+  'import.field.lapses': 'Oublis SRS',
+  'import.field.lastPracticed': 'Dernier entraînement',
+  'import.field.dueDate': 'Date de révision',
+  'import.field.added': "Date d'ajout",
+  'import.field.archived': 'Archivé',
+  'import.field.decks': 'Paquets (séparés par ;)',
+  'import.field.tags': 'Étiquettes (comme paquets)',
+  'import.summary': '{new} nouveaux · {duplicate} déjà dans votre liste · {repeated} répétés · {error} avec erreurs',
+  'import.duplicatesSkipped': '- les doublons sont ignorés',
+  'import.line': 'Ligne',
+  'import.word': 'Mot',
+  'import.details': 'Détails',
+  'import.status': 'État',
+  'import.status.new': 'Nouveau',
+  'import.status.duplicate': 'Déjà ajouté',
+  'import.status.repeated': 'Répété dans le fichier',
+  'import.status.error': 'Erreur',
+  'import.invalidRow': 'Ligne non valide',
+  'import.moreRows': { one: '…et {count} autre ligne', other: '…et {count} autres lignes' },
+  'import.words': { one: '{count} mot', other: '{count} mots' },
+  'import.sessions': { one: "{count} session d'entraînement", other: "{count} sessions d'entraînement" },
+  'import.backupSummary': '{words} ({new} nouveaux ; ceux déjà dans votre liste restent tels quels) et {sessions}.',
+  'import.problems': { one: '{count} problème - cette ligne sera ignorée', other: '{count} problèmes - ces lignes seront ignorées' },
+  'import.errorReport': "Télécharger le rapport d'erreurs",
+  'import.errorLine': 'Ligne {line} : {message}',
+  'import.cancel': 'Annuler',
+  'import.import': 'Importer',
+  'import.imported': '{words} importés depuis {file}',
+  'import.importedWithSessions': '{words} et {sessions} importés depuis {file}',
+
+  'sync.title': 'Synchronisation FlashAcademy',
+  'sync.intro': "Les mots que vous apprenez dans les leçons FlashAcademy sont ajoutés ici automatiquement, avec la date à laquelle vous les avez appris. Vos résultats d'entraînement sont renvoyés à FlashAcademy après chaque session.",
+  'sync.loading': "Chargement de l'état de la synchronisation...",
+  'sync.notConfigured': "La synchronisation n'est pas encore configurée sur ce serveur (il faut FLASHACADEMY_API_URL et FLASHACADEMY_API_KEY).",
+  'sync.linkIntro': "Pour associer votre compte, obtenez un code d'association auprès de FlashAcademy et saisissez-le ici. Chaque code ne sert qu'une fois.",
+  'sync.linkCode': "Code d'association",
+  'sync.link': 'Associer',
+  'sync.account': 'Compte',
+  'sync.lastSynced': 'Dernière synchronisation',
+  'sync.never': 'Jamais',
+  'sync.wordsSynced': 'Mots synchronisés',
+  'sync.lastPushed': 'Dernier envoi de la maîtrise',
+  'sync.lastError': 'La dernière synchronisation a échoué : {error}',
+  'sync.syncing': 'Synchronisation...',
+  'sync.syncNow': 'Synchroniser',
+  'sync.reimport': 'Tout réimporter',
+  'sync.reimportHint': 'Récupérer à nouveau tous les mots, par exemple après en avoir supprimé ici par erreur',
+  'sync.unlink': 'Dissocier',
+  'sync.confirmUnlink': 'Dissocier votre compte FlashAcademy ? Les mots déjà synchronisés restent dans votre liste.',
+  'sync.result': '{added}, {pushed}',
+  'sync.added': { one: '{count} nouveau mot ajouté', other: '{count} nouveaux mots ajoutés' },
+  'sync.pushed': { one: '{count} mise à jour de maîtrise envoyée', other: '{count} mises à jour de maîtrise envoyées' },
+  'sync.linked': { one: 'Compte associé - {count} mot ajouté depuis FlashAcademy', other: 'Compte associé - {count} mots ajoutés depuis FlashAcademy' }
+};
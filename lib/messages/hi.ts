@@ -0,0 +1,282 @@
+import type { Catalog } from './en';
+
+export const hi: Catalog = {
+  'app.tagline': 'AI से चलने वाला भाषा सीखने का सहायक',
+  'app.signOut': 'साइन आउट',
+  'app.poweredBy': 'संचालित',
+  'tab.practice': 'अभ्यास',
+  'tab.test': 'परीक्षा',
+  'tab.words': 'शब्द',
+  'tab.dashboard': 'डैशबोर्ड',
+  'tab.settings': 'सेटिंग्स',
+  'about.title': 'परिचय',
+  'about.realtime': 'Voice Tutor बातचीत के ज़रिए भाषा अभ्यास कराने के लिए OpenAI के Realtime API का उपयोग करता है।',
+  'about.flashacademy': 'यह सिस्टम FlashAcademy पर सीखे गए आपके शब्दों को ध्यान में रखता है और उच्चारण, शब्दावली और बातचीत का अभ्यास करने में मदद करता है।',
+  'about.features': 'सुविधाएँ:',
+  'about.feature.flow': 'लगातार बातचीत — हर शब्द के लिए रिकॉर्ड दबाने की ज़रूरत नहीं',
+  'about.feature.modes': 'अलग-अलग लक्ष्यों के लिए तीन अभ्यास मोड',
+  'about.feature.languages': '16 भाषाओं में निर्देश और मेनू',
+  'about.feature.feedback': 'उच्चारण पर तुरंत प्रतिक्रिया',
+  'about.feature.progress': 'प्रगति और आँकड़ों पर नज़र',
+  'about.feature.words': 'जोड़ने के समय के साथ शब्द प्रबंधन',
+  'about.feature.sync': 'FlashAcademy के साथ शब्दावली सिंक',
+
+  'login.signIn': 'साइन इन करें',
+  'login.register': 'खाता बनाएँ',
+  'login.intro': 'आपके शब्द और अभ्यास का इतिहास आपके खाते में सहेजा जाता है।',
+  'login.username': 'उपयोगकर्ता नाम',
+  'login.displayName': 'आपका नाम (वैकल्पिक)',
+  'login.password': 'पासवर्ड',
+  'login.createAccount': 'खाता बनाएँ',
+  'login.toRegister': 'नए हैं? खाता बनाएँ',
+  'login.toSignIn': 'पहले से खाता है? साइन इन करें',
+  'login.failed': 'कुछ गड़बड़ हो गई',
+
+  'modes.title': 'अभ्यास मोड',
+  'modes.locked': 'सत्र चलते समय मोड नहीं बदला जा सकता',
+  'mode.pronunciation': 'उच्चारण',
+  'mode.pronunciation.description': 'शब्दों को साफ़ और सही बोलने पर ध्यान दें',
+  'mode.vocabulary': 'शब्दावली',
+  'mode.vocabulary.description': 'शब्दों के अर्थ और संदर्भ में उनका प्रयोग सीखें',
+  'mode.conversation': 'बातचीत',
+  'mode.conversation.description': 'सीखे गए शब्दों के साथ स्वाभाविक बातचीत का अभ्यास करें',
+  'session.pronunciation': 'उच्चारण अभ्यास',
+  'session.vocabulary': 'शब्दावली अभ्यास',
+  'session.conversation': 'बातचीत अभ्यास',
+
+  'session.pronunciation-test': 'उच्चारण परीक्षा',
+
+  'status.listening': 'सुन रहा है...',
+  'status.connected': 'कनेक्ट है',
+  'status.connecting': 'कनेक्ट हो रहा है...',
+  'status.notConnected': 'कनेक्ट नहीं है',
+  'voice.tapToEnd': 'बातचीत खत्म करने के लिए टैप करें',
+  'voice.tapToStart': 'अभ्यास शुरू करने के लिए टैप करें',
+  'chat.empty': 'अभी तक कुछ नहीं कहा गया',
+  'chat.tutor': 'शिक्षक',
+  'chat.you': 'आप',
+  'quota.reached': 'आपने आज की अभ्यास सीमा पूरी कर ली है — बहुत बढ़िया! आपका शिक्षक कल फिर से तैयार रहेगा।',
+  'quota.reopens': 'अभ्यास फिर से {time} को खुलेगा।',
+  'deck.label': 'डेक',
+  'deck.allWords': 'सभी शब्द ({count})',
+
+  'test.title': 'उच्चारण परीक्षा',
+  'test.intro': 'बातचीत के रूप में उच्चारण परीक्षा के लिए अपने AI शिक्षक से जुड़ें। शिक्षक पूरी परीक्षा में आपका मार्गदर्शन करेगा।',
+  'test.emptyDeck': 'इस डेक में अभी परीक्षा के लिए कोई शब्द नहीं है।',
+  'test.noWords': 'पहले अपनी शब्दावली में कुछ {language} शब्द जोड़ें!',
+  'test.howItWorks': 'यह कैसे काम करता है:',
+  'test.howItWorksBody': 'आपका AI शिक्षक एक-एक शब्द करके आपके उच्चारण की जाँच करेगा। कहे जाने पर स्वाभाविक रूप से बोलें। आप कभी भी बीच में बोल सकते हैं, और शिक्षक विस्तृत प्रतिक्रिया देगा। {score}% या उससे अधिक अंक वाले शब्द पास होते हैं।',
+  'test.start': 'बातचीत परीक्षा शुरू करें',
+  'test.progress': '{total} में से शब्द {current}',
+  'test.currentWord': 'मौजूदा शब्द:',
+  'test.hearIt': 'सुनें',
+  'test.tryAgain': 'फिर से कोशिश करें',
+  'test.attempt': 'प्रयास {current} / {max}',
+  'test.end': 'परीक्षा समाप्त करें',
+  'test.score': 'अंक: {score}%',
+  'test.greatJob': 'बहुत बढ़िया! अगले शब्द पर चलते हैं...',
+  'test.complete': 'परीक्षा पूरी हुई!',
+  'test.overallScore': 'कुल अंक:',
+  'test.passed': 'पास: {total} में से {passed} शब्द',
+  'test.attempts': 'प्रयास: {count}',
+  'test.finish': 'समाप्त',
+  'test.stress': 'बलाघात: {feedback}',
+  'test.stressHint': 'देखें कि किस अक्षर पर ज़ोर है',
+  'test.scoreSources': 'शिक्षक {tutor}% · ट्रांसक्रिप्ट {transcript}%',
+  'test.heard': '("{text}" सुनाई दिया)',
+  'test.disagreement': 'इस प्रयास पर शिक्षक और ट्रांसक्रिप्ट सहमत नहीं हैं — इसे दोबारा सुन लें।',
+  'test.myAttempts': { one: 'मेरा प्रयास', other: 'मेरे प्रयास' },
+  'test.tutorModel': 'शिक्षक का उदाहरण',
+
+  'words.title': 'शब्द प्रबंधन',
+  'words.placeholder': 'नया शब्द या वाक्यांश लिखें...',
+  'words.add': 'शब्द जोड़ें',
+  'words.alreadyAdded': '"{word}" पहले से आपकी सूची में है — आपकी प्रगति बनी रहेगी',
+  'words.showBulkAdd': 'एक साथ कई जोड़ें दिखाएँ',
+  'words.hideBulkAdd': 'एक साथ कई जोड़ें छिपाएँ',
+  'words.bulkPlaceholder': 'कई शब्द या वाक्यांश लिखें, हर पंक्ति में एक...',
+  'words.addAll': 'सभी जोड़ें',
+  'words.bulkAdded': '{added} नए जोड़े गए; {skipped} पहले से सूची में थे या दोहराए गए थे',
+  'words.yourWords': 'आपके शब्द',
+  'words.showArchived': 'संग्रहीत दिखाएँ ({count})',
+  'words.duplicates': {
+    one: '{count} प्रविष्टि किसी दूसरे शब्द की दोहराव है (बड़े-छोटे अक्षर और मात्राएँ अनदेखी)',
+    other: '{count} प्रविष्टियाँ किसी दूसरे शब्द की दोहराव हैं (बड़े-छोटे अक्षर और मात्राएँ अनदेखी)'
+  },
+  'words.mergeDuplicates': 'दोहराव मिलाएँ',
+  'words.merged': {
+    one: '{count} दोहराव मिलाया गया — अभ्यास इतिहास जोड़ दिया गया',
+    other: '{count} दोहराव मिलाए गए — अभ्यास इतिहास जोड़ दिया गया'
+  },
+  'words.allWords': 'सभी शब्द',
+  'words.saveDeckName': 'नाम सहेजें',
+  'words.cancel': 'रद्द करें',
+  'words.deckHint': 'नए शब्द इस डेक में जुड़ते हैं।',
+  'words.renameDeck': 'नाम बदलें',
+  'words.deleteDeck': 'डेक हटाएँ',
+  'words.confirmDeleteDeck': 'डेक "{deck}" हटाएँ? इसके शब्द आपकी सूची में बने रहेंगे।',
+  'words.empty': 'अभी तक कोई शब्द नहीं जोड़ा गया',
+  'words.emptyDeck': 'इस डेक में अभी कोई शब्द नहीं है',
+  'words.allArchived': 'आपके सभी शब्द संग्रहीत हैं',
+  'words.selected': '{count} चुने गए',
+  'words.selectAll': 'सभी चुनें',
+  'words.deckName': 'डेक का नाम',
+  'words.addToDeck': 'डेक में जोड़ें',
+  'words.removeFromDeck': 'डेक से हटाएँ',
+  'words.archive': 'संग्रहीत करें',
+  'words.restore': 'वापस लाएँ',
+  'words.delete': 'हटाएँ',
+  'words.confirmDelete': {
+    one: 'यह शब्द और इसकी प्रगति हटाएँ? इसे पूर्ववत नहीं किया जा सकता।',
+    other: '{count} शब्द और उनकी प्रगति हटाएँ? इसे पूर्ववत नहीं किया जा सकता।'
+  },
+  'words.select': '{word} चुनें',
+  'words.phrase': 'वाक्यांश',
+  'words.archived': '(संग्रहीत)',
+  'words.practices': { one: '{count} अभ्यास', other: '{count} अभ्यास' },
+  'words.mastery': '{mastery}% महारत',
+  'words.edit': 'शब्द संपादित करें',
+  'words.restoreHint': 'फिर से अभ्यास में लाएँ',
+  'words.archiveHint': 'संग्रहीत करें — रखें, पर अभ्यास बंद करें',
+  'words.deleteWord': 'शब्द हटाएँ',
+
+  'editor.title': '"{word}" संपादित करें',
+  'editor.autoFill': 'अपने-आप भरें',
+  'editor.autoFillHint': 'खाली फ़ील्ड शब्दकोश से भरें',
+  'editor.notInDictionary': 'ऑफ़लाइन शब्दकोश में नहीं है',
+  'editor.word': 'शब्द',
+  'editor.clash': '"{word}" पहले से आपकी सूची में है',
+  'editor.decks': 'डेक',
+  'editor.decksPlaceholder': 'इकाई 3 - भोजन, यात्रा',
+  'editor.decksHint': 'डेक को अल्पविराम (,) से अलग करें',
+  'editor.ipa': 'IPA',
+  'editor.partOfSpeech': 'शब्द-भेद',
+  'editor.syllables': 'अक्षर',
+  'editor.stress': 'बलाघात वाला अक्षर',
+  'editor.definition': 'परिभाषा',
+  'editor.example': 'उदाहरण वाक्य',
+  'editor.cancel': 'रद्द करें',
+  'editor.save': 'सहेजें',
+  'pos.noun': 'संज्ञा',
+  'pos.verb': 'क्रिया',
+  'pos.adjective': 'विशेषण',
+  'pos.adverb': 'क्रियाविशेषण',
+  'pos.pronoun': 'सर्वनाम',
+  'pos.preposition': 'संबंधबोधक',
+  'pos.conjunction': 'समुच्चयबोधक',
+  'pos.interjection': 'विस्मयादिबोधक',
+  'pos.number': 'संख्या',
+  'pos.phrase': 'वाक्यांश',
+
+  'stats.totalWords': 'कुल शब्द',
+  'stats.mastered': 'महारत',
+  'stats.learning': 'सीख रहे हैं',
+  'stats.todaysPractice': 'आज का अभ्यास',
+  'stats.streak': 'लगातार दिन',
+  'dashboard.weeklyPractice': 'साप्ताहिक अभ्यास',
+  'dashboard.sessions': 'सत्र',
+  'dashboard.wordsPracticed': 'अभ्यास किए शब्द',
+  'dashboard.masteryLevels': 'महारत के स्तर',
+  'dashboard.words': 'शब्द',
+  'mastery.beginner': 'शुरुआती',
+  'mastery.learning': 'सीख रहे हैं',
+  'mastery.proficient': 'कुशल',
+  'mastery.mastered': 'महारत',
+  'dashboard.masteryByDeck': 'डेक के अनुसार महारत',
+  'dashboard.deckMastery': '{mastered}/{total} में महारत · औसत {average}%',
+  'dashboard.recentSessions': 'हाल के सत्र',
+  'dashboard.allSessions': 'सभी सत्र',
+  'dashboard.showRecent': 'हाल के दिखाएँ',
+  'dashboard.showAll': 'सभी {count} दिखाएँ',
+  'dashboard.wordCount': { one: '{count} शब्द', other: '{count} शब्द' },
+  'dashboard.minutes': '{count} मिनट',
+  'dashboard.inProgress': 'जारी',
+  'dashboard.noSessions': 'अभी तक कोई अभ्यास सत्र नहीं',
+  'dashboard.sessionWords': 'शब्द: {words}',
+  'dashboard.closeReview': 'सत्र समीक्षा बंद करें',
+
+  'languages.title': 'भाषाएँ',
+  'languages.home': 'मातृभाषा',
+  'languages.homeHelp': 'निर्देश, सहायता और ये मेनू इसी भाषा में होंगे',
+  'languages.target': 'सीख रहे हैं',
+  'languages.targetHelp': 'नए शब्द इसी भाषा में जुड़ते हैं, और अभ्यास व परीक्षा इसी के शब्दों का उपयोग करते हैं',
+  'languages.locked': 'सत्र चलते समय भाषाएँ नहीं बदली जा सकतीं',
+  'recordings.title': 'रिकॉर्डिंग',
+  'recordings.description': 'मेरे अभ्यास सत्र रिकॉर्ड करें ताकि मैं हर प्रयास दोबारा सुनकर शिक्षक से तुलना कर सकूँ। रिकॉर्डिंग सत्र के साथ सहेजी जाती हैं और केवल आप ही उन्हें चला सकते हैं।',
+
+  'import.title': 'आयात और निर्यात',
+  'import.intro': 'CSV, Anki डेक (.apkg), Anki सादा-टेक्स्ट निर्यात (.txt/.tsv) या Voice Tutor बैकअप (.json) से शब्द आयात करें। निर्यात में महारत और दोहराव की समय-सारणी शामिल होती है।',
+  'import.backup': 'बैकअप (JSON)',
+  'import.exportWords': 'शब्द (CSV)',
+  'import.exportSessions': 'सत्र (CSV)',
+  'import.chooseFile': 'आयात करने के लिए फ़ाइल चुनें...',
+  'import.columns': 'कॉलम',
+  'import.column': 'कॉलम {number}',
+  'import.ignore': 'अनदेखा करें',
+  'import.translation': 'अनुवाद ({language})',
+  'import.field.word': 'शब्द',
+  'import.field.ipa': 'IPA',
+  'import.field.syllables': 'अक्षर',
+  'import.field.stress': 'बलाघात वाला अक्षर (1, 2, ...)',
+  'import.field.partOfSpeech': 'शब्द-भेद',
+  'import.field.definition': 'परिभाषा',
+  'import.field.example': 'उदाहरण वाक्य',
+  'import.field.mastery': 'महारत %',
+  'import.field.practiceCount': 'अभ्यास की संख्या',
+  'import.field.ease': 'SRS सरलता',
+  'import.field.interval': 'SRS अंतराल (दिन)',
+  'import.field.repetitions': 'SRS दोहराव',
+  'import.field.lapses': 'SRS चूक',
+  'import.field.lastPracticed': 'पिछला अभ्यास',
+  'import.field.dueDate': 'दोहराने की तारीख़',
+  'import.field.added': 'जोड़ने की तारीख़',
+  'import.field.archived': 'संग्रहीत',
+  'import.field.decks': 'डेक (; से अलग)',
+  'import.field.tags': 'टैग (डेक के रूप में)',
+  'import.summary': '{new} नए · {duplicate} पहले से आपकी सूची में · {repeated} दोहराए गए · {error} में त्रुटियाँ',
+  'import.duplicatesSkipped': '— डुप्लिकेट छोड़ दिए जाते हैं',
+  'import.line': 'पंक्ति',
+  'import.word': 'शब्द',
+  'import.details': 'विवरण',
+  'import.status': 'स्थिति',
+  'import.status.new': 'नया',
+  'import.status.duplicate': 'पहले से जोड़ा गया',
+  'import.status.repeated': 'फ़ाइल में दोहराया गया',
+  'import.status.error': 'त्रुटि',
+  'import.invalidRow': 'अमान्य पंक्ति',
+  'import.moreRows': { one: '…और {count} पंक्ति', other: '…और {count} पंक्तियाँ' },
+  'import.words': { one: '{count} शब्द', other: '{count} शब्द' },
+  'import.sessions': { one: '{count} अभ्यास सत्र', other: '{count} अभ्यास सत्र' },
+  'import.backupSummary': '{words} ({new} नए; जो पहले से आपकी सूची में हैं वे जैसे हैं वैसे ही रहेंगे) और {sessions}।',
+  'import.problems': { one: '{count} समस्या — यह पंक्ति छोड़ दी जाएगी', other: '{count} समस्याएँ — ये पंक्तियाँ छोड़ दी जाएँगी' },
+  'import.errorReport': 'त्रुटि रिपोर्ट डाउनलोड करें',
+  'import.errorLine': 'पंक्ति {line}: {message}',
+  'import.cancel': 'रद्द करें',
+  'import.import': 'आयात करें',
+  'import.imported': '{file} से {words} आयात किए गए',
+  'import.importedWithSessions': '{file} से {words} और {sessions} आयात किए गए',
+
+  'sync.title': 'FlashAcademy सिंक',
+  'sync.intro': 'FlashAcademy के पाठों में आप जो शब्द सीखते हैं, वे सीखने की तारीख़ के साथ अपने-आप यहाँ जुड़ जाते हैं। हर सत्र के बाद आपके अभ्यास के नतीजे FlashAcademy को वापस भेजे जाते हैं।',
+  'sync.loading': 'सिंक की स्थिति लोड हो रही है...',
+  'sync.notConfigured': 'इस सर्वर पर सिंक अभी सेट नहीं है (इसके लिए FLASHACADEMY_API_URL और FLASHACADEMY_API_KEY चाहिए)।',
+  'sync.linkIntro': 'अपना खाता जोड़ने के लिए FlashAcademy से लिंक कोड लें और उसे यहाँ डालें। हर कोड एक ही बार काम करता है।',
+  'sync.linkCode': 'लिंक कोड',
+  'sync.link': 'जोड़ें',
+  'sync.account': 'खाता',
+  'sync.lastSynced': 'पिछला सिंक',
+  'sync.never': 'कभी नहीं',
+  'sync.wordsSynced': 'सिंक किए गए शब्द',
+  'sync.lastPushed': 'महारत पिछली बार भेजी गई',
+  'sync.lastError': 'पिछला सिंक विफल रहा: {error}',
+  'sync.syncing': 'सिंक हो रहा है...',
+  'sync.syncNow': 'अभी सिंक करें',
+  'sync.reimport': 'सब फिर से आयात करें',
+  'sync.reimportHint': 'सभी शब्द फिर से लाएँ, जैसे अगर आपने यहाँ गलती से कुछ हटा दिए हों',
+  'sync.unlink': 'अलग करें',
+  'sync.confirmUnlink': 'अपना FlashAcademy खाता अलग करें? पहले से सिंक हुए शब्द आपकी सूची में बने रहेंगे।',
+  'sync.result': '{added}, {pushed}',
+  'sync.added': { one: '{count} नया शब्द जोड़ा गया', other: '{count} नए शब्द जोड़े गए' },
+  'sync.pushed': { one: '{count} महारत अपडेट भेजा गया', other: '{count} महारत अपडेट भेजे गए' },
+  'sync.linked': { one: 'जुड़ गया — FlashAcademy से {count} शब्द जोड़ा गया', other: 'जुड़ गया — FlashAcademy से {count} शब्द जोड़े गए' }
+};
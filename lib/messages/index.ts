@@ -0,0 +1,24 @@
+import { en, type Catalog } from './en';
+import { es } from './es';
+import { fr } from './fr';
+import { de } from './de';
+import { it } from './it';
+import { pt } from './pt';
+import { ru } from './ru';
+import { zh } from './zh';
+import { ja } from './ja';
+import { ko } from './ko';
+import { ar } from './ar';
+import { hi } from './hi';
+import { tr } from './tr';
+import { pl } from './pl';
+import { nl } from './nl';
+import { sv } from './sv';
+
+export type { Message, MessageKey, Catalog } from './en';
+export { en };
+
+// Keyed by the codes in lib/languages.ts
+export const catalogs: Record<string, Catalog> = {
+  en, es, fr, de, it, pt, ru, zh, ja, ko, ar, hi, tr, pl, nl, sv
+};
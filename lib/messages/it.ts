@@ -0,0 +1,282 @@
+import type { Catalog } from './en';
+
+export const it: Catalog = {
+  'app.tagline': "Assistente per l'apprendimento delle lingue basato sull'IA",
+  'app.signOut': 'Esci',
+  'app.poweredBy': 'Realizzato con',
+  'tab.practice': 'Pratica',
+  'tab.test': 'Test',
+  'tab.words': 'Parole',
+  'tab.dashboard': 'Riepilogo',
+  'tab.settings': 'Impostazioni',
+  'about.title': 'Informazioni',
+  'about.realtime': "Voice Tutor usa l'API Realtime di OpenAI per offrire pratica linguistica conversazionale.",
+  'about.flashacademy': 'Il sistema tiene conto delle parole che hai imparato sulla piattaforma FlashAcademy e ti aiuta a esercitare pronuncia, vocabolario e conversazione.',
+  'about.features': 'Funzionalità:',
+  'about.feature.flow': 'Conversazione continua: non serve premere registra per ogni parola',
+  'about.feature.modes': 'Tre modalità di pratica per obiettivi diversi',
+  'about.feature.languages': 'Istruzioni e menu in 16 lingue',
+  'about.feature.feedback': 'Correzione della pronuncia in tempo reale',
+  'about.feature.progress': 'Monitoraggio dei progressi e statistiche',
+  'about.feature.words': 'Gestione delle parole con data di inserimento',
+  'about.feature.sync': 'Sincronizzazione del vocabolario con FlashAcademy',
+
+  'login.signIn': 'Accedi',
+  'login.register': 'Crea un account',
+  'login.intro': 'Le tue parole e la cronologia delle esercitazioni vengono salvate nel tuo account.',
+  'login.username': 'Nome utente',
+  'login.displayName': 'Il tuo nome (facoltativo)',
+  'login.password': 'Password',
+  'login.createAccount': 'Crea account',
+  'login.toRegister': 'Sei nuovo? Crea un account',
+  'login.toSignIn': 'Hai già un account? Accedi',
+  'login.failed': 'Qualcosa è andato storto',
+
+  'modes.title': 'Modalità di pratica',
+  'modes.locked': 'Non puoi cambiare modalità durante una sessione attiva',
+  'mode.pronunciation': 'Pronuncia',
+  'mode.pronunciation.description': 'Concentrati sul pronunciare le parole in modo chiaro e corretto',
+  'mode.vocabulary': 'Vocabolario',
+  'mode.vocabulary.description': 'Impara il significato delle parole e come usarle nel contesto',
+  'mode.conversation': 'Conversazione',
+  'mode.conversation.description': 'Esercitati in una conversazione naturale con le parole imparate',
+  'session.pronunciation': 'Pratica di pronuncia',
+  'session.vocabulary': 'Pratica di vocabolario',
+  'session.conversation': 'Pratica di conversazione',
+
+  'session.pronunciation-test': 'Test di pronuncia',
+
+  'status.listening': 'In ascolto...',
+  'status.connected': 'Connesso',
+  'status.connecting': 'Connessione in corso...',
+  'status.notConnected': 'Non connesso',
+  'voice.tapToEnd': 'Tocca per terminare la conversazione',
+  'voice.tapToStart': 'Tocca per iniziare a esercitarti',
+  'chat.empty': 'Non è stato ancora detto nulla',
+  'chat.tutor': 'Tutor',
+  'chat.you': 'Tu',
+  'quota.reached': 'Hai raggiunto il limite di pratica di oggi: ottimo lavoro! Il tuo tutor sarà di nuovo disponibile domani.',
+  'quota.reopens': 'La pratica riapre {time}.',
+  'deck.label': 'Mazzo',
+  'deck.allWords': 'Tutte le parole ({count})',
+
+  'test.title': 'Test di pronuncia',
+  'test.intro': 'Collegati con il tuo tutor IA per un test di pronuncia in forma di conversazione. Il tutor ti guiderà durante il test.',
+  'test.emptyDeck': 'Questo mazzo non ha ancora parole da testare.',
+  'test.noWords': 'Aggiungi prima qualche parola in {language} al tuo vocabolario!',
+  'test.howItWorks': 'Come funziona:',
+  'test.howItWorksBody': 'Il tuo tutor IA verificherà la tua pronuncia una parola alla volta. Parla in modo naturale quando te lo chiede. Puoi interromperlo in qualsiasi momento e ti darà un riscontro dettagliato. Le parole con un punteggio di almeno {score}% sono superate.',
+  'test.start': 'Inizia il test di conversazione',
+  'test.progress': 'Parola {current} di {total}',
+  'test.currentWord': 'Parola attuale:',
+  'test.hearIt': 'Ascolta',
+  'test.tryAgain': 'Riprova',
+  'test.attempt': 'Tentativo {current} / {max}',
+  'test.end': 'Termina il test',
+  'test.score': 'Punteggio: {score}%',
+  'test.greatJob': 'Ottimo lavoro! Passiamo alla parola successiva...',
+  'test.complete': 'Test completato!',
+  'test.overallScore': 'Punteggio complessivo:',
+  'test.passed': 'Superate: {passed} / {total} parole',
+  'test.attempts': 'Tentativi: {count}',
+  'test.finish': 'Fine',
+  'test.stress': 'Accento: {feedback}',
+  'test.stressHint': 'controlla quale sillaba è accentata',
+  'test.scoreSources': 'Tutor {tutor}% · Trascrizione {transcript}%',
+  'test.heard': '(sentito «{text}»)',
+  'test.disagreement': 'Il tutor e la trascrizione non concordano su questo tentativo: vale la pena riascoltarlo.',
+  'test.myAttempts': { one: 'Il mio tentativo', other: 'I miei tentativi' },
+  'test.tutorModel': 'Esempio del tutor',
+
+  'words.title': 'Gestione delle parole',
+  'words.placeholder': 'Inserisci una nuova parola o espressione...',
+  'words.add': 'Aggiungi parola',
+  'words.alreadyAdded': '«{word}» è già nella tua lista: i tuoi progressi vengono mantenuti',
+  'words.showBulkAdd': 'Mostra aggiunta multipla',
+  'words.hideBulkAdd': 'Nascondi aggiunta multipla',
+  'words.bulkPlaceholder': 'Inserisci più parole o espressioni, una per riga...',
+  'words.addAll': 'Aggiungi tutte',
+  'words.bulkAdded': 'Aggiunte {added} nuove; {skipped} erano già nella tua lista o ripetute',
+  'words.yourWords': 'Le tue parole',
+  'words.showArchived': 'Mostra archiviate ({count})',
+  'words.duplicates': {
+    one: '{count} voce duplica un’altra parola (ignorando maiuscole e accenti)',
+    other: '{count} voci duplicano un’altra parola (ignorando maiuscole e accenti)'
+  },
+  'words.mergeDuplicates': 'Unisci i duplicati',
+  'words.merged': {
+    one: 'Unito {count} duplicato: la cronologia di pratica è stata combinata',
+    other: 'Uniti {count} duplicati: la cronologia di pratica è stata combinata'
+  },
+  'words.allWords': 'Tutte le parole',
+  'words.saveDeckName': 'Salva nome',
+  'words.cancel': 'Annulla',
+  'words.deckHint': 'Le nuove parole vengono aggiunte a questo mazzo.',
+  'words.renameDeck': 'Rinomina',
+  'words.deleteDeck': 'Elimina mazzo',
+  'words.confirmDeleteDeck': 'Eliminare il mazzo «{deck}»? Le sue parole restano nella tua lista.',
+  'words.empty': 'Nessuna parola aggiunta',
+  'words.emptyDeck': 'Nessuna parola in questo mazzo',
+  'words.allArchived': 'Tutte le tue parole sono archiviate',
+  'words.selected': '{count} selezionate',
+  'words.selectAll': 'Seleziona tutto',
+  'words.deckName': 'Nome del mazzo',
+  'words.addToDeck': 'Aggiungi al mazzo',
+  'words.removeFromDeck': 'Rimuovi dal mazzo',
+  'words.archive': 'Archivia',
+  'words.restore': 'Ripristina',
+  'words.delete': 'Elimina',
+  'words.confirmDelete': {
+    one: 'Eliminare questa parola e i suoi progressi? Non si può annullare.',
+    other: 'Eliminare {count} parole e i loro progressi? Non si può annullare.'
+  },
+  'words.select': 'Seleziona {word}',
+  'words.phrase': 'espressione',
+  'words.archived': '(archiviata)',
+  'words.practices': { one: '{count} esercitazione', other: '{count} esercitazioni' },
+  'words.mastery': '{mastery}% di padronanza',
+  'words.edit': 'Modifica parola',
+  'words.restoreHint': 'Rimetti in pratica',
+  'words.archiveHint': 'Archivia: tienila, ma smetti di esercitarla',
+  'words.deleteWord': 'Elimina parola',
+
+  'editor.title': 'Modifica «{word}»',
+  'editor.autoFill': 'Compila automaticamente',
+  'editor.autoFillHint': 'Compila i campi vuoti dal dizionario',
+  'editor.notInDictionary': 'Non è nel dizionario offline',
+  'editor.word': 'Parola',
+  'editor.clash': '«{word}» è già nella tua lista',
+  'editor.decks': 'Mazzi',
+  'editor.decksPlaceholder': 'Unità 3 - Cibo, Viaggi',
+  'editor.decksHint': 'Separa i mazzi con le virgole',
+  'editor.ipa': 'IPA',
+  'editor.partOfSpeech': 'Parte del discorso',
+  'editor.syllables': 'Sillabe',
+  'editor.stress': 'Sillaba accentata',
+  'editor.definition': 'Definizione',
+  'editor.example': 'Frase di esempio',
+  'editor.cancel': 'Annulla',
+  'editor.save': 'Salva',
+  'pos.noun': 'sostantivo',
+  'pos.verb': 'verbo',
+  'pos.adjective': 'aggettivo',
+  'pos.adverb': 'avverbio',
+  'pos.pronoun': 'pronome',
+  'pos.preposition': 'preposizione',
+  'pos.conjunction': 'congiunzione',
+  'pos.interjection': 'interiezione',
+  'pos.number': 'numerale',
+  'pos.phrase': 'espressione',
+
+  'stats.totalWords': 'Parole totali',
+  'stats.mastered': 'Padroneggiate',
+  'stats.learning': 'In apprendimento',
+  'stats.todaysPractice': 'Pratica di oggi',
+  'stats.streak': 'Serie',
+  'dashboard.weeklyPractice': 'Pratica settimanale',
+  'dashboard.sessions': 'Sessioni',
+  'dashboard.wordsPracticed': 'Parole esercitate',
+  'dashboard.masteryLevels': 'Livelli di padronanza',
+  'dashboard.words': 'Parole',
+  'mastery.beginner': 'Principiante',
+  'mastery.learning': 'In apprendimento',
+  'mastery.proficient': 'Competente',
+  'mastery.mastered': 'Padroneggiata',
+  'dashboard.masteryByDeck': 'Padronanza per mazzo',
+  'dashboard.deckMastery': '{mastered}/{total} padroneggiate · media {average}%',
+  'dashboard.recentSessions': 'Sessioni recenti',
+  'dashboard.allSessions': 'Tutte le sessioni',
+  'dashboard.showRecent': 'Mostra recenti',
+  'dashboard.showAll': 'Mostra tutte ({count})',
+  'dashboard.wordCount': { one: '{count} parola', other: '{count} parole' },
+  'dashboard.minutes': '{count} min',
+  'dashboard.inProgress': 'In corso',
+  'dashboard.noSessions': 'Nessuna sessione di pratica',
+  'dashboard.sessionWords': 'Parole: {words}',
+  'dashboard.closeReview': 'Chiudi il riepilogo della sessione',
+
+  'languages.title': 'Lingue',
+  'languages.home': 'Lingua madre',
+  'languages.homeHelp': 'Istruzioni, aiuto e questi menu saranno in questa lingua',
+  'languages.target': 'Sto imparando',
+  'languages.targetHelp': 'Le nuove parole vengono aggiunte in questa lingua, e pratica e test usano le sue parole',
+  'languages.locked': 'Non puoi cambiare le lingue durante una sessione attiva',
+  'recordings.title': 'Registrazioni',
+  'recordings.description': 'Registra le mie sessioni di pratica per riascoltare ogni tentativo e confrontarlo con il tutor. Le registrazioni vengono salvate con la sessione e solo tu puoi ascoltarle.',
+
+  'import.title': 'Importa ed esporta',
+  'import.intro': 'Importa parole da un CSV, da un mazzo Anki (.apkg), da un’esportazione Anki in testo semplice (.txt/.tsv) o da un backup di Voice Tutor (.json). Le esportazioni includono la padronanza e il calendario dei ripassi.',
+  'import.backup': 'Backup (JSON)',
+  'import.exportWords': 'Parole (CSV)',
+  'import.exportSessions': 'Sessioni (CSV)',
+  'import.chooseFile': 'Scegli un file da importare...',
+  'import.columns': 'Colonne',
+  'import.column': 'Colonna {number}',
+  'import.ignore': 'Ignora',
+  'import.translation': 'Traduzione ({language})',
+  'import.field.word': 'Parola',
+  'import.field.ipa': 'IPA',
+  'import.field.syllables': 'Sillabe',
+  'import.field.stress': 'Sillaba accentata (1, 2, ...)',
+  'import.field.partOfSpeech': 'Parte del discorso',
+  'import.field.definition': 'Definizione',
+  'import.field.example': 'Frase di esempio',
+  'import.field.mastery': 'Padronanza %',
+  'import.field.practiceCount': 'Numero di esercitazioni',
+  'import.field.ease': 'Facilità SRS',
+  'import.field.interval': 'Intervallo SRS (giorni)',
+  'import.field.repetitions': 'Ripetizioni SRS',
+  'import.field.lapses': 'Errori SRS',
+  'import.field.lastPracticed': 'Ultima esercitazione',
+  'import.field.dueDate': 'Data di ripasso',
+  'import.field.added': 'Data di aggiunta',
+  'import.field.archived': 'Archiviata',
+  'import.field.decks': 'Mazzi (separati da ;)',
+  'import.field.tags': 'Tag (come mazzi)',
+  'import.summary': '{new} nuove · {duplicate} già nella tua lista · {repeated} ripetute · {error} con errori',
+  'import.duplicatesSkipped': '- i duplicati vengono saltati',
+  'import.line': 'Riga',
+  'import.word': 'Parola',
+  'import.details': 'Dettagli',
+  'import.status': 'Stato',
+  'import.status.new': 'Nuova',
+  'import.status.duplicate': 'Già aggiunta',
+  'import.status.repeated': 'Ripetuta nel file',
+  'import.status.error': 'Errore',
+  'import.invalidRow': 'Riga non valida',
+  'import.moreRows': { one: '…e {count} altra riga', other: '…e altre {count} righe' },
+  'import.words': { one: '{count} parola', other: '{count} parole' },
+  'import.sessions': { one: '{count} sessione di pratica', other: '{count} sessioni di pratica' },
+  'import.backupSummary': '{words} ({new} nuove; quelle già nella tua lista restano come sono) e {sessions}.',
+  'import.problems': { one: '{count} problema: questa riga verrà saltata', other: '{count} problemi: queste righe verranno saltate' },
+  'import.errorReport': 'Scarica il rapporto degli errori',
+  'import.errorLine': 'Riga {line}: {message}',
+  'import.cancel': 'Annulla',
+  'import.import': 'Importa',
+  'import.imported': 'Importate {words} da {file}',
+  'import.importedWithSessions': 'Importate {words} e {sessions} da {file}',
+
+  'sync.title': 'Sincronizzazione FlashAcademy',
+  'sync.intro': 'Le parole che impari nelle lezioni di FlashAcademy vengono aggiunte qui automaticamente, con la data in cui le hai imparate. I risultati delle tue esercitazioni vengono inviati a FlashAcademy dopo ogni sessione.',
+  'sync.loading': 'Caricamento dello stato della sincronizzazione...',
+  'sync.notConfigured': 'La sincronizzazione non è ancora configurata su questo server (servono FLASHACADEMY_API_URL e FLASHACADEMY_API_KEY).',
+  'sync.linkIntro': 'Per collegare il tuo account, ottieni un codice di collegamento da FlashAcademy e inseriscilo qui. Ogni codice funziona una sola volta.',
+  'sync.linkCode': 'Codice di collegamento',
+  'sync.link': 'Collega',
+  'sync.account': 'Account',
+  'sync.lastSynced': 'Ultima sincronizzazione',
+  'sync.never': 'Mai',
+  'sync.wordsSynced': 'Parole sincronizzate',
+  'sync.lastPushed': 'Ultimo invio della padronanza',
+  'sync.lastError': 'L’ultima sincronizzazione non è riuscita: {error}',
+  'sync.syncing': 'Sincronizzazione...',
+  'sync.syncNow': 'Sincronizza ora',
+  'sync.reimport': 'Reimporta tutto',
+  'sync.reimportHint': 'Scarica di nuovo tutte le parole, ad esempio dopo averne eliminate alcune qui per errore',
+  'sync.unlink': 'Scollega',
+  'sync.confirmUnlink': 'Scollegare il tuo account FlashAcademy? Le parole già sincronizzate restano nella tua lista.',
+  'sync.result': '{added}, {pushed}',
+  'sync.added': { one: '{count} nuova parola aggiunta', other: '{count} nuove parole aggiunte' },
+  'sync.pushed': { one: '{count} aggiornamento di padronanza inviato', other: '{count} aggiornamenti di padronanza inviati' },
+  'sync.linked': { one: 'Collegato: {count} parola aggiunta da FlashAcademy', other: 'Collegato: {count} parole aggiunte da FlashAcademy' }
+};
@@ -0,0 +1,273 @@
+import type { Catalog } from './en';
+
+export const ja: Catalog = {
+  'app.tagline': 'AI を活用した語学学習アシスタント',
+  'app.signOut': 'ログアウト',
+  'app.poweredBy': '提供',
+  'tab.practice': '練習',
+  'tab.test': 'テスト',
+  'tab.words': '単語',
+  'tab.dashboard': 'ダッシュボード',
+  'tab.settings': '設定',
+  'about.title': 'このアプリについて',
+  'about.realtime': 'Voice Tutor は OpenAI の Realtime API を使って、会話形式の語学練習を提供します。',
+  'about.flashacademy': 'FlashAcademy で覚えた単語をもとに、発音・語彙・会話の練習をサポートします。',
+  'about.features': '機能：',
+  'about.feature.flow': '途切れない会話 — 単語ごとに録音ボタンを押す必要はありません',
+  'about.feature.modes': '目的に合わせた 3 つの練習モード',
+  'about.feature.languages': '16 言語の説明とメニュー',
+  'about.feature.feedback': 'リアルタイムの発音フィードバック',
+  'about.feature.progress': '進捗の記録と統計',
+  'about.feature.words': '追加日時つきの単語管理',
+  'about.feature.sync': 'FlashAcademy との語彙の同期',
+
+  'login.signIn': 'ログイン',
+  'login.register': 'アカウントを作成',
+  'login.intro': '単語と練習の履歴はアカウントに保存されます。',
+  'login.username': 'ユーザー名',
+  'login.displayName': 'お名前（任意）',
+  'login.password': 'パスワード',
+  'login.createAccount': 'アカウントを作成',
+  'login.toRegister': 'はじめての方はアカウントを作成',
+  'login.toSignIn': 'アカウントをお持ちの方はログイン',
+  'login.failed': '問題が発生しました',
+
+  'modes.title': '練習モード',
+  'modes.locked': 'セッション中はモードを変更できません',
+  'mode.pronunciation': '発音',
+  'mode.pronunciation.description': '単語をはっきり正しく発音することに集中します',
+  'mode.vocabulary': '語彙',
+  'mode.vocabulary.description': '単語の意味と文脈での使い方を学びます',
+  'mode.conversation': '会話',
+  'mode.conversation.description': '覚えた単語を使って自然な会話を練習します',
+  'session.pronunciation': '発音練習',
+  'session.vocabulary': '語彙練習',
+  'session.conversation': '会話練習',
+
+  'session.pronunciation-test': '発音テスト',
+
+  'status.listening': '聞き取り中...',
+  'status.connected': '接続済み',
+  'status.connecting': '接続中...',
+  'status.notConnected': '未接続',
+  'voice.tapToEnd': 'タップして会話を終了',
+  'voice.tapToStart': 'タップして練習を開始',
+  'chat.empty': 'まだ何も話されていません',
+  'chat.tutor': 'チューター',
+  'chat.you': 'あなた',
+  'quota.reached': '今日の練習の上限に達しました。よく頑張りました！チューターは明日また利用できます。',
+  'quota.reopens': '練習は {time} に再開できます。',
+  'deck.label': 'デッキ',
+  'deck.allWords': 'すべての単語（{count}）',
+
+  'test.title': '発音テスト',
+  'test.intro': 'AI チューターとつながって、会話形式の発音テストを受けましょう。チューターがテストを案内します。',
+  'test.emptyDeck': 'このデッキにはまだテストする単語がありません。',
+  'test.noWords': 'まず{language}の単語を語彙リストに追加してください！',
+  'test.howItWorks': 'テストの流れ：',
+  'test.howItWorksBody': 'AI チューターが単語を 1 つずつ発音テストします。促されたら自然に話してください。いつでも割り込むことができ、チューターが詳しくフィードバックします。{score}% 以上の単語が合格です。',
+  'test.start': '会話テストを開始',
+  'test.progress': '{total} 語中 {current} 語目',
+  'test.currentWord': '現在の単語：',
+  'test.hearIt': '聞く',
+  'test.tryAgain': 'もう一度',
+  'test.attempt': '{current} / {max} 回目',
+  'test.end': 'テストを終了',
+  'test.score': 'スコア：{score}%',
+  'test.greatJob': 'よくできました！次の単語に進みます...',
+  'test.complete': 'テスト完了！',
+  'test.overallScore': '総合スコア：',
+  'test.passed': '合格：{passed} / {total} 語',
+  'test.attempts': '挑戦回数：{count}',
+  'test.finish': '終了',
+  'test.stress': 'アクセント：{feedback}',
+  'test.stressHint': 'どの音節に強勢があるか確認しましょう',
+  'test.scoreSources': 'チューター {tutor}% · 文字起こし {transcript}%',
+  'test.heard': '（「{text}」と聞こえました）',
+  'test.disagreement': 'この回はチューターと文字起こしの判定が食い違っています。もう一度聞いてみましょう。',
+  'test.myAttempts': { other: '自分の発音' },
+  'test.tutorModel': 'チューターのお手本',
+
+  'words.title': '単語の管理',
+  'words.placeholder': '新しい単語やフレーズを入力...',
+  'words.add': '単語を追加',
+  'words.alreadyAdded': '「{word}」はすでにリストにあります。進捗はそのままです',
+  'words.showBulkAdd': 'まとめて追加を表示',
+  'words.hideBulkAdd': 'まとめて追加を隠す',
+  'words.bulkPlaceholder': '複数の単語やフレーズを 1 行に 1 つずつ入力...',
+  'words.addAll': 'すべて追加',
+  'words.bulkAdded': '{added} 語を追加しました。{skipped} 語はリストにあるか重複していました',
+  'words.yourWords': 'あなたの単語',
+  'words.showArchived': 'アーカイブ済みを表示（{count}）',
+  'words.duplicates': { other: '{count} 件が別の単語と重複しています（大文字小文字とアクセントを無視）' },
+  'words.mergeDuplicates': '重複を統合',
+  'words.merged': { other: '{count} 件の重複を統合し、練習履歴をまとめました' },
+  'words.allWords': 'すべての単語',
+  'words.saveDeckName': '名前を保存',
+  'words.cancel': 'キャンセル',
+  'words.deckHint': '新しい単語はこのデッキに追加されます。',
+  'words.renameDeck': '名前を変更',
+  'words.deleteDeck': 'デッキを削除',
+  'words.confirmDeleteDeck': 'デッキ「{deck}」を削除しますか？単語はリストに残ります。',
+  'words.empty': 'まだ単語がありません',
+  'words.emptyDeck': 'このデッキにはまだ単語がありません',
+  'words.allArchived': 'すべての単語がアーカイブされています',
+  'words.selected': '{count} 件選択中',
+  'words.selectAll': 'すべて選択',
+  'words.deckName': 'デッキ名',
+  'words.addToDeck': 'デッキに追加',
+  'words.removeFromDeck': 'デッキから外す',
+  'words.archive': 'アーカイブ',
+  'words.restore': '元に戻す',
+  'words.delete': '削除',
+  'words.confirmDelete': { other: '{count} 語とその進捗を削除しますか？元に戻せません。' },
+  'words.select': '{word} を選択',
+  'words.phrase': 'フレーズ',
+  'words.archived': '（アーカイブ済み）',
+  'words.practices': { other: '練習 {count} 回' },
+  'words.mastery': '習熟度 {mastery}%',
+  'words.edit': '単語を編集',
+  'words.restoreHint': '練習に戻す',
+  'words.archiveHint': 'アーカイブ — 残したまま練習から外す',
+  'words.deleteWord': '単語を削除',
+
+  'editor.title': '「{word}」を編集',
+  'editor.autoFill': '自動入力',
+  'editor.autoFillHint': '空欄を辞書から入力',
+  'editor.notInDictionary': 'オフライン辞書にありません',
+  'editor.word': '単語',
+  'editor.clash': '「{word}」はすでにリストにあります',
+  'editor.decks': 'デッキ',
+  'editor.decksPlaceholder': 'ユニット 3 - 食べ物, 旅行',
+  'editor.decksHint': 'デッキはカンマ（,）か読点（、）で区切ります',
+  'editor.ipa': 'IPA',
+  'editor.partOfSpeech': '品詞',
+  'editor.syllables': '音節',
+  'editor.stress': '強勢のある音節',
+  'editor.definition': '意味',
+  'editor.example': '例文',
+  'editor.cancel': 'キャンセル',
+  'editor.save': '保存',
+  'pos.noun': '名詞',
+  'pos.verb': '動詞',
+  'pos.adjective': '形容詞',
+  'pos.adverb': '副詞',
+  'pos.pronoun': '代名詞',
+  'pos.preposition': '前置詞',
+  'pos.conjunction': '接続詞',
+  'pos.interjection': '間投詞',
+  'pos.number': '数詞',
+  'pos.phrase': 'フレーズ',
+
+  'stats.totalWords': '単語の総数',
+  'stats.mastered': '習得済み',
+  'stats.learning': '学習中',
+  'stats.todaysPractice': '今日の練習',
+  'stats.streak': '連続日数',
+  'dashboard.weeklyPractice': '今週の練習',
+  'dashboard.sessions': 'セッション',
+  'dashboard.wordsPracticed': '練習した単語',
+  'dashboard.masteryLevels': '習熟度',
+  'dashboard.words': '単語',
+  'mastery.beginner': '初級',
+  'mastery.learning': '学習中',
+  'mastery.proficient': '上達',
+  'mastery.mastered': '習得済み',
+  'dashboard.masteryByDeck': 'デッキ別の習熟度',
+  'dashboard.deckMastery': '習得 {mastered}/{total} · 平均 {average}%',
+  'dashboard.recentSessions': '最近のセッション',
+  'dashboard.allSessions': 'すべてのセッション',
+  'dashboard.showRecent': '最近のものを表示',
+  'dashboard.showAll': '{count} 件すべて表示',
+  'dashboard.wordCount': { other: '{count} 語' },
+  'dashboard.minutes': '{count} 分',
+  'dashboard.inProgress': '進行中',
+  'dashboard.noSessions': 'まだ練習セッションがありません',
+  'dashboard.sessionWords': '単語：{words}',
+  'dashboard.closeReview': 'セッションの振り返りを閉じる',
+
+  'languages.title': '言語',
+  'languages.home': '母語',
+  'languages.homeHelp': '説明、ヘルプ、メニューがこの言語で表示されます',
+  'languages.target': '学習中の言語',
+  'languages.targetHelp': '新しい単語はこの言語で追加され、練習とテストではこの言語の単語を使います',
+  'languages.locked': 'セッション中は言語を変更できません',
+  'recordings.title': '録音',
+  'recordings.description': '練習セッションを録音して、各回をあとで聞き直し、チューターと比べられるようにします。録音はセッションと一緒に保存され、再生できるのはあなただけです。',
+
+  'import.title': 'インポートとエクスポート',
+  'import.intro': 'CSV、Anki デッキ（.apkg）、Anki のテキスト書き出し（.txt/.tsv）、Voice Tutor のバックアップ（.json）から単語をインポートできます。エクスポートには習熟度と復習スケジュールが含まれます。',
+  'import.backup': 'バックアップ（JSON）',
+  'import.exportWords': '単語（CSV）',
+  'import.exportSessions': 'セッション（CSV）',
+  'import.chooseFile': 'インポートするファイルを選択...',
+  'import.columns': '列',
+  'import.column': '列 {number}',
+  'import.ignore': '無視',
+  'import.translation': '訳（{language}）',
+  'import.field.word': '単語',
+  'import.field.ipa': 'IPA',
+  'import.field.syllables': '音節',
+  'import.field.stress': '強勢のある音節（1, 2, ...）',
+  'import.field.partOfSpeech': '品詞',
+  'import.field.definition': '意味',
+  'import.field.example': '例文',
+  'import.field.mastery': '習熟度 %',
+  'import.field.practiceCount': '練習回数',
+  'import.field.ease': 'SRS 易しさ',
+  'import.field.interval': 'SRS 間隔（日）',
+  'import.field.repetitions': 'SRS 復習回数',
+  'import.field.lapses': 'SRS 忘却回数',
+  'import.field.lastPracticed': '最終練習日',
+  'import.field.dueDate': '復習日',
+  'import.field.added': '追加日',
+  'import.field.archived': 'アーカイブ済み',
+  'import.field.decks': 'デッキ（; 区切り）',
+  'import.field.tags': 'タグ（デッキとして）',
+  'import.summary': '新規 {new} · リストにあり {duplicate} · 重複 {repeated} · エラー {error}',
+  'import.duplicatesSkipped': '— 重複はスキップされます',
+  'import.line': '行',
+  'import.word': '単語',
+  'import.details': '詳細',
+  'import.status': '状態',
+  'import.status.new': '新規',
+  'import.status.duplicate': '追加済み',
+  'import.status.repeated': 'ファイル内で重複',
+  'import.status.error': 'エラー',
+  'import.invalidRow': '無効な行',
+  'import.moreRows': { other: '…ほか {count} 行' },
+  'import.words': { other: '{count} 語' },
+  'import.sessions': { other: '練習セッション {count} 件' },
+  'import.backupSummary': '{words}（新規 {new}、リストにあるものはそのまま残ります）と{sessions}。',
+  'import.problems': { other: '{count} 件の問題 — これらの行はスキップされます' },
+  'import.errorReport': 'エラーレポートをダウンロード',
+  'import.errorLine': '{line} 行目: {message}',
+  'import.cancel': 'キャンセル',
+  'import.import': 'インポート',
+  'import.imported': '{file} から {words}をインポートしました',
+  'import.importedWithSessions': '{file} から {words}と{sessions}をインポートしました',
+
+  'sync.title': 'FlashAcademy 同期',
+  'sync.intro': 'FlashAcademy のレッスンで覚えた単語は、覚えた日付とともに自動でここに追加されます。練習の結果は、セッションのたびに FlashAcademy に送り返されます。',
+  'sync.loading': '同期の状態を読み込み中...',
+  'sync.notConfigured': 'このサーバーではまだ同期が設定されていません（FLASHACADEMY_API_URL と FLASHACADEMY_API_KEY が必要です）。',
+  'sync.linkIntro': 'アカウントを連携するには、FlashAcademy で連携コードを取得してここに入力してください。各コードは 1 回だけ使えます。',
+  'sync.linkCode': '連携コード',
+  'sync.link': '連携',
+  'sync.account': 'アカウント',
+  'sync.lastSynced': '最終同期',
+  'sync.never': 'なし',
+  'sync.wordsSynced': '同期した単語',
+  'sync.lastPushed': '習熟度の最終送信',
+  'sync.lastError': '前回の同期に失敗しました: {error}',
+  'sync.syncing': '同期中...',
+  'sync.syncNow': '今すぐ同期',
+  'sync.reimport': 'すべて再インポート',
+  'sync.reimportHint': 'すべての単語をもう一度取得します（ここで誤って削除したときなど）',
+  'sync.unlink': '連携を解除',
+  'sync.confirmUnlink': 'FlashAcademy アカウントの連携を解除しますか？同期済みの単語はリストに残ります。',
+  'sync.result': '{added}、{pushed}',
+  'sync.added': { other: '新しい単語を {count} 語追加' },
+  'sync.pushed': { other: '習熟度の更新を {count} 件送信' },
+  'sync.linked': { other: '連携しました — FlashAcademy から {count} 語追加しました' }
+};
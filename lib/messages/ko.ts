@@ -0,0 +1,273 @@
+import type { Catalog } from './en';
+
+export const ko: Catalog = {
+  'app.tagline': 'AI 기반 언어 학습 도우미',
+  'app.signOut': '로그아웃',
+  'app.poweredBy': '기술 제공',
+  'tab.practice': '연습',
+  'tab.test': '테스트',
+  'tab.words': '단어',
+  'tab.dashboard': '대시보드',
+  'tab.settings': '설정',
+  'about.title': '정보',
+  'about.realtime': 'Voice Tutor는 OpenAI의 Realtime API를 사용해 대화형 언어 연습을 제공합니다.',
+  'about.flashacademy': 'FlashAcademy에서 배운 단어를 바탕으로 발음, 어휘, 회화 연습을 도와줍니다.',
+  'about.features': '기능:',
+  'about.feature.flow': '끊김 없는 대화 — 단어마다 녹음 버튼을 누를 필요가 없습니다',
+  'about.feature.modes': '학습 목표에 맞춘 세 가지 연습 모드',
+  'about.feature.languages': '16개 언어로 제공되는 안내와 메뉴',
+  'about.feature.feedback': '실시간 발음 피드백',
+  'about.feature.progress': '진도 추적과 통계',
+  'about.feature.words': '추가 시각이 기록되는 단어 관리',
+  'about.feature.sync': 'FlashAcademy와 어휘 동기화',
+
+  'login.signIn': '로그인',
+  'login.register': '계정 만들기',
+  'login.intro': '단어와 연습 기록은 계정에 저장됩니다.',
+  'login.username': '사용자 이름',
+  'login.displayName': '이름 (선택)',
+  'login.password': '비밀번호',
+  'login.createAccount': '계정 만들기',
+  'login.toRegister': '처음이신가요? 계정 만들기',
+  'login.toSignIn': '이미 계정이 있나요? 로그인',
+  'login.failed': '문제가 발생했습니다',
+
+  'modes.title': '연습 모드',
+  'modes.locked': '세션 중에는 모드를 바꿀 수 없습니다',
+  'mode.pronunciation': '발음',
+  'mode.pronunciation.description': '단어를 또렷하고 정확하게 발음하는 데 집중합니다',
+  'mode.vocabulary': '어휘',
+  'mode.vocabulary.description': '단어의 뜻과 문맥 속 쓰임을 익힙니다',
+  'mode.conversation': '회화',
+  'mode.conversation.description': '배운 단어로 자연스러운 대화를 연습합니다',
+  'session.pronunciation': '발음 연습',
+  'session.vocabulary': '어휘 연습',
+  'session.conversation': '회화 연습',
+
+  'session.pronunciation-test': '발음 테스트',
+
+  'status.listening': '듣는 중...',
+  'status.connected': '연결됨',
+  'status.connecting': '연결 중...',
+  'status.notConnected': '연결 안 됨',
+  'voice.tapToEnd': '눌러서 대화 끝내기',
+  'voice.tapToStart': '눌러서 연습 시작하기',
+  'chat.empty': '아직 대화가 없습니다',
+  'chat.tutor': '튜터',
+  'chat.you': '나',
+  'quota.reached': '오늘의 연습 한도에 도달했어요. 정말 잘했어요! 튜터는 내일 다시 만날 수 있어요.',
+  'quota.reopens': '{time}에 다시 연습할 수 있습니다.',
+  'deck.label': '덱',
+  'deck.allWords': '모든 단어 ({count})',
+
+  'test.title': '발음 테스트',
+  'test.intro': 'AI 튜터와 연결해 대화형 발음 테스트를 진행하세요. 튜터가 테스트 과정을 안내합니다.',
+  'test.emptyDeck': '이 덱에는 아직 테스트할 단어가 없습니다.',
+  'test.noWords': '먼저 어휘 목록에 {language} 단어를 추가하세요!',
+  'test.howItWorks': '진행 방식:',
+  'test.howItWorksBody': 'AI 튜터가 단어를 하나씩 발음 테스트합니다. 안내가 나오면 자연스럽게 말하세요. 언제든 끼어들 수 있으며, 튜터가 자세한 피드백을 줍니다. {score}% 이상 받은 단어는 통과입니다.',
+  'test.start': '대화 테스트 시작',
+  'test.progress': '{total}개 중 {current}번째 단어',
+  'test.currentWord': '현재 단어:',
+  'test.hearIt': '듣기',
+  'test.tryAgain': '다시 시도',
+  'test.attempt': '{current} / {max}번째 시도',
+  'test.end': '테스트 끝내기',
+  'test.score': '점수: {score}%',
+  'test.greatJob': '잘했어요! 다음 단어로 넘어갑니다...',
+  'test.complete': '테스트 완료!',
+  'test.overallScore': '총점:',
+  'test.passed': '통과: {passed} / {total} 단어',
+  'test.attempts': '시도 횟수: {count}',
+  'test.finish': '마치기',
+  'test.stress': '강세: {feedback}',
+  'test.stressHint': '어느 음절에 강세가 있는지 확인하세요',
+  'test.scoreSources': '튜터 {tutor}% · 받아쓰기 {transcript}%',
+  'test.heard': '("{text}"(으)로 들림)',
+  'test.disagreement': '이번 시도에 대해 튜터와 받아쓰기의 판정이 다릅니다. 다시 들어 보세요.',
+  'test.myAttempts': { other: '내 발음' },
+  'test.tutorModel': '튜터 예시',
+
+  'words.title': '단어 관리',
+  'words.placeholder': '새 단어나 표현을 입력하세요...',
+  'words.add': '단어 추가',
+  'words.alreadyAdded': '"{word}"은(는) 이미 목록에 있습니다. 진도는 그대로 유지됩니다',
+  'words.showBulkAdd': '여러 개 추가 보기',
+  'words.hideBulkAdd': '여러 개 추가 숨기기',
+  'words.bulkPlaceholder': '여러 단어나 표현을 한 줄에 하나씩 입력하세요...',
+  'words.addAll': '모두 추가',
+  'words.bulkAdded': '{added}개를 새로 추가했습니다. {skipped}개는 이미 목록에 있거나 중복이었습니다',
+  'words.yourWords': '내 단어',
+  'words.showArchived': '보관된 단어 보기 ({count})',
+  'words.duplicates': { other: '{count}개 항목이 다른 단어와 중복됩니다 (대소문자와 악센트 무시)' },
+  'words.mergeDuplicates': '중복 합치기',
+  'words.merged': { other: '중복 {count}개를 합쳤습니다. 연습 기록도 합쳐졌습니다' },
+  'words.allWords': '모든 단어',
+  'words.saveDeckName': '이름 저장',
+  'words.cancel': '취소',
+  'words.deckHint': '새 단어는 이 덱에 추가됩니다.',
+  'words.renameDeck': '이름 바꾸기',
+  'words.deleteDeck': '덱 삭제',
+  'words.confirmDeleteDeck': '"{deck}" 덱을 삭제할까요? 단어는 목록에 남습니다.',
+  'words.empty': '아직 추가한 단어가 없습니다',
+  'words.emptyDeck': '이 덱에는 아직 단어가 없습니다',
+  'words.allArchived': '모든 단어가 보관되었습니다',
+  'words.selected': '{count}개 선택됨',
+  'words.selectAll': '모두 선택',
+  'words.deckName': '덱 이름',
+  'words.addToDeck': '덱에 추가',
+  'words.removeFromDeck': '덱에서 빼기',
+  'words.archive': '보관',
+  'words.restore': '복원',
+  'words.delete': '삭제',
+  'words.confirmDelete': { other: '단어 {count}개와 진도를 삭제할까요? 되돌릴 수 없습니다.' },
+  'words.select': '{word} 선택',
+  'words.phrase': '표현',
+  'words.archived': '(보관됨)',
+  'words.practices': { other: '연습 {count}회' },
+  'words.mastery': '숙달도 {mastery}%',
+  'words.edit': '단어 편집',
+  'words.restoreHint': '다시 연습에 넣기',
+  'words.archiveHint': '보관 — 남겨 두되 더 이상 연습하지 않음',
+  'words.deleteWord': '단어 삭제',
+
+  'editor.title': '"{word}" 편집',
+  'editor.autoFill': '자동 채우기',
+  'editor.autoFillHint': '빈 항목을 사전에서 채우기',
+  'editor.notInDictionary': '오프라인 사전에 없는 단어입니다',
+  'editor.word': '단어',
+  'editor.clash': '"{word}"은(는) 이미 목록에 있습니다',
+  'editor.decks': '덱',
+  'editor.decksPlaceholder': '3단원 - 음식, 여행',
+  'editor.decksHint': '덱은 쉼표로 구분하세요',
+  'editor.ipa': 'IPA',
+  'editor.partOfSpeech': '품사',
+  'editor.syllables': '음절',
+  'editor.stress': '강세 음절',
+  'editor.definition': '뜻',
+  'editor.example': '예문',
+  'editor.cancel': '취소',
+  'editor.save': '저장',
+  'pos.noun': '명사',
+  'pos.verb': '동사',
+  'pos.adjective': '형용사',
+  'pos.adverb': '부사',
+  'pos.pronoun': '대명사',
+  'pos.preposition': '전치사',
+  'pos.conjunction': '접속사',
+  'pos.interjection': '감탄사',
+  'pos.number': '수사',
+  'pos.phrase': '표현',
+
+  'stats.totalWords': '전체 단어',
+  'stats.mastered': '숙달',
+  'stats.learning': '학습 중',
+  'stats.todaysPractice': '오늘의 연습',
+  'stats.streak': '연속 학습',
+  'dashboard.weeklyPractice': '이번 주 연습',
+  'dashboard.sessions': '세션',
+  'dashboard.wordsPracticed': '연습한 단어',
+  'dashboard.masteryLevels': '숙달 수준',
+  'dashboard.words': '단어',
+  'mastery.beginner': '초급',
+  'mastery.learning': '학습 중',
+  'mastery.proficient': '능숙',
+  'mastery.mastered': '숙달',
+  'dashboard.masteryByDeck': '덱별 숙달도',
+  'dashboard.deckMastery': '숙달 {mastered}/{total} · 평균 {average}%',
+  'dashboard.recentSessions': '최근 세션',
+  'dashboard.allSessions': '모든 세션',
+  'dashboard.showRecent': '최근 항목 보기',
+  'dashboard.showAll': '{count}개 모두 보기',
+  'dashboard.wordCount': { other: '단어 {count}개' },
+  'dashboard.minutes': '{count}분',
+  'dashboard.inProgress': '진행 중',
+  'dashboard.noSessions': '아직 연습 세션이 없습니다',
+  'dashboard.sessionWords': '단어: {words}',
+  'dashboard.closeReview': '세션 리뷰 닫기',
+
+  'languages.title': '언어',
+  'languages.home': '모국어',
+  'languages.homeHelp': '안내, 도움말, 메뉴가 이 언어로 표시됩니다',
+  'languages.target': '배우는 언어',
+  'languages.targetHelp': '새 단어는 이 언어로 추가되며, 연습과 테스트에는 이 언어의 단어가 사용됩니다',
+  'languages.locked': '세션 중에는 언어를 바꿀 수 없습니다',
+  'recordings.title': '녹음',
+  'recordings.description': '연습 세션을 녹음해 각 시도를 다시 듣고 튜터와 비교할 수 있게 합니다. 녹음은 세션과 함께 저장되며 본인만 재생할 수 있습니다.',
+
+  'import.title': '가져오기 및 내보내기',
+  'import.intro': 'CSV, Anki 덱(.apkg), Anki 일반 텍스트 내보내기(.txt/.tsv) 또는 Voice Tutor 백업(.json)에서 단어를 가져올 수 있습니다. 내보내기에는 숙달도와 복습 일정이 포함됩니다.',
+  'import.backup': '백업(JSON)',
+  'import.exportWords': '단어(CSV)',
+  'import.exportSessions': '세션(CSV)',
+  'import.chooseFile': '가져올 파일 선택...',
+  'import.columns': '열',
+  'import.column': '{number}열',
+  'import.ignore': '무시',
+  'import.translation': '번역({language})',
+  'import.field.word': '단어',
+  'import.field.ipa': 'IPA',
+  'import.field.syllables': '음절',
+  'import.field.stress': '강세 음절(1, 2, ...)',
+  'import.field.partOfSpeech': '품사',
+  'import.field.definition': '뜻',
+  'import.field.example': '예문',
+  'import.field.mastery': '숙달도 %',
+  'import.field.practiceCount': '연습 횟수',
+  'import.field.ease': 'SRS 난이도',
+  'import.field.interval': 'SRS 간격(일)',
+  'import.field.repetitions': 'SRS 반복 횟수',
+  'import.field.lapses': 'SRS 잊은 횟수',
+  'import.field.lastPracticed': '마지막 연습',
+  'import.field.dueDate': '복습일',
+  'import.field.added': '추가한 날짜',
+  'import.field.archived': '보관됨',
+  'import.field.decks': '덱(;로 구분)',
+  'import.field.tags': '태그(덱으로)',
+  'import.summary': '새 단어 {new}개 · 이미 목록에 있음 {duplicate}개 · 중복 {repeated}개 · 오류 {error}개',
+  'import.duplicatesSkipped': '- 중복 항목은 건너뜁니다',
+  'import.line': '줄',
+  'import.word': '단어',
+  'import.details': '세부 정보',
+  'import.status': '상태',
+  'import.status.new': '새 단어',
+  'import.status.duplicate': '이미 추가됨',
+  'import.status.repeated': '파일 내 중복',
+  'import.status.error': '오류',
+  'import.invalidRow': '잘못된 줄',
+  'import.moreRows': { other: '…외 {count}줄' },
+  'import.words': { other: '단어 {count}개' },
+  'import.sessions': { other: '연습 세션 {count}개' },
+  'import.backupSummary': '{words}(새 단어 {new}개, 이미 목록에 있는 단어는 그대로 유지됩니다)와 {sessions}.',
+  'import.problems': { other: '문제 {count}개 - 해당 줄은 건너뜁니다' },
+  'import.errorReport': '오류 보고서 다운로드',
+  'import.errorLine': '{line}번째 줄: {message}',
+  'import.cancel': '취소',
+  'import.import': '가져오기',
+  'import.imported': '{file}에서 {words}를 가져왔습니다',
+  'import.importedWithSessions': '{file}에서 {words}와 {sessions}를 가져왔습니다',
+
+  'sync.title': 'FlashAcademy 동기화',
+  'sync.intro': 'FlashAcademy 수업에서 배운 단어는 배운 날짜와 함께 자동으로 여기에 추가됩니다. 연습 결과는 세션이 끝날 때마다 FlashAcademy로 다시 전송됩니다.',
+  'sync.loading': '동기화 상태를 불러오는 중...',
+  'sync.notConfigured': '이 서버에는 아직 동기화가 설정되지 않았습니다(FLASHACADEMY_API_URL과 FLASHACADEMY_API_KEY가 필요합니다).',
+  'sync.linkIntro': '계정을 연결하려면 FlashAcademy에서 연결 코드를 받아 여기에 입력하세요. 코드는 한 번만 사용할 수 있습니다.',
+  'sync.linkCode': '연결 코드',
+  'sync.link': '연결',
+  'sync.account': '계정',
+  'sync.lastSynced': '마지막 동기화',
+  'sync.never': '없음',
+  'sync.wordsSynced': '동기화된 단어',
+  'sync.lastPushed': '숙달도 마지막 전송',
+  'sync.lastError': '마지막 동기화 실패: {error}',
+  'sync.syncing': '동기화 중...',
+  'sync.syncNow': '지금 동기화',
+  'sync.reimport': '모두 다시 가져오기',
+  'sync.reimportHint': '모든 단어를 다시 가져옵니다. 예를 들어 여기서 실수로 일부를 삭제했을 때 사용하세요',
+  'sync.unlink': '연결 해제',
+  'sync.confirmUnlink': 'FlashAcademy 계정 연결을 해제할까요? 이미 동기화된 단어는 목록에 남습니다.',
+  'sync.result': '{added}, {pushed}',
+  'sync.added': { other: '새 단어 {count}개 추가됨' },
+  'sync.pushed': { other: '숙달도 업데이트 {count}개 전송됨' },
+  'sync.linked': { other: '연결됨 - FlashAcademy에서 단어 {count}개를 추가했습니다' }
+};
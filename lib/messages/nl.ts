@@ -0,0 +1,282 @@
+import type { Catalog } from './en';
+
+export const nl: Catalog = {
+  'app.tagline': 'Taalleerassistent met AI',
+  'app.signOut': 'Afmelden',
+  'app.poweredBy': 'Mogelijk gemaakt door',
+  'tab.practice': 'Oefenen',
+  'tab.test': 'Toets',
+  'tab.words': 'Woorden',
+  'tab.dashboard': 'Overzicht',
+  'tab.settings': 'Instellingen',
+  'about.title': 'Over',
+  'about.realtime': 'Voice Tutor gebruikt de Realtime API van OpenAI voor taaloefening in gesprekvorm.',
+  'about.flashacademy': 'Het systeem houdt rekening met de woorden die je op het FlashAcademy-platform hebt geleerd en helpt je uitspraak, woordenschat en gespreksvaardigheid te oefenen.',
+  'about.features': 'Functies:',
+  'about.feature.flow': 'Doorlopend gesprek: je hoeft niet voor elk woord op opnemen te drukken',
+  'about.feature.modes': 'Drie oefenmodi voor verschillende leerdoelen',
+  'about.feature.languages': 'Instructies en menu’s in 16 talen',
+  'about.feature.feedback': 'Directe feedback op je uitspraak',
+  'about.feature.progress': 'Voortgang en statistieken bijhouden',
+  'about.feature.words': 'Woordbeheer met tijdstip van toevoegen',
+  'about.feature.sync': 'Woordenschat synchroniseren met FlashAcademy',
+
+  'login.signIn': 'Aanmelden',
+  'login.register': 'Account maken',
+  'login.intro': 'Je woorden en oefengeschiedenis worden in je account bewaard.',
+  'login.username': 'Gebruikersnaam',
+  'login.displayName': 'Je naam (optioneel)',
+  'login.password': 'Wachtwoord',
+  'login.createAccount': 'Account maken',
+  'login.toRegister': 'Nieuw hier? Maak een account',
+  'login.toSignIn': 'Heb je al een account? Meld je aan',
+  'login.failed': 'Er is iets misgegaan',
+
+  'modes.title': 'Oefenmodus',
+  'modes.locked': 'De modus kan niet worden gewijzigd tijdens een sessie',
+  'mode.pronunciation': 'Uitspraak',
+  'mode.pronunciation.description': 'Richt je op het duidelijk en correct uitspreken van woorden',
+  'mode.vocabulary': 'Woordenschat',
+  'mode.vocabulary.description': 'Leer de betekenis van woorden en hoe je ze in context gebruikt',
+  'mode.conversation': 'Gesprek',
+  'mode.conversation.description': 'Oefen een natuurlijk gesprek met de geleerde woorden',
+  'session.pronunciation': 'Uitspraakoefening',
+  'session.vocabulary': 'Woordenschatoefening',
+  'session.conversation': 'Gespreksoefening',
+
+  'session.pronunciation-test': 'Uitspraaktoets',
+
+  'status.listening': 'Luistert...',
+  'status.connected': 'Verbonden',
+  'status.connecting': 'Verbinden...',
+  'status.notConnected': 'Niet verbonden',
+  'voice.tapToEnd': 'Tik om het gesprek te beëindigen',
+  'voice.tapToStart': 'Tik om te beginnen met oefenen',
+  'chat.empty': 'Er is nog niets gezegd',
+  'chat.tutor': 'Tutor',
+  'chat.you': 'Jij',
+  'quota.reached': 'Je hebt de oefenlimiet van vandaag bereikt - goed gedaan! Je tutor staat morgen weer voor je klaar.',
+  'quota.reopens': 'Oefenen kan weer vanaf {time}.',
+  'deck.label': 'Stapel',
+  'deck.allWords': 'Alle woorden ({count})',
+
+  'test.title': 'Uitspraaktoets',
+  'test.intro': 'Maak verbinding met je AI-tutor voor een uitspraaktoets in gesprekvorm. Je tutor begeleidt je door de toets.',
+  'test.emptyDeck': 'Deze stapel heeft nog geen woorden om te toetsen.',
+  'test.noWords': 'Voeg eerst een paar woorden in het {language} toe aan je woordenschat!',
+  'test.howItWorks': 'Zo werkt het:',
+  'test.howItWorksBody': 'Je AI-tutor toetst je uitspraak woord voor woord. Spreek gewoon natuurlijk wanneer je dat gevraagd wordt. Je kunt op elk moment onderbreken en de tutor geeft je uitgebreide feedback. Woorden met {score}% of meer zijn geslaagd.',
+  'test.start': 'Gesprekstoets starten',
+  'test.progress': 'Woord {current} van {total}',
+  'test.currentWord': 'Huidig woord:',
+  'test.hearIt': 'Beluisteren',
+  'test.tryAgain': 'Opnieuw proberen',
+  'test.attempt': 'Poging {current} / {max}',
+  'test.end': 'Toets beëindigen',
+  'test.score': 'Score: {score}%',
+  'test.greatJob': 'Goed gedaan! Door naar het volgende woord...',
+  'test.complete': 'Toets voltooid!',
+  'test.overallScore': 'Totaalscore:',
+  'test.passed': 'Geslaagd: {passed} / {total} woorden',
+  'test.attempts': 'Pogingen: {count}',
+  'test.finish': 'Afronden',
+  'test.stress': 'Klemtoon: {feedback}',
+  'test.stressHint': 'controleer welke lettergreep de klemtoon krijgt',
+  'test.scoreSources': 'Tutor {tutor}% · Transcript {transcript}%',
+  'test.heard': '(gehoord: ‘{text}’)',
+  'test.disagreement': 'Tutor en transcript zijn het over deze poging niet eens; luister hem nog eens terug.',
+  'test.myAttempts': { one: 'Mijn poging', other: 'Mijn pogingen' },
+  'test.tutorModel': 'Voorbeeld van de tutor',
+
+  'words.title': 'Woordbeheer',
+  'words.placeholder': 'Voer een nieuw woord of een nieuwe uitdrukking in...',
+  'words.add': 'Woord toevoegen',
+  'words.alreadyAdded': '‘{word}’ staat al in je lijst; je voortgang blijft bewaard',
+  'words.showBulkAdd': 'Meerdere toevoegen tonen',
+  'words.hideBulkAdd': 'Meerdere toevoegen verbergen',
+  'words.bulkPlaceholder': 'Voer meerdere woorden of uitdrukkingen in, één per regel...',
+  'words.addAll': 'Alles toevoegen',
+  'words.bulkAdded': '{added} nieuw toegevoegd; {skipped} stonden al in je lijst of waren dubbel',
+  'words.yourWords': 'Je woorden',
+  'words.showArchived': 'Gearchiveerde tonen ({count})',
+  'words.duplicates': {
+    one: '{count} item is een dubbel van een ander woord (hoofdletters en accenten genegeerd)',
+    other: '{count} items zijn een dubbel van een ander woord (hoofdletters en accenten genegeerd)'
+  },
+  'words.mergeDuplicates': 'Dubbele samenvoegen',
+  'words.merged': {
+    one: '{count} dubbel samengevoegd; de oefengeschiedenis is gecombineerd',
+    other: '{count} dubbele samengevoegd; de oefengeschiedenis is gecombineerd'
+  },
+  'words.allWords': 'Alle woorden',
+  'words.saveDeckName': 'Naam opslaan',
+  'words.cancel': 'Annuleren',
+  'words.deckHint': 'Nieuwe woorden worden aan deze stapel toegevoegd.',
+  'words.renameDeck': 'Naam wijzigen',
+  'words.deleteDeck': 'Stapel verwijderen',
+  'words.confirmDeleteDeck': 'Stapel ‘{deck}’ verwijderen? De woorden blijven in je lijst staan.',
+  'words.empty': 'Nog geen woorden toegevoegd',
+  'words.emptyDeck': 'Nog geen woorden in deze stapel',
+  'words.allArchived': 'Al je woorden zijn gearchiveerd',
+  'words.selected': '{count} geselecteerd',
+  'words.selectAll': 'Alles selecteren',
+  'words.deckName': 'Naam van de stapel',
+  'words.addToDeck': 'Aan stapel toevoegen',
+  'words.removeFromDeck': 'Uit stapel halen',
+  'words.archive': 'Archiveren',
+  'words.restore': 'Herstellen',
+  'words.delete': 'Verwijderen',
+  'words.confirmDelete': {
+    one: 'Dit woord en de voortgang ervan verwijderen? Dit kan niet ongedaan worden gemaakt.',
+    other: '{count} woorden en hun voortgang verwijderen? Dit kan niet ongedaan worden gemaakt.'
+  },
+  'words.select': '{word} selecteren',
+  'words.phrase': 'uitdrukking',
+  'words.archived': '(gearchiveerd)',
+  'words.practices': { one: '{count} keer geoefend', other: '{count} keer geoefend' },
+  'words.mastery': '{mastery}% beheerst',
+  'words.edit': 'Woord bewerken',
+  'words.restoreHint': 'Weer oefenen',
+  'words.archiveHint': 'Archiveren: bewaren, maar niet meer oefenen',
+  'words.deleteWord': 'Woord verwijderen',
+
+  'editor.title': '‘{word}’ bewerken',
+  'editor.autoFill': 'Automatisch invullen',
+  'editor.autoFillHint': 'Lege velden invullen uit het woordenboek',
+  'editor.notInDictionary': 'Niet in het offline woordenboek',
+  'editor.word': 'Woord',
+  'editor.clash': '‘{word}’ staat al in je lijst',
+  'editor.decks': 'Stapels',
+  'editor.decksPlaceholder': 'Les 3 - Eten, Reizen',
+  'editor.decksHint': 'Scheid stapels met komma’s',
+  'editor.ipa': 'IPA',
+  'editor.partOfSpeech': 'Woordsoort',
+  'editor.syllables': 'Lettergrepen',
+  'editor.stress': 'Beklemtoonde lettergreep',
+  'editor.definition': 'Betekenis',
+  'editor.example': 'Voorbeeldzin',
+  'editor.cancel': 'Annuleren',
+  'editor.save': 'Opslaan',
+  'pos.noun': 'zelfstandig naamwoord',
+  'pos.verb': 'werkwoord',
+  'pos.adjective': 'bijvoeglijk naamwoord',
+  'pos.adverb': 'bijwoord',
+  'pos.pronoun': 'voornaamwoord',
+  'pos.preposition': 'voorzetsel',
+  'pos.conjunction': 'voegwoord',
+  'pos.interjection': 'tussenwerpsel',
+  'pos.number': 'telwoord',
+  'pos.phrase': 'uitdrukking',
+
+  'stats.totalWords': 'Woorden totaal',
+  'stats.mastered': 'Beheerst',
+  'stats.learning': 'Aan het leren',
+  'stats.todaysPractice': 'Vandaag geoefend',
+  'stats.streak': 'Reeks',
+  'dashboard.weeklyPractice': 'Oefening deze week',
+  'dashboard.sessions': 'Sessies',
+  'dashboard.wordsPracticed': 'Geoefende woorden',
+  'dashboard.masteryLevels': 'Beheersingsniveaus',
+  'dashboard.words': 'Woorden',
+  'mastery.beginner': 'Beginner',
+  'mastery.learning': 'Aan het leren',
+  'mastery.proficient': 'Vaardig',
+  'mastery.mastered': 'Beheerst',
+  'dashboard.masteryByDeck': 'Beheersing per stapel',
+  'dashboard.deckMastery': '{mastered}/{total} beheerst · gemiddeld {average}%',
+  'dashboard.recentSessions': 'Recente sessies',
+  'dashboard.allSessions': 'Alle sessies',
+  'dashboard.showRecent': 'Recente tonen',
+  'dashboard.showAll': 'Alle {count} tonen',
+  'dashboard.wordCount': { one: '{count} woord', other: '{count} woorden' },
+  'dashboard.minutes': '{count} min',
+  'dashboard.inProgress': 'Bezig',
+  'dashboard.noSessions': 'Nog geen oefensessies',
+  'dashboard.sessionWords': 'Woorden: {words}',
+  'dashboard.closeReview': 'Sessieoverzicht sluiten',
+
+  'languages.title': 'Talen',
+  'languages.home': 'Moedertaal',
+  'languages.homeHelp': 'Instructies, hulp en deze menu’s worden in deze taal getoond',
+  'languages.target': 'Ik leer',
+  'languages.targetHelp': 'Nieuwe woorden worden in deze taal toegevoegd, en oefeningen en toetsen gebruiken de woorden ervan',
+  'languages.locked': 'Talen kunnen niet worden gewijzigd tijdens een sessie',
+  'recordings.title': 'Opnames',
+  'recordings.description': 'Mijn oefensessies opnemen, zodat ik elke poging kan terugluisteren en met de tutor kan vergelijken. Opnames worden bij de sessie bewaard en alleen jij kunt ze afspelen.',
+
+  'import.title': 'Importeren en exporteren',
+  'import.intro': 'Importeer woorden uit een CSV-bestand, een Anki-stapel (.apkg), een Anki-export als platte tekst (.txt/.tsv) of een Voice Tutor-back-up (.json). Exports bevatten de beheersing en de herhaalschema’s.',
+  'import.backup': 'Back-up (JSON)',
+  'import.exportWords': 'Woorden (CSV)',
+  'import.exportSessions': 'Sessies (CSV)',
+  'import.chooseFile': 'Kies een bestand om te importeren...',
+  'import.columns': 'Kolommen',
+  'import.column': 'Kolom {number}',
+  'import.ignore': 'Negeren',
+  'import.translation': 'Vertaling ({language})',
+  'import.field.word': 'Woord',
+  'import.field.ipa': 'IPA',
+  'import.field.syllables': 'Lettergrepen',
+  'import.field.stress': 'Beklemtoonde lettergreep (1, 2, ...)',
+  'import.field.partOfSpeech': 'Woordsoort',
+  'import.field.definition': 'Betekenis',
+  'import.field.example': 'Voorbeeldzin',
+  'import.field.mastery': 'Beheersing %',
+  'import.field.practiceCount': 'Aantal keer geoefend',
+  'import.field.ease': 'SRS-gemak',
+  'import.field.interval': 'SRS-interval (dagen)',
+  'import.field.repetitions': 'SRS-herhalingen',
+  'import.field.lapses': 'SRS-missers',
+  'import.field.lastPracticed': 'Laatst geoefend',
+  'import.field.dueDate': 'Herhalen op',
+  'import.field.added': 'Toegevoegd op',
+  'import.field.archived': 'Gearchiveerd',
+  'import.field.decks': 'Stapels (gescheiden door ;)',
+  'import.field.tags': 'Labels (als stapels)',
+  'import.summary': '{new} nieuw · {duplicate} al in je lijst · {repeated} herhaald · {error} met fouten',
+  'import.duplicatesSkipped': '- dubbele worden overgeslagen',
+  'import.line': 'Regel',
+  'import.word': 'Woord',
+  'import.details': 'Details',
+  'import.status': 'Status',
+  'import.status.new': 'Nieuw',
+  'import.status.duplicate': 'Al toegevoegd',
+  'import.status.repeated': 'Herhaald in bestand',
+  'import.status.error': 'Fout',
+  'import.invalidRow': 'Ongeldige regel',
+  'import.moreRows': { one: '…en nog {count} regel', other: '…en nog {count} regels' },
+  'import.words': { one: '{count} woord', other: '{count} woorden' },
+  'import.sessions': { one: '{count} oefensessie', other: '{count} oefensessies' },
+  'import.backupSummary': '{words} ({new} nieuw; de rest staat al in je lijst en blijft zoals die is) en {sessions}.',
+  'import.problems': { one: '{count} probleem - deze regel wordt overgeslagen', other: '{count} problemen - deze regels worden overgeslagen' },
+  'import.errorReport': 'Foutenrapport downloaden',
+  'import.errorLine': 'Regel {line}: {message}',
+  'import.cancel': 'Annuleren',
+  'import.import': 'Importeren',
+  'import.imported': '{words} geïmporteerd uit {file}',
+  'import.importedWithSessions': '{words} en {sessions} geïmporteerd uit {file}',
+
+  'sync.title': 'FlashAcademy-synchronisatie',
+  'sync.intro': 'Woorden die je in FlashAcademy-lessen leert, worden hier automatisch toegevoegd, met de datum waarop je ze leerde. Je oefenresultaten gaan na elke sessie terug naar FlashAcademy.',
+  'sync.loading': 'Synchronisatiestatus laden...',
+  'sync.notConfigured': 'Synchronisatie is op deze server nog niet ingesteld (daarvoor zijn FLASHACADEMY_API_URL en FLASHACADEMY_API_KEY nodig).',
+  'sync.linkIntro': 'Vraag een koppelcode aan bij FlashAcademy en vul die hier in om je account te koppelen. Elke code werkt één keer.',
+  'sync.linkCode': 'Koppelcode',
+  'sync.link': 'Koppelen',
+  'sync.account': 'Account',
+  'sync.lastSynced': 'Laatst gesynchroniseerd',
+  'sync.never': 'Nooit',
+  'sync.wordsSynced': 'Gesynchroniseerde woorden',
+  'sync.lastPushed': 'Beheersing laatst verstuurd',
+  'sync.lastError': 'Laatste synchronisatie mislukt: {error}',
+  'sync.syncing': 'Synchroniseren...',
+  'sync.syncNow': 'Nu synchroniseren',
+  'sync.reimport': 'Alles opnieuw importeren',
+  'sync.reimportHint': 'Alle woorden opnieuw ophalen, bijvoorbeeld als je er hier per ongeluk een paar hebt verwijderd',
+  'sync.unlink': 'Ontkoppelen',
+  'sync.confirmUnlink': 'Je FlashAcademy-account ontkoppelen? Woorden die al gesynchroniseerd zijn, blijven in je lijst.',
+  'sync.result': '{added}, {pushed}',
+  'sync.added': { one: '{count} nieuw woord toegevoegd', other: '{count} nieuwe woorden toegevoegd' },
+  'sync.pushed': { one: '{count} beheersingsupdate verstuurd', other: '{count} beheersingsupdates verstuurd' },
+  'sync.linked': { one: 'Gekoppeld - {count} woord toegevoegd uit FlashAcademy', other: 'Gekoppeld - {count} woorden toegevoegd uit FlashAcademy' }
+};
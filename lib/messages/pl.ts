@@ -0,0 +1,333 @@
+import type { Catalog } from './en';
+
+export const pl: Catalog = {
+  'app.tagline': 'Asystent nauki języków oparty na AI',
+  'app.signOut': 'Wyloguj się',
+  'app.poweredBy': 'Napędzane przez',
+  'tab.practice': 'Ćwiczenia',
+  'tab.test': 'Test',
+  'tab.words': 'Słowa',
+  'tab.dashboard': 'Panel',
+  'tab.settings': 'Ustawienia',
+  'about.title': 'O aplikacji',
+  'about.realtime': 'Voice Tutor korzysta z Realtime API od OpenAI, aby umożliwić naukę języka przez rozmowę.',
+  'about.flashacademy': 'System uwzględnia słowa poznane na platformie FlashAcademy i pomaga ćwiczyć wymowę, słownictwo i rozmowę.',
+  'about.features': 'Funkcje:',
+  'about.feature.flow': 'Ciągła rozmowa — nie trzeba naciskać nagrywania przy każdym słowie',
+  'about.feature.modes': 'Trzy tryby ćwiczeń dopasowane do różnych celów',
+  'about.feature.languages': 'Instrukcje i menu w 16 językach',
+  'about.feature.feedback': 'Informacje o wymowie w czasie rzeczywistym',
+  'about.feature.progress': 'Śledzenie postępów i statystyki',
+  'about.feature.words': 'Zarządzanie słowami z datą dodania',
+  'about.feature.sync': 'Synchronizacja słownictwa z FlashAcademy',
+
+  'login.signIn': 'Zaloguj się',
+  'login.register': 'Utwórz konto',
+  'login.intro': 'Twoje słowa i historia ćwiczeń są zapisywane na Twoim koncie.',
+  'login.username': 'Nazwa użytkownika',
+  'login.displayName': 'Twoje imię (opcjonalnie)',
+  'login.password': 'Hasło',
+  'login.createAccount': 'Utwórz konto',
+  'login.toRegister': 'Jesteś tu pierwszy raz? Utwórz konto',
+  'login.toSignIn': 'Masz już konto? Zaloguj się',
+  'login.failed': 'Coś poszło nie tak',
+
+  'modes.title': 'Tryb ćwiczeń',
+  'modes.locked': 'Nie można zmienić trybu w trakcie sesji',
+  'mode.pronunciation': 'Wymowa',
+  'mode.pronunciation.description': 'Skup się na wyraźnym i poprawnym wymawianiu słów',
+  'mode.vocabulary': 'Słownictwo',
+  'mode.vocabulary.description': 'Poznaj znaczenie słów i ich użycie w kontekście',
+  'mode.conversation': 'Rozmowa',
+  'mode.conversation.description': 'Ćwicz naturalną rozmowę z poznanymi słowami',
+  'session.pronunciation': 'Ćwiczenie wymowy',
+  'session.vocabulary': 'Ćwiczenie słownictwa',
+  'session.conversation': 'Ćwiczenie rozmowy',
+
+  'session.pronunciation-test': 'Test wymowy',
+
+  'status.listening': 'Słucham...',
+  'status.connected': 'Połączono',
+  'status.connecting': 'Łączenie...',
+  'status.notConnected': 'Brak połączenia',
+  'voice.tapToEnd': 'Dotknij, aby zakończyć rozmowę',
+  'voice.tapToStart': 'Dotknij, aby zacząć ćwiczyć',
+  'chat.empty': 'Nic jeszcze nie powiedziano',
+  'chat.tutor': 'Lektor',
+  'chat.you': 'Ty',
+  'quota.reached': 'Osiągnięto dzisiejszy limit ćwiczeń — świetna robota! Lektor będzie znowu dostępny jutro.',
+  'quota.reopens': 'Ćwiczenia będą znowu dostępne: {time}.',
+  'deck.label': 'Talia',
+  'deck.allWords': 'Wszystkie słowa ({count})',
+
+  'test.title': 'Test wymowy',
+  'test.intro': 'Połącz się z lektorem AI, aby przejść test wymowy w formie rozmowy. Lektor poprowadzi Cię przez cały test.',
+  'test.emptyDeck': 'W tej talii nie ma jeszcze słów do testu.',
+  'test.noWords': 'Najpierw dodaj do słownika kilka słów ({language})!',
+  'test.howItWorks': 'Jak to działa:',
+  'test.howItWorksBody': 'Lektor AI sprawdzi Twoją wymowę słowo po słowie. Mów naturalnie, gdy Cię o to poprosi. Możesz przerwać w dowolnej chwili, a lektor przekaże Ci szczegółowe uwagi. Słowa z wynikiem {score}% lub wyższym są zaliczone.',
+  'test.start': 'Rozpocznij test rozmowy',
+  'test.progress': 'Słowo {current} z {total}',
+  'test.currentWord': 'Bieżące słowo:',
+  'test.hearIt': 'Posłuchaj',
+  'test.tryAgain': 'Spróbuj ponownie',
+  'test.attempt': 'Próba {current} / {max}',
+  'test.end': 'Zakończ test',
+  'test.score': 'Wynik: {score}%',
+  'test.greatJob': 'Świetnie! Przechodzimy do następnego słowa...',
+  'test.complete': 'Test ukończony!',
+  'test.overallScore': 'Wynik ogólny:',
+  'test.passed': 'Zaliczone: {passed} z {total} słów',
+  'test.attempts': 'Próby: {count}',
+  'test.finish': 'Zakończ',
+  'test.stress': 'Akcent: {feedback}',
+  'test.stressHint': 'sprawdź, która sylaba jest akcentowana',
+  'test.scoreSources': 'Lektor {tutor}% · Transkrypcja {transcript}%',
+  'test.heard': '(usłyszano „{text}”)',
+  'test.disagreement': 'Lektor i transkrypcja nie zgadzają się co do tej próby — warto jej posłuchać jeszcze raz.',
+  'test.myAttempts': { one: 'Moja próba', few: 'Moje próby', many: 'Moje próby', other: 'Moje próby' },
+  'test.tutorModel': 'Wzór lektora',
+
+  'words.title': 'Zarządzanie słowami',
+  'words.placeholder': 'Wpisz nowe słowo lub wyrażenie...',
+  'words.add': 'Dodaj słowo',
+  'words.alreadyAdded': '„{word}” jest już na Twojej liście — postępy zostają zachowane',
+  'words.showBulkAdd': 'Pokaż dodawanie wielu',
+  'words.hideBulkAdd': 'Ukryj dodawanie wielu',
+  'words.bulkPlaceholder': 'Wpisz kilka słów lub wyrażeń, po jednym w wierszu...',
+  'words.addAll': 'Dodaj wszystkie',
+  'words.bulkAdded': 'Dodano nowych: {added}; już na liście lub powtórzone: {skipped}',
+  'words.yourWords': 'Twoje słowa',
+  'words.showArchived': 'Pokaż zarchiwizowane ({count})',
+  'words.duplicates': {
+    one: '{count} wpis powiela inne słowo (bez względu na wielkość liter i akcenty)',
+    few: '{count} wpisy powielają inne słowo (bez względu na wielkość liter i akcenty)',
+    many: '{count} wpisów powiela inne słowo (bez względu na wielkość liter i akcenty)',
+    other: '{count} wpisu powiela inne słowo (bez względu na wielkość liter i akcenty)'
+  },
+  'words.mergeDuplicates': 'Scal duplikaty',
+  'words.merged': {
+    one: 'Scalono {count} duplikat — historia ćwiczeń została połączona',
+    few: 'Scalono {count} duplikaty — historia ćwiczeń została połączona',
+    many: 'Scalono {count} duplikatów — historia ćwiczeń została połączona',
+    other: 'Scalono {count} duplikatu — historia ćwiczeń została połączona'
+  },
+  'words.allWords': 'Wszystkie słowa',
+  'words.saveDeckName': 'Zapisz nazwę',
+  'words.cancel': 'Anuluj',
+  'words.deckHint': 'Nowe słowa są dodawane do tej talii.',
+  'words.renameDeck': 'Zmień nazwę',
+  'words.deleteDeck': 'Usuń talię',
+  'words.confirmDeleteDeck': 'Usunąć talię „{deck}”? Jej słowa zostaną na Twojej liście.',
+  'words.empty': 'Nie dodano jeszcze słów',
+  'words.emptyDeck': 'W tej talii nie ma jeszcze słów',
+  'words.allArchived': 'Wszystkie Twoje słowa są zarchiwizowane',
+  'words.selected': 'Wybrano: {count}',
+  'words.selectAll': 'Zaznacz wszystkie',
+  'words.deckName': 'Nazwa talii',
+  'words.addToDeck': 'Dodaj do talii',
+  'words.removeFromDeck': 'Usuń z talii',
+  'words.archive': 'Archiwizuj',
+  'words.restore': 'Przywróć',
+  'words.delete': 'Usuń',
+  'words.confirmDelete': {
+    one: 'Usunąć to słowo i jego postępy? Tej operacji nie można cofnąć.',
+    few: 'Usunąć {count} słowa i ich postępy? Tej operacji nie można cofnąć.',
+    many: 'Usunąć {count} słów i ich postępy? Tej operacji nie można cofnąć.',
+    other: 'Usunąć {count} słowa i ich postępy? Tej operacji nie można cofnąć.'
+  },
+  'words.select': 'Zaznacz „{word}”',
+  'words.phrase': 'wyrażenie',
+  'words.archived': '(zarchiwizowane)',
+  'words.practices': {
+    one: '{count} powtórka',
+    few: '{count} powtórki',
+    many: '{count} powtórek',
+    other: '{count} powtórki'
+  },
+  'words.mastery': 'Opanowane w {mastery}%',
+  'words.edit': 'Edytuj słowo',
+  'words.restoreHint': 'Przywróć do ćwiczeń',
+  'words.archiveHint': 'Archiwizuj — zachowaj, ale przestań ćwiczyć',
+  'words.deleteWord': 'Usuń słowo',
+
+  'editor.title': 'Edytuj „{word}”',
+  'editor.autoFill': 'Uzupełnij',
+  'editor.autoFillHint': 'Uzupełnij puste pola ze słownika',
+  'editor.notInDictionary': 'Brak w słowniku offline',
+  'editor.word': 'Słowo',
+  'editor.clash': '„{word}” jest już na Twojej liście',
+  'editor.decks': 'Talie',
+  'editor.decksPlaceholder': 'Lekcja 3 - Jedzenie, Podróże',
+  'editor.decksHint': 'Oddziel talie przecinkami',
+  'editor.ipa': 'IPA',
+  'editor.partOfSpeech': 'Część mowy',
+  'editor.syllables': 'Sylaby',
+  'editor.stress': 'Sylaba akcentowana',
+  'editor.definition': 'Definicja',
+  'editor.example': 'Przykładowe zdanie',
+  'editor.cancel': 'Anuluj',
+  'editor.save': 'Zapisz',
+  'pos.noun': 'rzeczownik',
+  'pos.verb': 'czasownik',
+  'pos.adjective': 'przymiotnik',
+  'pos.adverb': 'przysłówek',
+  'pos.pronoun': 'zaimek',
+  'pos.preposition': 'przyimek',
+  'pos.conjunction': 'spójnik',
+  'pos.interjection': 'wykrzyknik',
+  'pos.number': 'liczebnik',
+  'pos.phrase': 'wyrażenie',
+
+  'stats.totalWords': 'Wszystkie słowa',
+  'stats.mastered': 'Opanowane',
+  'stats.learning': 'W nauce',
+  'stats.todaysPractice': 'Dzisiejsze ćwiczenia',
+  'stats.streak': 'Seria',
+  'dashboard.weeklyPractice': 'Ćwiczenia w tym tygodniu',
+  'dashboard.sessions': 'Sesje',
+  'dashboard.wordsPracticed': 'Przećwiczone słowa',
+  'dashboard.masteryLevels': 'Poziomy opanowania',
+  'dashboard.words': 'Słowa',
+  'mastery.beginner': 'Początkujący',
+  'mastery.learning': 'W nauce',
+  'mastery.proficient': 'Biegły',
+  'mastery.mastered': 'Opanowane',
+  'dashboard.masteryByDeck': 'Opanowanie według talii',
+  'dashboard.deckMastery': 'Opanowane {mastered}/{total} · średnio {average}%',
+  'dashboard.recentSessions': 'Ostatnie sesje',
+  'dashboard.allSessions': 'Wszystkie sesje',
+  'dashboard.showRecent': 'Pokaż ostatnie',
+  'dashboard.showAll': 'Pokaż wszystkie ({count})',
+  'dashboard.wordCount': {
+    one: '{count} słowo',
+    few: '{count} słowa',
+    many: '{count} słów',
+    other: '{count} słowa'
+  },
+  'dashboard.minutes': '{count} min',
+  'dashboard.inProgress': 'W toku',
+  'dashboard.noSessions': 'Nie ma jeszcze sesji ćwiczeń',
+  'dashboard.sessionWords': 'Słowa: {words}',
+  'dashboard.closeReview': 'Zamknij podsumowanie sesji',
+
+  'languages.title': 'Języki',
+  'languages.home': 'Język ojczysty',
+  'languages.homeHelp': 'Instrukcje, pomoc i te menu będą w tym języku',
+  'languages.target': 'Uczę się',
+  'languages.targetHelp': 'Nowe słowa są dodawane w tym języku, a ćwiczenia i testy korzystają z jego słów',
+  'languages.locked': 'Nie można zmienić języków w trakcie sesji',
+  'recordings.title': 'Nagrania',
+  'recordings.description': 'Nagrywaj moje sesje, aby można było odsłuchać każdą próbę i porównać ją z lektorem. Nagrania są przechowywane razem z sesją i tylko Ty możesz je odtworzyć.',
+
+  'import.title': 'Import i eksport',
+  'import.intro': 'Importuj słowa z pliku CSV, talii Anki (.apkg), eksportu tekstowego Anki (.txt/.tsv) lub kopii zapasowej Voice Tutor (.json). Eksport zawiera poziom opanowania i harmonogram powtórek.',
+  'import.backup': 'Kopia zapasowa (JSON)',
+  'import.exportWords': 'Słowa (CSV)',
+  'import.exportSessions': 'Sesje (CSV)',
+  'import.chooseFile': 'Wybierz plik do zaimportowania...',
+  'import.columns': 'Kolumny',
+  'import.column': 'Kolumna {number}',
+  'import.ignore': 'Pomiń',
+  'import.translation': 'Tłumaczenie ({language})',
+  'import.field.word': 'Słowo',
+  'import.field.ipa': 'IPA',
+  'import.field.syllables': 'Sylaby',
+  'import.field.stress': 'Sylaba akcentowana (1, 2, ...)',
+  'import.field.partOfSpeech': 'Część mowy',
+  'import.field.definition': 'Definicja',
+  'import.field.example': 'Przykładowe zdanie',
+  'import.field.mastery': 'Opanowanie %',
+  'import.field.practiceCount': 'Liczba powtórek',
+  'import.field.ease': 'Łatwość SRS',
+  'import.field.interval': 'Odstęp SRS (dni)',
+  'import.field.repetitions': 'Powtórzenia SRS',
+  'import.field.lapses': 'Pomyłki SRS',
+  'import.field.lastPracticed': 'Ostatnie ćwiczenie',
+  'import.field.dueDate': 'Termin powtórki',
+  'import.field.added': 'Data dodania',
+  'import.field.archived': 'Zarchiwizowane',
+  'import.field.decks': 'Talie (oddzielone ;)',
+  'import.field.tags': 'Tagi (jako talie)',
+  'import.summary': 'Nowe: {new} · już na liście: {duplicate} · powtórzone: {repeated} · z błędami: {error}',
+  'import.duplicatesSkipped': '— duplikaty są pomijane',
+  'import.line': 'Wiersz',
+  'import.word': 'Słowo',
+  'import.details': 'Szczegóły',
+  'import.status': 'Stan',
+  'import.status.new': 'Nowe',
+  'import.status.duplicate': 'Już dodane',
+  'import.status.repeated': 'Powtórzone w pliku',
+  'import.status.error': 'Błąd',
+  'import.invalidRow': 'Nieprawidłowy wiersz',
+  'import.moreRows': {
+    one: '…i jeszcze {count} wiersz',
+    few: '…i jeszcze {count} wiersze',
+    many: '…i jeszcze {count} wierszy',
+    other: '…i jeszcze {count} wiersza'
+  },
+  'import.words': {
+    one: '{count} słowo',
+    few: '{count} słowa',
+    many: '{count} słów',
+    other: '{count} słowa'
+  },
+  'import.sessions': {
+    one: '{count} sesja ćwiczeń',
+    few: '{count} sesje ćwiczeń',
+    many: '{count} sesji ćwiczeń',
+    other: '{count} sesji ćwiczeń'
+  },
+  'import.backupSummary': '{words} (nowe: {new}, pozostałe są już na liście i zostaną bez zmian) i {sessions}.',
+  'import.problems': {
+    one: '{count} problem — wiersze z błędami zostaną pominięte',
+    few: '{count} problemy — wiersze z błędami zostaną pominięte',
+    many: '{count} problemów — wiersze z błędami zostaną pominięte',
+    other: '{count} problemu — wiersze z błędami zostaną pominięte'
+  },
+  'import.errorReport': 'Pobierz raport błędów',
+  'import.errorLine': 'Wiersz {line}: {message}',
+  'import.cancel': 'Anuluj',
+  'import.import': 'Importuj',
+  'import.imported': 'Zaimportowano z {file}: {words}',
+  'import.importedWithSessions': 'Zaimportowano z {file}: {words} i {sessions}',
+
+  'sync.title': 'Synchronizacja z FlashAcademy',
+  'sync.intro': 'Słowa, których uczysz się na lekcjach FlashAcademy, są tu dodawane automatycznie razem z datą, kiedy się ich nauczono. Wyniki ćwiczeń są wysyłane do FlashAcademy po każdej sesji.',
+  'sync.loading': 'Wczytywanie stanu synchronizacji...',
+  'sync.notConfigured': 'Synchronizacja nie jest jeszcze skonfigurowana na tym serwerze (wymaga FLASHACADEMY_API_URL i FLASHACADEMY_API_KEY).',
+  'sync.linkIntro': 'Aby połączyć konto, zdobądź kod połączenia w FlashAcademy i wpisz go tutaj. Każdy kod działa tylko raz.',
+  'sync.linkCode': 'Kod połączenia',
+  'sync.link': 'Połącz',
+  'sync.account': 'Konto',
+  'sync.lastSynced': 'Ostatnia synchronizacja',
+  'sync.never': 'Nigdy',
+  'sync.wordsSynced': 'Zsynchronizowane słowa',
+  'sync.lastPushed': 'Ostatnie wysłanie opanowania',
+  'sync.lastError': 'Ostatnia synchronizacja nie powiodła się: {error}',
+  'sync.syncing': 'Synchronizowanie...',
+  'sync.syncNow': 'Synchronizuj teraz',
+  'sync.reimport': 'Zaimportuj wszystko ponownie',
+  'sync.reimportHint': 'Pobierz wszystkie słowa jeszcze raz, np. po przypadkowym usunięciu niektórych tutaj',
+  'sync.unlink': 'Odłącz',
+  'sync.confirmUnlink': 'Odłączyć konto FlashAcademy? Już zsynchronizowane słowa zostaną na Twojej liście.',
+  'sync.result': '{added}, {pushed}',
+  'sync.added': {
+    one: 'dodano {count} nowe słowo',
+    few: 'dodano {count} nowe słowa',
+    many: 'dodano {count} nowych słów',
+    other: 'dodano {count} nowego słowa'
+  },
+  'sync.pushed': {
+    one: 'wysłano {count} aktualizację opanowania',
+    few: 'wysłano {count} aktualizacje opanowania',
+    many: 'wysłano {count} aktualizacji opanowania',
+    other: 'wysłano {count} aktualizacji opanowania'
+  },
+  'sync.linked': {
+    one: 'Połączono — dodano {count} słowo z FlashAcademy',
+    few: 'Połączono — dodano {count} słowa z FlashAcademy',
+    many: 'Połączono — dodano {count} słów z FlashAcademy',
+    other: 'Połączono — dodano {count} słowa z FlashAcademy'
+  }
+};
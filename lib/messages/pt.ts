@@ -0,0 +1,282 @@
+import type { Catalog } from './en';
+
+export const pt: Catalog = {
+  'app.tagline': 'Assistente de aprendizagem de línguas com IA',
+  'app.signOut': 'Terminar sessão',
+  'app.poweredBy': 'Com tecnologia de',
+  'tab.practice': 'Praticar',
+  'tab.test': 'Teste',
+  'tab.words': 'Palavras',
+  'tab.dashboard': 'Painel',
+  'tab.settings': 'Definições',
+  'about.title': 'Sobre',
+  'about.realtime': 'O Voice Tutor usa a API Realtime da OpenAI para oferecer prática de línguas em conversa.',
+  'about.flashacademy': 'O sistema acompanha as palavras que aprendeste na plataforma FlashAcademy e ajuda-te a praticar a pronúncia, o vocabulário e a conversação.',
+  'about.features': 'Funcionalidades:',
+  'about.feature.flow': 'Conversa contínua: não é preciso carregar em gravar para cada palavra',
+  'about.feature.modes': 'Três modos de prática adaptados a objetivos diferentes',
+  'about.feature.languages': 'Instruções e menus em 16 línguas',
+  'about.feature.feedback': 'Correção da pronúncia em tempo real',
+  'about.feature.progress': 'Acompanhamento do progresso e estatísticas',
+  'about.feature.words': 'Gestão de palavras com data de registo',
+  'about.feature.sync': 'Sincronização de vocabulário com a FlashAcademy',
+
+  'login.signIn': 'Iniciar sessão',
+  'login.register': 'Criar uma conta',
+  'login.intro': 'As tuas palavras e o teu histórico de prática são guardados na tua conta.',
+  'login.username': 'Nome de utilizador',
+  'login.displayName': 'O teu nome (opcional)',
+  'login.password': 'Palavra-passe',
+  'login.createAccount': 'Criar conta',
+  'login.toRegister': 'É a primeira vez? Cria uma conta',
+  'login.toSignIn': 'Já tens conta? Inicia sessão',
+  'login.failed': 'Algo correu mal',
+
+  'modes.title': 'Modo de prática',
+  'modes.locked': 'Não é possível mudar de modo durante uma sessão ativa',
+  'mode.pronunciation': 'Pronúncia',
+  'mode.pronunciation.description': 'Concentra-te em dizer as palavras de forma clara e correta',
+  'mode.vocabulary': 'Vocabulário',
+  'mode.vocabulary.description': 'Aprende o significado das palavras e o seu uso em contexto',
+  'mode.conversation': 'Conversação',
+  'mode.conversation.description': 'Pratica uma conversa natural com as palavras aprendidas',
+  'session.pronunciation': 'Prática de pronúncia',
+  'session.vocabulary': 'Prática de vocabulário',
+  'session.conversation': 'Prática de conversação',
+
+  'session.pronunciation-test': 'Teste de pronúncia',
+
+  'status.listening': 'A ouvir...',
+  'status.connected': 'Ligado',
+  'status.connecting': 'A ligar...',
+  'status.notConnected': 'Sem ligação',
+  'voice.tapToEnd': 'Toca para terminar a conversa',
+  'voice.tapToStart': 'Toca para começar a praticar',
+  'chat.empty': 'Ainda não foi dito nada',
+  'chat.tutor': 'Tutor',
+  'chat.you': 'Tu',
+  'quota.reached': 'Chegaste ao limite de prática de hoje — bom trabalho! O teu tutor volta a estar disponível amanhã.',
+  'quota.reopens': 'A prática volta a abrir {time}.',
+  'deck.label': 'Baralho',
+  'deck.allWords': 'Todas as palavras ({count})',
+
+  'test.title': 'Teste de pronúncia',
+  'test.intro': 'Liga-te ao teu tutor de IA para um teste de pronúncia em conversa. O tutor vai guiar-te ao longo do teste.',
+  'test.emptyDeck': 'Este baralho ainda não tem palavras para testar.',
+  'test.noWords': 'Primeiro, adiciona algumas palavras em {language} ao teu vocabulário!',
+  'test.howItWorks': 'Como funciona:',
+  'test.howItWorksBody': 'O teu tutor de IA vai testar a tua pronúncia uma palavra de cada vez. Fala naturalmente quando te for pedido. Podes interromper a qualquer momento e o tutor dá-te comentários detalhados. As palavras com {score}% ou mais passam.',
+  'test.start': 'Começar o teste de conversa',
+  'test.progress': 'Palavra {current} de {total}',
+  'test.currentWord': 'Palavra atual:',
+  'test.hearIt': 'Ouvir',
+  'test.tryAgain': 'Tentar de novo',
+  'test.attempt': 'Tentativa {current} / {max}',
+  'test.end': 'Terminar o teste',
+  'test.score': 'Pontuação: {score}%',
+  'test.greatJob': 'Muito bem! Vamos para a próxima palavra...',
+  'test.complete': 'Teste concluído!',
+  'test.overallScore': 'Pontuação global:',
+  'test.passed': 'Aprovadas: {passed} / {total} palavras',
+  'test.attempts': 'Tentativas: {count}',
+  'test.finish': 'Concluir',
+  'test.stress': 'Acentuação: {feedback}',
+  'test.stressHint': 'verifica que sílaba é acentuada',
+  'test.scoreSources': 'Tutor {tutor}% · Transcrição {transcript}%',
+  'test.heard': '(ouvido «{text}»)',
+  'test.disagreement': 'O tutor e a transcrição não concordam nesta tentativa: vale a pena ouvir de novo.',
+  'test.myAttempts': { one: 'A minha tentativa', other: 'As minhas tentativas' },
+  'test.tutorModel': 'Modelo do tutor',
+
+  'words.title': 'Gestão de palavras',
+  'words.placeholder': 'Escreve uma palavra ou expressão nova...',
+  'words.add': 'Adicionar palavra',
+  'words.alreadyAdded': '«{word}» já está na tua lista: o teu progresso mantém-se',
+  'words.showBulkAdd': 'Mostrar adição em massa',
+  'words.hideBulkAdd': 'Ocultar adição em massa',
+  'words.bulkPlaceholder': 'Escreve várias palavras ou expressões, uma por linha...',
+  'words.addAll': 'Adicionar todas',
+  'words.bulkAdded': '{added} novas adicionadas; {skipped} já estavam na tua lista ou repetidas',
+  'words.yourWords': 'As tuas palavras',
+  'words.showArchived': 'Mostrar arquivadas ({count})',
+  'words.duplicates': {
+    one: '{count} entrada duplica outra palavra (ignorando maiúsculas e acentos)',
+    other: '{count} entradas duplicam outra palavra (ignorando maiúsculas e acentos)'
+  },
+  'words.mergeDuplicates': 'Juntar duplicados',
+  'words.merged': {
+    one: '{count} duplicado junto: o histórico de prática foi combinado',
+    other: '{count} duplicados juntos: o histórico de prática foi combinado'
+  },
+  'words.allWords': 'Todas as palavras',
+  'words.saveDeckName': 'Guardar nome',
+  'words.cancel': 'Cancelar',
+  'words.deckHint': 'As palavras novas são adicionadas a este baralho.',
+  'words.renameDeck': 'Mudar o nome',
+  'words.deleteDeck': 'Eliminar baralho',
+  'words.confirmDeleteDeck': 'Eliminar o baralho «{deck}»? As palavras ficam na tua lista.',
+  'words.empty': 'Ainda não há palavras',
+  'words.emptyDeck': 'Este baralho ainda não tem palavras',
+  'words.allArchived': 'Todas as tuas palavras estão arquivadas',
+  'words.selected': '{count} selecionadas',
+  'words.selectAll': 'Selecionar tudo',
+  'words.deckName': 'Nome do baralho',
+  'words.addToDeck': 'Adicionar ao baralho',
+  'words.removeFromDeck': 'Retirar do baralho',
+  'words.archive': 'Arquivar',
+  'words.restore': 'Restaurar',
+  'words.delete': 'Eliminar',
+  'words.confirmDelete': {
+    one: 'Eliminar esta palavra e o seu progresso? Não é possível anular.',
+    other: 'Eliminar {count} palavras e o seu progresso? Não é possível anular.'
+  },
+  'words.select': 'Selecionar {word}',
+  'words.phrase': 'expressão',
+  'words.archived': '(arquivada)',
+  'words.practices': { one: '{count} prática', other: '{count} práticas' },
+  'words.mastery': '{mastery}% de domínio',
+  'words.edit': 'Editar palavra',
+  'words.restoreHint': 'Voltar a praticar',
+  'words.archiveHint': 'Arquivar: manter, mas deixar de praticar',
+  'words.deleteWord': 'Eliminar palavra',
+
+  'editor.title': 'Editar «{word}»',
+  'editor.autoFill': 'Preencher automaticamente',
+  'editor.autoFillHint': 'Preencher os campos vazios a partir do dicionário',
+  'editor.notInDictionary': 'Não está no dicionário offline',
+  'editor.word': 'Palavra',
+  'editor.clash': '«{word}» já está na tua lista',
+  'editor.decks': 'Baralhos',
+  'editor.decksPlaceholder': 'Unidade 3 - Comida, Viagens',
+  'editor.decksHint': 'Separa os baralhos com vírgulas',
+  'editor.ipa': 'AFI',
+  'editor.partOfSpeech': 'Classe gramatical',
+  'editor.syllables': 'Sílabas',
+  'editor.stress': 'Sílaba tónica',
+  'editor.definition': 'Definição',
+  'editor.example': 'Frase de exemplo',
+  'editor.cancel': 'Cancelar',
+  'editor.save': 'Guardar',
+  'pos.noun': 'substantivo',
+  'pos.verb': 'verbo',
+  'pos.adjective': 'adjetivo',
+  'pos.adverb': 'advérbio',
+  'pos.pronoun': 'pronome',
+  'pos.preposition': 'preposição',
+  'pos.conjunction': 'conjunção',
+  'pos.interjection': 'interjeição',
+  'pos.number': 'numeral',
+  'pos.phrase': 'expressão',
+
+  'stats.totalWords': 'Total de palavras',
+  'stats.mastered': 'Dominadas',
+  'stats.learning': 'A aprender',
+  'stats.todaysPractice': 'Prática de hoje',
+  'stats.streak': 'Sequência',
+  'dashboard.weeklyPractice': 'Prática semanal',
+  'dashboard.sessions': 'Sessões',
+  'dashboard.wordsPracticed': 'Palavras praticadas',
+  'dashboard.masteryLevels': 'Níveis de domínio',
+  'dashboard.words': 'Palavras',
+  'mastery.beginner': 'Principiante',
+  'mastery.learning': 'A aprender',
+  'mastery.proficient': 'Competente',
+  'mastery.mastered': 'Dominada',
+  'dashboard.masteryByDeck': 'Domínio por baralho',
+  'dashboard.deckMastery': '{mastered}/{total} dominadas · média de {average}%',
+  'dashboard.recentSessions': 'Sessões recentes',
+  'dashboard.allSessions': 'Todas as sessões',
+  'dashboard.showRecent': 'Mostrar recentes',
+  'dashboard.showAll': 'Mostrar todas ({count})',
+  'dashboard.wordCount': { one: '{count} palavra', other: '{count} palavras' },
+  'dashboard.minutes': '{count} min',
+  'dashboard.inProgress': 'Em curso',
+  'dashboard.noSessions': 'Ainda não há sessões de prática',
+  'dashboard.sessionWords': 'Palavras: {words}',
+  'dashboard.closeReview': 'Fechar o resumo da sessão',
+
+  'languages.title': 'Línguas',
+  'languages.home': 'Língua materna',
+  'languages.homeHelp': 'As instruções, a ajuda e estes menus vão aparecer nesta língua',
+  'languages.target': 'A aprender',
+  'languages.targetHelp': 'As palavras novas são adicionadas nesta língua, e a prática e os testes usam as suas palavras',
+  'languages.locked': 'Não é possível mudar as línguas durante uma sessão ativa',
+  'recordings.title': 'Gravações',
+  'recordings.description': 'Gravar as minhas sessões de prática para ouvir cada tentativa e compará-la com o tutor. As gravações ficam guardadas com a sessão e só tu as podes ouvir.',
+
+  'import.title': 'Importar e exportar',
+  'import.intro': 'Importa palavras de um CSV, de um baralho do Anki (.apkg), de uma exportação do Anki em texto simples (.txt/.tsv) ou de uma cópia de segurança do Voice Tutor (.json). As exportações incluem o domínio e os calendários de revisão.',
+  'import.backup': 'Cópia de segurança (JSON)',
+  'import.exportWords': 'Palavras (CSV)',
+  'import.exportSessions': 'Sessões (CSV)',
+  'import.chooseFile': 'Escolhe um ficheiro para importar...',
+  'import.columns': 'Colunas',
+  'import.column': 'Coluna {number}',
+  'import.ignore': 'Ignorar',
+  'import.translation': 'Tradução ({language})',
+  'import.field.word': 'Palavra',
+  'import.field.ipa': 'AFI',
+  'import.field.syllables': 'Sílabas',
+  'import.field.stress': 'Sílaba tónica (1, 2, ...)',
+  'import.field.partOfSpeech': 'Classe gramatical',
+  'import.field.definition': 'Definição',
+  'import.field.example': 'Frase de exemplo',
+  'import.field.mastery': '% de domínio',
+  'import.field.practiceCount': 'Número de práticas',
+  'import.field.ease': 'Facilidade SRS',
+  'import.field.interval': 'Intervalo SRS (dias)',
+  'import.field.repetitions': 'Repetições SRS',
+  'import.field.lapses': 'Falhas SRS',
+  'import.field.lastPracticed': 'Última prática',
+  'import.field.dueDate': 'Data de revisão',
+  'import.field.added': 'Data em que foi adicionada',
+  'import.field.archived': 'Arquivada',
+  'import.field.decks': 'Baralhos (separados por ;)',
+  'import.field.tags': 'Etiquetas (como baralhos)',
+  'import.summary': '{new} novas · {duplicate} já na tua lista · {repeated} repetidas · {error} com erros',
+  'import.duplicatesSkipped': '— os duplicados são ignorados',
+  'import.line': 'Linha',
+  'import.word': 'Palavra',
+  'import.details': 'Detalhes',
+  'import.status': 'Estado',
+  'import.status.new': 'Nova',
+  'import.status.duplicate': 'Já adicionada',
+  'import.status.repeated': 'Repetida no ficheiro',
+  'import.status.error': 'Erro',
+  'import.invalidRow': 'Linha inválida',
+  'import.moreRows': { one: '…e mais {count} linha', other: '…e mais {count} linhas' },
+  'import.words': { one: '{count} palavra', other: '{count} palavras' },
+  'import.sessions': { one: '{count} sessão de prática', other: '{count} sessões de prática' },
+  'import.backupSummary': '{words} ({new} novas; as que já estão na tua lista ficam como estão) e {sessions}.',
+  'import.problems': { one: '{count} problema: esta linha será ignorada', other: '{count} problemas: estas linhas serão ignoradas' },
+  'import.errorReport': 'Transferir relatório de erros',
+  'import.errorLine': 'Linha {line}: {message}',
+  'import.cancel': 'Cancelar',
+  'import.import': 'Importar',
+  'import.imported': 'Foram importadas {words} de {file}',
+  'import.importedWithSessions': 'Foram importadas {words} e {sessions} de {file}',
+
+  'sync.title': 'Sincronização com a FlashAcademy',
+  'sync.intro': 'As palavras que aprendes nas lições da FlashAcademy são adicionadas aqui automaticamente, com a data em que as aprendeste. Os teus resultados de prática são enviados à FlashAcademy depois de cada sessão.',
+  'sync.loading': 'A carregar o estado da sincronização...',
+  'sync.notConfigured': 'A sincronização ainda não está configurada neste servidor (precisa de FLASHACADEMY_API_URL e FLASHACADEMY_API_KEY).',
+  'sync.linkIntro': 'Para associar a tua conta, obtém um código de associação na FlashAcademy e introdu-lo aqui. Cada código só funciona uma vez.',
+  'sync.linkCode': 'Código de associação',
+  'sync.link': 'Associar',
+  'sync.account': 'Conta',
+  'sync.lastSynced': 'Última sincronização',
+  'sync.never': 'Nunca',
+  'sync.wordsSynced': 'Palavras sincronizadas',
+  'sync.lastPushed': 'Último envio do domínio',
+  'sync.lastError': 'A última sincronização falhou: {error}',
+  'sync.syncing': 'A sincronizar...',
+  'sync.syncNow': 'Sincronizar agora',
+  'sync.reimport': 'Voltar a importar tudo',
+  'sync.reimportHint': 'Voltar a obter todas as palavras, por exemplo depois de apagares algumas aqui por engano',
+  'sync.unlink': 'Desassociar',
+  'sync.confirmUnlink': 'Desassociar a tua conta da FlashAcademy? As palavras já sincronizadas ficam na tua lista.',
+  'sync.result': '{added}, {pushed}',
+  'sync.added': { one: '{count} palavra nova adicionada', other: '{count} palavras novas adicionadas' },
+  'sync.pushed': { one: '{count} atualização de domínio enviada', other: '{count} atualizações de domínio enviadas' },
+  'sync.linked': { one: 'Associada: {count} palavra adicionada da FlashAcademy', other: 'Associada: {count} palavras adicionadas da FlashAcademy' }
+};
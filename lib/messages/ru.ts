@@ -0,0 +1,333 @@
+import type { Catalog } from './en';
+
+export const ru: Catalog = {
+  'app.tagline': 'Помощник для изучения языков на основе ИИ',
+  'app.signOut': 'Выйти',
+  'app.poweredBy': 'Работает на',
+  'tab.practice': 'Практика',
+  'tab.test': 'Тест',
+  'tab.words': 'Слова',
+  'tab.dashboard': 'Обзор',
+  'tab.settings': 'Настройки',
+  'about.title': 'О приложении',
+  'about.realtime': 'Voice Tutor использует Realtime API от OpenAI для разговорной языковой практики.',
+  'about.flashacademy': 'Система учитывает слова, которые вы выучили на платформе FlashAcademy, и помогает тренировать произношение, словарный запас и разговорные навыки.',
+  'about.features': 'Возможности:',
+  'about.feature.flow': 'Непрерывный разговор — не нужно нажимать запись для каждого слова',
+  'about.feature.modes': 'Три режима практики для разных целей',
+  'about.feature.languages': 'Инструкции и меню на 16 языках',
+  'about.feature.feedback': 'Отзывы о произношении в реальном времени',
+  'about.feature.progress': 'Отслеживание прогресса и статистика',
+  'about.feature.words': 'Управление словами с датой добавления',
+  'about.feature.sync': 'Синхронизация словаря с FlashAcademy',
+
+  'login.signIn': 'Войти',
+  'login.register': 'Создать аккаунт',
+  'login.intro': 'Ваши слова и история занятий сохраняются в вашем аккаунте.',
+  'login.username': 'Имя пользователя',
+  'login.displayName': 'Ваше имя (необязательно)',
+  'login.password': 'Пароль',
+  'login.createAccount': 'Создать аккаунт',
+  'login.toRegister': 'Впервые здесь? Создайте аккаунт',
+  'login.toSignIn': 'Уже есть аккаунт? Войдите',
+  'login.failed': 'Что-то пошло не так',
+
+  'modes.title': 'Режим практики',
+  'modes.locked': 'Режим нельзя сменить во время занятия',
+  'mode.pronunciation': 'Произношение',
+  'mode.pronunciation.description': 'Учитесь произносить слова чётко и правильно',
+  'mode.vocabulary': 'Словарь',
+  'mode.vocabulary.description': 'Изучайте значения слов и их употребление в контексте',
+  'mode.conversation': 'Разговор',
+  'mode.conversation.description': 'Практикуйте естественный разговор с выученными словами',
+  'session.pronunciation': 'Практика произношения',
+  'session.vocabulary': 'Практика словаря',
+  'session.conversation': 'Разговорная практика',
+
+  'session.pronunciation-test': 'Тест произношения',
+
+  'status.listening': 'Слушаю...',
+  'status.connected': 'Подключено',
+  'status.connecting': 'Подключение...',
+  'status.notConnected': 'Нет подключения',
+  'voice.tapToEnd': 'Нажмите, чтобы закончить разговор',
+  'voice.tapToStart': 'Нажмите, чтобы начать практику',
+  'chat.empty': 'Пока ничего не сказано',
+  'chat.tutor': 'Репетитор',
+  'chat.you': 'Вы',
+  'quota.reached': 'Вы достигли сегодняшнего лимита практики — отличная работа! Репетитор снова будет доступен завтра.',
+  'quota.reopens': 'Практика снова будет доступна: {time}.',
+  'deck.label': 'Колода',
+  'deck.allWords': 'Все слова ({count})',
+
+  'test.title': 'Тест произношения',
+  'test.intro': 'Подключитесь к ИИ-репетитору, чтобы пройти тест произношения в форме разговора. Репетитор проведёт вас через весь тест.',
+  'test.emptyDeck': 'В этой колоде пока нет слов для теста.',
+  'test.noWords': 'Сначала добавьте в словарь несколько слов ({language})!',
+  'test.howItWorks': 'Как это работает:',
+  'test.howItWorksBody': 'ИИ-репетитор проверит ваше произношение слово за словом. Говорите естественно, когда вас попросят. Вы можете перебить в любой момент, и репетитор даст подробный отзыв. Слова с оценкой {score}% и выше считаются пройденными.',
+  'test.start': 'Начать разговорный тест',
+  'test.progress': 'Слово {current} из {total}',
+  'test.currentWord': 'Текущее слово:',
+  'test.hearIt': 'Послушать',
+  'test.tryAgain': 'Ещё раз',
+  'test.attempt': 'Попытка {current} / {max}',
+  'test.end': 'Завершить тест',
+  'test.score': 'Оценка: {score}%',
+  'test.greatJob': 'Отлично! Переходим к следующему слову...',
+  'test.complete': 'Тест завершён!',
+  'test.overallScore': 'Общая оценка:',
+  'test.passed': 'Пройдено: {passed} из {total} слов',
+  'test.attempts': 'Попыток: {count}',
+  'test.finish': 'Готово',
+  'test.stress': 'Ударение: {feedback}',
+  'test.stressHint': 'проверьте, на какой слог падает ударение',
+  'test.scoreSources': 'Репетитор {tutor}% · Расшифровка {transcript}%',
+  'test.heard': '(услышано «{text}»)',
+  'test.disagreement': 'Репетитор и расшифровка расходятся в оценке этой попытки — стоит прослушать её ещё раз.',
+  'test.myAttempts': { one: 'Моя попытка', few: 'Мои попытки', many: 'Мои попытки', other: 'Мои попытки' },
+  'test.tutorModel': 'Образец репетитора',
+
+  'words.title': 'Управление словами',
+  'words.placeholder': 'Введите новое слово или фразу...',
+  'words.add': 'Добавить слово',
+  'words.alreadyAdded': '«{word}» уже есть в вашем списке — прогресс сохранён',
+  'words.showBulkAdd': 'Показать массовое добавление',
+  'words.hideBulkAdd': 'Скрыть массовое добавление',
+  'words.bulkPlaceholder': 'Введите несколько слов или фраз, по одной в строке...',
+  'words.addAll': 'Добавить все',
+  'words.bulkAdded': 'Добавлено новых: {added}; уже были в списке или повторялись: {skipped}',
+  'words.yourWords': 'Ваши слова',
+  'words.showArchived': 'Показать архивные ({count})',
+  'words.duplicates': {
+    one: '{count} запись повторяет другое слово (без учёта регистра и диакритики)',
+    few: '{count} записи повторяют другое слово (без учёта регистра и диакритики)',
+    many: '{count} записей повторяют другое слово (без учёта регистра и диакритики)',
+    other: '{count} записи повторяют другое слово (без учёта регистра и диакритики)'
+  },
+  'words.mergeDuplicates': 'Объединить дубликаты',
+  'words.merged': {
+    one: 'Объединён {count} дубликат — история практики объединена',
+    few: 'Объединено {count} дубликата — история практики объединена',
+    many: 'Объединено {count} дубликатов — история практики объединена',
+    other: 'Объединено {count} дубликата — история практики объединена'
+  },
+  'words.allWords': 'Все слова',
+  'words.saveDeckName': 'Сохранить название',
+  'words.cancel': 'Отмена',
+  'words.deckHint': 'Новые слова добавляются в эту колоду.',
+  'words.renameDeck': 'Переименовать',
+  'words.deleteDeck': 'Удалить колоду',
+  'words.confirmDeleteDeck': 'Удалить колоду «{deck}»? Слова останутся в вашем списке.',
+  'words.empty': 'Слов пока нет',
+  'words.emptyDeck': 'В этой колоде пока нет слов',
+  'words.allArchived': 'Все ваши слова в архиве',
+  'words.selected': 'Выбрано: {count}',
+  'words.selectAll': 'Выбрать все',
+  'words.deckName': 'Название колоды',
+  'words.addToDeck': 'Добавить в колоду',
+  'words.removeFromDeck': 'Убрать из колоды',
+  'words.archive': 'В архив',
+  'words.restore': 'Восстановить',
+  'words.delete': 'Удалить',
+  'words.confirmDelete': {
+    one: 'Удалить {count} слово и его прогресс? Это действие нельзя отменить.',
+    few: 'Удалить {count} слова и их прогресс? Это действие нельзя отменить.',
+    many: 'Удалить {count} слов и их прогресс? Это действие нельзя отменить.',
+    other: 'Удалить {count} слова и их прогресс? Это действие нельзя отменить.'
+  },
+  'words.select': 'Выбрать «{word}»',
+  'words.phrase': 'фраза',
+  'words.archived': '(в архиве)',
+  'words.practices': {
+    one: '{count} повторение',
+    few: '{count} повторения',
+    many: '{count} повторений',
+    other: '{count} повторения'
+  },
+  'words.mastery': 'Освоено на {mastery}%',
+  'words.edit': 'Изменить слово',
+  'words.restoreHint': 'Вернуть в практику',
+  'words.archiveHint': 'В архив — сохранить, но больше не практиковать',
+  'words.deleteWord': 'Удалить слово',
+
+  'editor.title': 'Изменить «{word}»',
+  'editor.autoFill': 'Заполнить',
+  'editor.autoFillHint': 'Заполнить пустые поля из словаря',
+  'editor.notInDictionary': 'Нет в офлайн-словаре',
+  'editor.word': 'Слово',
+  'editor.clash': '«{word}» уже есть в вашем списке',
+  'editor.decks': 'Колоды',
+  'editor.decksPlaceholder': 'Урок 3 - Еда, Путешествия',
+  'editor.decksHint': 'Разделяйте колоды запятыми',
+  'editor.ipa': 'МФА',
+  'editor.partOfSpeech': 'Часть речи',
+  'editor.syllables': 'Слоги',
+  'editor.stress': 'Ударный слог',
+  'editor.definition': 'Определение',
+  'editor.example': 'Пример предложения',
+  'editor.cancel': 'Отмена',
+  'editor.save': 'Сохранить',
+  'pos.noun': 'существительное',
+  'pos.verb': 'глагол',
+  'pos.adjective': 'прилагательное',
+  'pos.adverb': 'наречие',
+  'pos.pronoun': 'местоимение',
+  'pos.preposition': 'предлог',
+  'pos.conjunction': 'союз',
+  'pos.interjection': 'междометие',
+  'pos.number': 'числительное',
+  'pos.phrase': 'фраза',
+
+  'stats.totalWords': 'Всего слов',
+  'stats.mastered': 'Освоено',
+  'stats.learning': 'Изучаются',
+  'stats.todaysPractice': 'Практика сегодня',
+  'stats.streak': 'Серия',
+  'dashboard.weeklyPractice': 'Практика за неделю',
+  'dashboard.sessions': 'Занятия',
+  'dashboard.wordsPracticed': 'Слов отработано',
+  'dashboard.masteryLevels': 'Уровни освоения',
+  'dashboard.words': 'Слова',
+  'mastery.beginner': 'Начальный',
+  'mastery.learning': 'Изучается',
+  'mastery.proficient': 'Уверенный',
+  'mastery.mastered': 'Освоено',
+  'dashboard.masteryByDeck': 'Освоение по колодам',
+  'dashboard.deckMastery': 'Освоено {mastered}/{total} · в среднем {average}%',
+  'dashboard.recentSessions': 'Недавние занятия',
+  'dashboard.allSessions': 'Все занятия',
+  'dashboard.showRecent': 'Показать недавние',
+  'dashboard.showAll': 'Показать все ({count})',
+  'dashboard.wordCount': {
+    one: '{count} слово',
+    few: '{count} слова',
+    many: '{count} слов',
+    other: '{count} слова'
+  },
+  'dashboard.minutes': '{count} мин',
+  'dashboard.inProgress': 'Идёт',
+  'dashboard.noSessions': 'Занятий пока нет',
+  'dashboard.sessionWords': 'Слова: {words}',
+  'dashboard.closeReview': 'Закрыть обзор занятия',
+
+  'languages.title': 'Языки',
+  'languages.home': 'Родной язык',
+  'languages.homeHelp': 'Инструкции, подсказки и эти меню будут на этом языке',
+  'languages.target': 'Изучаю',
+  'languages.targetHelp': 'Новые слова добавляются на этом языке, а практика и тесты используют его слова',
+  'languages.locked': 'Языки нельзя сменить во время занятия',
+  'recordings.title': 'Записи',
+  'recordings.description': 'Записывать мои занятия, чтобы можно было переслушать каждую попытку и сравнить её с репетитором. Записи хранятся вместе с занятием, и прослушать их можете только вы.',
+
+  'import.title': 'Импорт и экспорт',
+  'import.intro': 'Импортируйте слова из CSV, колоды Anki (.apkg), текстового экспорта Anki (.txt/.tsv) или резервной копии Voice Tutor (.json). Экспорт включает уровень освоения и расписание повторений.',
+  'import.backup': 'Резервная копия (JSON)',
+  'import.exportWords': 'Слова (CSV)',
+  'import.exportSessions': 'Занятия (CSV)',
+  'import.chooseFile': 'Выберите файл для импорта...',
+  'import.columns': 'Столбцы',
+  'import.column': 'Столбец {number}',
+  'import.ignore': 'Пропустить',
+  'import.translation': 'Перевод ({language})',
+  'import.field.word': 'Слово',
+  'import.field.ipa': 'МФА',
+  'import.field.syllables': 'Слоги',
+  'import.field.stress': 'Ударный слог (1, 2, ...)',
+  'import.field.partOfSpeech': 'Часть речи',
+  'import.field.definition': 'Определение',
+  'import.field.example': 'Пример предложения',
+  'import.field.mastery': 'Освоение, %',
+  'import.field.practiceCount': 'Число повторений',
+  'import.field.ease': 'Лёгкость (SRS)',
+  'import.field.interval': 'Интервал SRS (дни)',
+  'import.field.repetitions': 'Повторения SRS',
+  'import.field.lapses': 'Забывания SRS',
+  'import.field.lastPracticed': 'Последняя практика',
+  'import.field.dueDate': 'Дата повторения',
+  'import.field.added': 'Дата добавления',
+  'import.field.archived': 'В архиве',
+  'import.field.decks': 'Колоды (через ;)',
+  'import.field.tags': 'Теги (как колоды)',
+  'import.summary': 'Новых: {new} · уже в списке: {duplicate} · повторов: {repeated} · с ошибками: {error}',
+  'import.duplicatesSkipped': '— дубликаты пропускаются',
+  'import.line': 'Строка',
+  'import.word': 'Слово',
+  'import.details': 'Подробности',
+  'import.status': 'Статус',
+  'import.status.new': 'Новое',
+  'import.status.duplicate': 'Уже добавлено',
+  'import.status.repeated': 'Повтор в файле',
+  'import.status.error': 'Ошибка',
+  'import.invalidRow': 'Некорректная строка',
+  'import.moreRows': {
+    one: '…и ещё {count} строка',
+    few: '…и ещё {count} строки',
+    many: '…и ещё {count} строк',
+    other: '…и ещё {count} строки'
+  },
+  'import.words': {
+    one: '{count} слово',
+    few: '{count} слова',
+    many: '{count} слов',
+    other: '{count} слова'
+  },
+  'import.sessions': {
+    one: '{count} занятие',
+    few: '{count} занятия',
+    many: '{count} занятий',
+    other: '{count} занятия'
+  },
+  'import.backupSummary': '{words} (новых: {new}, остальные уже есть в списке и останутся без изменений) и {sessions}.',
+  'import.problems': {
+    one: '{count} проблема — строки с ошибками будут пропущены',
+    few: '{count} проблемы — строки с ошибками будут пропущены',
+    many: '{count} проблем — строки с ошибками будут пропущены',
+    other: '{count} проблемы — строки с ошибками будут пропущены'
+  },
+  'import.errorReport': 'Скачать отчёт об ошибках',
+  'import.errorLine': 'Строка {line}: {message}',
+  'import.cancel': 'Отмена',
+  'import.import': 'Импортировать',
+  'import.imported': 'Импортировано из {file}: {words}',
+  'import.importedWithSessions': 'Импортировано из {file}: {words} и {sessions}',
+
+  'sync.title': 'Синхронизация с FlashAcademy',
+  'sync.intro': 'Слова, которые вы учите на уроках FlashAcademy, автоматически добавляются сюда с датой, когда вы их выучили. Результаты практики отправляются в FlashAcademy после каждого занятия.',
+  'sync.loading': 'Загрузка состояния синхронизации...',
+  'sync.notConfigured': 'Синхронизация на этом сервере ещё не настроена (нужны FLASHACADEMY_API_URL и FLASHACADEMY_API_KEY).',
+  'sync.linkIntro': 'Чтобы привязать аккаунт, получите код привязки в FlashAcademy и введите его здесь. Каждый код действует один раз.',
+  'sync.linkCode': 'Код привязки',
+  'sync.link': 'Привязать',
+  'sync.account': 'Аккаунт',
+  'sync.lastSynced': 'Последняя синхронизация',
+  'sync.never': 'Никогда',
+  'sync.wordsSynced': 'Синхронизировано слов',
+  'sync.lastPushed': 'Освоение отправлено',
+  'sync.lastError': 'Последняя синхронизация не удалась: {error}',
+  'sync.syncing': 'Синхронизация...',
+  'sync.syncNow': 'Синхронизировать',
+  'sync.reimport': 'Импортировать всё заново',
+  'sync.reimportHint': 'Заново получить все слова, например если вы случайно удалили некоторые здесь',
+  'sync.unlink': 'Отвязать',
+  'sync.confirmUnlink': 'Отвязать аккаунт FlashAcademy? Уже синхронизированные слова останутся в вашем списке.',
+  'sync.result': '{added}, {pushed}',
+  'sync.added': {
+    one: 'добавлено {count} новое слово',
+    few: 'добавлено {count} новых слова',
+    many: 'добавлено {count} новых слов',
+    other: 'добавлено {count} нового слова'
+  },
+  'sync.pushed': {
+    one: 'отправлено {count} обновление освоения',
+    few: 'отправлено {count} обновления освоения',
+    many: 'отправлено {count} обновлений освоения',
+    other: 'отправлено {count} обновления освоения'
+  },
+  'sync.linked': {
+    one: 'Аккаунт привязан — из FlashAcademy добавлено {count} слово',
+    few: 'Аккаунт привязан — из FlashAcademy добавлено {count} слова',
+    many: 'Аккаунт привязан — из FlashAcademy добавлено {count} слов',
+    other: 'Аккаунт привязан — из FlashAcademy добавлено {count} слова'
+  }
+};
@@ -0,0 +1,282 @@
+import type { Catalog } from './en';
+
+export const sv: Catalog = {
+  'app.tagline': 'AI-driven assistent för språkinlärning',
+  'app.signOut': 'Logga ut',
+  'app.poweredBy': 'Drivs av',
+  'tab.practice': 'Öva',
+  'tab.test': 'Test',
+  'tab.words': 'Ord',
+  'tab.dashboard': 'Översikt',
+  'tab.settings': 'Inställningar',
+  'about.title': 'Om',
+  'about.realtime': 'Voice Tutor använder OpenAI:s Realtime API för att erbjuda språkövning genom samtal.',
+  'about.flashacademy': 'Systemet utgår från orden du har lärt dig på FlashAcademy och hjälper dig att öva uttal, ordförråd och samtalsförmåga.',
+  'about.features': 'Funktioner:',
+  'about.feature.flow': 'Sammanhängande samtal – du behöver inte trycka på spela in för varje ord',
+  'about.feature.modes': 'Tre övningslägen för olika inlärningsmål',
+  'about.feature.languages': 'Instruktioner och menyer på 16 språk',
+  'about.feature.feedback': 'Uttalsåterkoppling i realtid',
+  'about.feature.progress': 'Uppföljning av framsteg och statistik',
+  'about.feature.words': 'Ordhantering med tidpunkt för tillägg',
+  'about.feature.sync': 'Synkronisering av ordförråd med FlashAcademy',
+
+  'login.signIn': 'Logga in',
+  'login.register': 'Skapa ett konto',
+  'login.intro': 'Dina ord och din övningshistorik sparas i ditt konto.',
+  'login.username': 'Användarnamn',
+  'login.displayName': 'Ditt namn (valfritt)',
+  'login.password': 'Lösenord',
+  'login.createAccount': 'Skapa konto',
+  'login.toRegister': 'Ny här? Skapa ett konto',
+  'login.toSignIn': 'Har du redan ett konto? Logga in',
+  'login.failed': 'Något gick fel',
+
+  'modes.title': 'Övningsläge',
+  'modes.locked': 'Läget kan inte ändras under en pågående session',
+  'mode.pronunciation': 'Uttal',
+  'mode.pronunciation.description': 'Fokusera på att säga orden tydligt och korrekt',
+  'mode.vocabulary': 'Ordförråd',
+  'mode.vocabulary.description': 'Lär dig ordens betydelse och hur de används i sitt sammanhang',
+  'mode.conversation': 'Samtal',
+  'mode.conversation.description': 'Öva naturliga samtal med orden du har lärt dig',
+  'session.pronunciation': 'Uttalsövning',
+  'session.vocabulary': 'Ordförrådsövning',
+  'session.conversation': 'Samtalsövning',
+
+  'session.pronunciation-test': 'Uttalstest',
+
+  'status.listening': 'Lyssnar...',
+  'status.connected': 'Ansluten',
+  'status.connecting': 'Ansluter...',
+  'status.notConnected': 'Inte ansluten',
+  'voice.tapToEnd': 'Tryck för att avsluta samtalet',
+  'voice.tapToStart': 'Tryck för att börja öva',
+  'chat.empty': 'Inget har sagts ännu',
+  'chat.tutor': 'Lärare',
+  'chat.you': 'Du',
+  'quota.reached': 'Du har nått dagens övningsgräns – bra jobbat! Din lärare finns här igen i morgon.',
+  'quota.reopens': 'Övningen öppnar igen {time}.',
+  'deck.label': 'Kortlek',
+  'deck.allWords': 'Alla ord ({count})',
+
+  'test.title': 'Uttalstest',
+  'test.intro': 'Anslut till din AI-lärare för ett uttalstest i samtalsform. Läraren guidar dig genom testet.',
+  'test.emptyDeck': 'Den här kortleken har inga ord att testa ännu.',
+  'test.noWords': 'Lägg först till några ord på {language} i ditt ordförråd!',
+  'test.howItWorks': 'Så fungerar det:',
+  'test.howItWorksBody': 'Din AI-lärare testar ditt uttal ord för ord. Prata naturligt när du blir ombedd. Du kan avbryta när som helst, och läraren ger dig utförlig återkoppling. Ord med {score} % eller mer är godkända.',
+  'test.start': 'Starta samtalstestet',
+  'test.progress': 'Ord {current} av {total}',
+  'test.currentWord': 'Aktuellt ord:',
+  'test.hearIt': 'Lyssna',
+  'test.tryAgain': 'Försök igen',
+  'test.attempt': 'Försök {current} / {max}',
+  'test.end': 'Avsluta testet',
+  'test.score': 'Poäng: {score} %',
+  'test.greatJob': 'Bra jobbat! Vi går vidare till nästa ord...',
+  'test.complete': 'Testet är klart!',
+  'test.overallScore': 'Totalpoäng:',
+  'test.passed': 'Godkända: {passed} / {total} ord',
+  'test.attempts': 'Försök: {count}',
+  'test.finish': 'Avsluta',
+  'test.stress': 'Betoning: {feedback}',
+  'test.stressHint': 'kontrollera vilken stavelse som betonas',
+  'test.scoreSources': 'Lärare {tutor} % · Transkription {transcript} %',
+  'test.heard': '(hördes ”{text}”)',
+  'test.disagreement': 'Läraren och transkriptionen är oeniga om det här försöket – lyssna gärna igen.',
+  'test.myAttempts': { one: 'Mitt försök', other: 'Mina försök' },
+  'test.tutorModel': 'Lärarens förebild',
+
+  'words.title': 'Ordhantering',
+  'words.placeholder': 'Skriv ett nytt ord eller uttryck...',
+  'words.add': 'Lägg till ord',
+  'words.alreadyAdded': '”{word}” finns redan i din lista – dina framsteg sparas',
+  'words.showBulkAdd': 'Visa lägg till flera',
+  'words.hideBulkAdd': 'Dölj lägg till flera',
+  'words.bulkPlaceholder': 'Skriv flera ord eller uttryck, ett per rad...',
+  'words.addAll': 'Lägg till alla',
+  'words.bulkAdded': '{added} nya tillagda; {skipped} fanns redan i listan eller var upprepade',
+  'words.yourWords': 'Dina ord',
+  'words.showArchived': 'Visa arkiverade ({count})',
+  'words.duplicates': {
+    one: '{count} post är en dubblett av ett annat ord (oavsett versaler och accenter)',
+    other: '{count} poster är dubbletter av ett annat ord (oavsett versaler och accenter)'
+  },
+  'words.mergeDuplicates': 'Slå ihop dubbletter',
+  'words.merged': {
+    one: '{count} dubblett sammanslagen – övningshistoriken har kombinerats',
+    other: '{count} dubbletter sammanslagna – övningshistoriken har kombinerats'
+  },
+  'words.allWords': 'Alla ord',
+  'words.saveDeckName': 'Spara namn',
+  'words.cancel': 'Avbryt',
+  'words.deckHint': 'Nya ord läggs till i den här kortleken.',
+  'words.renameDeck': 'Byt namn',
+  'words.deleteDeck': 'Ta bort kortlek',
+  'words.confirmDeleteDeck': 'Ta bort kortleken ”{deck}”? Orden finns kvar i din lista.',
+  'words.empty': 'Inga ord tillagda ännu',
+  'words.emptyDeck': 'Inga ord i den här kortleken ännu',
+  'words.allArchived': 'Alla dina ord är arkiverade',
+  'words.selected': '{count} markerade',
+  'words.selectAll': 'Markera alla',
+  'words.deckName': 'Kortlekens namn',
+  'words.addToDeck': 'Lägg till i kortlek',
+  'words.removeFromDeck': 'Ta bort från kortlek',
+  'words.archive': 'Arkivera',
+  'words.restore': 'Återställ',
+  'words.delete': 'Ta bort',
+  'words.confirmDelete': {
+    one: 'Ta bort det här ordet och dess framsteg? Det går inte att ångra.',
+    other: 'Ta bort {count} ord och deras framsteg? Det går inte att ångra.'
+  },
+  'words.select': 'Markera {word}',
+  'words.phrase': 'uttryck',
+  'words.archived': '(arkiverat)',
+  'words.practices': { one: '{count} övning', other: '{count} övningar' },
+  'words.mastery': '{mastery} % behärskat',
+  'words.edit': 'Redigera ord',
+  'words.restoreHint': 'Öva på det igen',
+  'words.archiveHint': 'Arkivera – behåll men sluta öva',
+  'words.deleteWord': 'Ta bort ord',
+
+  'editor.title': 'Redigera ”{word}”',
+  'editor.autoFill': 'Fyll i automatiskt',
+  'editor.autoFillHint': 'Fyll i tomma fält från ordboken',
+  'editor.notInDictionary': 'Finns inte i offlineordboken',
+  'editor.word': 'Ord',
+  'editor.clash': '”{word}” finns redan i din lista',
+  'editor.decks': 'Kortlekar',
+  'editor.decksPlaceholder': 'Kapitel 3 – Mat, Resor',
+  'editor.decksHint': 'Skilj kortlekar åt med kommatecken',
+  'editor.ipa': 'IPA',
+  'editor.partOfSpeech': 'Ordklass',
+  'editor.syllables': 'Stavelser',
+  'editor.stress': 'Betonad stavelse',
+  'editor.definition': 'Betydelse',
+  'editor.example': 'Exempelmening',
+  'editor.cancel': 'Avbryt',
+  'editor.save': 'Spara',
+  'pos.noun': 'substantiv',
+  'pos.verb': 'verb',
+  'pos.adjective': 'adjektiv',
+  'pos.adverb': 'adverb',
+  'pos.pronoun': 'pronomen',
+  'pos.preposition': 'preposition',
+  'pos.conjunction': 'konjunktion',
+  'pos.interjection': 'interjektion',
+  'pos.number': 'räkneord',
+  'pos.phrase': 'uttryck',
+
+  'stats.totalWords': 'Ord totalt',
+  'stats.mastered': 'Behärskade',
+  'stats.learning': 'Lär mig',
+  'stats.todaysPractice': 'Dagens övning',
+  'stats.streak': 'Svit',
+  'dashboard.weeklyPractice': 'Veckans övning',
+  'dashboard.sessions': 'Sessioner',
+  'dashboard.wordsPracticed': 'Övade ord',
+  'dashboard.masteryLevels': 'Behärskningsnivåer',
+  'dashboard.words': 'Ord',
+  'mastery.beginner': 'Nybörjare',
+  'mastery.learning': 'Lär mig',
+  'mastery.proficient': 'Säker',
+  'mastery.mastered': 'Behärskat',
+  'dashboard.masteryByDeck': 'Behärskning per kortlek',
+  'dashboard.deckMastery': '{mastered}/{total} behärskade · i snitt {average} %',
+  'dashboard.recentSessions': 'Senaste sessionerna',
+  'dashboard.allSessions': 'Alla sessioner',
+  'dashboard.showRecent': 'Visa senaste',
+  'dashboard.showAll': 'Visa alla {count}',
+  'dashboard.wordCount': { one: '{count} ord', other: '{count} ord' },
+  'dashboard.minutes': '{count} min',
+  'dashboard.inProgress': 'Pågår',
+  'dashboard.noSessions': 'Inga övningssessioner ännu',
+  'dashboard.sessionWords': 'Ord: {words}',
+  'dashboard.closeReview': 'Stäng sessionsgenomgången',
+
+  'languages.title': 'Språk',
+  'languages.home': 'Modersmål',
+  'languages.homeHelp': 'Instruktioner, hjälp och de här menyerna visas på det här språket',
+  'languages.target': 'Jag lär mig',
+  'languages.targetHelp': 'Nya ord läggs till på det här språket, och övningar och test använder dess ord',
+  'languages.locked': 'Språken kan inte ändras under en pågående session',
+  'recordings.title': 'Inspelningar',
+  'recordings.description': 'Spela in mina övningssessioner så att jag kan lyssna på varje försök igen och jämföra det med läraren. Inspelningarna sparas med sessionen och bara du kan spela upp dem.',
+
+  'import.title': 'Import och export',
+  'import.intro': 'Importera ord från en CSV-fil, en Anki-kortlek (.apkg), en Anki-export i klartext (.txt/.tsv) eller en säkerhetskopia från Voice Tutor (.json). Exporterna innehåller behärskning och repetitionsscheman.',
+  'import.backup': 'Säkerhetskopia (JSON)',
+  'import.exportWords': 'Ord (CSV)',
+  'import.exportSessions': 'Sessioner (CSV)',
+  'import.chooseFile': 'Välj en fil att importera...',
+  'import.columns': 'Kolumner',
+  'import.column': 'Kolumn {number}',
+  'import.ignore': 'Ignorera',
+  'import.translation': 'Översättning ({language})',
+  'import.field.word': 'Ord',
+  'import.field.ipa': 'IPA',
+  'import.field.syllables': 'Stavelser',
+  'import.field.stress': 'Betonad stavelse (1, 2, ...)',
+  'import.field.partOfSpeech': 'Ordklass',
+  'import.field.definition': 'Betydelse',
+  'import.field.example': 'Exempelmening',
+  'import.field.mastery': 'Behärskning %',
+  'import.field.practiceCount': 'Antal övningar',
+  'import.field.ease': 'SRS-lätthet',
+  'import.field.interval': 'SRS-intervall (dagar)',
+  'import.field.repetitions': 'SRS-repetitioner',
+  'import.field.lapses': 'SRS-missar',
+  'import.field.lastPracticed': 'Senast övat',
+  'import.field.dueDate': 'Repeteras',
+  'import.field.added': 'Tillagt',
+  'import.field.archived': 'Arkiverat',
+  'import.field.decks': 'Kortlekar (åtskilda med ;)',
+  'import.field.tags': 'Taggar (som kortlekar)',
+  'import.summary': '{new} nya · {duplicate} redan i din lista · {repeated} upprepade · {error} med fel',
+  'import.duplicatesSkipped': '– dubbletter hoppas över',
+  'import.line': 'Rad',
+  'import.word': 'Ord',
+  'import.details': 'Detaljer',
+  'import.status': 'Status',
+  'import.status.new': 'Ny',
+  'import.status.duplicate': 'Redan tillagd',
+  'import.status.repeated': 'Upprepad i filen',
+  'import.status.error': 'Fel',
+  'import.invalidRow': 'Ogiltig rad',
+  'import.moreRows': { one: '…och {count} rad till', other: '…och {count} rader till' },
+  'import.words': { one: '{count} ord', other: '{count} ord' },
+  'import.sessions': { one: '{count} övningssession', other: '{count} övningssessioner' },
+  'import.backupSummary': '{words} ({new} nya, resten finns redan i din lista och behålls som de är) och {sessions}.',
+  'import.problems': { one: '{count} problem – den här raden hoppas över', other: '{count} problem – de här raderna hoppas över' },
+  'import.errorReport': 'Ladda ned felrapport',
+  'import.errorLine': 'Rad {line}: {message}',
+  'import.cancel': 'Avbryt',
+  'import.import': 'Importera',
+  'import.imported': 'Importerade {words} från {file}',
+  'import.importedWithSessions': 'Importerade {words} och {sessions} från {file}',
+
+  'sync.title': 'FlashAcademy-synkning',
+  'sync.intro': 'Ord som du lär dig på FlashAcademy-lektioner läggs till här automatiskt, med datumet då du lärde dig dem. Dina övningsresultat skickas tillbaka till FlashAcademy efter varje session.',
+  'sync.loading': 'Läser in synkstatus...',
+  'sync.notConfigured': 'Synkning är inte konfigurerad på den här servern än (den behöver FLASHACADEMY_API_URL och FLASHACADEMY_API_KEY).',
+  'sync.linkIntro': 'Länka ditt konto genom att hämta en länkkod från FlashAcademy och ange den här. Varje kod fungerar en gång.',
+  'sync.linkCode': 'Länkkod',
+  'sync.link': 'Länka',
+  'sync.account': 'Konto',
+  'sync.lastSynced': 'Senast synkad',
+  'sync.never': 'Aldrig',
+  'sync.wordsSynced': 'Synkade ord',
+  'sync.lastPushed': 'Behärskning senast skickad',
+  'sync.lastError': 'Senaste synkningen misslyckades: {error}',
+  'sync.syncing': 'Synkar...',
+  'sync.syncNow': 'Synka nu',
+  'sync.reimport': 'Importera allt igen',
+  'sync.reimportHint': 'Hämta alla ord igen, t.ex. om du har tagit bort några här av misstag',
+  'sync.unlink': 'Ta bort länk',
+  'sync.confirmUnlink': 'Ta bort länken till ditt FlashAcademy-konto? Ord som redan har synkats finns kvar i din lista.',
+  'sync.result': '{added}, {pushed}',
+  'sync.added': { one: '{count} nytt ord tillagt', other: '{count} nya ord tillagda' },
+  'sync.pushed': { one: '{count} behärskningsuppdatering skickad', other: '{count} behärskningsuppdateringar skickade' },
+  'sync.linked': { one: 'Länkat – {count} ord tillagt från FlashAcademy', other: 'Länkat – {count} ord tillagda från FlashAcademy' }
+};
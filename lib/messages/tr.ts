@@ -0,0 +1,282 @@
+import type { Catalog } from './en';
+
+export const tr: Catalog = {
+  'app.tagline': 'Yapay zekâ destekli dil öğrenme asistanı',
+  'app.signOut': 'Çıkış yap',
+  'app.poweredBy': 'Altyapı',
+  'tab.practice': 'Pratik',
+  'tab.test': 'Test',
+  'tab.words': 'Kelimeler',
+  'tab.dashboard': 'Panel',
+  'tab.settings': 'Ayarlar',
+  'about.title': 'Hakkında',
+  'about.realtime': "Voice Tutor, konuşmaya dayalı dil pratiği sunmak için OpenAI'nin Realtime API'sini kullanır.",
+  'about.flashacademy': "Sistem, FlashAcademy platformunda öğrendiğin kelimeleri takip eder ve telaffuz, kelime bilgisi ve konuşma becerilerini çalışmana yardım eder.",
+  'about.features': 'Özellikler:',
+  'about.feature.flow': 'Kesintisiz konuşma — her kelime için kayda basmana gerek yok',
+  'about.feature.modes': 'Farklı hedeflere uygun üç pratik modu',
+  'about.feature.languages': '16 dilde talimatlar ve menüler',
+  'about.feature.feedback': 'Anlık telaffuz geri bildirimi',
+  'about.feature.progress': 'İlerleme takibi ve istatistikler',
+  'about.feature.words': 'Eklenme zamanıyla kelime yönetimi',
+  'about.feature.sync': 'FlashAcademy ile kelime senkronizasyonu',
+
+  'login.signIn': 'Giriş yap',
+  'login.register': 'Hesap oluştur',
+  'login.intro': 'Kelimelerin ve pratik geçmişin hesabına kaydedilir.',
+  'login.username': 'Kullanıcı adı',
+  'login.displayName': 'Adın (isteğe bağlı)',
+  'login.password': 'Şifre',
+  'login.createAccount': 'Hesap oluştur',
+  'login.toRegister': 'Yeni misin? Hesap oluştur',
+  'login.toSignIn': 'Zaten hesabın var mı? Giriş yap',
+  'login.failed': 'Bir şeyler ters gitti',
+
+  'modes.title': 'Pratik modu',
+  'modes.locked': 'Oturum sürerken mod değiştirilemez',
+  'mode.pronunciation': 'Telaffuz',
+  'mode.pronunciation.description': 'Kelimeleri açık ve doğru söylemeye odaklan',
+  'mode.vocabulary': 'Kelime bilgisi',
+  'mode.vocabulary.description': 'Kelimelerin anlamını ve bağlam içindeki kullanımını öğren',
+  'mode.conversation': 'Konuşma',
+  'mode.conversation.description': 'Öğrendiğin kelimelerle doğal konuşma pratiği yap',
+  'session.pronunciation': 'Telaffuz pratiği',
+  'session.vocabulary': 'Kelime pratiği',
+  'session.conversation': 'Konuşma pratiği',
+
+  'session.pronunciation-test': 'Telaffuz testi',
+
+  'status.listening': 'Dinleniyor...',
+  'status.connected': 'Bağlandı',
+  'status.connecting': 'Bağlanıyor...',
+  'status.notConnected': 'Bağlı değil',
+  'voice.tapToEnd': 'Konuşmayı bitirmek için dokun',
+  'voice.tapToStart': 'Pratiğe başlamak için dokun',
+  'chat.empty': 'Henüz bir şey söylenmedi',
+  'chat.tutor': 'Eğitmen',
+  'chat.you': 'Sen',
+  'quota.reached': 'Bugünkü pratik sınırına ulaştın, harika iş çıkardın! Eğitmenin yarın yeniden hazır olacak.',
+  'quota.reopens': 'Pratik yeniden açılıyor: {time}.',
+  'deck.label': 'Deste',
+  'deck.allWords': 'Tüm kelimeler ({count})',
+
+  'test.title': 'Telaffuz testi',
+  'test.intro': 'Konuşma şeklinde bir telaffuz testi için yapay zekâ eğitmeninle bağlan. Eğitmenin test boyunca sana yol gösterecek.',
+  'test.emptyDeck': 'Bu destede henüz test edilecek kelime yok.',
+  'test.noWords': 'Önce kelime listene birkaç {language} kelime ekle!',
+  'test.howItWorks': 'Nasıl çalışır:',
+  'test.howItWorksBody': 'Yapay zekâ eğitmenin telaffuzunu kelime kelime test eder. İstendiğinde doğal şekilde konuş. İstediğin zaman araya girebilirsin; eğitmen ayrıntılı geri bildirim verir. %{score} ve üzeri alan kelimeler geçer.',
+  'test.start': 'Konuşma testini başlat',
+  'test.progress': 'Kelime {current} / {total}',
+  'test.currentWord': 'Şu anki kelime:',
+  'test.hearIt': 'Dinle',
+  'test.tryAgain': 'Tekrar dene',
+  'test.attempt': 'Deneme {current} / {max}',
+  'test.end': 'Testi bitir',
+  'test.score': 'Puan: %{score}',
+  'test.greatJob': 'Harika! Sıradaki kelimeye geçiyoruz...',
+  'test.complete': 'Test tamamlandı!',
+  'test.overallScore': 'Genel puan:',
+  'test.passed': 'Geçen: {passed} / {total} kelime',
+  'test.attempts': 'Deneme: {count}',
+  'test.finish': 'Bitir',
+  'test.stress': 'Vurgu: {feedback}',
+  'test.stressHint': 'hangi hecenin vurgulandığını kontrol et',
+  'test.scoreSources': 'Eğitmen %{tutor} · Döküm %{transcript}',
+  'test.heard': '("{text}" duyuldu)',
+  'test.disagreement': 'Eğitmen ve döküm bu denemede aynı fikirde değil — yeniden dinlemeye değer.',
+  'test.myAttempts': { one: 'Denemem', other: 'Denemelerim' },
+  'test.tutorModel': 'Eğitmenin örneği',
+
+  'words.title': 'Kelime yönetimi',
+  'words.placeholder': 'Yeni bir kelime veya ifade gir...',
+  'words.add': 'Kelime ekle',
+  'words.alreadyAdded': '"{word}" zaten listende — ilerlemen korunuyor',
+  'words.showBulkAdd': 'Toplu eklemeyi göster',
+  'words.hideBulkAdd': 'Toplu eklemeyi gizle',
+  'words.bulkPlaceholder': 'Her satıra bir tane olacak şekilde birden çok kelime veya ifade gir...',
+  'words.addAll': 'Hepsini ekle',
+  'words.bulkAdded': '{added} yeni kelime eklendi; {skipped} tanesi zaten listendeydi ya da tekrarlanmıştı',
+  'words.yourWords': 'Kelimelerin',
+  'words.showArchived': 'Arşivlenenleri göster ({count})',
+  'words.duplicates': {
+    one: '{count} kayıt başka bir kelimenin tekrarı (büyük/küçük harf ve aksanlar yok sayılır)',
+    other: '{count} kayıt başka bir kelimenin tekrarı (büyük/küçük harf ve aksanlar yok sayılır)'
+  },
+  'words.mergeDuplicates': 'Tekrarları birleştir',
+  'words.merged': {
+    one: '{count} tekrar birleştirildi — pratik geçmişi bir araya getirildi',
+    other: '{count} tekrar birleştirildi — pratik geçmişi bir araya getirildi'
+  },
+  'words.allWords': 'Tüm kelimeler',
+  'words.saveDeckName': 'Adı kaydet',
+  'words.cancel': 'İptal',
+  'words.deckHint': 'Yeni kelimeler bu desteye eklenir.',
+  'words.renameDeck': 'Yeniden adlandır',
+  'words.deleteDeck': 'Desteyi sil',
+  'words.confirmDeleteDeck': '"{deck}" destesi silinsin mi? Kelimeleri listende kalır.',
+  'words.empty': 'Henüz kelime eklenmedi',
+  'words.emptyDeck': 'Bu destede henüz kelime yok',
+  'words.allArchived': 'Tüm kelimelerin arşivlendi',
+  'words.selected': '{count} seçildi',
+  'words.selectAll': 'Tümünü seç',
+  'words.deckName': 'Deste adı',
+  'words.addToDeck': 'Desteye ekle',
+  'words.removeFromDeck': 'Desteden çıkar',
+  'words.archive': 'Arşivle',
+  'words.restore': 'Geri yükle',
+  'words.delete': 'Sil',
+  'words.confirmDelete': {
+    one: 'Bu kelime ve ilerlemesi silinsin mi? Bu işlem geri alınamaz.',
+    other: '{count} kelime ve ilerlemeleri silinsin mi? Bu işlem geri alınamaz.'
+  },
+  'words.select': '{word} kelimesini seç',
+  'words.phrase': 'ifade',
+  'words.archived': '(arşivlendi)',
+  'words.practices': { one: '{count} pratik', other: '{count} pratik' },
+  'words.mastery': '%{mastery} ustalık',
+  'words.edit': 'Kelimeyi düzenle',
+  'words.restoreHint': 'Yeniden pratiğe al',
+  'words.archiveHint': 'Arşivle — sakla ama pratik etmeyi bırak',
+  'words.deleteWord': 'Kelimeyi sil',
+
+  'editor.title': '"{word}" kelimesini düzenle',
+  'editor.autoFill': 'Otomatik doldur',
+  'editor.autoFillHint': 'Boş alanları sözlükten doldur',
+  'editor.notInDictionary': 'Çevrimdışı sözlükte yok',
+  'editor.word': 'Kelime',
+  'editor.clash': '"{word}" zaten listende',
+  'editor.decks': 'Desteler',
+  'editor.decksPlaceholder': 'Ünite 3 - Yemek, Seyahat',
+  'editor.decksHint': 'Desteleri virgülle ayır',
+  'editor.ipa': 'UFA',
+  'editor.partOfSpeech': 'Sözcük türü',
+  'editor.syllables': 'Heceler',
+  'editor.stress': 'Vurgulu hece',
+  'editor.definition': 'Tanım',
+  'editor.example': 'Örnek cümle',
+  'editor.cancel': 'İptal',
+  'editor.save': 'Kaydet',
+  'pos.noun': 'isim',
+  'pos.verb': 'fiil',
+  'pos.adjective': 'sıfat',
+  'pos.adverb': 'zarf',
+  'pos.pronoun': 'zamir',
+  'pos.preposition': 'edat',
+  'pos.conjunction': 'bağlaç',
+  'pos.interjection': 'ünlem',
+  'pos.number': 'sayı',
+  'pos.phrase': 'ifade',
+
+  'stats.totalWords': 'Toplam kelime',
+  'stats.mastered': 'Ustalaşılan',
+  'stats.learning': 'Öğreniliyor',
+  'stats.todaysPractice': 'Bugünkü pratik',
+  'stats.streak': 'Seri',
+  'dashboard.weeklyPractice': 'Haftalık pratik',
+  'dashboard.sessions': 'Oturumlar',
+  'dashboard.wordsPracticed': 'Çalışılan kelimeler',
+  'dashboard.masteryLevels': 'Ustalık seviyeleri',
+  'dashboard.words': 'Kelimeler',
+  'mastery.beginner': 'Başlangıç',
+  'mastery.learning': 'Öğreniliyor',
+  'mastery.proficient': 'Yetkin',
+  'mastery.mastered': 'Ustalaşıldı',
+  'dashboard.masteryByDeck': 'Desteye göre ustalık',
+  'dashboard.deckMastery': '{mastered}/{total} ustalaşıldı · ortalama %{average}',
+  'dashboard.recentSessions': 'Son oturumlar',
+  'dashboard.allSessions': 'Tüm oturumlar',
+  'dashboard.showRecent': 'Sonuncuları göster',
+  'dashboard.showAll': '{count} oturumun hepsini göster',
+  'dashboard.wordCount': { one: '{count} kelime', other: '{count} kelime' },
+  'dashboard.minutes': '{count} dk',
+  'dashboard.inProgress': 'Devam ediyor',
+  'dashboard.noSessions': 'Henüz pratik oturumu yok',
+  'dashboard.sessionWords': 'Kelimeler: {words}',
+  'dashboard.closeReview': 'Oturum özetini kapat',
+
+  'languages.title': 'Diller',
+  'languages.home': 'Ana dil',
+  'languages.homeHelp': 'Talimatlar, yardım ve bu menüler bu dilde olacak',
+  'languages.target': 'Öğrenilen dil',
+  'languages.targetHelp': 'Yeni kelimeler bu dilde eklenir; pratik ve testler bu dilin kelimelerini kullanır',
+  'languages.locked': 'Oturum sürerken diller değiştirilemez',
+  'recordings.title': 'Kayıtlar',
+  'recordings.description': 'Her denemeyi yeniden dinleyip eğitmenle karşılaştırabilmem için pratik oturumlarımı kaydet. Kayıtlar oturumla birlikte saklanır ve yalnızca sen oynatabilirsin.',
+
+  'import.title': 'İçe ve dışa aktarma',
+  'import.intro': 'Kelimeleri bir CSV dosyasından, Anki destesinden (.apkg), Anki düz metin dışa aktarımından (.txt/.tsv) ya da Voice Tutor yedeğinden (.json) içe aktar. Dışa aktarımlar ustalık düzeyini ve tekrar planlarını içerir.',
+  'import.backup': 'Yedek (JSON)',
+  'import.exportWords': 'Kelimeler (CSV)',
+  'import.exportSessions': 'Oturumlar (CSV)',
+  'import.chooseFile': 'İçe aktarılacak dosyayı seç...',
+  'import.columns': 'Sütunlar',
+  'import.column': 'Sütun {number}',
+  'import.ignore': 'Yok say',
+  'import.translation': 'Çeviri ({language})',
+  'import.field.word': 'Kelime',
+  'import.field.ipa': 'UFA',
+  'import.field.syllables': 'Heceler',
+  'import.field.stress': 'Vurgulu hece (1, 2, ...)',
+  'import.field.partOfSpeech': 'Sözcük türü',
+  'import.field.definition': 'Tanım',
+  'import.field.example': 'Örnek cümle',
+  'import.field.mastery': 'Ustalık %',
+  'import.field.practiceCount': 'Pratik sayısı',
+  'import.field.ease': 'SRS kolaylığı',
+  'import.field.interval': 'SRS aralığı (gün)',
+  'import.field.repetitions': 'SRS tekrarları',
+  'import.field.lapses': 'SRS unutmaları',
+  'import.field.lastPracticed': 'Son pratik',
+  'import.field.dueDate': 'Tekrar tarihi',
+  'import.field.added': 'Eklenme tarihi',
+  'import.field.archived': 'Arşivlendi',
+  'import.field.decks': 'Desteler (; ile ayrılmış)',
+  'import.field.tags': 'Etiketler (deste olarak)',
+  'import.summary': '{new} yeni · {duplicate} zaten listende · {repeated} tekrarlanan · {error} hatalı',
+  'import.duplicatesSkipped': '- yinelenenler atlanır',
+  'import.line': 'Satır',
+  'import.word': 'Kelime',
+  'import.details': 'Ayrıntılar',
+  'import.status': 'Durum',
+  'import.status.new': 'Yeni',
+  'import.status.duplicate': 'Zaten eklendi',
+  'import.status.repeated': 'Dosyada tekrarlanıyor',
+  'import.status.error': 'Hata',
+  'import.invalidRow': 'Geçersiz satır',
+  'import.moreRows': { one: '…ve {count} satır daha', other: '…ve {count} satır daha' },
+  'import.words': { one: '{count} kelime', other: '{count} kelime' },
+  'import.sessions': { one: '{count} pratik oturumu', other: '{count} pratik oturumu' },
+  'import.backupSummary': '{words} ({new} yeni; listende zaten olanlar olduğu gibi kalır) ve {sessions}.',
+  'import.problems': { one: '{count} sorun - bu satır atlanacak', other: '{count} sorun - bu satırlar atlanacak' },
+  'import.errorReport': 'Hata raporunu indir',
+  'import.errorLine': 'Satır {line}: {message}',
+  'import.cancel': 'İptal',
+  'import.import': 'İçe aktar',
+  'import.imported': '{file} dosyasından {words} içe aktarıldı',
+  'import.importedWithSessions': '{file} dosyasından {words} ve {sessions} içe aktarıldı',
+
+  'sync.title': 'FlashAcademy Eşitleme',
+  'sync.intro': "FlashAcademy derslerinde öğrendiğin kelimeler, öğrendiğin tarihle birlikte buraya otomatik olarak eklenir. Pratik sonuçların her oturumdan sonra FlashAcademy'ye geri gönderilir.",
+  'sync.loading': 'Eşitleme durumu yükleniyor...',
+  'sync.notConfigured': 'Eşitleme bu sunucuda henüz ayarlanmadı (FLASHACADEMY_API_URL ve FLASHACADEMY_API_KEY gerekir).',
+  'sync.linkIntro': "Hesabını bağlamak için FlashAcademy'den bir bağlantı kodu al ve buraya gir. Her kod bir kez çalışır.",
+  'sync.linkCode': 'Bağlantı kodu',
+  'sync.link': 'Bağla',
+  'sync.account': 'Hesap',
+  'sync.lastSynced': 'Son eşitleme',
+  'sync.never': 'Hiç',
+  'sync.wordsSynced': 'Eşitlenen kelimeler',
+  'sync.lastPushed': 'Ustalık en son gönderildi',
+  'sync.lastError': 'Son eşitleme başarısız oldu: {error}',
+  'sync.syncing': 'Eşitleniyor...',
+  'sync.syncNow': 'Şimdi eşitle',
+  'sync.reimport': 'Tümünü yeniden içe aktar',
+  'sync.reimportHint': 'Tüm kelimeleri yeniden getir; örneğin burada bazılarını yanlışlıkla sildiysen',
+  'sync.unlink': 'Bağlantıyı kaldır',
+  'sync.confirmUnlink': 'FlashAcademy hesabının bağlantısı kaldırılsın mı? Zaten eşitlenmiş kelimeler listende kalır.',
+  'sync.result': '{added}, {pushed}',
+  'sync.added': { one: '{count} yeni kelime eklendi', other: '{count} yeni kelime eklendi' },
+  'sync.pushed': { one: '{count} ustalık güncellemesi gönderildi', other: '{count} ustalık güncellemesi gönderildi' },
+  'sync.linked': { one: "Bağlandı - FlashAcademy'den {count} kelime eklendi", other: "Bağlandı - FlashAcademy'den {count} kelime eklendi" }
+};
@@ -0,0 +1,273 @@
+import type { Catalog } from './en';
+
+export const zh: Catalog = {
+  'app.tagline': 'AI 驱动的语言学习助手',
+  'app.signOut': '退出登录',
+  'app.poweredBy': '技术支持',
+  'tab.practice': '练习',
+  'tab.test': '测试',
+  'tab.words': '单词',
+  'tab.dashboard': '概览',
+  'tab.settings': '设置',
+  'about.title': '关于',
+  'about.realtime': 'Voice Tutor 使用 OpenAI 的 Realtime API 提供对话式语言练习。',
+  'about.flashacademy': '系统会参考你在 FlashAcademy 平台上学过的单词，帮助你练习发音、词汇和会话能力。',
+  'about.features': '功能：',
+  'about.feature.flow': '连续对话——无需为每个单词按下录音',
+  'about.feature.modes': '三种练习模式，适合不同的学习目标',
+  'about.feature.languages': '提供 16 种语言的说明和菜单',
+  'about.feature.feedback': '实时发音反馈',
+  'about.feature.progress': '进度跟踪与统计',
+  'about.feature.words': '带添加时间的单词管理',
+  'about.feature.sync': '与 FlashAcademy 同步词汇',
+
+  'login.signIn': '登录',
+  'login.register': '创建账户',
+  'login.intro': '你的单词和练习记录会保存在你的账户中。',
+  'login.username': '用户名',
+  'login.displayName': '你的名字（可选）',
+  'login.password': '密码',
+  'login.createAccount': '创建账户',
+  'login.toRegister': '第一次来？创建账户',
+  'login.toSignIn': '已有账户？登录',
+  'login.failed': '出了点问题',
+
+  'modes.title': '练习模式',
+  'modes.locked': '练习进行中时无法切换模式',
+  'mode.pronunciation': '发音',
+  'mode.pronunciation.description': '专注于清晰、准确地读出单词',
+  'mode.vocabulary': '词汇',
+  'mode.vocabulary.description': '学习单词的含义以及在语境中的用法',
+  'mode.conversation': '会话',
+  'mode.conversation.description': '用学过的单词进行自然的对话练习',
+  'session.pronunciation': '发音练习',
+  'session.vocabulary': '词汇练习',
+  'session.conversation': '会话练习',
+
+  'session.pronunciation-test': '发音测试',
+
+  'status.listening': '正在聆听...',
+  'status.connected': '已连接',
+  'status.connecting': '正在连接...',
+  'status.notConnected': '未连接',
+  'voice.tapToEnd': '点击结束对话',
+  'voice.tapToStart': '点击开始练习',
+  'chat.empty': '还没有对话内容',
+  'chat.tutor': '导师',
+  'chat.you': '你',
+  'quota.reached': '你已达到今天的练习上限——做得很棒！导师明天会再次为你服务。',
+  'quota.reopens': '练习将于 {time} 重新开放。',
+  'deck.label': '词组',
+  'deck.allWords': '全部单词（{count}）',
+
+  'test.title': '发音测试',
+  'test.intro': '与你的 AI 导师连线，进行对话式发音测试。导师会一步步引导你完成测试。',
+  'test.emptyDeck': '这个词组里还没有可测试的单词。',
+  'test.noWords': '请先在词汇表中添加一些{language}单词！',
+  'test.howItWorks': '测试方式：',
+  'test.howItWorksBody': 'AI 导师会逐个测试你的单词发音。被提示时自然地说出来即可。你可以随时打断，导师会给出详细反馈。得分达到 {score}% 及以上的单词即为通过。',
+  'test.start': '开始对话测试',
+  'test.progress': '第 {current} 个单词，共 {total} 个',
+  'test.currentWord': '当前单词：',
+  'test.hearIt': '听一听',
+  'test.tryAgain': '再试一次',
+  'test.attempt': '第 {current} / {max} 次尝试',
+  'test.end': '结束测试',
+  'test.score': '得分：{score}%',
+  'test.greatJob': '很好！进入下一个单词...',
+  'test.complete': '测试完成！',
+  'test.overallScore': '总分：',
+  'test.passed': '通过：{passed} / {total} 个单词',
+  'test.attempts': '尝试次数：{count}',
+  'test.finish': '完成',
+  'test.stress': '重音：{feedback}',
+  'test.stressHint': '检查重音落在哪个音节',
+  'test.scoreSources': '导师 {tutor}% · 转写 {transcript}%',
+  'test.heard': '（听到的是“{text}”）',
+  'test.disagreement': '导师和转写对这次尝试的判断不一致——建议再听一遍。',
+  'test.myAttempts': { other: '我的尝试' },
+  'test.tutorModel': '导师示范',
+
+  'words.title': '单词管理',
+  'words.placeholder': '输入一个新单词或短语...',
+  'words.add': '添加单词',
+  'words.alreadyAdded': '“{word}”已在你的列表中——学习进度已保留',
+  'words.showBulkAdd': '显示批量添加',
+  'words.hideBulkAdd': '隐藏批量添加',
+  'words.bulkPlaceholder': '输入多个单词或短语，每行一个...',
+  'words.addAll': '全部添加',
+  'words.bulkAdded': '新增 {added} 个；{skipped} 个已在列表中或重复',
+  'words.yourWords': '你的单词',
+  'words.showArchived': '显示已归档（{count}）',
+  'words.duplicates': { other: '有 {count} 个条目与其他单词重复（忽略大小写和重音符号）' },
+  'words.mergeDuplicates': '合并重复项',
+  'words.merged': { other: '已合并 {count} 个重复项——练习记录已合并' },
+  'words.allWords': '全部单词',
+  'words.saveDeckName': '保存名称',
+  'words.cancel': '取消',
+  'words.deckHint': '新单词会添加到这个词组。',
+  'words.renameDeck': '重命名',
+  'words.deleteDeck': '删除词组',
+  'words.confirmDeleteDeck': '删除词组“{deck}”？其中的单词仍会保留在你的列表中。',
+  'words.empty': '还没有添加单词',
+  'words.emptyDeck': '这个词组里还没有单词',
+  'words.allArchived': '你的单词都已归档',
+  'words.selected': '已选择 {count} 个',
+  'words.selectAll': '全选',
+  'words.deckName': '词组名称',
+  'words.addToDeck': '添加到词组',
+  'words.removeFromDeck': '从词组中移除',
+  'words.archive': '归档',
+  'words.restore': '恢复',
+  'words.delete': '删除',
+  'words.confirmDelete': { other: '删除 {count} 个单词及其学习进度？此操作无法撤销。' },
+  'words.select': '选择 {word}',
+  'words.phrase': '短语',
+  'words.archived': '（已归档）',
+  'words.practices': { other: '练习 {count} 次' },
+  'words.mastery': '掌握度 {mastery}%',
+  'words.edit': '编辑单词',
+  'words.restoreHint': '重新加入练习',
+  'words.archiveHint': '归档——保留单词，但不再练习',
+  'words.deleteWord': '删除单词',
+
+  'editor.title': '编辑“{word}”',
+  'editor.autoFill': '自动填写',
+  'editor.autoFillHint': '用词典填写空白字段',
+  'editor.notInDictionary': '离线词典中没有这个词',
+  'editor.word': '单词',
+  'editor.clash': '“{word}”已在你的列表中',
+  'editor.decks': '词组',
+  'editor.decksPlaceholder': '第 3 单元 - 食物，旅行',
+  'editor.decksHint': '用逗号分隔词组',
+  'editor.ipa': '国际音标',
+  'editor.partOfSpeech': '词性',
+  'editor.syllables': '音节',
+  'editor.stress': '重读音节',
+  'editor.definition': '释义',
+  'editor.example': '例句',
+  'editor.cancel': '取消',
+  'editor.save': '保存',
+  'pos.noun': '名词',
+  'pos.verb': '动词',
+  'pos.adjective': '形容词',
+  'pos.adverb': '副词',
+  'pos.pronoun': '代词',
+  'pos.preposition': '介词',
+  'pos.conjunction': '连词',
+  'pos.interjection': '感叹词',
+  'pos.number': '数词',
+  'pos.phrase': '短语',
+
+  'stats.totalWords': '单词总数',
+  'stats.mastered': '已掌握',
+  'stats.learning': '学习中',
+  'stats.todaysPractice': '今日练习',
+  'stats.streak': '连续天数',
+  'dashboard.weeklyPractice': '本周练习',
+  'dashboard.sessions': '练习次数',
+  'dashboard.wordsPracticed': '练习单词数',
+  'dashboard.masteryLevels': '掌握程度',
+  'dashboard.words': '单词',
+  'mastery.beginner': '入门',
+  'mastery.learning': '学习中',
+  'mastery.proficient': '熟练',
+  'mastery.mastered': '已掌握',
+  'dashboard.masteryByDeck': '各词组掌握情况',
+  'dashboard.deckMastery': '已掌握 {mastered}/{total} · 平均 {average}%',
+  'dashboard.recentSessions': '最近的练习',
+  'dashboard.allSessions': '全部练习',
+  'dashboard.showRecent': '显示最近',
+  'dashboard.showAll': '显示全部 {count} 次',
+  'dashboard.wordCount': { other: '{count} 个单词' },
+  'dashboard.minutes': '{count} 分钟',
+  'dashboard.inProgress': '进行中',
+  'dashboard.noSessions': '还没有练习记录',
+  'dashboard.sessionWords': '单词：{words}',
+  'dashboard.closeReview': '关闭练习回顾',
+
+  'languages.title': '语言',
+  'languages.home': '母语',
+  'languages.homeHelp': '说明、帮助和这些菜单将使用这种语言',
+  'languages.target': '正在学习',
+  'languages.targetHelp': '新单词会以这种语言添加，练习和测试也会使用它的单词',
+  'languages.locked': '练习进行中时无法更改语言',
+  'recordings.title': '录音',
+  'recordings.description': '录下我的练习，以便回听每次尝试并与导师的发音对比。录音随练习一起保存，只有你自己可以播放。',
+
+  'import.title': '导入与导出',
+  'import.intro': '可从 CSV、Anki 牌组（.apkg）、Anki 纯文本导出（.txt/.tsv）或 Voice Tutor 备份（.json）导入单词。导出内容包含掌握度和复习计划。',
+  'import.backup': '备份（JSON）',
+  'import.exportWords': '单词（CSV）',
+  'import.exportSessions': '练习记录（CSV）',
+  'import.chooseFile': '选择要导入的文件...',
+  'import.columns': '列',
+  'import.column': '第 {number} 列',
+  'import.ignore': '忽略',
+  'import.translation': '翻译（{language}）',
+  'import.field.word': '单词',
+  'import.field.ipa': '国际音标',
+  'import.field.syllables': '音节',
+  'import.field.stress': '重读音节（1、2……）',
+  'import.field.partOfSpeech': '词性',
+  'import.field.definition': '释义',
+  'import.field.example': '例句',
+  'import.field.mastery': '掌握度 %',
+  'import.field.practiceCount': '练习次数',
+  'import.field.ease': 'SRS 难易度',
+  'import.field.interval': 'SRS 间隔（天）',
+  'import.field.repetitions': 'SRS 复习次数',
+  'import.field.lapses': 'SRS 遗忘次数',
+  'import.field.lastPracticed': '上次练习',
+  'import.field.dueDate': '复习日期',
+  'import.field.added': '添加日期',
+  'import.field.archived': '已归档',
+  'import.field.decks': '词组（用 ; 分隔）',
+  'import.field.tags': '标签（作为词组）',
+  'import.summary': '{new} 个新词 · {duplicate} 个已在列表中 · {repeated} 个重复 · {error} 个有错误',
+  'import.duplicatesSkipped': '——重复项将被跳过',
+  'import.line': '行',
+  'import.word': '单词',
+  'import.details': '详情',
+  'import.status': '状态',
+  'import.status.new': '新词',
+  'import.status.duplicate': '已添加',
+  'import.status.repeated': '文件中重复',
+  'import.status.error': '错误',
+  'import.invalidRow': '无效的行',
+  'import.moreRows': { other: '……还有 {count} 行' },
+  'import.words': { other: '{count} 个单词' },
+  'import.sessions': { other: '{count} 次练习' },
+  'import.backupSummary': '{words}（{new} 个新词，已在列表中的保持不变）和 {sessions}。',
+  'import.problems': { other: '{count} 个问题——这些行将被跳过' },
+  'import.errorReport': '下载错误报告',
+  'import.errorLine': '第 {line} 行：{message}',
+  'import.cancel': '取消',
+  'import.import': '导入',
+  'import.imported': '已从 {file} 导入 {words}',
+  'import.importedWithSessions': '已从 {file} 导入 {words}和 {sessions}',
+
+  'sync.title': 'FlashAcademy 同步',
+  'sync.intro': '你在 FlashAcademy 课程中学会的单词会自动添加到这里，并附上学会的日期。每次练习后，你的练习结果会发送回 FlashAcademy。',
+  'sync.loading': '正在加载同步状态...',
+  'sync.notConfigured': '此服务器尚未设置同步（需要 FLASHACADEMY_API_URL 和 FLASHACADEMY_API_KEY）。',
+  'sync.linkIntro': '要关联你的账户，请从 FlashAcademy 获取关联码并在此输入。每个关联码只能使用一次。',
+  'sync.linkCode': '关联码',
+  'sync.link': '关联',
+  'sync.account': '账户',
+  'sync.lastSynced': '上次同步',
+  'sync.never': '从未',
+  'sync.wordsSynced': '已同步单词',
+  'sync.lastPushed': '上次发送掌握度',
+  'sync.lastError': '上次同步失败：{error}',
+  'sync.syncing': '正在同步...',
+  'sync.syncNow': '立即同步',
+  'sync.reimport': '全部重新导入',
+  'sync.reimportHint': '重新获取所有单词，例如在这里误删了一些之后',
+  'sync.unlink': '取消关联',
+  'sync.confirmUnlink': '取消关联你的 FlashAcademy 账户？已同步的单词仍会保留在你的列表中。',
+  'sync.result': '{added}，{pushed}',
+  'sync.added': { other: '新增 {count} 个单词' },
+  'sync.pushed': { other: '已发送 {count} 条掌握度更新' },
+  'sync.linked': { other: '已关联——从 FlashAcademy 添加了 {count} 个单词' }
+};
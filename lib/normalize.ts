@@ -0,0 +1,54 @@
+// How word text is cleaned up on the way in and matched against the list. Two entries are
+// the same word when they match after folding case and diacritics ("Café", "cafe"), so
+// re-adding a word finds the existing entry instead of starting it over.
+
+// Quotes and punctuation a pasted word tends to arrive wrapped in ("apple,", "“hello”", "why?")
+const EDGE_PUNCTUATION = /^[\s"'“”‘’«»()[\]{}.,;:!?¡¿…–—-]+|[\s"'“”‘’«»()[\]{}.,;:!?¡¿…–—-]+$/g;
+
+/**
+ * The text to store for a word or phrase: surrounding punctuation and spaces trimmed,
+ * inner whitespace collapsed, curly apostrophes straightened. Case is kept as typed.
+ * Returns '' when nothing is left.
+ */
+export function cleanWordText(input: string): string {
+  return input
+    .normalize('NFC')
+    .replace(/[‘’]/g, "'")
+    .replace(/\s+/g, ' ')
+    .replace(EDGE_PUNCTUATION, '');
+}
+
+/** Matching key - equal keys are the same entry. */
+export function wordKey(text: string): string {
+  return cleanWordText(text)
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase();
+}
+
+/** Matching key within one language - "pain" in English and "pain" in French are different words. */
+export function entryKey(text: string, language: string): string {
+  return `${language}:${wordKey(text)}`;
+}
+
+// Phrases ("good morning", "how are you") are entries in their own right, never split up
+export function isPhrase(text: string): boolean {
+  return text.trim().includes(' ');
+}
+
+/** A random v4 UUID, falling back to getRandomValues where randomUUID isn't available (plain http). */
+export function newId(): string {
+  if (typeof crypto.randomUUID === 'function') return crypto.randomUUID();
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  bytes[6] = (bytes[6] & 0x0f) | 0x40;
+  bytes[8] = (bytes[8] & 0x3f) | 0x80;
+  const hex = Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
+
+export const MAX_DECK_NAME_LENGTH = 60;
+
+/** A deck name as stored: whitespace collapsed and trimmed, capped in length. */
+export function cleanDeckName(input: string): string {
+  return input.normalize('NFC').replace(/\s+/g, ' ').trim().slice(0, MAX_DECK_NAME_LENGTH);
+}
@@ -0,0 +1,217 @@
+import type { Word, Session, Learner, Turn } from './store';
+import type { LearnedWord, MasteryUpdate, SyncStatus } from './vocabulary-source';
+import type { PracticeMode, PracticeModeDefinition, PracticeModeDraft, PracticeModeOptions } from './practice-modes';
+
+// Thin client for the /api/auth, /api/learners, /api/words and /api/sessions routes
+// (including each session's turn recordings), plus the Anki package reader, /api/sync and
+// /api/practice-modes and the admin console's /api/admin/practice-modes.
+// Dates travel as ISO strings and are revived here so the store only ever sees Date objects.
+
+type Serialized<T> = { [K in keyof T]: T[K] extends Date | undefined ? string | undefined : T[K] };
+
+function reviveWord(word: Serialized<Word>): Word {
+  return {
+    ...word,
+    timestamp: new Date(word.timestamp as string),
+    lastPracticed: word.lastPracticed ? new Date(word.lastPracticed) : undefined,
+    dueDate: word.dueDate ? new Date(word.dueDate) : undefined
+  };
+}
+
+function reviveSession(session: Serialized<Session>): Session {
+  return {
+    ...session,
+    startTime: new Date(session.startTime as string),
+    endTime: session.endTime ? new Date(session.endTime) : undefined,
+    turns: (session.turns as unknown as Serialized<Turn>[]).map(turn => ({
+      ...turn,
+      timestamp: new Date(turn.timestamp as string)
+    }))
+  };
+}
+
+function reviveSyncStatus(status: Serialized<SyncStatus>): SyncStatus {
+  return {
+    ...status,
+    lastSyncedAt: status.lastSyncedAt ? new Date(status.lastSyncedAt) : undefined,
+    lastPushedAt: status.lastPushedAt ? new Date(status.lastPushedAt) : undefined
+  };
+}
+
+async function request<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...init?.headers }
+  });
+  if (!response.ok) {
+    // Surface the route's own message (e.g. "Wrong username or password") when it sent one
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.error || `${init?.method || 'GET'} ${url} failed with ${response.status}`);
+  }
+  return response.json();
+}
+
+// The signed-in learner, or null if nobody is signed in
+export async function fetchCurrentLearner(): Promise<Learner | null> {
+  const response = await fetch('/api/auth');
+  if (response.status === 401) return null;
+  if (!response.ok) {
+    throw new Error(`GET /api/auth failed with ${response.status}`);
+  }
+  const { learner } = await response.json();
+  return learner;
+}
+
+export async function signIn(username: string, password: string): Promise<Learner> {
+  const { learner } = await request<{ learner: Learner }>('/api/auth', {
+    method: 'POST',
+    body: JSON.stringify({ username, password })
+  });
+  return learner;
+}
+
+export async function register(username: string, displayName: string, password: string): Promise<Learner> {
+  const { learner } = await request<{ learner: Learner }>('/api/learners', {
+    method: 'POST',
+    body: JSON.stringify({ username, displayName, password })
+  });
+  return learner;
+}
+
+export async function signOut(): Promise<void> {
+  await request('/api/auth', { method: 'DELETE' });
+}
+
+export async function fetchWords(): Promise<Word[]> {
+  const { words } = await request<{ words: Serialized<Word>[] }>('/api/words');
+  return words.map(reviveWord);
+}
+
+export async function fetchSessions(): Promise<Session[]> {
+  const { sessions } = await request<{ sessions: Serialized<Session>[] }>('/api/sessions');
+  return sessions.map(reviveSession);
+}
+
+export async function fetchPracticeModes(): Promise<PracticeMode[]> {
+  const { modes } = await request<{ modes: PracticeMode[] }>('/api/practice-modes');
+  return modes;
+}
+
+export async function saveWords(words: Word[]): Promise<void> {
+  if (words.length === 0) return;
+  await request('/api/words', { method: 'POST', body: JSON.stringify({ words }) });
+}
+
+export async function saveWord(word: Word): Promise<void> {
+  await request(`/api/words/${encodeURIComponent(word.id)}`, {
+    method: 'PUT',
+    body: JSON.stringify(word)
+  });
+}
+
+export async function deleteWords(ids: string[]): Promise<void> {
+  if (ids.length === 0) return;
+  await request('/api/words', { method: 'DELETE', body: JSON.stringify({ ids }) });
+}
+
+export async function saveSession(session: Session): Promise<void> {
+  await request('/api/sessions', { method: 'POST', body: JSON.stringify(session) });
+}
+
+export async function saveSessions(sessions: Session[]): Promise<void> {
+  if (sessions.length === 0) return;
+  await request('/api/sessions', { method: 'POST', body: JSON.stringify({ sessions }) });
+}
+
+export function turnAudioUrl(sessionId: string, turnId: string): string {
+  return `/api/sessions/${encodeURIComponent(sessionId)}/audio/${encodeURIComponent(turnId)}`;
+}
+
+export async function saveTurnAudio(sessionId: string, turnId: string, audio: Blob): Promise<void> {
+  await request(turnAudioUrl(sessionId, turnId), {
+    method: 'PUT',
+    headers: { 'Content-Type': audio.type || 'audio/wav' },
+    body: audio
+  });
+}
+
+// Notes from an Anki .apkg, read server-side - nothing is saved until the import is confirmed
+export async function readAnkiPackage(file: Blob): Promise<{ columns: string[]; rows: { line: number; cells: string[] }[] }> {
+  return request('/api/import/anki', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/octet-stream' },
+    body: file
+  });
+}
+
+export async function fetchSyncStatus(): Promise<SyncStatus> {
+  const { status } = await request<{ status: Serialized<SyncStatus> }>('/api/sync');
+  return reviveSyncStatus(status);
+}
+
+// Link with a code from FlashAcademy, or pass null to unlink
+export async function linkSyncAccount(linkCode: string | null): Promise<SyncStatus> {
+  const { status } = await request<{ status: Serialized<SyncStatus> }>('/api/sync', {
+    method: 'PUT',
+    body: JSON.stringify({ linkCode })
+  });
+  return reviveSyncStatus(status);
+}
+
+export interface SyncResult {
+  words: LearnedWord[];
+  pushed: number;
+  syncId: string; // Confirm with once the words are saved
+  status: SyncStatus;
+}
+
+export async function runSync(mastery: MasteryUpdate[], full = false): Promise<SyncResult> {
+  const result = await request<{ words: Serialized<LearnedWord>[]; pushed: number; syncId: string; status: Serialized<SyncStatus> }>(
+    '/api/sync',
+    { method: 'POST', body: JSON.stringify({ mastery, full }) }
+  );
+  return {
+    words: result.words.map(w => ({ ...w, learnedAt: new Date(w.learnedAt as string) })),
+    pushed: result.pushed,
+    syncId: result.syncId,
+    status: reviveSyncStatus(result.status)
+  };
+}
+
+// The words a sync pulled are saved; the next sync carries on after them
+export async function confirmSync(syncId: string): Promise<SyncStatus> {
+  const { status } = await request<{ committed: boolean; status: Serialized<SyncStatus> }>('/api/sync', {
+    method: 'PATCH',
+    body: JSON.stringify({ syncId })
+  });
+  return reviveSyncStatus(status);
+}
+
+// The admin routes take the ADMIN_API_TOKEN as a bearer token instead of the learner cookie
+function adminHeaders(token: string) {
+  return { Authorization: `Bearer ${token}` };
+}
+
+export async function fetchAdminPracticeModes(token: string): Promise<{ modes: PracticeModeDefinition[]; options: PracticeModeOptions }> {
+  return request('/api/admin/practice-modes', { headers: adminHeaders(token) });
+}
+
+// A mode without an id is added; otherwise it replaces the mode with that id
+export async function saveAdminPracticeMode(token: string, mode: PracticeModeDraft): Promise<PracticeModeDefinition> {
+  const url = mode.id ? `/api/admin/practice-modes/${encodeURIComponent(mode.id)}` : '/api/admin/practice-modes';
+  const result = await request<{ mode: PracticeModeDefinition }>(url, {
+    method: mode.id ? 'PUT' : 'POST',
+    headers: adminHeaders(token),
+    body: JSON.stringify(mode)
+  });
+  return result.mode;
+}
+
+// Deletes a mode, or resets a built-in one - which comes back as it ships
+export async function deleteAdminPracticeMode(token: string, id: string): Promise<PracticeModeDefinition | null> {
+  const result = await request<{ mode: PracticeModeDefinition | null }>(
+    `/api/admin/practice-modes/${encodeURIComponent(id)}`,
+    { method: 'DELETE', headers: adminHeaders(token) }
+  );
+  return result.mode;
+}
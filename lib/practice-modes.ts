@@ -0,0 +1,93 @@
+import { defaultLessonOptions, type LessonMode, type LessonOptions } from './lesson-engine';
+import { en, type MessageKey } from './messages';
+import type { Translate } from './i18n';
+
+// Practice modes are defined on the server (server/practice-modes.js) and edited in the
+// admin console; the app reads them from /api/practice-modes. Each is built on a lesson
+// type - its `base` - which decides how the lesson runs.
+
+/** A practice mode as the app sees it. The prompts and VAD tuning stay on the server. */
+export interface PracticeMode {
+  id: string;
+  base: LessonMode;
+  name: string;
+  description: string;
+  icon: string;
+  color: string;
+  enabled: boolean;
+  translatable: boolean; // Still has its shipped name and description, which the catalogs translate
+  attemptsPerWord: number;
+  passingScore: number | null;
+}
+
+export interface TurnDetection {
+  threshold: number;
+  prefixPaddingMs: number;
+  silenceDurationMs: number;
+}
+
+/** A practice mode in full, as the admin console edits it. */
+export interface PracticeModeDefinition extends Omit<PracticeMode, 'passingScore'> {
+  builtIn: boolean; // Ships with the app - can be reset but not deleted
+  prompts: Record<string, string>; // Template name -> the mode's own text for it
+  turnDetection: TurnDetection;
+  scoring: { passingScore: number | null; rubric: string };
+  updatedAt: string | null;
+}
+
+/**
+ * A definition as the admin console edits it: without the server's bookkeeping, and no id
+ * until the server has given a new mode one.
+ */
+export type PracticeModeDraft = Omit<PracticeModeDefinition, 'id' | 'builtIn' | 'translatable' | 'updatedAt'> & { id?: string };
+
+/** What the admin console can offer in its editor. */
+export interface PracticeModeOptions {
+  icons: string[];
+  colors: string[];
+  bases: LessonMode[];
+  templatesByBase: Record<LessonMode, string[]>;
+  templates: Record<string, { version: number; variables: string[]; text: string }>;
+}
+
+export const DEFAULT_PRACTICE_MODE = 'conversation';
+export const PRONUNCIATION_TEST_MODE = 'pronunciation-test';
+
+/** The modes a learner can pick from; the pronunciation test has its own tab. */
+export function selectableModes(modes: PracticeMode[]): PracticeMode[] {
+  return modes.filter(mode => mode.enabled && mode.base !== 'pronunciation-test');
+}
+
+/**
+ * The lesson engine's options for mode `id`, falling back to the shipped defaults for a
+ * built-in mode while the definitions are still loading.
+ */
+export function lessonOptions(modes: PracticeMode[], id: string): LessonOptions {
+  const mode = modes.find(m => m.id === id);
+  if (!mode) return defaultLessonOptions[id as LessonMode] ?? defaultLessonOptions.conversation;
+  return mode.passingScore !== null
+    ? { attemptsPerWord: mode.attemptsPerWord, passingScore: mode.passingScore }
+    : { attemptsPerWord: mode.attemptsPerWord };
+}
+
+function messageKey(key: string): MessageKey | undefined {
+  return key in en ? (key as MessageKey) : undefined;
+}
+
+export function modeName(mode: PracticeMode, t: Translate): string {
+  const key = mode.translatable ? messageKey(`mode.${mode.id}`) : undefined;
+  return key ? t(key) : mode.name;
+}
+
+export function modeDescription(mode: PracticeMode, t: Translate): string {
+  const key = mode.translatable ? messageKey(`mode.${mode.id}.description`) : undefined;
+  return key ? t(key) : mode.description;
+}
+
+/** "Pronunciation Practice" for a session of mode `id`, or the mode's own name. */
+export function sessionTitle(id: string, modes: PracticeMode[], t: Translate): string {
+  const mode = modes.find(m => m.id === id);
+  const key = !mode || mode.translatable ? messageKey(`session.${id}`) : undefined;
+  if (key) return t(key);
+  return mode ? mode.name : id;
+}
@@ -0,0 +1,124 @@
+import { doubleMetaphone } from './double-metaphone';
+
+// A local, deterministic check on the tutor's pronunciation score. Whisper transcribes what
+// it hears to the nearest real words, so how close its transcript is to the target word -
+// in spelling and in sound - is an objective measure of how intelligible the attempt was.
+
+export interface IntelligibilityCheck {
+  transcript: string;         // Everything Whisper heard
+  heard: string;              // The part of it closest to the target word
+  spellingSimilarity: number; // 0-1, from normalized edit distance
+  soundSimilarity: number;    // 0-1, from Double Metaphone keys
+  score: number;              // 0-100
+}
+
+export interface ScoreCrossCheck {
+  tutorScore: number;
+  localScore: number | null;  // null when there was no transcript to check
+  check: IntelligibilityCheck | null;
+  score: number;              // What the attempt is graded on
+  disagreement: boolean;      // Tutor and transcript differ by DISAGREEMENT_THRESHOLD or more
+}
+
+// Sound counts for more than spelling - "nite" for "night" is a perfectly good attempt
+const SOUND_WEIGHT = 0.6;
+// The tutor hears stress, vowel quality and accent that a transcript can't show,
+// so its score leads the blend
+const TUTOR_WEIGHT = 0.7;
+export const DISAGREEMENT_THRESHOLD = 35;
+
+// Double Metaphone only knows Latin-script spelling. In other scripts the local check would
+// find no sounds to compare and score every attempt 0, so there the tutor's score stands alone.
+const CHECKED_LANGUAGES = new Set(['en', 'es', 'fr', 'de', 'it', 'pt', 'tr', 'pl', 'nl', 'sv']);
+
+export function normalizeText(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}'\s-]/gu, ' ')
+    .replace(/['-]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+export function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+function similarity(a: string, b: string): number {
+  const longest = Math.max(a.length, b.length);
+  return longest === 0 ? 1 : 1 - editDistance(a, b) / longest;
+}
+
+// Best match between any pronunciation of one and any of the other
+function soundSimilarity(a: string, b: string): number {
+  const keysA = phoneticKeys(a);
+  const keysB = phoneticKeys(b);
+  return Math.max(...keysA.flatMap(keyA => keysB.map(keyB => similarity(keyA, keyB))));
+}
+
+function phoneticKeys(phrase: string): string[] {
+  const words = phrase.split(' ').map(doubleMetaphone);
+  const primary = words.map(([main]) => main).join('');
+  const alternate = words.map(([main, alt]) => alt || main).join('');
+  return primary === alternate ? [primary] : [primary, alternate];
+}
+
+/** Whether a target word in `language` (a registry code) can be checked locally at all. */
+export function canCheckIntelligibility(target: string, language: string): boolean {
+  return CHECKED_LANGUAGES.has(language) && normalizeText(target) !== '';
+}
+
+/**
+ * Score how closely a transcript matches the target word or phrase. Learners often say
+ * more than the word ("um, apple?"), so every run of words the target's length is tried
+ * and the closest one counts.
+ */
+export function checkIntelligibility(target: string, transcript: string): IntelligibilityCheck {
+  const expected = normalizeText(target);
+  const spoken = normalizeText(transcript);
+  const empty = { transcript, heard: '', spellingSimilarity: 0, soundSimilarity: 0, score: 0 };
+  if (!expected || !spoken) return empty;
+
+  const tokens = spoken.split(' ');
+  const span = Math.min(expected.split(' ').length, tokens.length);
+
+  let best = empty;
+  for (let start = 0; start + span <= tokens.length; start++) {
+    const heard = tokens.slice(start, start + span).join(' ');
+    const spelling = similarity(expected.replace(/ /g, ''), heard.replace(/ /g, ''));
+    const sound = soundSimilarity(expected, heard);
+    const score = Math.round(100 * (SOUND_WEIGHT * sound + (1 - SOUND_WEIGHT) * spelling));
+    if (score > best.score) {
+      best = { transcript, heard, spellingSimilarity: spelling, soundSimilarity: sound, score };
+    }
+  }
+  return best;
+}
+
+/** Blend the tutor's score with the local one and flag sharp disagreement. */
+export function crossCheckScore(tutorScore: number, check: IntelligibilityCheck | null): ScoreCrossCheck {
+  if (!check) {
+    return { tutorScore, localScore: null, check, score: tutorScore, disagreement: false };
+  }
+  return {
+    tutorScore,
+    localScore: check.score,
+    check,
+    score: Math.round(TUTOR_WEIGHT * tutorScore + (1 - TUTOR_WEIGHT) * check.score),
+    disagreement: Math.abs(tutorScore - check.score) >= DISAGREEMENT_THRESHOLD
+  };
+}
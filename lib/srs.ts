@@ -0,0 +1,77 @@
+// SM-2 spaced-repetition scheduling.
+// https://super-memory.com/english/ol/sm2.htm
+
+/**
+ * Review quality on the SM-2 scale:
+ * 5 perfect, 4 correct after hesitation, 3 correct with difficulty,
+ * 2 wrong but close, 1 wrong, 0 no attempt / blackout.
+ */
+export type ReviewGrade = 0 | 1 | 2 | 3 | 4 | 5;
+
+export interface SrsState {
+  ease: number;        // SM-2 easiness factor, never below 1.3
+  interval: number;    // Days until the next review
+  repetitions: number; // Consecutive successful reviews
+  lapses: number;      // Times the word was forgotten after being learned
+  dueDate?: Date;      // Unset until the first review - the word is new
+}
+
+const MIN_EASE = 1.3;
+const PASSING_GRADE = 3;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const initialSrsState = (): SrsState => ({
+  ease: 2.5,
+  interval: 0,
+  repetitions: 0,
+  lapses: 0
+});
+
+export function scheduleReview(state: SrsState, grade: ReviewGrade, now: Date = new Date()): SrsState {
+  const ease = Math.max(
+    MIN_EASE,
+    state.ease + (0.1 - (5 - grade) * (0.08 + (5 - grade) * 0.02))
+  );
+
+  if (grade < PASSING_GRADE) {
+    // Failed - relearn from the start tomorrow
+    return {
+      ease,
+      interval: 1,
+      repetitions: 0,
+      lapses: state.repetitions > 0 ? state.lapses + 1 : state.lapses,
+      dueDate: new Date(now.getTime() + DAY_MS)
+    };
+  }
+
+  const interval =
+    state.repetitions === 0 ? 1 :
+    state.repetitions === 1 ? 6 :
+    Math.round(state.interval * state.ease);
+
+  return {
+    ease,
+    interval,
+    repetitions: state.repetitions + 1,
+    lapses: state.lapses,
+    dueDate: new Date(now.getTime() + interval * DAY_MS)
+  };
+}
+
+/** Map a 0-100 pronunciation score onto an SM-2 grade. */
+export function scoreToGrade(score: number): ReviewGrade {
+  if (score >= 90) return 5;
+  if (score >= 80) return 4;
+  if (score >= 70) return 3;
+  if (score >= 50) return 2;
+  if (score > 0) return 1;
+  return 0;
+}
+
+/** A word is due if it has never been reviewed or its due date falls on or before today. */
+export function isDue(state: SrsState, now: Date = new Date()): boolean {
+  if (!state.dueDate) return true;
+  const endOfToday = new Date(now);
+  endOfToday.setHours(23, 59, 59, 999);
+  return new Date(state.dueDate).getTime() <= endOfToday.getTime();
+}
@@ -1,86 +1,387 @@
 import { create } from 'zustand';
+import * as persistence from './persistence';
+import { initialSrsState, isDue, scheduleReview, ReviewGrade } from './srs';
+import { lookupWord } from './dictionary';
+import { cleanDeckName, cleanWordText, entryKey, newId } from './normalize';
+import { DEFAULT_LANGUAGE, toLanguageCode } from './languages';
+import { DEFAULT_PRACTICE_MODE, selectableModes, type PracticeMode } from './practice-modes';
+import type { MasteryUpdate, SyncStatus } from './vocabulary-source';
+
+export interface Learner {
+  id: string;
+  username: string;
+  displayName: string;
+}
 
 export interface Word {
   id: string;
+  learnerId: string; // Owner - words are per learner, not per browser
   word: string;
   timestamp: Date;
-  language: string;
+  language: string; // Code of the language it's in, e.g. "fr" (see lib/languages.ts)
   mastery: number;
   practiceCount: number;
   lastPracticed?: Date;
   orderIndex?: number; // For maintaining order of words
+  // Spaced-repetition schedule (see lib/srs.ts)
+  ease: number;
+  interval: number;
+  repetitions: number;
+  lapses: number;
+  dueDate?: Date;
+  details?: WordDetails;
+  archived?: boolean; // Kept with its progress, but left out of practice and tests
+  decks?: string[];    // Named decks ("Unit 3 - Food", "Travel") - a word can be in several
+  external?: { source: string; id: string }; // Where it was synced from, e.g. FlashAcademy (see lib/vocabulary-source.ts)
+}
+
+// How a word sounds and what it means - auto-filled from lib/dictionary.ts, editable per word
+export interface WordDetails {
+  ipa?: string;                          // e.g. "ˈæp.əl"
+  syllables?: string[];                  // e.g. ["ap", "ple"]
+  stress?: number;                       // Index of the stressed syllable
+  partOfSpeech?: string;
+  definition?: string;
+  example?: string;                      // An example sentence
+  translations?: Record<string, string>; // Keyed by language code, e.g. "es"
 }
 
+// One learner or tutor utterance in a session's transcript
+export interface Turn {
+  id: string;
+  role: 'learner' | 'tutor';
+  text: string;
+  timestamp: Date;
+  word?: string;          // Lesson word in focus at the time
+  interrupted?: boolean;  // Tutor reply cut off by the learner
+  audioUrl?: string;      // Recording of the turn, if it was recorded
+}
+
+// A turn as it arrives from the tutor client, with its recording still attached
+export type NewTurn = Omit<Turn, 'id' | 'audioUrl'> & { audio?: Blob };
+
+// A word or session read from an import file or backup, before it gets an id and owner.
+// sourceId is the word's id in the backup, so imported sessions can point at it
+export type ImportedWord = Pick<Word, 'word'> & Partial<Omit<Word, 'id' | 'learnerId' | 'word' | 'orderIndex'>> & {
+  sourceId?: string;
+};
+export type ImportedSession = Omit<Session, 'id' | 'learnerId'>;
+
 export interface Session {
   id: string;
+  learnerId: string;
   startTime: Date;
   endTime?: Date;
-  mode: 'pronunciation' | 'vocabulary' | 'conversation';
+  mode: string; // Practice mode id (see lib/practice-modes.ts)
   wordsReviewed: string[];
+  turns: Turn[];
   duration?: number;
 }
 
+// Which words practice and tests draw from - the target language, and optionally one deck
+export interface WordScope {
+  language?: string;    // Language code; any language when unset
+  deck?: string | null; // No deck means every deck
+}
+
 export interface AppState {
+  // Persistence
+  isHydrated: boolean;
+  hydrate: () => Promise<void>;
+
+  // Identity - nothing is loaded or saved until a learner signs in
+  learner: Learner | null;
+  signIn: (username: string, password: string) => Promise<void>;
+  register: (username: string, displayName: string, password: string) => Promise<void>;
+  signOut: () => Promise<void>;
+
   // User settings
-  homeLanguage: string;
+  homeLanguage: string;   // Code of the learner's own language, for instructions and translations
   setHomeLanguage: (language: string) => void;
+  targetLanguage: string; // Code of the language being learned - new words go in as this language
+  setTargetLanguage: (language: string) => void;
   
   // Words management
   words: Word[];
-  addWord: (word: string, language?: string) => void;
+  addWord: (word: string, language?: string, decks?: string[]) => void;
   updateWordMastery: (id: string, mastery: number) => void;
   incrementPracticeCount: (id: string) => void;
-  bulkAddWords: (words: { word: string; timestamp: Date }[]) => void;
+  reviewWord: (id: string, grade: ReviewGrade) => void;
+  updateWord: (id: string, changes: Partial<Pick<Word, 'word' | 'details' | 'decks'>>) => void;
+  setWordsArchived: (ids: string[], archived: boolean) => void;
+  deleteWords: (ids: string[]) => void;
+  moveWord: (id: string, toIndex: number) => void; // toIndex is a position in getAllWords(true)
+  mergeDuplicates: () => number; // Folds entries that match after normalization; returns how many went
+
+  // Decks - named groups of words, practiced and tracked separately
+  setWordsInDeck: (ids: string[], deck: string, inDeck: boolean) => void;
+  renameDeck: (from: string, to: string) => void; // Renaming onto an existing deck merges the two
+  deleteDeck: (deck: string) => void;             // The words stay, just out of the deck
+  practiceDeck: string | null;                    // Deck practice and tests draw from; null for all words
+  setPracticeDeck: (deck: string | null) => void;
+  bulkAddWords: (words: { word: string; timestamp: Date }[], decks?: string[]) => void;
+  // Adds words not already in the list and any sessions; returns how many of each were added
+  importData: (data: { words: ImportedWord[]; sessions?: ImportedSession[] }) => { words: number; sessions: number };
   
+  // Vocabulary sync with FlashAcademy - errors propagate so the sync panel can show them
+  syncStatus: SyncStatus | null;
+  isSyncing: boolean;
+  refreshSyncStatus: () => Promise<void>;
+  linkSyncAccount: (linkCode: string | null) => Promise<void>; // A linking code from FlashAcademy; null unlinks
+  // Pulls newly learned words and pushes mastery back; `full` pulls everything again
+  syncVocabulary: (full?: boolean) => Promise<{ added: number; pushed: number }>;
+
   // Session management
   currentSession: Session | null;
   sessions: Session[];
-  startSession: (mode: 'pronunciation' | 'vocabulary' | 'conversation') => void;
+  startSession: (mode: string) => void;
   endSession: () => void;
   addWordToSession: (wordId: string) => void;
+  addTurnToSession: (turn: NewTurn) => Turn | null;
   
-  // Practice mode
-  practiceMode: 'pronunciation' | 'vocabulary' | 'conversation';
-  setPracticeMode: (mode: 'pronunciation' | 'vocabulary' | 'conversation') => void;
+  // Practice mode - the modes are set up in the admin console and loaded with the learner
+  practiceModes: PracticeMode[];
+  practiceMode: string;
+  setPracticeMode: (mode: string) => void;
   
   // Voice session
   isRecording: boolean;
   setIsRecording: (recording: boolean) => void;
+  recordAudio: boolean; // Keep recordings of each turn for playback
+  setRecordAudio: (record: boolean) => void;
   
   // Analytics
   getTotalWords: () => number;
   getMasteredWords: () => number;
-  getRecentWords: (limit?: number) => Word[];
+  getRecentWords: (limit?: number, scope?: WordScope) => Word[];
   getTodaysPractice: () => number;
-  getWordsForPractice: (limit?: number) => Word[];
-  getAllWords: () => Word[];
+  getWordsForPractice: (limit?: number, scope?: WordScope) => Word[];
+  getAllWords: (includeArchived?: boolean, scope?: WordScope) => Word[];
+  getPracticeScope: () => WordScope; // The target language and practice deck
+  getDecks: () => string[]; // Every deck in use, alphabetically
+}
+
+function byOrder(a: Word, b: Word): number {
+  if (a.orderIndex !== undefined && b.orderIndex !== undefined) {
+    return a.orderIndex - b.orderIndex; // Original order
+  }
+  return new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime();
+}
+
+// Number words 0..n-1 in the given order, returning the new list and the words whose
+// orderIndex changed (the only ones that need saving)
+function renumber(ordered: Word[]): { words: Word[]; changed: Word[] } {
+  const changed: Word[] = [];
+  const words = ordered.map((w, orderIndex) => {
+    if (w.orderIndex === orderIndex) return w;
+    const updated = { ...w, orderIndex };
+    changed.push(updated);
+    return updated;
+  });
+  return { words, changed };
+}
+
+// Apply `update` to every word, returning the new list and the words it actually changed
+function updateEach(words: Word[], update: (w: Word) => Word): { words: Word[]; changed: Word[] } {
+  const changed: Word[] = [];
+  const updated = words.map(w => {
+    const next = update(w);
+    if (next !== w) changed.push(next);
+    return next;
+  });
+  return { words: updated, changed };
+}
+
+// No deck means every word
+function inDeck(word: Word, deck?: string | null): boolean {
+  return !deck || (word.decks ?? []).includes(deck);
+}
+
+function inScope(word: Word, { language, deck }: WordScope): boolean {
+  return (!language || word.language === language) && inDeck(word, deck);
+}
+
+// Deck names added to a word's list, skipping ones it already has (ignoring case)
+function withDecks(current: string[] | undefined, added: string[] | undefined): string[] | undefined {
+  if (!added?.length) return current;
+  const decks = [...(current ?? [])];
+  for (const name of added.map(cleanDeckName)) {
+    if (name && !decks.some(d => d.toLowerCase() === name.toLowerCase())) decks.push(name);
+  }
+  return decks;
+}
+
+// Fields of `details` win; `fallback` only fills the gaps
+function mergeDetails(details: WordDetails | undefined, fallback: WordDetails | null | undefined): WordDetails | undefined {
+  if (!fallback) return details;
+  if (!details) return fallback;
+  const merged: WordDetails = { ...fallback };
+  for (const [key, value] of Object.entries(details) as [keyof WordDetails, WordDetails[keyof WordDetails]][]) {
+    if (value !== undefined && value !== '') Object.assign(merged, { [key]: value });
+  }
+  if (fallback.translations || details.translations) {
+    merged.translations = { ...fallback.translations, ...details.translations };
+  }
+  return merged;
+}
+
+/**
+ * Add words to the list through the dedup layer. Text is cleaned up, and anything that
+ * matches an entry already in the list (or earlier in the batch) - in the same language,
+ * ignoring case and diacritics - is merged into it: progress is kept, missing details are
+ * filled in, and a re-added archived word comes back into practice. Words that don't say
+ * which language they're in are taken to be in `language`. Returns the new list, the words
+ * that need saving, and where each incoming sourceId ended up.
+ */
+function mergeIntoList(existing: Word[], incoming: ImportedWord[], learnerId: string, language: string) {
+  const words = [...existing];
+  const indexByKey = new Map(words.map((w, i) => [entryKey(w.word, w.language), i]));
+  // Synced words are matched on their source's id first, in case the text was edited since
+  const externalKey = (external: { source: string; id: string }) => `${external.source}:${external.id}`;
+  const indexByExternal = new Map(words.flatMap((w, i) => w.external ? [[externalKey(w.external), i] as const] : []));
+  const saved = new Map<string, Word>();
+  const idBySource = new Map<string, string>();
+  let added = 0;
+
+  for (const { sourceId, ...w } of incoming) {
+    const text = cleanWordText(w.word);
+    if (!text) continue;
+    const wordLanguage = w.language || language;
+    const key = entryKey(text, wordLanguage);
+    const index = (w.external && indexByExternal.get(externalKey(w.external))) ?? indexByKey.get(key);
+
+    let word: Word;
+    let changed = true;
+    if (index === undefined) {
+      word = {
+        mastery: 0,
+        practiceCount: 0,
+        ...initialSrsState(),
+        timestamp: new Date(),
+        ...w,
+        language: wordLanguage,
+        word: text,
+        details: mergeDetails(w.details, lookupWord(text, wordLanguage)),
+        decks: withDecks(undefined, w.decks),
+        id: newId(),
+        learnerId,
+        orderIndex: words.length // Maintain insertion order
+      };
+      indexByKey.set(key, words.length);
+      if (word.external) indexByExternal.set(externalKey(word.external), words.length);
+      words.push(word);
+      added++;
+    } else {
+      const current = words[index];
+      word = {
+        ...current,
+        details: mergeDetails(current.details, w.details),
+        // Adding it again by hand means the learner wants it back; imports keep its state
+        archived: w.archived === undefined ? false : current.archived,
+        decks: withDecks(current.decks, w.decks),
+        external: current.external ?? w.external
+      };
+      words[index] = word;
+      changed = !word.archived !== !current.archived
+        || JSON.stringify(word.details) !== JSON.stringify(current.details)
+        || word.decks?.length !== current.decks?.length
+        || word.external !== current.external;
+    }
+    if (changed) saved.set(word.id, word);
+    if (sourceId) idBySource.set(sourceId, word.id);
+  }
+
+  return { words, saved: [...saved.values()], added, idBySource };
+}
+
+// Persist in the background - the UI never waits on the server, but failures are logged
+function writeThrough(promise: Promise<void>, what: string) {
+  promise.catch(error => console.error(`Failed to persist ${what}:`, error));
 }
 
 export const useStore = create<AppState>((set, get) => ({
       // Initial state
-      homeLanguage: 'English',
+      isHydrated: false,
+      learner: null,
+      homeLanguage: DEFAULT_LANGUAGE,
+      targetLanguage: DEFAULT_LANGUAGE,
       words: [],
       currentSession: null,
       sessions: [],
-      practiceMode: 'conversation',
+      practiceModes: [],
+      practiceMode: DEFAULT_PRACTICE_MODE,
+      practiceDeck: null,
+      syncStatus: null,
+      isSyncing: false,
       isRecording: false,
+      recordAudio: false,
       
+      // Persistence
+      hydrate: async () => {
+        try {
+          const learner = await persistence.fetchCurrentLearner();
+          if (!learner) {
+            set({ learner: null, words: [], sessions: [], isHydrated: true });
+            return;
+          }
+          const [words, sessions, practiceModes] = await Promise.all([
+            persistence.fetchWords(),
+            persistence.fetchSessions(),
+            persistence.fetchPracticeModes()
+          ]);
+          // Staff may have switched off the mode that was picked
+          const selectable = selectableModes(practiceModes);
+          const practiceMode = selectable.some(m => m.id === get().practiceMode)
+            ? get().practiceMode
+            : selectable[0]?.id ?? DEFAULT_PRACTICE_MODE;
+          set({ learner, words, sessions, practiceModes, practiceMode, isHydrated: true });
+        } catch (error) {
+          console.error('Failed to load saved progress:', error);
+          set({ isHydrated: true });
+          return;
+        }
+        // Catch up on words learned on FlashAcademy since last time, without holding up the app
+        get().refreshSyncStatus()
+          .then(() => {
+            const status = get().syncStatus;
+            if (status?.configured && status.accountId) return get().syncVocabulary();
+          })
+          .catch(error => console.error('Failed to sync vocabulary:', error));
+      },
+
+      // Identity - errors propagate so the sign-in form can show them
+      signIn: async (username, password) => {
+        await persistence.signIn(username, password);
+        await get().hydrate();
+      },
+
+      register: async (username, displayName, password) => {
+        await persistence.register(username, displayName, password);
+        await get().hydrate();
+      },
+
+      signOut: async () => {
+        await persistence.signOut();
+        set({ learner: null, words: [], sessions: [], currentSession: null, practiceDeck: null, syncStatus: null });
+      },
+
       // User settings
-      setHomeLanguage: (language) => set({ homeLanguage: language }),
+      // Codes, though an English name ("Spanish") from before settings held codes still works
+      setHomeLanguage: (language) => set({ homeLanguage: toLanguageCode(language) ?? DEFAULT_LANGUAGE }),
+      setTargetLanguage: (language) => set({ targetLanguage: toLanguageCode(language) ?? DEFAULT_LANGUAGE }),
       
       // Words management
-      addWord: (word, language = 'en') => {
-        const state = get();
-        const newWord: Word = {
-          id: Date.now().toString(),
-          word,
-          timestamp: new Date(),
-          language,
-          mastery: 0,
-          practiceCount: 0,
-          orderIndex: state.words.length // Maintain insertion order
-        };
-        set((state) => ({ words: [...state.words, newWord] }));
+      addWord: (word, language, decks) => {
+        const learner = get().learner;
+        if (!learner) return;
+        const { words, saved } = mergeIntoList(
+          get().words,
+          [{ word, language, decks }],
+          learner.id,
+          get().targetLanguage
+        );
+        set({ words });
+        writeThrough(persistence.saveWords(saved), 'word');
       },
       
       updateWordMastery: (id, mastery) => {
@@ -89,6 +390,8 @@ export const useStore = create<AppState>((set, get) => ({
             w.id === id ? { ...w, mastery, lastPracticed: new Date() } : w
           )
         }));
+        const updated = get().words.find(w => w.id === id);
+        if (updated) writeThrough(persistence.saveWord(updated), 'word mastery');
       },
       
       incrementPracticeCount: (id) => {
@@ -97,30 +400,280 @@ export const useStore = create<AppState>((set, get) => ({
             w.id === id ? { ...w, practiceCount: w.practiceCount + 1, lastPracticed: new Date() } : w
           )
         }));
+        const updated = get().words.find(w => w.id === id);
+        if (updated) writeThrough(persistence.saveWord(updated), 'practice count');
+      },
+
+      reviewWord: (id, grade) => {
+        set((state) => ({
+          words: state.words.map(w =>
+            w.id === id ? { ...w, ...scheduleReview(w, grade), lastPracticed: new Date() } : w
+          )
+        }));
+        const updated = get().words.find(w => w.id === id);
+        if (updated) writeThrough(persistence.saveWord(updated), 'review');
+      },
+
+      updateWord: (id, changes) => {
+        set((state) => ({
+          words: state.words.map(w => w.id === id ? { ...w, ...changes } : w)
+        }));
+        const updated = get().words.find(w => w.id === id);
+        if (updated) writeThrough(persistence.saveWord(updated), 'word');
+      },
+
+      setWordsArchived: (ids, archived) => {
+        const selected = new Set(ids);
+        const changed: Word[] = [];
+        set((state) => ({
+          words: state.words.map(w => {
+            if (!selected.has(w.id) || !!w.archived === archived) return w;
+            const updated = { ...w, archived };
+            changed.push(updated);
+            return updated;
+          })
+        }));
+        writeThrough(persistence.saveWords(changed), archived ? 'archived words' : 'restored words');
+      },
+
+      // Closes the gap in orderIndex so new words still append at the end
+      deleteWords: (ids) => {
+        const selected = new Set(ids);
+        const remaining = [...get().words].sort(byOrder).filter(w => !selected.has(w.id));
+        const { words, changed } = renumber(remaining);
+        set({ words });
+        writeThrough(
+          persistence.deleteWords(ids).then(() => persistence.saveWords(changed)),
+          'deleted words'
+        );
+      },
+
+      moveWord: (id, toIndex) => {
+        const ordered = [...get().words].sort(byOrder);
+        const from = ordered.findIndex(w => w.id === id);
+        if (from === -1) return;
+        const [moved] = ordered.splice(from, 1);
+        ordered.splice(Math.max(0, Math.min(toIndex, ordered.length)), 0, moved);
+        const { words, changed } = renumber(ordered);
+        set({ words });
+        writeThrough(persistence.saveWords(changed), 'word order');
+      },
+      
+      // For lists saved before words were deduplicated on the way in. The entry with the most
+      // review history survives and takes on the others' practice; sessions follow it
+      mergeDuplicates: () => {
+        const { words, sessions } = get();
+        const groups = new Map<string, Word[]>();
+        for (const w of [...words].sort(byOrder)) {
+          const key = entryKey(w.word, w.language);
+          groups.set(key, [...(groups.get(key) ?? []), w]);
+        }
+
+        const replacedBy = new Map<string, string>();
+        const merged: Word[] = [];
+        for (const group of groups.values()) {
+          if (group.length < 2) continue;
+          const [survivor, ...others] = [...group].sort(
+            (a, b) => b.repetitions - a.repetitions || b.practiceCount - a.practiceCount
+          );
+          const practiced = group.map(w => w.lastPracticed).filter((d): d is Date => !!d);
+          merged.push({
+            ...survivor,
+            mastery: Math.max(...group.map(w => w.mastery)),
+            practiceCount: group.reduce((total, w) => total + w.practiceCount, 0),
+            lastPracticed: practiced.length > 0 ? new Date(Math.max(...practiced.map(d => new Date(d).getTime()))) : undefined,
+            timestamp: new Date(Math.min(...group.map(w => new Date(w.timestamp).getTime()))),
+            details: others.reduce((details, w) => mergeDetails(details, w.details), survivor.details),
+            archived: group.every(w => w.archived),
+            decks: others.reduce((decks, w) => withDecks(decks, w.decks), survivor.decks),
+            orderIndex: Math.min(...group.map(w => w.orderIndex ?? Infinity))
+          });
+          others.forEach(w => replacedBy.set(w.id, survivor.id));
+        }
+        if (replacedBy.size === 0) return 0;
+
+        const mergedById = new Map(merged.map(w => [w.id, w]));
+        const remaining = words
+          .filter(w => !replacedBy.has(w.id))
+          .map(w => mergedById.get(w.id) ?? w)
+          .sort(byOrder);
+        const { words: renumbered, changed } = renumber(remaining);
+        const changedIds = new Set(changed.map(w => w.id));
+        const toSave = renumbered.filter(w => mergedById.has(w.id) || changedIds.has(w.id));
+
+        const changedSessions = new Map(sessions
+          .filter(session => session.wordsReviewed.some(id => replacedBy.has(id)))
+          .map(session => [session.id, {
+            ...session,
+            wordsReviewed: Array.from(new Set(session.wordsReviewed.map(id => replacedBy.get(id) ?? id)))
+          }]));
+
+        set({
+          words: renumbered,
+          sessions: sessions.map(session => changedSessions.get(session.id) ?? session)
+        });
+        writeThrough(
+          persistence.deleteWords([...replacedBy.keys()])
+            .then(() => persistence.saveWords(toSave))
+            .then(() => persistence.saveSessions([...changedSessions.values()])),
+          'merged words'
+        );
+        return replacedBy.size;
+      },
+
+      // Decks
+      setWordsInDeck: (ids, deck, add) => {
+        const name = cleanDeckName(deck);
+        if (!name) return;
+        const selected = new Set(ids);
+        // Reuse the existing spelling when the deck is already there under different case
+        const existing = get().getDecks().find(d => d.toLowerCase() === name.toLowerCase()) ?? name;
+        const { words, changed } = updateEach(get().words, w => {
+          if (!selected.has(w.id) || inDeck(w, existing) === add) return w;
+          return { ...w, decks: add ? withDecks(w.decks, [existing]) : w.decks?.filter(d => d !== existing) };
+        });
+        set({ words });
+        writeThrough(persistence.saveWords(changed), 'deck membership');
+      },
+
+      renameDeck: (from, to) => {
+        const name = cleanDeckName(to);
+        if (!name || name === from) return;
+        const target = get().getDecks().find(d => d !== from && d.toLowerCase() === name.toLowerCase()) ?? name;
+        const { words, changed } = updateEach(get().words, w => {
+          if (!inDeck(w, from)) return w;
+          return { ...w, decks: withDecks(w.decks?.filter(d => d !== from), [target]) };
+        });
+        set((state) => ({ words, practiceDeck: state.practiceDeck === from ? target : state.practiceDeck }));
+        writeThrough(persistence.saveWords(changed), 'renamed deck');
+      },
+
+      deleteDeck: (deck) => {
+        const { words, changed } = updateEach(get().words, w =>
+          inDeck(w, deck) ? { ...w, decks: w.decks?.filter(d => d !== deck) } : w
+        );
+        set((state) => ({ words, practiceDeck: state.practiceDeck === deck ? null : state.practiceDeck }));
+        writeThrough(persistence.saveWords(changed), 'deleted deck');
+      },
+
+      setPracticeDeck: (deck) => set({ practiceDeck: deck }),
+
+      bulkAddWords: (newWords, decks) => {
+        const learner = get().learner;
+        if (!learner) return;
+        const { words, saved } = mergeIntoList(
+          get().words,
+          newWords.map(w => ({ word: w.word, timestamp: w.timestamp, decks })),
+          learner.id,
+          get().targetLanguage
+        );
+        set({ words });
+        writeThrough(persistence.saveWords(saved), 'words');
       },
       
-      bulkAddWords: (newWords) => {
+      importData: ({ words: imported, sessions: importedSessions = [] }) => {
         const state = get();
-        const currentMaxIndex = state.words.length;
-        const words = newWords.map((w, index) => ({
-          id: `${Date.now()}-${index}`,
-          word: w.word,
-          timestamp: w.timestamp,
-          language: 'en',
-          mastery: 0,
-          practiceCount: 0,
-          orderIndex: currentMaxIndex + index // Maintain insertion order
+        const learner = state.learner;
+        if (!learner) return { words: 0, sessions: 0 };
+
+        // Sessions that mention a word already in the list point at the existing word
+        const { words, saved, added, idBySource } = mergeIntoList(
+          state.words,
+          imported,
+          learner.id,
+          state.targetLanguage
+        );
+
+        // Sessions already saved (same start time and mode) aren't imported twice
+        const existingSessions = new Set(state.sessions.map(s => `${s.mode}@${new Date(s.startTime).getTime()}`));
+        const sessions: Session[] = importedSessions
+          .filter(s => !existingSessions.has(`${s.mode}@${new Date(s.startTime).getTime()}`))
+          .map(s => {
+            const id = newId();
+            return {
+              ...s,
+              id,
+              learnerId: learner.id,
+              wordsReviewed: s.wordsReviewed.map(wordId => idBySource.get(wordId)).filter((wordId): wordId is string => !!wordId),
+              turns: s.turns.map((turn, n) => ({ ...turn, id: `${id}-${n}`, audioUrl: undefined }))
+            };
+          });
+
+        set((state) => ({
+          words,
+          sessions: [...state.sessions, ...sessions].sort(
+            (a, b) => new Date(a.startTime).getTime() - new Date(b.startTime).getTime()
+          )
         }));
-        set((state) => ({ words: [...state.words, ...words] }));
+        writeThrough(persistence.saveWords(saved), 'imported words');
+        writeThrough(persistence.saveSessions(sessions), 'imported sessions');
+        return { words: added, sessions: sessions.length };
       },
       
+      // Vocabulary sync
+      refreshSyncStatus: async () => {
+        if (!get().learner) return;
+        set({ syncStatus: await persistence.fetchSyncStatus() });
+      },
+
+      linkSyncAccount: async (linkCode) => {
+        set({ syncStatus: await persistence.linkSyncAccount(linkCode) });
+      },
+
+      syncVocabulary: async (full = false) => {
+        const { learner, syncStatus, isSyncing } = get();
+        if (!learner || !syncStatus?.accountId || isSyncing) return { added: 0, pushed: 0 };
+
+        // Synced words practiced since the last push
+        const since = syncStatus.lastPushedAt ? syncStatus.lastPushedAt.getTime() : 0;
+        const mastery: MasteryUpdate[] = get().words.flatMap(w =>
+          w.external?.source === syncStatus.source && w.lastPracticed && new Date(w.lastPracticed).getTime() > since
+            ? [{ externalId: w.external.id, mastery: w.mastery, practiceCount: w.practiceCount, lastPracticed: w.lastPracticed }]
+            : []
+        );
+
+        set({ isSyncing: true });
+        try {
+          const result = await persistence.runSync(mastery, full);
+          const { words, saved, added } = mergeIntoList(
+            get().words,
+            result.words.map(w => ({
+              word: w.word,
+              timestamp: w.learnedAt, // When it was really learned, not when it arrived here
+              language: w.language,
+              decks: w.decks,
+              details: w.details,
+              external: { source: result.status.source, id: w.externalId },
+              archived: false // Like an import: a word already here keeps its archived state
+            })),
+            learner.id,
+            get().targetLanguage
+          );
+          set({ words, syncStatus: result.status });
+          // The cursor only moves on once the words are saved, or the next sync would skip them
+          await persistence.saveWords(saved);
+          set({ syncStatus: await persistence.confirmSync(result.syncId) });
+          return { added, pushed: result.pushed };
+        } catch (error) {
+          // The server records the failure; show it
+          await get().refreshSyncStatus().catch(() => undefined);
+          throw error;
+        } finally {
+          set({ isSyncing: false });
+        }
+      },
+
       // Session management
       startSession: (mode) => {
+        const learner = get().learner;
+        if (!learner) return;
         const session: Session = {
-          id: Date.now().toString(),
+          id: newId(),
+          learnerId: learner.id,
           startTime: new Date(),
           mode,
-          wordsReviewed: []
+          wordsReviewed: [],
+          turns: []
         };
         set({ currentSession: session, practiceMode: mode });
       },
@@ -137,6 +690,12 @@ export const useStore = create<AppState>((set, get) => ({
             currentSession: null,
             sessions: [...sessions, endedSession]
           });
+          writeThrough(persistence.saveSession(endedSession), 'session');
+          // Send the session's mastery changes back to FlashAcademy
+          const status = get().syncStatus;
+          if (status?.configured && status.accountId) {
+            get().syncVocabulary().catch(error => console.error('Failed to sync vocabulary:', error));
+          }
         }
       },
       
@@ -151,20 +710,36 @@ export const useStore = create<AppState>((set, get) => ({
           };
         });
       },
+
+      // Returns the turn as stored, or null outside a session. A recording is uploaded in
+      // the background and the turn keeps only its URL
+      addTurnToSession: ({ audio, ...turn }) => {
+        const session = get().currentSession;
+        if (!session) return null;
+
+        const id = `${session.id}-${session.turns.length}`;
+        const stored: Turn = audio
+          ? { ...turn, id, audioUrl: persistence.turnAudioUrl(session.id, id) }
+          : { ...turn, id };
+        set({ currentSession: { ...session, turns: [...session.turns, stored] } });
+        if (audio) writeThrough(persistence.saveTurnAudio(session.id, id, audio), 'turn audio');
+        return stored;
+      },
       
       // Practice mode
       setPracticeMode: (mode) => set({ practiceMode: mode }),
       
       // Voice session
       setIsRecording: (recording) => set({ isRecording: recording }),
+      setRecordAudio: (record) => set({ recordAudio: record }),
       
       // Analytics
       getTotalWords: () => get().words.length,
       
       getMasteredWords: () => get().words.filter(w => w.mastery >= 80).length,
       
-      getRecentWords: (limit = 10) => {
-        const words = get().words;
+      getRecentWords: (limit = 10, scope = {}) => {
+        const words = get().words.filter(w => !w.archived && inScope(w, scope));
         // Sort by orderIndex first (if available), then by timestamp
         return [...words]
           .sort((a, b) => {
@@ -183,41 +758,38 @@ export const useStore = create<AppState>((set, get) => ({
         ).length;
       },
       
-      // Get words for practice - prioritizes least practiced and lowest mastery
-      getWordsForPractice: (limit = 10) => {
-        const words = get().words;
-        if (words.length === 0) return [];
+      // Get words for practice - words due today, most overdue first, then new words
+      getWordsForPractice: (limit = 10, scope = {}) => {
+        const now = new Date();
+        const due = get().words.filter(w => !w.archived && inScope(w, scope) && isDue(w, now));
         
-        // Sort by practice priority: least practiced first, then by mastery (lowest first)
-        return [...words]
+        return due
           .sort((a, b) => {
-            // First priority: practice count (lower is better)
-            if (a.practiceCount !== b.practiceCount) {
-              return a.practiceCount - b.practiceCount;
+            // Reviews before new words, oldest due date first
+            if (a.dueDate && b.dueDate) {
+              return new Date(a.dueDate).getTime() - new Date(b.dueDate).getTime();
             }
-            // Second priority: mastery level (lower is better)
-            if (a.mastery !== b.mastery) {
-              return a.mastery - b.mastery;
+            if (a.dueDate || b.dueDate) {
+              return a.dueDate ? -1 : 1;
             }
-            // Third priority: most recently added (higher orderIndex)
+            // New words in the order they were added
             if (a.orderIndex !== undefined && b.orderIndex !== undefined) {
-              return b.orderIndex - a.orderIndex;
+              return a.orderIndex - b.orderIndex;
             }
-            // Fallback to timestamp
-            return new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime();
+            return new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime();
           })
-          .slice(0, Math.min(limit, words.length));
+          .slice(0, limit);
       },
       
-      // Get all words in the order they were added
-      getAllWords: () => {
-        const words = get().words;
-        return [...words].sort((a, b) => {
-          if (a.orderIndex !== undefined && b.orderIndex !== undefined) {
-            return a.orderIndex - b.orderIndex; // Original order
-          }
-          return new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime();
-        });
-      }
+      // Get all words in list order (as added, unless reordered), archived ones only on request
+      getAllWords: (includeArchived = false, scope = {}) => {
+        const words = get().words.filter(w => (includeArchived || !w.archived) && inScope(w, scope));
+        return [...words].sort(byOrder);
+      },
+
+      getPracticeScope: () => ({ language: get().targetLanguage, deck: get().practiceDeck }),
+
+      getDecks: () => Array.from(new Set(get().words.flatMap(w => w.decks ?? [])))
+        .sort((a, b) => a.localeCompare(b))
     })
 );
\ No newline at end of file
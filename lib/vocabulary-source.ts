@@ -0,0 +1,51 @@
+import type { WordDetails } from './store';
+
+// Where learned vocabulary comes from outside Voice Tutor. A source hands over the words a
+// student has learned, page by page from a cursor, and takes their practice results back.
+// Adapters run on the server (they hold API credentials) behind /api/sync; see
+// lib/flashacademy-source.ts.
+
+/** A word as the source knows it, with the time the student actually learned it. */
+export interface LearnedWord {
+  externalId: string; // The source's own id, stable across syncs
+  word: string;
+  learnedAt: Date;
+  language?: string;
+  decks?: string[];   // e.g. the unit or lesson it was learned in
+  details?: WordDetails;
+}
+
+/** One page of learned words. `cursor` picks up after the last word; hasMore asks for another page. */
+export interface LearnedWordsPage {
+  words: LearnedWord[];
+  cursor: string | null;
+  hasMore: boolean;
+}
+
+/** Practice results for one synced word, pushed back to the source. */
+export interface MasteryUpdate {
+  externalId: string;
+  mastery: number;       // 0-100
+  practiceCount: number;
+  lastPracticed?: Date;
+}
+
+export interface VocabularySource {
+  readonly id: string;   // Stored with each synced word, e.g. "flashacademy"
+  readonly name: string; // For people, e.g. "FlashAcademy"
+  /** Words learned after `cursor` (everything, when null), oldest first. */
+  fetchLearnedWords(cursor: string | null): Promise<LearnedWordsPage>;
+  pushMastery(updates: MasteryUpdate[]): Promise<void>;
+}
+
+/** A learner's link to a source and how their last sync went. */
+export interface SyncStatus {
+  source: string;
+  name: string;
+  configured: boolean;      // The server has credentials for the source
+  accountId: string | null; // The learner's account there; null until linked
+  lastSyncedAt?: Date;
+  lastPushedAt?: Date;
+  lastError?: string;
+  wordsSynced: number;
+}
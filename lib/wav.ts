@@ -0,0 +1,32 @@
+// Minimal WAV (RIFF) writer for the mono PCM16 the Realtime API speaks, so recorded
+// turns play back in any <audio> element without a decoder
+
+const HEADER_BYTES = 44;
+
+function writeAscii(view: DataView, offset: number, text: string) {
+  for (let i = 0; i < text.length; i++) {
+    view.setUint8(offset + i, text.charCodeAt(i));
+  }
+}
+
+/** Concatenate little-endian PCM16 mono chunks into a WAV file. */
+export function encodeWav(chunks: ArrayBuffer[], sampleRate: number): Blob {
+  const dataBytes = chunks.reduce((total, chunk) => total + chunk.byteLength, 0);
+  const header = new DataView(new ArrayBuffer(HEADER_BYTES));
+
+  writeAscii(header, 0, 'RIFF');
+  header.setUint32(4, HEADER_BYTES - 8 + dataBytes, true);
+  writeAscii(header, 8, 'WAVE');
+  writeAscii(header, 12, 'fmt ');
+  header.setUint32(16, 16, true);             // fmt chunk size
+  header.setUint16(20, 1, true);              // PCM
+  header.setUint16(22, 1, true);              // Mono
+  header.setUint32(24, sampleRate, true);
+  header.setUint32(28, sampleRate * 2, true); // Byte rate
+  header.setUint16(32, 2, true);              // Block align
+  header.setUint16(34, 16, true);             // Bits per sample
+  writeAscii(header, 36, 'data');
+  header.setUint32(40, dataBytes, true);
+
+  return new Blob([header.buffer, ...chunks], { type: 'audio/wav' });
+}
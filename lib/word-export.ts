@@ -0,0 +1,86 @@
+import type { Learner, Session, Word } from './store';
+import { BACKUP_FORMAT, BACKUP_VERSION, csvCell } from './word-import';
+
+// Exports for moving a learner's data to other tools: a JSON backup that round-trips through
+// the importer, and CSVs of words and sessions for spreadsheets.
+
+/** Everything the learner has, minus ids tying it to this server's accounts. */
+export function buildBackup(learner: Learner, words: Word[], sessions: Session[]): string {
+  return JSON.stringify({
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt: new Date().toISOString(),
+    learner: { username: learner.username, displayName: learner.displayName },
+    // Undefined fields are left out of the JSON
+    words: words.map(word => ({ ...word, learnerId: undefined })),
+    // Recordings stay on the server; their URLs wouldn't resolve anywhere else
+    sessions: sessions.map(session => ({
+      ...session,
+      learnerId: undefined,
+      turns: session.turns.map(turn => ({ ...turn, audioUrl: undefined }))
+    }))
+  }, null, 2);
+}
+
+function isoDate(date?: Date): string {
+  return date ? new Date(date).toISOString() : '';
+}
+
+/** One row per word, with the same headers the CSV importer recognises. */
+export function wordsToCsv(words: Word[]): string {
+  const languages = Array.from(new Set(words.flatMap(w => Object.keys(w.details?.translations ?? {})))).sort();
+  const header = [
+    'word', 'ipa', 'syllables', 'stress', 'partOfSpeech', 'definition', 'example',
+    ...languages.map(language => `translation:${language}`),
+    'mastery', 'practiceCount', 'ease', 'interval', 'repetitions', 'lapses',
+    'lastPracticed', 'dueDate', 'added', 'archived', 'decks'
+  ];
+
+  const rows = words.map(w => [
+    w.word,
+    w.details?.ipa,
+    w.details?.syllables?.join('-'),
+    w.details?.stress !== undefined ? w.details.stress + 1 : '', // 1-based for people
+    w.details?.partOfSpeech,
+    w.details?.definition,
+    w.details?.example,
+    ...languages.map(language => w.details?.translations?.[language]),
+    w.mastery,
+    w.practiceCount,
+    w.ease,
+    w.interval,
+    w.repetitions,
+    w.lapses,
+    isoDate(w.lastPracticed),
+    isoDate(w.dueDate),
+    isoDate(w.timestamp),
+    w.archived ? 'true' : 'false',
+    (w.decks ?? []).join('; ')
+  ]);
+
+  return [header, ...rows].map(row => row.map(csvCell).join(',')).join('\n');
+}
+
+export function sessionsToCsv(sessions: Session[], words: Word[]): string {
+  const wordText = new Map(words.map(w => [w.id, w.word]));
+  const header = ['startTime', 'endTime', 'mode', 'durationSeconds', 'words', 'learnerTurns', 'tutorTurns'];
+  const rows = sessions.map(s => [
+    isoDate(s.startTime),
+    isoDate(s.endTime),
+    s.mode,
+    s.duration !== undefined ? Math.round(s.duration / 1000) : '',
+    s.wordsReviewed.map(id => wordText.get(id)).filter(Boolean).join('; '),
+    s.turns.filter(t => t.role === 'learner').length,
+    s.turns.filter(t => t.role === 'tutor').length
+  ]);
+  return [header, ...rows].map(row => row.map(csvCell).join(',')).join('\n');
+}
+
+export function downloadFile(filename: string, content: string | Blob, type: string) {
+  const url = URL.createObjectURL(content instanceof Blob ? content : new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
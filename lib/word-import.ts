@@ -0,0 +1,409 @@
+import type { ImportedSession, ImportedWord, Session, Word, WordDetails } from './store';
+import { cleanWordText, wordKey } from './normalize';
+import { languageName, toLanguageCode, translationsByCode } from './languages';
+
+// Parsing for the Words tab's importer. Every tabular source (CSV, TSV, Anki) becomes an
+// ImportTable; the learner maps its columns to word fields, and the preview shows what each
+// row will become before anything is saved. JSON backups restore words and sessions as-is.
+
+export type ImportSource = 'csv' | 'tsv' | 'anki' | 'json';
+
+export interface ImportError {
+  line: number; // 1-based line (or note) in the source file; 0 for the file as a whole
+  message: string;
+}
+
+export interface ImportTable {
+  source: ImportSource;
+  columns: string[];
+  rows: { line: number; cells: string[] }[];
+  errors: ImportError[];
+  html: boolean; // Cells are HTML (Anki fields) and need stripping
+}
+
+export type RowStatus = 'new' | 'duplicate' | 'repeated' | 'error';
+
+export interface PreviewRow {
+  line: number;
+  word: ImportedWord | null;
+  status: RowStatus; // duplicate: already in the list; repeated: earlier in the same file
+  message?: string;
+}
+
+export interface BackupData {
+  words: ImportedWord[];
+  sessions: ImportedSession[];
+}
+
+export const BACKUP_FORMAT = 'voice-tutor-backup';
+export const BACKUP_VERSION = 1;
+
+// Word fields a column can be mapped to; translations are `translation:<language code>`
+export const IMPORT_FIELDS = [
+  'word', 'ipa', 'syllables', 'stress', 'partOfSpeech', 'definition', 'example',
+  'mastery', 'practiceCount', 'ease', 'interval', 'repetitions', 'lapses',
+  'lastPracticed', 'dueDate', 'added', 'archived', 'decks', 'tags'
+] as const;
+
+export type ImportField = typeof IMPORT_FIELDS[number] | `translation:${string}`;
+
+const FIELD_ALIASES: Record<string, ImportField> = {
+  term: 'word',
+  front: 'word',
+  english: 'word',
+  expression: 'word',
+  vocabulary: 'word',
+  pronunciation: 'ipa',
+  phonetic: 'ipa',
+  pos: 'partOfSpeech',
+  type: 'partOfSpeech',
+  meaning: 'definition',
+  back: 'definition',
+  gloss: 'definition',
+  sentence: 'example',
+  examplesentence: 'example',
+  practices: 'practiceCount',
+  timestamp: 'added',
+  dateadded: 'added',
+  due: 'dueDate',
+  deck: 'decks',
+  tag: 'tags'
+};
+
+function headerKey(header: string): string {
+  return header.toLowerCase().replace(/[\s_-]+/g, '');
+}
+
+/**
+ * Best guess at what each column holds, from its header. Translation columns are
+ * recognised as "translation:es", "translation:Spanish", "Spanish translation" or the bare
+ * name or code of one of `languages` (codes). Unrecognised columns map to null (ignored).
+ */
+export function guessMapping(columns: string[], languages: string[]): (ImportField | null)[] {
+  const used = new Set<ImportField>();
+  return columns.map(column => {
+    const key = headerKey(column);
+    const translation = column.match(/^\s*translation\s*[:(]\s*([^)]+?)\s*\)?\s*$/i)
+      || column.match(/^\s*(\S+)\s+translation\s*$/i);
+    const language = translation
+      ? translation[1]
+      : languages.find(l => [l, languageName(l)].some(name => name.toLowerCase() === column.trim().toLowerCase()));
+
+    const field: ImportField | undefined = language
+      ? `translation:${toLanguageCode(language) ?? capitalize(language)}`
+      : IMPORT_FIELDS.find(f => f.toLowerCase() === key) || FIELD_ALIASES[key];
+    if (!field || used.has(field)) return null;
+    used.add(field);
+    return field;
+  });
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1).toLowerCase();
+}
+
+/**
+ * RFC 4180 parsing: quoted cells may contain the delimiter, doubled quotes and newlines.
+ * Returns each record with the line it started on.
+ */
+export function parseDelimited(text: string, delimiter: string): { rows: { line: number; cells: string[] }[]; errors: ImportError[] } {
+  const rows: { line: number; cells: string[] }[] = [];
+  const errors: ImportError[] = [];
+  let cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  let line = 1;
+  let rowLine = 1;
+
+  const endRow = () => {
+    cells.push(cell);
+    if (cells.some(c => c.trim())) rows.push({ line: rowLine, cells });
+    cells = [];
+    cell = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === '\n') line++;
+        cell += char;
+      }
+    } else if (char === '"' && cell === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      cells.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      endRow();
+      line++;
+      rowLine = line;
+    } else {
+      cell += char;
+    }
+  }
+
+  if (quoted) {
+    errors.push({ line: rowLine, message: 'Unterminated quoted cell - the rest of the file was skipped' });
+  } else {
+    endRow();
+  }
+  return { rows, errors };
+}
+
+export function parseCsv(text: string): ImportTable {
+  const { rows, errors } = parseDelimited(text.replace(/^\uFEFF/, ''), text.includes('\t') && !text.includes(',') ? '\t' : ',');
+  const [header, ...body] = rows;
+  return {
+    source: 'csv',
+    columns: header ? header.cells.map(c => c.trim()) : [],
+    rows: body,
+    errors,
+    html: false
+  };
+}
+
+/**
+ * Anki's "Notes in Plain Text" export: tab-separated, with optional `#key:value` header
+ * lines (`#separator:tab`, `#html:true`, `#columns:Front	Back`). Without a `#columns`
+ * line the columns are named after Anki's default note type.
+ */
+export function parseAnkiText(text: string): ImportTable {
+  const settings: Record<string, string> = {};
+  const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/);
+  let skipped = 0;
+  while (skipped < lines.length && lines[skipped].startsWith('#')) {
+    const [key, ...value] = lines[skipped].slice(1).split(':');
+    settings[key.trim().toLowerCase()] = value.join(':');
+    skipped++;
+  }
+
+  const separators: Record<string, string> = { tab: '\t', comma: ',', semicolon: ';', pipe: '|', space: ' ' };
+  const delimiter = separators[settings.separator?.trim().toLowerCase()] ?? settings.separator ?? '\t';
+  const { rows, errors } = parseDelimited(lines.slice(skipped).join('\n'), delimiter);
+  const width = Math.max(0, ...rows.map(r => r.cells.length));
+  // Anki can add guid, note type, deck and tags columns ahead of or after the note's fields
+  const metaColumns = new Map<number, string>();
+  for (const [key, name] of [['guid', 'GUID'], ['notetype', 'Note type'], ['deck', 'Deck'], ['tags', 'Tags']]) {
+    const position = Number(settings[`${key} column`]);
+    if (position > 0) metaColumns.set(position - 1, name);
+  }
+  let fieldNumber = 0;
+  const columns = settings.columns
+    ? settings.columns.split(delimiter).map(c => c.trim())
+    : Array.from({ length: width }, (_, i) => {
+        if (metaColumns.has(i)) return metaColumns.get(i) as string;
+        fieldNumber++;
+        return ['Front', 'Back'][fieldNumber - 1] ?? `Field ${fieldNumber}`;
+      });
+
+  return {
+    source: 'tsv',
+    columns,
+    rows: rows.map(r => ({ ...r, line: r.line + skipped })),
+    errors: errors.map(e => ({ ...e, line: e.line + skipped })),
+    html: settings.html?.trim() !== 'false'
+  };
+}
+
+/** Plain text from an Anki field: no tags, sound references or entities. */
+export function stripHtml(html: string): string {
+  const entities: Record<string, string> = { nbsp: ' ', amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", '#39': "'" };
+  return html
+    .replace(/\[sound:[^\]]*\]/g, '')
+    .replace(/<br\s*\/?>|<\/(div|p|li)>/gi, ' ')
+    .replace(/<[^>]*>/g, '')
+    .replace(/&(#?\w+);/g, (match, name: string) => entities[name.toLowerCase()] ?? match)
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function parseNumber(value: string, field: string, min: number, max: number): number {
+  const number = Number(value);
+  if (!Number.isFinite(number) || number < min || number > max) {
+    throw new Error(`${field} must be a number from ${min} to ${max} (got "${value}")`);
+  }
+  return number;
+}
+
+function parseDate(value: string, field: string): Date {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) throw new Error(`${field} is not a date (got "${value}")`);
+  return date;
+}
+
+// One row of cells to a word, throwing with a message the error report can show
+function rowToWord(cells: string[], mapping: (ImportField | null)[], html: boolean): ImportedWord {
+  const word: ImportedWord = { word: '' };
+  const details: WordDetails = {};
+  const translations: Record<string, string> = {};
+
+  mapping.forEach((field, i) => {
+    const value = html ? stripHtml(cells[i] ?? '') : (cells[i] ?? '').trim();
+    if (!field || !value) return;
+
+    if (field.startsWith('translation:')) {
+      translations[field.slice('translation:'.length)] = value;
+      return;
+    }
+    switch (field) {
+      case 'word': word.word = cleanWordText(value); break;
+      case 'ipa': details.ipa = value.replace(/^\/|\/$/g, ''); break;
+      case 'syllables': details.syllables = value.split(/[-·\s]+/).filter(Boolean); break;
+      case 'stress': details.stress = parseNumber(value, 'Stress', 1, 20) - 1; break;
+      case 'partOfSpeech': details.partOfSpeech = value.toLowerCase(); break;
+      case 'definition': details.definition = value; break;
+      case 'example': details.example = value; break;
+      case 'mastery': word.mastery = Math.round(parseNumber(value, 'Mastery', 0, 100)); break;
+      case 'practiceCount': word.practiceCount = Math.round(parseNumber(value, 'Practice count', 0, 1e6)); break;
+      case 'ease': word.ease = parseNumber(value, 'Ease', 1.3, 5); break;
+      case 'interval': word.interval = parseNumber(value, 'Interval', 0, 36500); break;
+      case 'repetitions': word.repetitions = Math.round(parseNumber(value, 'Repetitions', 0, 1e6)); break;
+      case 'lapses': word.lapses = Math.round(parseNumber(value, 'Lapses', 0, 1e6)); break;
+      case 'lastPracticed': word.lastPracticed = parseDate(value, 'Last practiced'); break;
+      case 'dueDate': word.dueDate = parseDate(value, 'Due date'); break;
+      case 'added': word.timestamp = parseDate(value, 'Added'); break;
+      case 'archived': word.archived = ['true', 'yes', '1', 'y'].includes(value.toLowerCase()); break;
+      // Deck names are separated by semicolons; Anki-style tags by spaces or commas
+      case 'decks': word.decks = [...(word.decks ?? []), ...value.split(';')]; break;
+      case 'tags': word.decks = [...(word.decks ?? []), ...value.split(/[\s,]+/)]; break;
+    }
+  });
+
+  if (!word.word) throw new Error('Missing word');
+  if (Object.keys(translations).length > 0) details.translations = translations;
+  if (Object.keys(details).length > 0) word.details = details;
+  return word;
+}
+
+/**
+ * What importing `table` with `mapping` would do, row by row. Words already in `existing`
+ * (or earlier in the file) are flagged rather than imported twice.
+ */
+export function previewImport(table: ImportTable, mapping: (ImportField | null)[], existing: Word[]): PreviewRow[] {
+  if (!mapping.includes('word')) {
+    return table.rows.map(row => ({ line: row.line, word: null, status: 'error', message: 'No column is mapped to the word' }));
+  }
+
+  const known = new Set(existing.map(w => wordKey(w.word)));
+  const seen = new Set<string>();
+  return table.rows.map(row => {
+    try {
+      const word = rowToWord(row.cells, mapping, table.html);
+      const key = wordKey(word.word);
+      const status: RowStatus = known.has(key) ? 'duplicate' : seen.has(key) ? 'repeated' : 'new';
+      seen.add(key);
+      return { line: row.line, word, status };
+    } catch (error) {
+      return { line: row.line, word: null, status: 'error', message: (error as Error).message };
+    }
+  });
+}
+
+type SerializedBackup = {
+  format?: string;
+  version?: number;
+  words?: unknown[];
+  sessions?: unknown[];
+};
+
+function optionalDate(value: unknown): Date | undefined {
+  if (typeof value !== 'string' && typeof value !== 'number') return undefined;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? undefined : date;
+}
+
+// Backups from before languages were stored by code key translations by name ("Spanish")
+function backupDetails(details: WordDetails): WordDetails {
+  return details.translations && typeof details.translations === 'object'
+    ? { ...details, translations: translationsByCode(details.translations) }
+    : details;
+}
+
+/** Read a backup written by `buildBackup`. Bad entries are reported and skipped. */
+export function parseBackup(text: string): { data: BackupData; errors: ImportError[] } {
+  const fail = (message: string) => ({ data: { words: [], sessions: [] }, errors: [{ line: 0, message }] });
+
+  let backup: SerializedBackup;
+  try {
+    backup = JSON.parse(text);
+  } catch {
+    return fail('Not valid JSON');
+  }
+  if (backup?.format !== BACKUP_FORMAT) return fail('Not a Voice Tutor backup');
+  if (backup.version !== BACKUP_VERSION) return fail(`Unsupported backup version ${backup.version}`);
+
+  const errors: ImportError[] = [];
+  const words: ImportedWord[] = [];
+  (backup.words ?? []).forEach((raw, i) => {
+    const w = raw as Record<string, unknown>;
+    if (!w || typeof w.word !== 'string' || !cleanWordText(w.word)) {
+      errors.push({ line: i + 1, message: `Word #${i + 1} has no text` });
+      return;
+    }
+    words.push({
+      sourceId: typeof w.id === 'string' ? w.id : undefined,
+      word: cleanWordText(w.word),
+      timestamp: optionalDate(w.timestamp),
+      language: typeof w.language === 'string' ? w.language : undefined,
+      mastery: typeof w.mastery === 'number' ? w.mastery : undefined,
+      practiceCount: typeof w.practiceCount === 'number' ? w.practiceCount : undefined,
+      lastPracticed: optionalDate(w.lastPracticed),
+      ease: typeof w.ease === 'number' ? w.ease : undefined,
+      interval: typeof w.interval === 'number' ? w.interval : undefined,
+      repetitions: typeof w.repetitions === 'number' ? w.repetitions : undefined,
+      lapses: typeof w.lapses === 'number' ? w.lapses : undefined,
+      dueDate: optionalDate(w.dueDate),
+      details: w.details && typeof w.details === 'object' ? backupDetails(w.details as WordDetails) : undefined,
+      archived: w.archived === true,
+      decks: Array.isArray(w.decks) ? w.decks.filter((d): d is string => typeof d === 'string') : undefined
+    });
+  });
+
+  const sessions: ImportedSession[] = [];
+  (backup.sessions ?? []).forEach((raw, i) => {
+    const s = raw as Record<string, unknown>;
+    const startTime = optionalDate(s?.startTime);
+    // Any practice mode id - a mode added in the admin console may since have been deleted,
+    // and its sessions are still worth keeping
+    if (!startTime || typeof s.mode !== 'string' || !s.mode.trim()) {
+      errors.push({ line: i + 1, message: `Session #${i + 1} is missing its start time or mode` });
+      return;
+    }
+    sessions.push({
+      startTime,
+      endTime: optionalDate(s.endTime),
+      mode: s.mode as Session['mode'],
+      wordsReviewed: Array.isArray(s.wordsReviewed) ? s.wordsReviewed.filter(id => typeof id === 'string') : [],
+      turns: Array.isArray(s.turns)
+        ? (s.turns as Record<string, unknown>[]).map((turn, n) => ({
+            id: `${n}`,
+            role: turn.role === 'tutor' ? 'tutor' : 'learner',
+            text: String(turn.text ?? ''),
+            timestamp: optionalDate(turn.timestamp) ?? startTime,
+            word: typeof turn.word === 'string' ? turn.word : undefined,
+            interrupted: turn.interrupted === true
+          }))
+        : [],
+      duration: typeof s.duration === 'number' ? s.duration : undefined
+    });
+  });
+
+  return { data: { words, sessions }, errors };
+}
+
+/** The error report as CSV, for fixing the source file. */
+export function errorReportCsv(errors: ImportError[]): string {
+  return ['line,error', ...errors.map(e => `${e.line},${csvCell(e.message)}`)].join('\n');
+}
+
+export function csvCell(value: string | number | boolean | undefined | null): string {
+  const text = value === undefined || value === null ? '' : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
@@ -0,0 +1,58 @@
+/**
+ * Microphone capture for the Realtime API.
+ *
+ * Runs on the audio rendering thread: resamples the context's native rate down to the
+ * target rate (24kHz for the Realtime API), converts to little-endian PCM16 and posts
+ * fixed-size chunks back to the main thread as transferable ArrayBuffers.
+ *
+ * processorOptions:
+ *   targetSampleRate - output rate in Hz (default 24000)
+ *   chunkSize        - samples per posted chunk, at the target rate (default 2048)
+ */
+class Pcm16CaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const { targetSampleRate = 24000, chunkSize = 2048 } = options.processorOptions || {};
+    // `sampleRate` is the AudioContext rate, provided by the worklet global scope
+    this.ratio = sampleRate / targetSampleRate;
+    this.chunkSize = chunkSize;
+    this.chunk = new Int16Array(chunkSize);
+    this.chunkLength = 0;
+    // Fractional read position carried across render quanta so resampling is seamless
+    this.position = 0;
+    this.previousSample = 0;
+  }
+
+  process(inputs) {
+    const input = inputs[0] && inputs[0][0];
+    if (!input) return true;
+
+    // Linear interpolation; index -1 refers to the last sample of the previous quantum
+    while (this.position < input.length) {
+      const index = Math.floor(this.position);
+      const fraction = this.position - index;
+      const a = index === 0 ? this.previousSample : input[index - 1];
+      const b = input[index];
+      this.push(a + (b - a) * fraction);
+      this.position += this.ratio;
+    }
+    this.position -= input.length;
+    this.previousSample = input[input.length - 1];
+
+    return true;
+  }
+
+  push(sample) {
+    const s = Math.max(-1, Math.min(1, sample));
+    this.chunk[this.chunkLength++] = s < 0 ? s * 0x8000 : s * 0x7FFF;
+
+    if (this.chunkLength === this.chunkSize) {
+      const buffer = this.chunk.buffer;
+      this.port.postMessage(buffer, [buffer]);
+      this.chunk = new Int16Array(this.chunkSize);
+      this.chunkLength = 0;
+    }
+  }
+}
+
+registerProcessor('pcm16-capture-processor', Pcm16CaptureProcessor);
@@ -0,0 +1,90 @@
+/**
+ * Tutor audio playback with a jitter buffer.
+ *
+ * The main thread posts PCM16 chunks as they arrive over the WebSocket; they are queued
+ * here and played back resampled to the context rate. Playback only starts (and restarts
+ * after an underrun) once `jitterMs` of audio is buffered, which smooths out network
+ * bursts without the scheduling drift of chained AudioBufferSourceNodes.
+ *
+ * Messages in:  { type: 'push', samples: ArrayBuffer }  - PCM16 at sourceSampleRate
+ *               { type: 'clear' }                      - drop everything (interruption)
+ * Messages out: { type: 'started' } / { type: 'drained' }
+ *
+ * processorOptions:
+ *   sourceSampleRate - rate of the incoming PCM16 (default 24000)
+ *   jitterMs         - audio to buffer before starting playback (default 100)
+ */
+class Pcm16PlaybackProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const { sourceSampleRate = 24000, jitterMs = 100 } = options.processorOptions || {};
+    this.step = sourceSampleRate / sampleRate;
+    this.threshold = Math.ceil((sourceSampleRate * jitterMs) / 1000);
+    this.queue = [];      // Float32Array chunks at the source rate
+    this.queued = 0;      // Samples across all queued chunks
+    this.offset = 0;      // Read position within queue[0]
+    this.playing = false;
+
+    this.port.onmessage = (event) => {
+      const message = event.data;
+      if (message.type === 'push') {
+        const pcm = new Int16Array(message.samples);
+        const samples = new Float32Array(pcm.length);
+        for (let i = 0; i < pcm.length; i++) {
+          samples[i] = pcm[i] / 32768;
+        }
+        this.queue.push(samples);
+        this.queued += samples.length;
+      } else if (message.type === 'clear') {
+        this.queue = [];
+        this.queued = 0;
+        this.offset = 0;
+        this.setPlaying(false);
+      }
+    };
+  }
+
+  setPlaying(playing) {
+    if (this.playing === playing) return;
+    this.playing = playing;
+    this.port.postMessage({ type: playing ? 'started' : 'drained' });
+  }
+
+  process(_inputs, outputs) {
+    const output = outputs[0][0];
+
+    if (!this.playing && this.queued >= this.threshold) {
+      this.setPlaying(true);
+    }
+    if (!this.playing) {
+      output.fill(0);
+      return true;
+    }
+
+    for (let i = 0; i < output.length; i++) {
+      if (this.queue.length === 0) {
+        // Underrun - pad with silence and wait for the buffer to refill
+        output.fill(0, i);
+        this.setPlaying(false);
+        break;
+      }
+
+      const chunk = this.queue[0];
+      const index = Math.floor(this.offset);
+      const fraction = this.offset - index;
+      const next = index + 1 < chunk.length ? chunk[index + 1] : (this.queue[1] ? this.queue[1][0] : chunk[index]);
+      output[i] = chunk[index] + (next - chunk[index]) * fraction;
+
+      this.offset += this.step;
+      while (this.queue.length > 0 && this.offset >= this.queue[0].length) {
+        this.offset -= this.queue[0].length;
+        this.queued -= this.queue[0].length;
+        this.queue.shift();
+      }
+    }
+
+    return true;
+  }
+}
+
+registerProcessor('pcm16-playback-processor', Pcm16PlaybackProcessor);
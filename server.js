@@ -2,11 +2,25 @@ const { createServer } = require('http');
 const { parse } = require('url');
 const next = require('next');
 const WebSocket = require('ws');
+const { createMockUpstream, loadScenario } = require('./server/mock-realtime');
+const { getTokenIssuer } = require('./server/session-tokens');
+const { learnerIdFromCookieHeader } = require('./server/auth');
+const { createLessonRelay } = require('./server/lesson-relay');
+const { recordUsage, recordInputAudio, createInputAudioMeter, checkQuota } = require('./server/usage');
 
 const dev = process.env.NODE_ENV !== 'production';
 const hostname = 'localhost';
 const port = 3000;
 
+// Close code the browser treats as "out of quota for today" rather than a dropped connection
+const QUOTA_CLOSE_CODE = 4029;
+
+// Set REALTIME_MOCK_SCENARIO (a scenario name or path to a JSON file) to run against
+// the local mock instead of OpenAI - no API key or network needed
+const mockScenario = process.env.REALTIME_MOCK_SCENARIO
+  ? loadScenario(process.env.REALTIME_MOCK_SCENARIO)
+  : null;
+
 const app = next({ dev, hostname, port });
 const handle = app.getRequestHandler();
 
@@ -26,71 +40,137 @@ app.prepare().then(() => {
   const wss = new WebSocket.Server({ noServer: true });
 
   server.on('upgrade', (request, socket, head) => {
-    const { pathname } = parse(request.url);
+    const { pathname, query } = parse(request.url, true);
     
     if (pathname === '/api/realtime/ws') {
-      wss.handleUpgrade(request, socket, head, (ws) => {
-        // Create connection to OpenAI
-        const openaiWs = new WebSocket('wss://api.openai.com/v1/realtime?model=gpt-4o-realtime-preview-2024-12-17', {
-          headers: {
-            'Authorization': `Bearer ${process.env.OPENAI_API_KEY}`,
-            'OpenAI-Beta': 'realtime=v1'
-          }
-        });
+      // The learner must be signed in (cookie) and hold a session token minted for them.
+      // Browsers can't set headers on a WebSocket, so the token from /api/realtime comes in the query
+      const learnerId = learnerIdFromCookieHeader(request.headers.cookie);
+      const result = learnerId
+        ? getTokenIssuer().verify(query.token, { learnerId, consume: true })
+        : { ok: false, reason: 'not signed in' };
+      if (!result.ok) {
+        console.warn(`Rejected Realtime connection: ${result.reason}`);
+        socket.end('HTTP/1.1 401 Unauthorized\r\nConnection: close\r\n\r\n');
+        return;
+      }
 
-        // Relay messages between client and OpenAI
-        openaiWs.on('open', () => {
-          console.log('Connected to OpenAI Realtime API');
-          
-          // Send initial configuration
-          openaiWs.send(JSON.stringify({
-            type: 'session.update',
-            session: {
-              modalities: ['text', 'audio'],
-              instructions: `You are a friendly language tutor helping students practice English. 
-                Be conversational and natural. Test their knowledge of new words they've learned.
-                Provide pronunciation feedback and vocabulary practice in a flowing conversation.
-                Don't make them repeat individual words unless they ask - keep it conversational.`,
-              voice: 'alloy',
-              input_audio_format: 'pcm16',
-              output_audio_format: 'pcm16',
-              input_audio_transcription: {
-                model: 'whisper-1'
-              },
-              turn_detection: {
-                type: 'server_vad',
-                threshold: 0.5,
-                prefix_padding_ms: 300,
-                silence_duration_ms: 200  // Reduced for quicker turn-taking
-              },
-              temperature: 0.8
+      // A learner over today's quota still gets a socket, so the quota.exceeded event can
+      // explain why the tutor isn't answering
+      checkQuota(learnerId)
+        .catch((error) => {
+          console.error('Failed to check usage quota:', error);
+          return null;
+        })
+        .then((exceeded) => {
+          wss.handleUpgrade(request, socket, head, (ws) => {
+            const closeForQuota = (event) => {
+              console.log(`Learner ${learnerId} is over their daily ${event.quota} quota`);
+              if (ws.readyState !== WebSocket.OPEN) return;
+              ws.send(JSON.stringify(event));
+              ws.close(QUOTA_CLOSE_CODE, 'Daily quota reached');
+            };
+
+            if (exceeded) {
+              closeForQuota(exceeded);
+              return;
             }
-          }));
-        });
 
-        openaiWs.on('message', (data) => {
-          ws.send(data.toString());
-        });
+            // Create connection to OpenAI (or the local mock, which speaks the same protocol)
+            const openaiWs = mockScenario
+              ? createMockUpstream(mockScenario)
+              : new WebSocket('wss://api.openai.com/v1/realtime?model=gpt-4o-realtime-preview-2024-12-17', {
+                  headers: {
+                    'Authorization': `Bearer ${process.env.OPENAI_API_KEY}`,
+                    'OpenAI-Beta': 'realtime=v1'
+                  }
+                });
 
-        openaiWs.on('error', (error) => {
-          console.error('OpenAI WebSocket error:', error);
-          ws.close();
-        });
+            // Anything sent before the upstream socket opens (the browser's lesson.start, usually)
+            // is held until it does
+            const pendingUpstream = [];
+            const sendUpstream = (event) => {
+              const data = JSON.stringify(event);
+              if (openaiWs.readyState === WebSocket.OPEN) {
+                openaiWs.send(data);
+              } else if (openaiWs.readyState === WebSocket.CONNECTING) {
+                pendingUpstream.push(data);
+              }
+            };
 
-        openaiWs.on('close', () => {
-          ws.close();
-        });
+            // Learner speech is metered from server VAD's marks; see server/usage.js
+            const inputAudio = createInputAudioMeter();
 
-        ws.on('message', (data) => {
-          if (openaiWs.readyState === WebSocket.OPEN) {
-            openaiWs.send(data.toString());
-          }
-        });
+            // The relay owns session configuration and lesson prompts; see server/lesson-relay.js
+            const relay = createLessonRelay({
+              sendUpstream,
+              sendClient: (event) => {
+                if (ws.readyState === WebSocket.OPEN) ws.send(JSON.stringify(event));
+              }
+            });
 
-        ws.on('close', () => {
-          openaiWs.close();
+            // Relay messages between client and OpenAI
+            openaiWs.on('open', () => {
+              console.log(mockScenario
+                ? `Connected to mock Realtime API (scenario: ${mockScenario.name}) for learner ${learnerId}`
+                : `Connected to OpenAI Realtime API for learner ${learnerId}`);
+              pendingUpstream.splice(0).forEach(data => openaiWs.send(data));
+            });
+
+            openaiWs.on('message', (data) => {
+              const text = data.toString();
+              let event = null;
+              try {
+                event = JSON.parse(text);
+                relay.handleUpstreamEvent(event);
+              } catch (error) {
+                console.error('Failed to inspect Realtime event:', error);
+              }
+              if (ws.readyState === WebSocket.OPEN) ws.send(text);
+
+              // Learner speech counts once, as each turn is committed
+              const spokenSeconds = inputAudio.handle(event);
+              if (spokenSeconds > 0) {
+                recordInputAudio(learnerId, spokenSeconds)
+                  .catch((error) => console.error('Failed to record usage:', error));
+              }
+
+              // Meter every finished response; the reply that crosses a quota still plays out
+              if (event?.type === 'response.done') {
+                recordUsage(learnerId, event.response?.usage)
+                  .then(() => checkQuota(learnerId))
+                  .then((over) => over && closeForQuota(over))
+                  .catch((error) => console.error('Failed to record usage:', error));
+              }
+            });
+
+            openaiWs.on('error', (error) => {
+              console.error('OpenAI WebSocket error:', error);
+              ws.close();
+            });
+
+            openaiWs.on('close', () => {
+              ws.close();
+            });
+
+            ws.on('message', (data) => {
+              let event;
+              try {
+                event = JSON.parse(data.toString());
+              } catch {
+                console.warn('Dropping malformed message from the browser');
+                return;
+              }
+              if (!relay.handleClientEvent(event)) {
+                sendUpstream(event);
+              }
+            });
+
+            ws.on('close', () => {
+              openaiWs.close();
+            });
+          });
         });
-      });
     } else {
       socket.destroy();
     }
@@ -103,5 +183,8 @@ app.prepare().then(() => {
 
   server.listen(port, () => {
     console.log(`> Ready on http://${hostname}:${port}`);
+    if (mockScenario) {
+      console.log(`> Realtime API mocked with scenario "${mockScenario.name}"`);
+    }
   });
 });
\ No newline at end of file
@@ -0,0 +1,141 @@
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const zlib = require('zlib');
+const sqlite3 = require('sqlite3');
+const { open } = require('sqlite');
+
+// Reads the notes out of an Anki deck package (.apkg): a zip holding the deck's SQLite
+// collection. The browser can't open SQLite, so the importer uploads the package here and
+// gets back the notes as a table it can map like a CSV.
+
+const MAX_APKG_BYTES = 50 * 1024 * 1024;
+// The collection inside is inflated in memory, so a small package can't be allowed to claim
+// (or turn out) to be enormous
+const MAX_COLLECTION_BYTES = 200 * 1024 * 1024;
+const FIELD_SEPARATOR = '\x1f';
+
+// Newest first. collection.anki21b (Anki 2.1.50+) is zstd-compressed and not supported -
+// those exports also carry a collection.anki2 only if "Support older Anki versions" is ticked
+const COLLECTION_NAMES = ['collection.anki21', 'collection.anki2'];
+
+/** Entries of a zip archive by name, from its central directory. */
+function readZipEntries(buffer) {
+  // The end-of-central-directory record is in the last 64KB + 22 bytes
+  let eocd = -1;
+  for (let i = buffer.length - 22; i >= Math.max(0, buffer.length - 65557); i--) {
+    if (buffer.readUInt32LE(i) === 0x06054b50) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd === -1) throw new Error('Not an .apkg file (no zip directory found)');
+
+  const entries = new Map();
+  const count = buffer.readUInt16LE(eocd + 10);
+  let offset = buffer.readUInt32LE(eocd + 16);
+  for (let i = 0; i < count; i++) {
+    if (buffer.readUInt32LE(offset) !== 0x02014b50) throw new Error('Corrupt .apkg zip directory');
+    const method = buffer.readUInt16LE(offset + 10);
+    const compressedSize = buffer.readUInt32LE(offset + 20);
+    const uncompressedSize = buffer.readUInt32LE(offset + 24);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const localOffset = buffer.readUInt32LE(offset + 42);
+    const name = buffer.toString('utf8', offset + 46, offset + 46 + nameLength);
+    entries.set(name, { method, compressedSize, uncompressedSize, localOffset });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return entries;
+}
+
+function extractEntry(buffer, { method, compressedSize, uncompressedSize, localOffset }) {
+  // Zip64 entries (sizes of 0xFFFFFFFF) are over the limit anyway
+  if (uncompressedSize > MAX_COLLECTION_BYTES) {
+    throw new Error(`the collection is over ${MAX_COLLECTION_BYTES} bytes`);
+  }
+  const start = localOffset + 30 + buffer.readUInt16LE(localOffset + 26) + buffer.readUInt16LE(localOffset + 28);
+  const data = buffer.subarray(start, start + compressedSize);
+  if (method === 0) return data;
+  if (method === 8) {
+    // The declared size can lie; inflating stops at the limit regardless
+    try {
+      return zlib.inflateRawSync(data, { maxOutputLength: MAX_COLLECTION_BYTES });
+    } catch (error) {
+      if (error.code === 'ERR_BUFFER_TOO_LARGE') throw new Error(`the collection is over ${MAX_COLLECTION_BYTES} bytes`);
+      throw error;
+    }
+  }
+  throw new Error(`Unsupported zip compression method ${method}`);
+}
+
+/**
+ * The notes in an .apkg as `{ columns, rows }`, or `{ error }` if the package can't be read.
+ * Columns are the union of field names across the deck's note types (plus "Deck" and "Tags"); each
+ * row holds one note's raw (HTML) field values.
+ */
+async function readApkg(buffer) {
+  try {
+    const entries = readZipEntries(buffer);
+    const name = COLLECTION_NAMES.find(n => entries.has(n));
+    if (!name) {
+      return {
+        error: entries.has('collection.anki21b')
+          ? 'This deck uses the newest Anki format. Export it again with "Support older Anki versions" ticked'
+          : 'No Anki collection found in the package'
+      };
+    }
+    return await readCollection(extractEntry(buffer, entries.get(name)));
+  } catch (error) {
+    return { error: `Could not read the Anki package: ${error.message}` };
+  }
+}
+
+async function readCollection(data) {
+  // SQLite needs a file, so the collection is written to a private temp directory
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'apkg-'));
+  const file = path.join(dir, 'collection.sqlite');
+  try {
+    fs.writeFileSync(file, data);
+    const db = await open({ filename: file, driver: sqlite3.Database, mode: sqlite3.OPEN_READONLY });
+    try {
+      const { models, decks } = await db.get('SELECT models, decks FROM col');
+      const fieldNames = new Map(
+        Object.entries(JSON.parse(models)).map(([id, model]) => [id, model.flds.map(f => f.name)])
+      );
+      const deckNames = new Map(Object.entries(JSON.parse(decks)).map(([id, deck]) => [id, deck.name]));
+      // A note's deck is the deck of its (first) card
+      const notes = await db.all(
+        'SELECT mid, flds, tags, (SELECT did FROM cards WHERE cards.nid = notes.id LIMIT 1) AS did FROM notes ORDER BY id'
+      );
+
+      const columns = [];
+      for (const note of notes) {
+        for (const field of fieldNames.get(String(note.mid)) || []) {
+          if (!columns.includes(field)) columns.push(field);
+        }
+      }
+      columns.push('Deck', 'Tags');
+
+      const rows = notes.map((note, i) => {
+        const names = fieldNames.get(String(note.mid)) || [];
+        const values = note.flds.split(FIELD_SEPARATOR);
+        const cells = columns.map(column => {
+          if (column === 'Deck') return deckNames.get(String(note.did)) || '';
+          if (column === 'Tags') return note.tags.trim();
+          const index = names.indexOf(column);
+          return index === -1 ? '' : values[index] || '';
+        });
+        return { line: i + 1, cells };
+      });
+      return { columns, rows };
+    } finally {
+      await db.close();
+    }
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+module.exports = { MAX_APKG_BYTES, readApkg };
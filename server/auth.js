@@ -0,0 +1,65 @@
+const crypto = require('crypto');
+const { getTokenIssuer } = require('./session-tokens');
+
+const AUTH_COOKIE = 'voice_tutor_learner';
+const LEARNER_SCOPE = 'learner';
+const LEARNER_TOKEN_TTL_SECONDS = 30 * 24 * 60 * 60;
+
+/**
+ * Signed-in learners carry a long-lived token in an httpOnly cookie. It is signed by the
+ * same issuer as the Realtime session tokens but with its own scope, so neither can stand
+ * in for the other.
+ */
+function issueLearnerToken(learnerId) {
+  return getTokenIssuer().issue(learnerId, { scope: LEARNER_SCOPE, ttlSeconds: LEARNER_TOKEN_TTL_SECONDS });
+}
+
+// The learner id a token belongs to, or null if it is missing, forged or expired
+function learnerIdFromToken(token) {
+  if (!token) return null;
+  const result = getTokenIssuer().verify(token, { scope: LEARNER_SCOPE });
+  return result.ok ? result.claims.sub : null;
+}
+
+// For the raw Cookie header on WebSocket upgrades, where there's no Next request to parse it
+function learnerIdFromCookieHeader(header) {
+  const cookie = (header || '')
+    .split(';')
+    .map(part => part.trim())
+    .find(part => part.startsWith(`${AUTH_COOKIE}=`));
+  return cookie ? learnerIdFromToken(decodeURIComponent(cookie.slice(AUTH_COOKIE.length + 1))) : null;
+}
+
+// `response` is a NextResponse from one of the API routes
+function setAuthCookie(response, token) {
+  response.cookies.set(AUTH_COOKIE, token, {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    maxAge: LEARNER_TOKEN_TTL_SECONDS
+  });
+}
+
+/**
+ * Admin routes take `Authorization: Bearer <ADMIN_API_TOKEN>`. With no ADMIN_API_TOKEN
+ * set they are switched off entirely.
+ */
+function isAdminRequest(authorizationHeader) {
+  const expected = process.env.ADMIN_API_TOKEN;
+  const match = /^Bearer (.+)$/.exec(authorizationHeader || '');
+  if (!expected || !match) return false;
+
+  const expectedBuffer = Buffer.from(expected);
+  const actual = Buffer.from(match[1]);
+  return expectedBuffer.length === actual.length && crypto.timingSafeEqual(expectedBuffer, actual);
+}
+
+module.exports = {
+  AUTH_COOKIE,
+  issueLearnerToken,
+  setAuthCookie,
+  learnerIdFromToken,
+  learnerIdFromCookieHeader,
+  isAdminRequest
+};
@@ -0,0 +1,215 @@
+const fs = require('fs');
+const path = require('path');
+const sqlite3 = require('sqlite3');
+const { open } = require('sqlite');
+
+const DB_PATH = process.env.VOICE_TUTOR_DB || path.join(process.cwd(), 'data', 'voice-tutor.db');
+
+// The languages offered when settings and translations went by English name, frozen here for
+// the migration that re-keys translations by code
+const LANGUAGE_CODES_BY_NAME = {
+  English: 'en', Spanish: 'es', French: 'fr', German: 'de', Italian: 'it', Portuguese: 'pt',
+  Russian: 'ru', Chinese: 'zh', Japanese: 'ja', Korean: 'ko', Arabic: 'ar', Hindi: 'hi',
+  Turkish: 'tr', Polish: 'pl', Dutch: 'nl', Swedish: 'sv'
+};
+
+// Each entry moves the schema forward by one version (tracked in PRAGMA user_version).
+// Never edit a migration that has shipped - append a new one instead.
+const migrations = [
+  `CREATE TABLE words (
+     id TEXT PRIMARY KEY,
+     word TEXT NOT NULL,
+     timestamp TEXT NOT NULL,
+     language TEXT NOT NULL DEFAULT 'en',
+     mastery INTEGER NOT NULL DEFAULT 0,
+     practice_count INTEGER NOT NULL DEFAULT 0,
+     last_practiced TEXT,
+     order_index INTEGER
+   );
+   CREATE TABLE sessions (
+     id TEXT PRIMARY KEY,
+     start_time TEXT NOT NULL,
+     end_time TEXT,
+     mode TEXT NOT NULL,
+     words_reviewed TEXT NOT NULL DEFAULT '[]',
+     duration INTEGER
+   );`,
+  // Spaced-repetition schedule per word
+  `ALTER TABLE words ADD COLUMN ease REAL NOT NULL DEFAULT 2.5;
+   ALTER TABLE words ADD COLUMN interval_days REAL NOT NULL DEFAULT 0;
+   ALTER TABLE words ADD COLUMN repetitions INTEGER NOT NULL DEFAULT 0;
+   ALTER TABLE words ADD COLUMN lapses INTEGER NOT NULL DEFAULT 0;
+   ALTER TABLE words ADD COLUMN due_date TEXT;`,
+  // Learner accounts - every word and session belongs to one learner
+  `CREATE TABLE learners (
+     id TEXT PRIMARY KEY,
+     username TEXT NOT NULL UNIQUE COLLATE NOCASE,
+     display_name TEXT NOT NULL,
+     password_hash TEXT NOT NULL,
+     created_at TEXT NOT NULL
+   );
+   ALTER TABLE words ADD COLUMN learner_id TEXT REFERENCES learners(id);
+   ALTER TABLE sessions ADD COLUMN learner_id TEXT REFERENCES learners(id);
+   CREATE INDEX words_learner ON words(learner_id);
+   CREATE INDEX sessions_learner ON sessions(learner_id);`,
+  // Realtime usage metered by the proxy, one row per learner per UTC day
+  `CREATE TABLE usage_daily (
+     learner_id TEXT NOT NULL REFERENCES learners(id),
+     day TEXT NOT NULL,
+     responses INTEGER NOT NULL DEFAULT 0,
+     input_tokens INTEGER NOT NULL DEFAULT 0,
+     output_tokens INTEGER NOT NULL DEFAULT 0,
+     total_tokens INTEGER NOT NULL DEFAULT 0,
+     input_audio_seconds REAL NOT NULL DEFAULT 0,
+     output_audio_seconds REAL NOT NULL DEFAULT 0,
+     PRIMARY KEY (learner_id, day)
+   );`,
+  // Conversation transcript per session, as a JSON array of turns
+  `ALTER TABLE sessions ADD COLUMN turns TEXT NOT NULL DEFAULT '[]';`,
+  // Recorded audio for individual turns, uploaded while the session is still running
+  `CREATE TABLE turn_audio (
+     session_id TEXT NOT NULL,
+     turn_id TEXT NOT NULL,
+     learner_id TEXT NOT NULL REFERENCES learners(id),
+     mime_type TEXT NOT NULL,
+     data BLOB NOT NULL,
+     created_at TEXT NOT NULL,
+     PRIMARY KEY (session_id, turn_id)
+   );`,
+  // Pronunciation and meaning (IPA, stress, definition, translations...) as a JSON object
+  `ALTER TABLE words ADD COLUMN details TEXT;`,
+  // Archived words stay in the list (with their progress) but are left out of practice
+  `ALTER TABLE words ADD COLUMN archived INTEGER NOT NULL DEFAULT 0;`,
+  // Named decks ("Unit 3 - Food", "Travel") a word belongs to, as a JSON array of names
+  `ALTER TABLE words ADD COLUMN decks TEXT NOT NULL DEFAULT '[]';`,
+  // Vocabulary synced from other platforms: the learner's linked account and sync cursor per
+  // source, and on each word the source and id it was synced from (as JSON)
+  `CREATE TABLE vocabulary_sync (
+     learner_id TEXT NOT NULL REFERENCES learners(id),
+     source TEXT NOT NULL,
+     account_id TEXT NOT NULL,
+     cursor TEXT,
+     last_synced_at TEXT,
+     last_pushed_at TEXT,
+     last_error TEXT,
+     words_synced INTEGER NOT NULL DEFAULT 0,
+     PRIMARY KEY (learner_id, source)
+   );
+   ALTER TABLE words ADD COLUMN external TEXT;`,
+  // Translations keyed by language code ("es") instead of English name ("Spanish"); a
+  // translation already under the code wins
+  Object.entries(LANGUAGE_CODES_BY_NAME).map(([name, code]) =>
+    `UPDATE words
+       SET details = json_set(
+         json_remove(details, '$.translations.${name}'),
+         '$.translations.${code}',
+         COALESCE(json_extract(details, '$.translations.${code}'), json_extract(details, '$.translations.${name}'))
+       )
+     WHERE json_extract(details, '$.translations.${name}') IS NOT NULL;`
+  ).join('\n'),
+  // Practice modes edited or added from the admin console (see server/practice-modes.js);
+  // prompt overrides, VAD settings and scoring as JSON objects
+  `CREATE TABLE practice_modes (
+     id TEXT PRIMARY KEY,
+     base TEXT NOT NULL,
+     name TEXT NOT NULL,
+     description TEXT NOT NULL,
+     icon TEXT NOT NULL,
+     color TEXT NOT NULL,
+     enabled INTEGER NOT NULL DEFAULT 1,
+     prompts TEXT NOT NULL DEFAULT '{}',
+     attempts_per_word INTEGER NOT NULL,
+     turn_detection TEXT NOT NULL,
+     scoring TEXT NOT NULL,
+     created_at TEXT NOT NULL,
+     updated_at TEXT NOT NULL
+   );`,
+  // Accounts were linked by student ID alone, which proves nothing; learners link again
+  // with a code from FlashAcademy. Words already synced stay in their lists.
+  `DELETE FROM vocabulary_sync;`,
+  // A pulled page's cursor waits here (as JSON) until the learner's client confirms the words
+  // are saved, so a save that never happens doesn't skip them on the next sync
+  `ALTER TABLE vocabulary_sync ADD COLUMN pending_sync TEXT;`
+];
+
+// How long a write waits for another connection's transaction before giving up
+const BUSY_TIMEOUT_MS = 5000;
+
+async function openDb() {
+  fs.mkdirSync(path.dirname(DB_PATH), { recursive: true });
+
+  const db = await open({ filename: DB_PATH, driver: sqlite3.Database });
+  await db.exec('PRAGMA journal_mode = WAL');
+  await db.exec(`PRAGMA busy_timeout = ${BUSY_TIMEOUT_MS}`);
+
+  const { user_version: version } = await db.get('PRAGMA user_version');
+  for (let i = version; i < migrations.length; i++) {
+    await db.exec('BEGIN');
+    try {
+      await db.exec(migrations[i]);
+      await db.exec(`PRAGMA user_version = ${i + 1}`);
+      await db.exec('COMMIT');
+    } catch (error) {
+      await db.exec('ROLLBACK');
+      throw error;
+    }
+  }
+
+  return db;
+}
+
+/**
+ * Shared connection for the Next API routes and the custom server.
+ * Cached on globalThis so dev-mode module reloads don't open a new handle each time.
+ */
+function getDb() {
+  if (!globalThis.__voiceTutorDb) {
+    globalThis.__voiceTutorDb = openDb().catch((error) => {
+      globalThis.__voiceTutorDb = undefined;
+      throw error;
+    });
+  }
+  return globalThis.__voiceTutorDb;
+}
+
+// A second connection for transactions, opened once the shared one has migrated the schema
+async function openTransactionDb() {
+  await getDb();
+  const db = await open({ filename: DB_PATH, driver: sqlite3.Database });
+  await db.exec(`PRAGMA busy_timeout = ${BUSY_TIMEOUT_MS}`);
+  return db;
+}
+
+/**
+ * Run `work(db)` inside a transaction and return its result, rolling back if it throws.
+ *
+ * Requests run side by side on the shared connection, so a BEGIN there would sweep up (and a
+ * ROLLBACK undo) whatever other requests wrote meanwhile, and a second BEGIN would fail
+ * outright. Transactions get a connection of their own instead and queue for it, one at a time.
+ */
+function transaction(work) {
+  const state = (globalThis.__voiceTutorTransactions ||= { db: null, queue: Promise.resolve() });
+  const result = state.queue.then(async () => {
+    if (!state.db) {
+      state.db = openTransactionDb().catch((error) => {
+        state.db = null;
+        throw error;
+      });
+    }
+    const db = await state.db;
+    await db.exec('BEGIN IMMEDIATE');
+    try {
+      const value = await work(db);
+      await db.exec('COMMIT');
+      return value;
+    } catch (error) {
+      await db.exec('ROLLBACK');
+      throw error;
+    }
+  });
+  // The next transaction waits for this one, however it ends
+  state.queue = result.catch(() => {});
+  return result;
+}
+
+module.exports = { getDb, transaction };
@@ -0,0 +1,82 @@
+const crypto = require('crypto');
+const { promisify } = require('util');
+const { getDb, transaction } = require('./db');
+
+const scrypt = promisify(crypto.scrypt);
+const KEY_LENGTH = 64;
+
+function rowToLearner(row) {
+  return {
+    id: row.id,
+    username: row.username,
+    displayName: row.display_name,
+    createdAt: row.created_at
+  };
+}
+
+// Stored as `scrypt$<salt>$<hash>` so the scheme can change later without a migration
+async function hashPassword(password) {
+  const salt = crypto.randomBytes(16).toString('hex');
+  const hash = await scrypt(password, salt, KEY_LENGTH);
+  return `scrypt$${salt}$${hash.toString('hex')}`;
+}
+
+async function verifyPassword(password, stored) {
+  const [scheme, salt, expected] = stored.split('$');
+  if (scheme !== 'scrypt' || !salt || !expected) return false;
+  const hash = await scrypt(password, salt, KEY_LENGTH);
+  const expectedBuffer = Buffer.from(expected, 'hex');
+  return expectedBuffer.length === hash.length && crypto.timingSafeEqual(expectedBuffer, hash);
+}
+
+async function getLearner(id) {
+  const db = await getDb();
+  const row = await db.get('SELECT * FROM learners WHERE id = ?', id);
+  return row ? rowToLearner(row) : null;
+}
+
+/**
+ * Create a local account. Returns null if the username is taken.
+ *
+ * Words and sessions saved before accounts existed have no owner; the first learner
+ * to register adopts them so nothing recorded on a single-user install is lost.
+ */
+async function createLearner({ username, displayName, password }) {
+  const passwordHash = await hashPassword(password);
+  const learner = {
+    id: crypto.randomUUID(),
+    username: username.trim(),
+    displayName: displayName?.trim() || username.trim(),
+    createdAt: new Date().toISOString()
+  };
+
+  return transaction(async (db) => {
+    const existing = await db.get('SELECT id FROM learners WHERE username = ?', learner.username);
+    if (existing) return null;
+
+    const { count } = await db.get('SELECT COUNT(*) AS count FROM learners');
+    await db.run(
+      'INSERT INTO learners (id, username, display_name, password_hash, created_at) VALUES (?, ?, ?, ?, ?)',
+      learner.id,
+      learner.username,
+      learner.displayName,
+      passwordHash,
+      learner.createdAt
+    );
+    if (count === 0) {
+      await db.run('UPDATE words SET learner_id = ? WHERE learner_id IS NULL', learner.id);
+      await db.run('UPDATE sessions SET learner_id = ? WHERE learner_id IS NULL', learner.id);
+    }
+    return learner;
+  });
+}
+
+// Returns the learner if the username and password match, otherwise null
+async function authenticateLearner(username, password) {
+  const db = await getDb();
+  const row = await db.get('SELECT * FROM learners WHERE username = ?', username.trim());
+  if (!row || !(await verifyPassword(password, row.password_hash))) return null;
+  return rowToLearner(row);
+}
+
+module.exports = { getLearner, createLearner, authenticateLearner };
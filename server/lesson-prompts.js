@@ -0,0 +1,200 @@
+const { MIN_PRACTICE_WORDS, hasEnoughWords } = require('./session-config');
+const { renderPrompt } = require('./prompts');
+
+// Prompts for a lesson: the session instructions, and the text for the lesson engine's
+// commands. The browser sends the command (`introduce-word`, `request-retry`, `complete`);
+// the proxy picks the words here. The wording lives in server/prompt-templates.js - this
+// file only decides which templates apply and what fills them.
+
+// A learner practising their own language gets the whole lesson in it; anyone else gets
+// instructions in their home language and only the practice words in the target language
+function speaksTargetLanguage(lesson) {
+  return lesson.homeLanguageCode === lesson.targetLanguageCode;
+}
+
+// Overrides are picked by home language, the one the tutor speaks to the learner in, unless
+// the practice mode has its own text for the template
+function render(lesson, name, values) {
+  return renderPrompt(name, values, lesson.homeLanguageCode, lesson.prompts);
+}
+
+/**
+ * One line describing a lesson word or phrase for the tutor: its IPA and stressed syllable
+ * so feedback can name the exact phonemes, plus its meaning for vocabulary work.
+ */
+function describeWord(lesson, index) {
+  const word = lesson.words[index];
+  const details = lesson.details?.[index] || { syllables: [] };
+
+  const parts = [];
+  // Phrases are practised whole, with natural linking between the words
+  if (word.includes(' ')) parts.push('a phrase - practise it as one connected unit');
+  if (details.ipa) parts.push(`/${details.ipa.replace(/^\/|\/$/g, '')}/`);
+  if (details.syllables.length > 1) {
+    const pattern = details.syllables
+      .map((s, i) => (i === details.stress ? s.toUpperCase() : s.toLowerCase()))
+      .join('-');
+    parts.push(details.stress !== undefined
+      ? `${pattern}, stress on syllable ${details.stress + 1} of ${details.syllables.length}`
+      : pattern);
+  }
+  if (details.partOfSpeech) parts.push(details.partOfSpeech);
+  if (details.definition) parts.push(`meaning "${details.definition}"`);
+  if (details.translation) parts.push(`${lesson.homeLanguage}: "${details.translation}"`);
+  if (details.example) parts.push(`example: "${details.example}"`);
+
+  return parts.length > 0 ? `"${word}" - ${parts.join('; ')}` : `"${word}"`;
+}
+
+function languageInstructions(lesson) {
+  return !speaksTargetLanguage(lesson)
+    ? render(lesson, 'session.language.home', { homeLanguage: lesson.homeLanguage, targetLanguage: lesson.targetLanguage })
+    : render(lesson, 'session.language.target', { targetLanguage: lesson.targetLanguage });
+}
+
+function modeInstructions(lesson) {
+  const word = lesson.words[lesson.index];
+
+  switch (lesson.mode) {
+    case 'pronunciation':
+      return render(lesson, 'session.mode.pronunciation', {
+        wordList: lesson.words.map((w, i) => `${i + 1}. "${w}"`).join(', '),
+        wordNumber: lesson.index + 1,
+        wordDescription: describeWord(lesson, lesson.index),
+        word,
+        attempts: lesson.attemptsPerWord
+      });
+
+    case 'pronunciation-test':
+      return render(lesson, 'session.mode.pronunciation-test', {
+        wordDescription: describeWord(lesson, lesson.index),
+        word,
+        rubric: lesson.rubric
+      });
+
+    case 'vocabulary':
+      return render(lesson, 'session.mode.vocabulary', {});
+
+    default:
+      return render(lesson, 'session.mode.conversation', {});
+  }
+}
+
+function notEnoughWordsInstructions(lesson) {
+  const message = render(lesson, 'session.not-enough-words.message', { minWords: MIN_PRACTICE_WORDS });
+  return render(lesson, 'session.not-enough-words', {
+    minWords: MIN_PRACTICE_WORDS,
+    message: lesson.homeLanguageCode !== 'en' ? `${lesson.homeLanguage}: ${message}` : message,
+    languageInstructions: languageInstructions(lesson)
+  });
+}
+
+/** The `instructions` of the session.update for a lesson. */
+function sessionInstructions(lesson) {
+  if (!hasEnoughWords(lesson)) return notEnoughWordsInstructions(lesson);
+
+  return render(lesson, 'session.practice', {
+    targetLanguage: lesson.targetLanguage,
+    languageInstructions: languageInstructions(lesson),
+    mode: lesson.modeName,
+    wordList: lesson.words.map((w, i) => `${i + 1}. ${describeWord(lesson, i)}`).join('\n'),
+    wordCount: lesson.words.length,
+    phonemeGuide: (lesson.details || []).some(details => details?.ipa) ? render(lesson, 'session.phoneme-guide', {}) : '',
+    modeInstructions: modeInstructions(lesson),
+    // A test has the rubric in its own instructions
+    rubric: lesson.rubric && lesson.mode !== 'pronunciation-test' ? render(lesson, 'session.rubric', { rubric: lesson.rubric }) : ''
+  });
+}
+
+function startInstructions(lesson, word) {
+  const languageReminder = !speaksTargetLanguage(lesson)
+    ? render(lesson, 'start.language-reminder', { homeLanguage: lesson.homeLanguage, targetLanguage: lesson.targetLanguage })
+    : '';
+
+  switch (lesson.mode) {
+    case 'pronunciation':
+      return render(lesson, 'start.pronunciation', {
+        languageReminder,
+        wordCount: lesson.words.length,
+        numberedWords: lesson.words.map((w, i) => `Word #${i + 1}: "${w}"`).join('\n'),
+        wordList: lesson.words.join(', '),
+        word,
+        attempts: lesson.attemptsPerWord
+      });
+
+    case 'pronunciation-test':
+      return render(lesson, 'start.pronunciation-test', { languageReminder, word, wordDescription: describeWord(lesson, lesson.index) });
+
+    default:
+      return render(lesson, 'start.practice', { languageReminder, word });
+  }
+}
+
+function nextWordInstructions(lesson, word, index, previousWord) {
+  const languagePrefix = !speaksTargetLanguage(lesson)
+    ? render(lesson, 'next.language-prefix', { homeLanguage: lesson.homeLanguage })
+    : '';
+  const wordDescription = describeWord(lesson, index);
+
+  switch (lesson.mode) {
+    case 'pronunciation':
+      return render(lesson, 'next.pronunciation', {
+        languagePrefix,
+        wordNumber: index + 1,
+        wordDescription,
+        praise: previousWord ? render(lesson, 'next.praise', { previousWord }) : '',
+        word
+      });
+
+    case 'pronunciation-test':
+      return render(lesson, 'next.pronunciation-test', { wordDescription, languagePrefix, word, rubric: lesson.rubric });
+
+    case 'vocabulary':
+      return render(lesson, 'next.vocabulary', { languagePrefix, wordDescription });
+
+    default:
+      return render(lesson, 'next.conversation', { languagePrefix, word });
+  }
+}
+
+function retryInstructions(lesson, word, attempt, maxAttempts) {
+  return render(lesson, 'retry', {
+    word,
+    attempt,
+    maxAttempts,
+    wordDescription: describeWord(lesson, lesson.index),
+    scoring: lesson.mode === 'pronunciation-test' ? render(lesson, 'retry.scoring', {}) : ''
+  });
+}
+
+// Response instructions that go with the retry system message
+function retryResponse(lesson, word) {
+  return render(lesson, 'retry.response', { word });
+}
+
+function completionInstructions(lesson) {
+  const message = render(lesson, 'complete.message', {});
+  return !speaksTargetLanguage(lesson)
+    ? render(lesson, 'complete.home-language', { message, homeLanguage: lesson.homeLanguage })
+    : render(lesson, 'complete', { message });
+}
+
+function wrongWordCorrection(lesson, expected, index, wrongWord) {
+  return render(lesson, 'correction.wrong-word', { wrongWord, expected, wordNumber: index + 1 });
+}
+
+function skippedAheadCorrection(lesson, expected, index) {
+  return render(lesson, 'correction.skipped-ahead', { expected, wordNumber: index + 1 });
+}
+
+module.exports = {
+  describeWord,
+  sessionInstructions,
+  startInstructions,
+  nextWordInstructions,
+  retryInstructions,
+  retryResponse,
+  completionInstructions,
+  wrongWordCorrection,
+  skippedAheadCorrection
+};
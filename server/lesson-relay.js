@@ -0,0 +1,178 @@
+const { parseLessonRequest, hasEnoughWords, buildSessionConfig } = require('./session-config');
+const { getPracticeMode } = require('./practice-modes');
+const prompts = require('./lesson-prompts');
+
+// Words the tutor tends to drift to when it loses track of the list
+const DRIFT_WORDS = ['beach', 'thought', 'world', 'through', 'light', 'water', 'tree', 'house', 'book', 'phone'];
+const CORRECTION_COOLDOWN_MS = 1000;
+
+/**
+ * Sits between the browser and the Realtime upstream for one connection. The browser
+ * speaks a small lesson protocol on top of the Realtime events:
+ *
+ * - `lesson.start` `{ lesson: { mode, homeLanguage, targetLanguage, words, index? } }` (mode by
+ *   practice mode id, languages by code) - the proxy looks the mode up, sends the
+ *   session.update and answers `lesson.ready`, or `lesson.unavailable` with a reason if no
+ *   lesson can run
+ * - `lesson.command` `{ command }` - a lesson-engine command for the tutor to voice
+ *   (`introduce-word`, `request-retry`, `complete`)
+ *
+ * Session configuration belongs to the proxy, so a `session.update` from the browser is
+ * dropped. Everything else is relayed untouched.
+ */
+function createLessonRelay({ sendUpstream, sendClient }) {
+  let lesson = null;
+  let lessonStarts = 0;
+  let responseTranscript = '';
+  let lastCorrectionAt = 0;
+
+  const systemMessage = (text) => sendUpstream({
+    type: 'conversation.item.create',
+    item: {
+      type: 'message',
+      role: 'system',
+      content: [{ type: 'text', text }]
+    }
+  });
+
+  const createResponse = (instructions) => sendUpstream({
+    type: 'response.create',
+    response: {
+      modalities: ['text', 'audio'],
+      ...(instructions ? { instructions } : {})
+    }
+  });
+
+  const startLesson = async (raw) => {
+    const started = ++lessonStarts;
+    const practiceMode = await getPracticeMode(raw?.mode);
+    // A lesson.start that came in while the mode was being looked up replaces this one
+    if (started !== lessonStarts) return;
+
+    const { lesson: parsed, error } = parseLessonRequest(raw, practiceMode);
+    if (error) {
+      sendClient({ type: 'lesson.unavailable', reason: error });
+      return;
+    }
+
+    lesson = parsed;
+    sendUpstream({ type: 'session.update', session: buildSessionConfig(lesson, prompts.sessionInstructions(lesson)) });
+
+    if (!hasEnoughWords(lesson)) {
+      // The session prompt tells the tutor to explain why there's nothing to practice yet
+      createResponse();
+      sendClient({ type: 'lesson.unavailable', reason: 'not enough words' });
+      return;
+    }
+    sendClient({ type: 'lesson.ready' });
+  };
+
+  const runCommand = (command) => {
+    if (!lesson || !command) return;
+
+    switch (command.type) {
+      case 'introduce-word': {
+        // Words come from the validated lesson, never straight from the command
+        const word = lesson.words[command.index];
+        if (!word) return;
+        lesson.index = command.index;
+        if (command.index === 0 && !command.resume) {
+          createResponse(prompts.startInstructions(lesson, word));
+        } else {
+          const previousWord = command.resume ? undefined : lesson.words[command.index - 1];
+          systemMessage(prompts.nextWordInstructions(lesson, word, command.index, previousWord));
+          createResponse();
+        }
+        break;
+      }
+
+      case 'request-retry': {
+        const word = lesson.words[lesson.index];
+        systemMessage(prompts.retryInstructions(lesson, word, command.attempt, command.maxAttempts));
+        createResponse(prompts.retryResponse(lesson, word));
+        break;
+      }
+
+      case 'complete':
+        // A finished test goes straight to the results screen
+        if (lesson.words.length > 0 && lesson.mode !== 'pronunciation-test') {
+          systemMessage(prompts.completionInstructions(lesson));
+          createResponse();
+        }
+        break;
+    }
+  };
+
+  const correct = (text) => {
+    // Prevent rapid blocking
+    const now = Date.now();
+    if (now - lastCorrectionAt < CORRECTION_COOLDOWN_MS) return;
+    lastCorrectionAt = now;
+
+    sendUpstream({ type: 'response.cancel' });
+    systemMessage(text);
+    createResponse();
+  };
+
+  // Keep pronunciation practice on the current word: cancel and correct a reply that drifts
+  // to a word outside the list or skips ahead within it
+  const checkForWrongWords = () => {
+    const expected = lesson.words[lesson.index];
+    if (!expected) return;
+
+    const current = expected.toLowerCase();
+    const text = responseTranscript.toLowerCase();
+
+    const wrongWord = DRIFT_WORDS.find(w => text.includes(w) && !text.includes(current));
+    if (wrongWord) {
+      console.log(`🚫 BLOCKED: tutor tried to use "${wrongWord}" instead of "${expected}"`);
+      correct(prompts.wrongWordCorrection(lesson, expected, lesson.index, wrongWord));
+      return;
+    }
+
+    const skippedTo = lesson.words.findIndex((w, i) =>
+      i !== lesson.index && text.includes(w.toLowerCase()) && text.includes('practice'));
+    if (skippedTo !== -1) {
+      console.log(`🚫 BLOCKED: tutor tried to skip to "${lesson.words[skippedTo]}" (word #${skippedTo + 1})`);
+      correct(prompts.skippedAheadCorrection(lesson, expected, lesson.index));
+    }
+  };
+
+  // Returns true if the event was handled here and must not be forwarded upstream
+  const handleClientEvent = (event) => {
+    switch (event.type) {
+      case 'lesson.start':
+        startLesson(event.lesson).catch(error => {
+          console.error('Failed to start lesson:', error);
+          sendClient({ type: 'lesson.unavailable', reason: 'the lesson could not be started' });
+        });
+        return true;
+      case 'lesson.command':
+        runCommand(event.command);
+        return true;
+      case 'session.update':
+        console.warn('Ignoring session.update from the browser - sessions are configured by the proxy');
+        return true;
+      default:
+        return false;
+    }
+  };
+
+  const handleUpstreamEvent = (event) => {
+    if (!lesson || lesson.mode !== 'pronunciation') return;
+
+    switch (event.type) {
+      case 'response.created':
+        responseTranscript = '';
+        break;
+      case 'response.audio_transcript.delta':
+        responseTranscript += event.delta || '';
+        checkForWrongWords();
+        break;
+    }
+  };
+
+  return { handleClientEvent, handleUpstreamEvent };
+}
+
+module.exports = { createLessonRelay };
@@ -0,0 +1,215 @@
+const http = require('http');
+const { randomUUID, randomInt } = require('crypto');
+
+// A local stand-in for FlashAcademy's partner API, for developing and checking vocabulary
+// sync (lib/flashacademy-source.ts) without a FlashAcademy account. Run it with
+// `npm run mock:flashacademy` and point the app at it:
+//
+//   FLASHACADEMY_API_URL=http://localhost:4010 FLASHACADEMY_API_KEY=dev npm run dev
+//
+// Student "demo" starts with a few units of learned words. To have a student learn a word
+// "now" (and see the next sync pick it up):
+//
+//   curl -X POST localhost:4010/v1/students/demo/learned-words \
+//     -H 'Authorization: Bearer dev' -d '{"text": "umbrella", "unit": "Unit 4 - Weather"}'
+//
+// Mastery pushed back by the app is kept per student and readable with GET .../mastery.
+//
+// Learners link their account with a one-time code from FlashAcademy. To get one for "demo"
+// (as FlashAcademy's own "link an app" screen would):
+//
+//   curl -X POST localhost:4010/v1/students/demo/link-codes -H 'Authorization: Bearer dev'
+
+const PORT = Number(process.env.FLASHACADEMY_MOCK_PORT || 4010);
+const MAX_PAGE_SIZE = 100;
+const LINK_CODE_TTL_MS = 10 * 60 * 1000;
+const LINK_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+function daysAgo(days, hour = 17) {
+  const date = new Date();
+  date.setUTCDate(date.getUTCDate() - days);
+  date.setUTCHours(hour, 0, 0, 0);
+  return date.toISOString();
+}
+
+function seedStudents() {
+  const word = (text, unit, days, spanish) => ({
+    id: randomUUID(),
+    text,
+    learned_at: daysAgo(days),
+    language: 'en',
+    unit,
+    translation: spanish ? { language: 'Spanish', text: spanish } : undefined
+  });
+  return {
+    demo: {
+      words: [
+        word('hello', 'Unit 1 - Greetings', 21, 'hola'),
+        word('good morning', 'Unit 1 - Greetings', 21, 'buenos días'),
+        word('thank you', 'Unit 1 - Greetings', 20, 'gracias'),
+        word('goodbye', 'Unit 1 - Greetings', 20, 'adiós'),
+        word('family', 'Unit 2 - People', 14, 'familia'),
+        word('friend', 'Unit 2 - People', 14, 'amigo'),
+        word('teacher', 'Unit 2 - People', 13, 'profesor'),
+        word('apple', 'Unit 3 - Food', 6, 'manzana'),
+        word('bread', 'Unit 3 - Food', 6, 'pan'),
+        word('water', 'Unit 3 - Food', 5, 'agua'),
+        word('breakfast', 'Unit 3 - Food', 2, 'desayuno'),
+        word('vegetable', 'Unit 3 - Food', 1, 'verdura')
+      ],
+      mastery: {}
+    }
+  };
+}
+
+// Cursors are opaque to clients: the (learned_at, id) of the last word handed out
+function encodeCursor(word) {
+  return Buffer.from(JSON.stringify([word.learned_at, word.id])).toString('base64url');
+}
+
+function decodeCursor(cursor) {
+  try {
+    const [learnedAt, id] = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    return typeof learnedAt === 'string' && typeof id === 'string' ? { learnedAt, id } : null;
+  } catch {
+    return null;
+  }
+}
+
+function newLinkCode() {
+  return Array.from({ length: 8 }, () => LINK_CODE_ALPHABET[randomInt(LINK_CODE_ALPHABET.length)]).join('');
+}
+
+function byLearnedAt(a, b) {
+  return a.learned_at.localeCompare(b.learned_at) || a.id.localeCompare(b.id);
+}
+
+function readJson(req) {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      try {
+        resolve(body ? JSON.parse(body) : {});
+      } catch (error) {
+        reject(error);
+      }
+    });
+    req.on('error', reject);
+  });
+}
+
+/**
+ * The mock's request handler. `apiKey`, when set, is the only bearer token accepted;
+ * otherwise any token is. Students are created on first use, with no words. `now` is the
+ * clock linking codes expire by.
+ *
+ * @param {{ apiKey?: string, students?: Record<string, { words: object[], mastery: Record<string, object> }>, now?: () => number }} [options]
+ */
+function createMockFlashAcademy({ apiKey = process.env.FLASHACADEMY_API_KEY, students = seedStudents(), now = Date.now } = {}) {
+  const linkCodes = new Map(); // Code -> { studentId, expiresAt }
+
+  const send = (res, status, body) => {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  };
+
+  return async function handle(req, res) {
+    const url = new URL(req.url, 'http://localhost');
+    const token = (req.headers.authorization || '').replace(/^Bearer\s+/i, '');
+    if (!token || (apiKey && token !== apiKey)) return send(res, 401, { error: 'Invalid API key' });
+
+    // A code is good once, for the student it was issued to
+    if (url.pathname === '/v1/link-codes/redeem' && req.method === 'POST') {
+      try {
+        const body = await readJson(req);
+        const code = typeof body.code === 'string' ? body.code.trim().toUpperCase() : '';
+        const issued = linkCodes.get(code);
+        linkCodes.delete(code);
+        if (!issued || issued.expiresAt <= now()) return send(res, 400, { error: 'Invalid or expired linking code' });
+        return send(res, 200, { student_id: issued.studentId });
+      } catch {
+        return send(res, 400, { error: 'Malformed JSON body' });
+      }
+    }
+
+    const match = url.pathname.match(/^\/v1\/students\/([^/]+)\/(learned-words|mastery|link-codes)$/);
+    if (!match) return send(res, 404, { error: 'Not found' });
+    const studentId = decodeURIComponent(match[1]);
+    const student = students[studentId] ||= { words: [], mastery: {} };
+    const resource = match[2];
+
+    try {
+      if (resource === 'learned-words' && req.method === 'GET') {
+        const limit = Math.min(MAX_PAGE_SIZE, Math.max(1, Number(url.searchParams.get('limit')) || MAX_PAGE_SIZE));
+        const since = url.searchParams.get('since');
+        const after = since ? decodeCursor(since) : null;
+        if (since && !after) return send(res, 400, { error: 'Invalid cursor' });
+
+        const remaining = [...student.words]
+          .sort(byLearnedAt)
+          .filter(w => !after || byLearnedAt(w, { learned_at: after.learnedAt, id: after.id }) > 0);
+        const page = remaining.slice(0, limit);
+        return send(res, 200, {
+          words: page,
+          next_cursor: page.length > 0 ? encodeCursor(page[page.length - 1]) : since,
+          has_more: remaining.length > page.length
+        });
+      }
+
+      // Mock only: the student learns a word now
+      if (resource === 'learned-words' && req.method === 'POST') {
+        const body = await readJson(req);
+        if (typeof body.text !== 'string' || !body.text.trim()) return send(res, 400, { error: 'text is required' });
+        const word = {
+          id: randomUUID(),
+          text: body.text.trim(),
+          learned_at: new Date().toISOString(),
+          language: body.language || 'en',
+          unit: body.unit
+        };
+        student.words.push(word);
+        return send(res, 201, { word });
+      }
+
+      if (resource === 'mastery' && req.method === 'POST') {
+        const body = await readJson(req);
+        const updates = Array.isArray(body.updates) ? body.updates : [];
+        const known = new Set(student.words.map(w => w.id));
+        let accepted = 0;
+        for (const update of updates) {
+          if (!known.has(update?.word_id)) continue;
+          student.mastery[update.word_id] = { ...update, received_at: new Date().toISOString() };
+          accepted++;
+        }
+        console.log(`[mock FlashAcademy] ${studentId}: ${accepted} mastery update(s)`);
+        return send(res, 200, { accepted });
+      }
+
+      // Mock only: the student asks FlashAcademy for a code to link an app with
+      if (resource === 'link-codes' && req.method === 'POST') {
+        const code = newLinkCode();
+        const expiresAt = now() + LINK_CODE_TTL_MS;
+        linkCodes.set(code, { studentId, expiresAt });
+        return send(res, 201, { code, expires_at: new Date(expiresAt).toISOString() });
+      }
+
+      if (resource === 'mastery' && req.method === 'GET') {
+        return send(res, 200, { mastery: Object.values(student.mastery) });
+      }
+
+      return send(res, 405, { error: 'Method not allowed' });
+    } catch {
+      return send(res, 400, { error: 'Malformed JSON body' });
+    }
+  };
+}
+
+if (require.main === module) {
+  const server = http.createServer(createMockFlashAcademy());
+  server.listen(PORT, () => {
+    console.log(`> Mock FlashAcademy API on http://localhost:${PORT} (student "demo" has sample words)`);
+  });
+}
+
+module.exports = { createMockFlashAcademy };
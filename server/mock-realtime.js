@@ -0,0 +1,253 @@
+const fs = require('fs');
+const path = require('path');
+const { EventEmitter } = require('events');
+const { randomUUID } = require('crypto');
+const WebSocket = require('ws');
+
+const SCENARIO_DIR = path.join(__dirname, 'mock-scenarios');
+
+const defaultTiming = {
+  userDelayMs: 1500,   // Pause between the tutor finishing and the scripted learner speaking
+  speechMs: 600,       // Time between speech_started and speech_stopped
+  deltaIntervalMs: 25, // Spacing of transcript deltas
+  wordsPerDelta: 2
+};
+
+/**
+ * Scenario files hold a `prompt` (the tutor's reply to every client response.create) and a
+ * list of `turns`: `{ user, tutor, score?, then? }`. `{{word}}` in any text is replaced by the
+ * word the client is currently practicing. A `score` is sent as a submit_pronunciation_score
+ * tool call; `then: "wait"` keeps the learner quiet until the client prompts again.
+ *
+ * Load a scenario by name (a file in server/mock-scenarios) or by path to a JSON file.
+ */
+function loadScenario(nameOrPath) {
+  const file = nameOrPath.endsWith('.json')
+    ? path.resolve(nameOrPath)
+    : path.join(SCENARIO_DIR, `${nameOrPath}.json`);
+  const scenario = JSON.parse(fs.readFileSync(file, 'utf8'));
+  return {
+    name: scenario.name || path.basename(file, '.json'),
+    prompt: scenario.prompt || "Let's practice '{{word}}'. Can you say it for me?",
+    turns: scenario.turns || [],
+    timing: { ...defaultTiming, ...scenario.timing }
+  };
+}
+
+// Find the word the client is currently asking about, e.g. `Testing word: "apple"`
+function extractWord(text) {
+  const matches = [...text.matchAll(/word[^"'\n]*?["']([^"'\n]+)["']/gi)];
+  return matches.length > 0 ? matches[matches.length - 1][1] : null;
+}
+
+function fill(template, vars) {
+  return template.replace(/\{\{(\w+)\}\}/g, (_, key) => vars[key] ?? '');
+}
+
+// 100ms of 24kHz PCM16 silence, so the client's playback path is exercised too
+const SILENCE_CHUNK = Buffer.alloc(2400 * 2).toString('base64');
+// Realtime bills audio at one token per 100ms heard and one per 50ms spoken
+const INPUT_AUDIO_TOKENS_PER_MS = 1 / 100;
+const OUTPUT_AUDIO_TOKENS_PER_CHUNK = 2;
+
+/**
+ * A stand-in for the OpenAI Realtime WebSocket. It exposes the same surface the proxy
+ * uses (`send`, `close`, `readyState`, and `open`/`message`/`close`/`error` events) and
+ * answers with canned tutor replies and scores from a scenario file.
+ *
+ * The learner is scripted too: after every tutor reply the next scenario turn is "spoken"
+ * with the usual speech_started/speech_stopped/conversation.item.created events, so the
+ * word-progression and scoring flows run end-to-end without a microphone or network.
+ */
+function createMockUpstream(scenario) {
+  const upstream = new EventEmitter();
+  const timers = new Set();
+  let turnIndex = 0;
+  let currentWord = 'hello';
+  let activeResponse = null;
+  let learnerPending = false;
+  let heardAudioTokens = 0; // Learner speech not yet billed to a response
+
+  upstream.readyState = WebSocket.CONNECTING;
+
+  const later = (fn, ms) => {
+    const timer = setTimeout(() => {
+      timers.delete(timer);
+      fn();
+    }, ms);
+    timers.add(timer);
+  };
+
+  const emitEvent = (event) => {
+    if (upstream.readyState !== WebSocket.OPEN) return;
+    upstream.emit('message', Buffer.from(JSON.stringify({ event_id: `event_${randomUUID()}`, ...event })));
+  };
+
+  const finishResponse = (response, status) => {
+    const inputAudio = heardAudioTokens;
+    const outputAudio = response.chunks * OUTPUT_AUDIO_TOKENS_PER_CHUNK;
+    heardAudioTokens = 0;
+    emitEvent({
+      type: 'response.done',
+      response: {
+        id: response.id,
+        status,
+        usage: {
+          total_tokens: inputAudio + response.text.length + outputAudio,
+          input_tokens: inputAudio,
+          output_tokens: response.text.length + outputAudio,
+          input_token_details: { text_tokens: 0, audio_tokens: inputAudio },
+          output_token_details: { text_tokens: response.text.length, audio_tokens: outputAudio }
+        }
+      }
+    });
+    if (activeResponse === response) activeResponse = null;
+  };
+
+  // Stream a tutor reply as transcript deltas, then an optional tool call, then response.done.
+  // The scripted learner answers afterwards unless the turn asked to wait for the next prompt.
+  const respond = (text, toolCall, learnerWaits = false) => {
+    const response = { id: `resp_${randomUUID()}`, text, cancelled: false, chunks: 0 };
+    activeResponse = response;
+    const itemId = `item_${randomUUID()}`;
+    emitEvent({ type: 'response.created', response: { id: response.id, status: 'in_progress' } });
+
+    const words = text.split(/(\s+)/);
+    const step = scenario.timing.wordsPerDelta * 2;
+    let delay = 0;
+    for (let i = 0; i < words.length; i += step) {
+      const delta = words.slice(i, i + step).join('');
+      delay += scenario.timing.deltaIntervalMs;
+      later(() => {
+        if (response.cancelled) return;
+        emitEvent({ type: 'response.audio_transcript.delta', response_id: response.id, item_id: itemId, delta });
+        emitEvent({ type: 'response.audio.delta', response_id: response.id, item_id: itemId, delta: SILENCE_CHUNK });
+        response.chunks++;
+      }, delay);
+    }
+
+    later(() => {
+      if (response.cancelled) return;
+      emitEvent({ type: 'response.audio_transcript.done', response_id: response.id, item_id: itemId, transcript: text });
+      if (toolCall) {
+        emitEvent({
+          type: 'response.function_call_arguments.done',
+          response_id: response.id,
+          call_id: `call_${randomUUID()}`,
+          name: toolCall.name,
+          arguments: JSON.stringify(toolCall.arguments)
+        });
+      }
+      finishResponse(response, 'completed');
+      if (!learnerWaits) scheduleLearnerTurn();
+    }, delay + scenario.timing.deltaIntervalMs);
+  };
+
+  const scheduleLearnerTurn = () => {
+    const turn = scenario.turns[turnIndex];
+    if (!turn || learnerPending) return;
+    turnIndex++;
+    learnerPending = true;
+
+    const vars = { word: currentWord };
+    const itemId = `item_${randomUUID()}`;
+    later(() => {
+      emitEvent({ type: 'input_audio_buffer.speech_started', audio_start_ms: 0, item_id: itemId });
+      later(() => {
+        learnerPending = false;
+        heardAudioTokens += Math.round(scenario.timing.speechMs * INPUT_AUDIO_TOKENS_PER_MS);
+        const transcript = fill(turn.user ?? '{{word}}', vars);
+        emitEvent({ type: 'input_audio_buffer.speech_stopped', audio_end_ms: scenario.timing.speechMs, item_id: itemId });
+        emitEvent({ type: 'input_audio_buffer.committed', item_id: itemId });
+        emitEvent({
+          type: 'conversation.item.created',
+          item: { id: itemId, type: 'message', role: 'user', content: [{ type: 'input_audio', transcript }] }
+        });
+        emitEvent({ type: 'conversation.item.input_audio_transcription.completed', item_id: itemId, content_index: 0, transcript });
+
+        // Server VAD answers every learner turn on its own
+        const score = turn.score && {
+          name: 'submit_pronunciation_score',
+          arguments: {
+            word: currentWord,
+            phoneme_issues: [],
+            stress: { correct: true },
+            tips: [],
+            ...turn.score
+          }
+        };
+        respond(fill(turn.tutor ?? 'Thank you!', vars), score, turn.then === 'wait');
+      }, scenario.timing.speechMs);
+    }, scenario.timing.userDelayMs);
+  };
+
+  const handleClientEvent = (event) => {
+    switch (event.type) {
+      case 'session.update': {
+        const word = extractWord(event.session?.instructions || '');
+        if (word) currentWord = word;
+        emitEvent({ type: 'session.updated', session: { id: upstream.sessionId, ...event.session } });
+        break;
+      }
+
+      case 'conversation.item.create': {
+        const text = event.item?.content?.map(c => c.text || '').join(' ') || '';
+        const word = extractWord(text);
+        if (word) currentWord = word;
+        emitEvent({ type: 'conversation.item.created', item: { id: event.item?.id || `item_${randomUUID()}`, ...event.item } });
+        break;
+      }
+
+      case 'response.create': {
+        const word = extractWord(event.response?.instructions || '');
+        if (word) currentWord = word;
+        respond(fill(scenario.prompt, { word: currentWord }));
+        break;
+      }
+
+      case 'response.cancel':
+        if (activeResponse) {
+          activeResponse.cancelled = true;
+          finishResponse(activeResponse, 'cancelled');
+        }
+        break;
+
+      default:
+        // input_audio_buffer.append and friends are accepted silently
+        break;
+    }
+  };
+
+  upstream.sessionId = `sess_mock_${randomUUID()}`;
+
+  upstream.send = (data) => {
+    if (upstream.readyState !== WebSocket.OPEN) return;
+    try {
+      handleClientEvent(JSON.parse(data.toString()));
+    } catch (error) {
+      upstream.emit('error', error);
+    }
+  };
+
+  upstream.close = () => {
+    if (upstream.readyState === WebSocket.CLOSED) return;
+    timers.forEach(clearTimeout);
+    timers.clear();
+    upstream.readyState = WebSocket.CLOSED;
+    upstream.emit('close');
+  };
+
+  setImmediate(() => {
+    upstream.readyState = WebSocket.OPEN;
+    emitEvent({
+      type: 'session.created',
+      session_id: upstream.sessionId,
+      session: { id: upstream.sessionId, object: 'realtime.session', model: `mock:${scenario.name}` }
+    });
+    upstream.emit('open');
+  });
+
+  return upstream;
+}
+
+module.exports = { createMockUpstream, loadScenario };
@@ -0,0 +1,362 @@
+const { getDb } = require('./db');
+const { PRACTICE_MODES } = require('./session-config');
+const templates = require('./prompt-templates');
+const { undeclaredPlaceholder } = require('./prompts');
+
+// Practice modes as curriculum staff define them: what the learner sees (name, description,
+// icon, colour) and how the tutor teaches (prompt overrides, attempts per word, VAD tuning,
+// scoring). Every mode is built on one of the lesson types in session-config.js - its
+// `base` - which fixes the lesson engine's behaviour and the templates that apply.
+//
+// The built-in modes live here; a row in `practice_modes` with the same id replaces one
+// (deleting the row resets it), and rows with any other id are modes of their own.
+
+const ICONS = ['mic', 'book-open', 'message-circle', 'headphones', 'target', 'sparkles', 'graduation-cap', 'repeat'];
+const COLORS = ['blue', 'green', 'purple', 'amber', 'rose', 'teal'];
+
+// Templates a mode of each base can override. The rest (language handling, corrections,
+// the closing message) are shared by every lesson and only change with a deploy.
+const TEMPLATES_BY_BASE = {
+  pronunciation: ['session.mode.pronunciation', 'start.pronunciation', 'next.pronunciation', 'retry'],
+  'pronunciation-test': ['session.mode.pronunciation-test', 'start.pronunciation-test', 'next.pronunciation-test', 'retry'],
+  vocabulary: ['session.mode.vocabulary', 'start.practice', 'next.vocabulary'],
+  conversation: ['session.mode.conversation', 'start.practice', 'next.conversation']
+};
+
+const MAX_NAME_LENGTH = 40;
+const MAX_DESCRIPTION_LENGTH = 160;
+const MAX_RUBRIC_LENGTH = 2000;
+const MAX_PROMPT_LENGTH = 8000;
+
+// Pronunciation work waits longer before deciding the learner has finished, so slow,
+// careful attempts aren't cut off; conversation favours quicker turn-taking
+const BUILT_IN_MODES = [
+  {
+    id: 'pronunciation',
+    base: 'pronunciation',
+    name: 'Pronunciation',
+    description: 'Focus on speaking words clearly and correctly',
+    icon: 'mic',
+    color: 'blue',
+    enabled: true,
+    prompts: {},
+    attemptsPerWord: 2,
+    turnDetection: { threshold: 0.8, prefixPaddingMs: 500, silenceDurationMs: 800 },
+    scoring: { passingScore: null, rubric: '' }
+  },
+  {
+    id: 'vocabulary',
+    base: 'vocabulary',
+    name: 'Vocabulary',
+    description: 'Learn word meanings and usage in context',
+    icon: 'book-open',
+    color: 'green',
+    enabled: true,
+    prompts: {},
+    attemptsPerWord: 2,
+    turnDetection: { threshold: 0.6, prefixPaddingMs: 300, silenceDurationMs: 600 },
+    scoring: { passingScore: null, rubric: '' }
+  },
+  {
+    id: 'conversation',
+    base: 'conversation',
+    name: 'Conversation',
+    description: 'Practice natural conversation with learned words',
+    icon: 'message-circle',
+    color: 'purple',
+    enabled: true,
+    prompts: {},
+    attemptsPerWord: 3,
+    turnDetection: { threshold: 0.5, prefixPaddingMs: 300, silenceDurationMs: 500 },
+    scoring: { passingScore: null, rubric: '' }
+  },
+  {
+    id: 'pronunciation-test',
+    base: 'pronunciation-test',
+    name: 'Pronunciation Test',
+    description: 'Get a scored evaluation of each word',
+    icon: 'target',
+    color: 'amber',
+    enabled: true,
+    prompts: {},
+    attemptsPerWord: 3,
+    turnDetection: { threshold: 0.8, prefixPaddingMs: 500, silenceDurationMs: 800 },
+    scoring: {
+      passingScore: 70,
+      rubric: `- 90-100: Excellent, near-native pronunciation
+- 75-89: Good, minor issues not affecting comprehension
+- 60-74: Fair, noticeable errors but understandable
+- 40-59: Poor, significant issues affecting clarity
+- Below 40: Needs major improvement`
+    }
+  }
+];
+
+function findBuiltIn(id) {
+  return BUILT_IN_MODES.find(m => m.id === id);
+}
+
+// `builtIn` modes can be reset but not deleted; `translatable` ones still have their shipped
+// name and description, so the app shows its own translations of them instead
+function withFlags(mode, updatedAt = null) {
+  const builtIn = findBuiltIn(mode.id);
+  return {
+    ...mode,
+    builtIn: Boolean(builtIn),
+    translatable: Boolean(builtIn) && mode.name === builtIn.name && mode.description === builtIn.description,
+    updatedAt
+  };
+}
+
+// Overrides saved before they were checked (or since edited by hand) would fail every lesson
+// in the mode; those fall back to the shipped text instead
+function storedPrompts(id, base, prompts) {
+  return Object.fromEntries(Object.entries(prompts).filter(([name, text]) => {
+    const usable = TEMPLATES_BY_BASE[base]?.includes(name) && typeof text === 'string' && !undeclaredPlaceholder(name, text);
+    if (!usable) console.warn(`Practice mode "${id}": ignoring its "${name}" prompt, which can't be rendered`);
+    return usable;
+  }));
+}
+
+function rowToMode(row) {
+  return withFlags({
+    id: row.id,
+    base: row.base,
+    name: row.name,
+    description: row.description,
+    icon: row.icon,
+    color: row.color,
+    enabled: row.enabled === 1,
+    prompts: storedPrompts(row.id, row.base, JSON.parse(row.prompts)),
+    attemptsPerWord: row.attempts_per_word,
+    turnDetection: JSON.parse(row.turn_detection),
+    scoring: JSON.parse(row.scoring)
+  }, row.updated_at);
+}
+
+/** Every practice mode, built-in ones first, including disabled ones. */
+async function listPracticeModes() {
+  const db = await getDb();
+  const rows = await db.all('SELECT * FROM practice_modes ORDER BY created_at');
+  const stored = new Map(rows.map(row => [row.id, rowToMode(row)]));
+
+  return [
+    ...BUILT_IN_MODES.map(mode => stored.get(mode.id) || withFlags(mode)),
+    ...[...stored.values()].filter(mode => !mode.builtIn)
+  ];
+}
+
+/**
+ * Every mode as the app needs it, without the prompts and VAD tuning, which stay on the
+ * server. Disabled modes are listed too so past sessions still have a name.
+ */
+async function listLearnerPracticeModes() {
+  return (await listPracticeModes()).map(mode => ({
+    id: mode.id,
+    base: mode.base,
+    name: mode.name,
+    description: mode.description,
+    icon: mode.icon,
+    color: mode.color,
+    enabled: mode.enabled,
+    translatable: mode.translatable,
+    attemptsPerWord: mode.attemptsPerWord,
+    passingScore: mode.scoring.passingScore
+  }));
+}
+
+/** The mode with this id, or null if there is none. */
+async function getPracticeMode(id) {
+  if (typeof id !== 'string') return null;
+  const db = await getDb();
+  const row = await db.get('SELECT * FROM practice_modes WHERE id = ?', id);
+  if (row) return rowToMode(row);
+  const builtIn = findBuiltIn(id);
+  return builtIn ? withFlags(builtIn) : null;
+}
+
+function boundedNumber(value, min, max) {
+  return typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max;
+}
+
+function requiredText(value, max) {
+  return typeof value === 'string' && value.trim() && value.trim().length <= max;
+}
+
+// A prompt override may only use the variables its template is rendered with
+function parsePrompts(raw, base) {
+  const prompts = {};
+  for (const [name, text] of Object.entries(raw && typeof raw === 'object' ? raw : {})) {
+    if (typeof text !== 'string' || !text.trim()) continue;
+    if (!TEMPLATES_BY_BASE[base].includes(name)) {
+      return { error: `A ${base} mode can't override the "${name}" prompt` };
+    }
+    if (text.length > MAX_PROMPT_LENGTH) {
+      return { error: `The "${name}" prompt is longer than ${MAX_PROMPT_LENGTH} characters` };
+    }
+    const unknown = undeclaredPlaceholder(name, text);
+    if (unknown) return { error: `The "${name}" prompt uses {${unknown}}, which it doesn't have` };
+    prompts[name] = text;
+  }
+  return { prompts };
+}
+
+/**
+ * Check and normalise a mode from the admin console. Returns `{ mode }` or `{ error }`.
+ * `existing` is the mode being edited, if any - a built-in mode keeps its base, and the
+ * pronunciation test (which the app always offers) stays enabled.
+ */
+function parsePracticeMode(raw, existing) {
+  if (!raw || typeof raw !== 'object') return { error: 'Missing practice mode' };
+
+  const builtIn = existing && findBuiltIn(existing.id);
+  const base = builtIn ? builtIn.base : raw.base;
+  if (!PRACTICE_MODES.includes(base)) return { error: `Unknown lesson type "${raw.base}"` };
+  if (!builtIn && base === 'pronunciation-test') return { error: 'There is only one pronunciation test' };
+
+  if (!requiredText(raw.name, MAX_NAME_LENGTH)) {
+    return { error: `A name is required, at most ${MAX_NAME_LENGTH} characters` };
+  }
+  if (typeof raw.description !== 'string' || raw.description.trim().length > MAX_DESCRIPTION_LENGTH) {
+    return { error: `The description can be at most ${MAX_DESCRIPTION_LENGTH} characters` };
+  }
+  if (!ICONS.includes(raw.icon)) return { error: `Unknown icon "${raw.icon}"` };
+  if (!COLORS.includes(raw.color)) return { error: `Unknown colour "${raw.color}"` };
+  if (!Number.isInteger(raw.attemptsPerWord) || !boundedNumber(raw.attemptsPerWord, 1, 5)) {
+    return { error: 'Attempts per word must be a whole number from 1 to 5' };
+  }
+
+  const vad = raw.turnDetection || {};
+  if (!boundedNumber(vad.threshold, 0.1, 0.95)) return { error: 'The VAD threshold must be between 0.1 and 0.95' };
+  if (!boundedNumber(vad.prefixPaddingMs, 0, 2000)) return { error: 'Prefix padding must be between 0 and 2000 ms' };
+  if (!boundedNumber(vad.silenceDurationMs, 200, 3000)) return { error: 'Silence duration must be between 200 and 3000 ms' };
+
+  const scoring = raw.scoring || {};
+  const rubric = typeof scoring.rubric === 'string' ? scoring.rubric.trim() : '';
+  if (rubric.length > MAX_RUBRIC_LENGTH) return { error: `The rubric can be at most ${MAX_RUBRIC_LENGTH} characters` };
+  // Only a test is scored against a pass mark, and its prompts need the rubric to score by
+  const isTest = base === 'pronunciation-test';
+  if (isTest && !boundedNumber(scoring.passingScore, 0, 100)) return { error: 'The passing score must be from 0 to 100' };
+  if (isTest && !rubric) return { error: 'A pronunciation test needs a scoring rubric' };
+
+  const { prompts, error } = parsePrompts(raw.prompts, base);
+  if (error) return { error };
+
+  return {
+    mode: {
+      id: existing?.id,
+      base,
+      name: raw.name.trim(),
+      description: raw.description.trim(),
+      icon: raw.icon,
+      color: raw.color,
+      enabled: isTest || raw.enabled !== false,
+      prompts,
+      attemptsPerWord: raw.attemptsPerWord,
+      turnDetection: {
+        threshold: vad.threshold,
+        prefixPaddingMs: Math.round(vad.prefixPaddingMs),
+        silenceDurationMs: Math.round(vad.silenceDurationMs)
+      },
+      scoring: { passingScore: isTest ? Math.round(scoring.passingScore) : null, rubric }
+    }
+  };
+}
+
+// "Minimal Pairs Drill" -> "minimal-pairs-drill", with a suffix if that's taken
+async function newModeId(db, name) {
+  const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 40) || 'mode';
+  for (let n = 1; ; n++) {
+    const id = n === 1 ? slug : `${slug}-${n}`;
+    const taken = findBuiltIn(id) || await db.get('SELECT 1 FROM practice_modes WHERE id = ?', id);
+    if (!taken) return id;
+  }
+}
+
+/**
+ * Create a mode (no `id`) or replace an existing one. Returns `{ mode }`, `{ error }` for
+ * an invalid definition, or `{ notFound: true }` for an id that doesn't exist.
+ */
+async function savePracticeMode(raw, id) {
+  const existing = id ? await getPracticeMode(id) : null;
+  if (id && !existing) return { notFound: true };
+
+  const { mode, error } = parsePracticeMode(raw, existing);
+  if (error) return { error };
+
+  const db = await getDb();
+  const now = new Date().toISOString();
+  mode.id = mode.id || await newModeId(db, mode.name);
+  await db.run(
+    `INSERT INTO practice_modes (id, base, name, description, icon, color, enabled, prompts, attempts_per_word, turn_detection, scoring, created_at, updated_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+     ON CONFLICT(id) DO UPDATE SET
+       name = excluded.name,
+       description = excluded.description,
+       icon = excluded.icon,
+       color = excluded.color,
+       enabled = excluded.enabled,
+       prompts = excluded.prompts,
+       attempts_per_word = excluded.attempts_per_word,
+       turn_detection = excluded.turn_detection,
+       scoring = excluded.scoring,
+       updated_at = excluded.updated_at`,
+    mode.id,
+    mode.base,
+    mode.name,
+    mode.description,
+    mode.icon,
+    mode.color,
+    mode.enabled ? 1 : 0,
+    JSON.stringify(mode.prompts),
+    mode.attemptsPerWord,
+    JSON.stringify(mode.turnDetection),
+    JSON.stringify(mode.scoring),
+    now,
+    now
+  );
+  return { mode: withFlags(mode, now) };
+}
+
+/**
+ * Delete a mode of staff's own, or reset a built-in one to how it ships. Returns the mode
+ * as it is now (null once deleted), or `{ notFound: true }`.
+ */
+async function deletePracticeMode(id) {
+  const existing = await getPracticeMode(id);
+  if (!existing) return { notFound: true };
+
+  const db = await getDb();
+  await db.run('DELETE FROM practice_modes WHERE id = ?', id);
+  const builtIn = findBuiltIn(id);
+  return { mode: builtIn ? withFlags(builtIn) : null };
+}
+
+/**
+ * What the admin console offers: icons, colours, the lesson types a mode can be built on
+ * and, for each template a mode can override, its shipped text and variables.
+ */
+function practiceModeOptions() {
+  const names = [...new Set(Object.values(TEMPLATES_BY_BASE).flat())];
+  return {
+    icons: ICONS,
+    colors: COLORS,
+    bases: PRACTICE_MODES,
+    templatesByBase: TEMPLATES_BY_BASE,
+    templates: Object.fromEntries(names.map(name => [name, {
+      version: templates[name].version,
+      variables: Object.keys(templates[name].variables),
+      text: templates[name].text
+    }]))
+  };
+}
+
+module.exports = {
+  BUILT_IN_MODES,
+  listPracticeModes,
+  listLearnerPracticeModes,
+  getPracticeMode,
+  savePracticeMode,
+  deletePracticeMode,
+  practiceModeOptions
+};
@@ -0,0 +1,155 @@
+// Renders the tutor's prompts for a sample lesson, so a change to server/prompt-templates.js
+// can be read (and diffed) before it ships:
+//
+//   npm run prompts:preview -- --mode pronunciation --home es --target en --words apple,banana,thought
+//
+// --mode is any practice mode id, including modes added in the admin console (read from the
+// database). With --check it renders every built-in mode for every home language in
+// lib/languages.json instead, and fails if a template can't be rendered, leaves a
+// {placeholder} unfilled, uses a variable it doesn't declare or is never used at all.
+
+const prompts = require('./prompts');
+const templates = require('./prompt-templates');
+const LANGUAGES = require('../lib/languages.json');
+const dictionary = require('../lib/dictionary-en.json');
+const { parseLessonRequest } = require('./session-config');
+const { BUILT_IN_MODES, getPracticeMode } = require('./practice-modes');
+
+// Note which templates each render goes through. lesson-prompts.js takes renderPrompt when
+// it loads, so the wrapper has to be in place first.
+const used = new Map(); // name -> locales rendered in
+const renderPrompt = prompts.renderPrompt;
+prompts.renderPrompt = (name, values, locale, overrides) => {
+  if (!used.has(name)) used.set(name, new Set());
+  used.get(name).add(locale);
+  return renderPrompt(name, values, locale, overrides);
+};
+const lessonPrompts = require('./lesson-prompts');
+
+const DEFAULT_WORDS = ['apple', 'banana', 'thought'];
+const SAMPLE_RUBRIC = '- Every sound of the word is clear\n- The stress is on the right syllable';
+
+function parseArgs(argv) {
+  const args = { mode: 'pronunciation', home: 'en', target: 'en', words: DEFAULT_WORDS, check: false };
+  for (let i = 0; i < argv.length; i++) {
+    const flag = argv[i];
+    if (flag === '--check') args.check = true;
+    else if (flag === '--words') args.words = argv[++i].split(',').map(w => w.trim()).filter(Boolean);
+    else if (['--mode', '--home', '--target'].includes(flag)) args[flag.slice(2)] = argv[++i];
+    else throw new Error(`Unknown option ${flag}`);
+  }
+  return args;
+}
+
+// A lesson of practice mode `mode` as the relay would get it, with details from the offline
+// dictionary where it has the word
+function sampleLesson({ mode, home, target, words }) {
+  const { lesson, error } = parseLessonRequest({
+    mode: mode.id,
+    homeLanguage: home,
+    targetLanguage: target,
+    words,
+    details: words.map(word => dictionary[word.toLowerCase()] || null)
+  }, mode);
+  if (error) throw new Error(error);
+  return lesson;
+}
+
+// Every prompt a lesson can send, in the order a lesson would send them
+function renderLesson(lesson) {
+  const [first, second] = lesson.words;
+  const rendered = [['session instructions', lessonPrompts.sessionInstructions(lesson)]];
+  if (!first) return rendered;
+
+  rendered.push(['introduce-word #1', lessonPrompts.startInstructions(lesson, first)]);
+  if (second) {
+    rendered.push(['introduce-word #2', lessonPrompts.nextWordInstructions(lesson, second, 1, first)]);
+    rendered.push(['introduce-word #2 (resumed)', lessonPrompts.nextWordInstructions(lesson, second, 1)]);
+  }
+  rendered.push(['request-retry', lessonPrompts.retryInstructions(lesson, first, 2, lesson.attemptsPerWord)]);
+  rendered.push(['request-retry response', lessonPrompts.retryResponse(lesson, first)]);
+  rendered.push(['complete', lessonPrompts.completionInstructions(lesson)]);
+  rendered.push(['correction: wrong word', lessonPrompts.wrongWordCorrection(lesson, first, 0, 'beach')]);
+  rendered.push(['correction: skipped ahead', lessonPrompts.skippedAheadCorrection(lesson, first, 0)]);
+  return rendered;
+}
+
+async function preview(args) {
+  const mode = await getPracticeMode(args.mode);
+  if (!mode) throw new Error(`Unknown practice mode "${args.mode}"`);
+  const lesson = sampleLesson({ ...args, mode });
+  for (const [label, text] of renderLesson(lesson)) {
+    console.log(`=== ${label} ===\n${text}\n`);
+  }
+  console.log('=== templates ===');
+  for (const { name, version, locales } of prompts.listPrompts()) {
+    if (!used.has(name)) continue;
+    const override = locales.includes(lesson.homeLanguageCode) ? ` (${lesson.homeLanguageCode} override)` : '';
+    console.log(`${name} v${version}${override}`);
+  }
+}
+
+function check() {
+  const problems = [];
+
+  // Placeholders are only caught at render time for the text that's rendered, so look at
+  // every override here too
+  for (const [name, template] of Object.entries(templates)) {
+    if (!Number.isInteger(template.version)) problems.push(`${name} has no version`);
+    const texts = { default: template.text, ...template.locales };
+    for (const [locale, text] of Object.entries(texts)) {
+      for (const [, variable] of text.matchAll(/\{(\w+)\}/g)) {
+        if (!(variable in template.variables)) problems.push(`${name} (${locale}) uses undeclared {${variable}}`);
+      }
+    }
+  }
+
+  let count = 0;
+  const homes = LANGUAGES.map(l => l.code);
+  for (const mode of BUILT_IN_MODES) {
+    // Staff can give any mode a rubric, so render each one with a rubric as well
+    const withRubric = { ...mode, scoring: { ...mode.scoring, rubric: mode.scoring.rubric || SAMPLE_RUBRIC } };
+    for (const home of homes) {
+      // Learning another language, practising their own, and too few words to practise
+      const lessons = [
+        { mode, home, target: home === 'en' ? 'es' : 'en', words: DEFAULT_WORDS },
+        { mode, home, target: home, words: DEFAULT_WORDS },
+        { mode, home, target: 'en', words: ['apple'] },
+        { mode: withRubric, home, target: 'en', words: DEFAULT_WORDS }
+      ];
+      for (const args of lessons) {
+        try {
+          for (const [label, text] of renderLesson(sampleLesson(args))) {
+            count++;
+            const unfilled = text.match(/\{\w+\}/);
+            if (unfilled) problems.push(`${mode.id} ${home}->${args.target} ${label}: ${unfilled[0]} left unfilled`);
+          }
+        } catch (error) {
+          problems.push(`${mode.id} ${home}->${args.target}: ${error.message}`);
+        }
+      }
+    }
+  }
+
+  for (const name of Object.keys(templates)) {
+    if (!used.has(name)) problems.push(`${name} is never used`);
+  }
+
+  if (problems.length > 0) {
+    console.error(problems.join('\n'));
+    console.error(`\n${problems.length} problem(s) in the prompt templates`);
+    process.exitCode = 1;
+    return;
+  }
+  console.log(`${count} prompts rendered from ${Object.keys(templates).length} templates - all fine`);
+}
+
+const args = parseArgs(process.argv.slice(2));
+if (args.check) {
+  check();
+} else {
+  preview(args).catch(error => {
+    console.error(error.message);
+    process.exitCode = 1;
+  });
+}
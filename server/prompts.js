@@ -0,0 +1,55 @@
+const templates = require('./prompt-templates');
+
+// Placeholders are `{name}`, the same as the UI's message catalogs (lib/i18n.ts)
+const PLACEHOLDER = /\{(\w+)\}/g;
+
+/**
+ * The first `{variable}` in `text` that template `name` doesn't declare, or null. Rendering
+ * would throw on it, so a practice mode's override is checked with this before it is saved.
+ */
+function undeclaredPlaceholder(name, text) {
+  const template = templates[name];
+  const found = [...text.matchAll(PLACEHOLDER)].find(([, variable]) => !(variable in template.variables));
+  return found ? found[1] : null;
+}
+
+/**
+ * The text of template `name` with its variables filled in, in the override for `locale`
+ * (a home-language code) if there is one. `overrides` are a practice mode's own texts by
+ * template name (server/practice-modes.js), which win over both. Throws on an unknown
+ * template or a variable that is missing, of the wrong type or not declared - those are
+ * mistakes in the calling code, which `npm run prompts:preview -- --check` catches before
+ * they reach a lesson.
+ */
+function renderPrompt(name, values = {}, locale, overrides) {
+  const template = templates[name];
+  if (!template) throw new Error(`Unknown prompt template "${name}"`);
+
+  for (const [variable, type] of Object.entries(template.variables)) {
+    if (typeof values[variable] !== type) {
+      throw new Error(`Prompt "${name}" needs ${variable} as a ${type} (got ${typeof values[variable]})`);
+    }
+  }
+  const undeclared = Object.keys(values).find(variable => !(variable in template.variables));
+  if (undeclared) throw new Error(`Prompt "${name}" has no variable ${undeclared}`);
+
+  const text = overrides?.[name] || (locale && template.locales?.[locale]) || template.text;
+  return text.replace(PLACEHOLDER, (match, variable) => {
+    if (!(variable in template.variables)) {
+      throw new Error(`Prompt "${name}" uses {${variable}}, which it doesn't declare`);
+    }
+    return String(values[variable]);
+  });
+}
+
+/** Every template as `{ name, version, variables, locales }`, for the preview harness. */
+function listPrompts() {
+  return Object.entries(templates).map(([name, template]) => ({
+    name,
+    version: template.version,
+    variables: template.variables,
+    locales: Object.keys(template.locales || {})
+  }));
+}
+
+module.exports = { renderPrompt, undeclaredPlaceholder, listPrompts };
@@ -0,0 +1,41 @@
+const DEFAULT_LIMIT = Number(process.env.REALTIME_RATE_LIMIT_PER_MINUTE ?? 10);
+const WINDOW_MS = 60 * 1000;
+
+/**
+ * Sliding-window limiter keyed by learner. `take(key)` records an attempt and returns
+ * `{ ok: true }`, or `{ ok: false, retryAfterSeconds }` once the key has used up its
+ * `limit` within the last `windowMs`. A limit of 0 allows everything.
+ */
+function createRateLimiter({ limit = DEFAULT_LIMIT, windowMs = WINDOW_MS, now = () => Date.now() } = {}) {
+  const attempts = new Map(); // key -> timestamps inside the window, oldest first
+
+  const take = (key) => {
+    if (limit <= 0) return { ok: true };
+
+    const current = now();
+    const recent = (attempts.get(key) || []).filter(at => at > current - windowMs);
+    if (recent.length >= limit) {
+      attempts.set(key, recent);
+      return { ok: false, retryAfterSeconds: Math.ceil((recent[0] + windowMs - current) / 1000) };
+    }
+
+    recent.push(current);
+    attempts.set(key, recent);
+    return { ok: true };
+  };
+
+  return { take };
+}
+
+/**
+ * Limits how often one learner can start a Realtime session (mint a token for the proxy).
+ * Cached on globalThis like the token issuer, so dev-mode reloads keep the counts.
+ */
+function getSessionRateLimiter() {
+  if (!globalThis.__voiceTutorSessionRateLimiter) {
+    globalThis.__voiceTutorSessionRateLimiter = createRateLimiter();
+  }
+  return globalThis.__voiceTutorSessionRateLimiter;
+}
+
+module.exports = { createRateLimiter, getSessionRateLimiter };
@@ -0,0 +1,32 @@
+// Upload bodies are read with a running cap, so an oversized one is turned away as soon as it
+// passes the limit instead of after it has all been buffered in memory.
+
+/**
+ * The request body as a Buffer, or null if it is (or claims to be) more than `maxBytes`.
+ *
+ * @param {Request} request
+ * @param {number} maxBytes
+ * @returns {Promise<Buffer | null>}
+ */
+async function readBody(request, maxBytes) {
+  const declared = Number(request.headers.get('content-length'));
+  if (declared > maxBytes) return null;
+  if (!request.body) return Buffer.alloc(0);
+
+  const chunks = [];
+  let size = 0;
+  const reader = request.body.getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.length;
+    if (size > maxBytes) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks, size);
+}
+
+module.exports = { readBody };
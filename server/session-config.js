@@ -0,0 +1,189 @@
+// The one place Realtime sessions are configured. The browser only says which lesson it
+// wants (`lesson.start`); the proxy turns that into the session.update below, so prompts,
+// VAD tuning and tools never ship in the client bundle and can't be overridden by it. The
+// practice mode (server/practice-modes.js) supplies the tuning; this file the rest.
+
+const LANGUAGES = require('../lib/languages.json');
+
+// The lesson types a practice mode is built on
+const PRACTICE_MODES = ['pronunciation', 'vocabulary', 'conversation', 'pronunciation-test'];
+const MIN_PRACTICE_WORDS = 3; // A pronunciation test can run on any number of words
+const MAX_LESSON_WORDS = 50;
+const MAX_WORD_LENGTH = 100;
+const MAX_DETAIL_LENGTH = 300;
+const MAX_SYLLABLES = 12;
+
+const VOICE = 'alloy';
+
+// Tool the tutor must call to report a pronunciation score in test mode
+const submitPronunciationScoreTool = {
+  type: 'function',
+  name: 'submit_pronunciation_score',
+  description: 'Record the score for the student\'s latest pronunciation attempt. Call this exactly once after giving spoken feedback on each attempt.',
+  parameters: {
+    type: 'object',
+    properties: {
+      word: {
+        type: 'string',
+        description: 'The word being tested'
+      },
+      overall_score: {
+        type: 'integer',
+        minimum: 0,
+        maximum: 100,
+        description: '90-100 near-native, 75-89 minor issues, 60-74 noticeable errors, 40-59 significant issues, below 40 needs major work'
+      },
+      phoneme_issues: {
+        type: 'array',
+        description: 'Individual sounds that were mispronounced (empty if none)',
+        items: {
+          type: 'object',
+          properties: {
+            phoneme: { type: 'string', description: 'The sound, e.g. "th" or an IPA symbol' },
+            issue: { type: 'string', description: 'What was wrong with it' },
+            suggestion: { type: 'string', description: 'Mouth or tongue positioning to fix it' }
+          },
+          required: ['phoneme', 'issue']
+        }
+      },
+      stress: {
+        type: 'object',
+        properties: {
+          correct: { type: 'boolean', description: 'Whether the stress was on the right syllable' },
+          feedback: { type: 'string' }
+        },
+        required: ['correct']
+      },
+      tips: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Short, concrete tips for the next attempt'
+      }
+    },
+    required: ['word', 'overall_score', 'phoneme_issues', 'stress', 'tips']
+  }
+};
+
+/**
+ * Check and normalise a `lesson.start` request from the browser, for `practiceMode` - the
+ * definition its `mode` names, or null if there is none. Returns `{ lesson }` or
+ * `{ error }` - the client is untrusted, so anything that ends up in a prompt is bounded
+ * here, and the attempts per word come from the mode rather than the request.
+ */
+function parseLessonRequest(raw, practiceMode) {
+  if (!raw || typeof raw !== 'object') return { error: 'Missing lesson' };
+  if (!practiceMode || !practiceMode.enabled) return { error: `Unknown practice mode "${raw.mode}"` };
+  if (!Array.isArray(raw.words) || raw.words.length > MAX_LESSON_WORDS) {
+    return { error: `A lesson needs a list of at most ${MAX_LESSON_WORDS} words` };
+  }
+
+  const home = findLanguage(raw.homeLanguage);
+  const target = findLanguage(raw.targetLanguage);
+  // `details` runs parallel to `words`; keep the pairs together while dropping blank words
+  const rawDetails = Array.isArray(raw.details) ? raw.details : [];
+  const entries = raw.words
+    .map((w, i) => ({ word: w, details: rawDetails[i] }))
+    .filter(({ word }) => typeof word === 'string' && word.trim());
+  const words = entries.map(({ word }) => word.trim().slice(0, MAX_WORD_LENGTH));
+  const details = entries.map(({ details }) => parseWordDetails(details, home.code, target.code));
+  const index = Number.isInteger(raw.index) && raw.index >= 0 && raw.index < words.length ? raw.index : 0;
+
+  return {
+    lesson: {
+      // `mode` is the lesson type, which decides how the lesson runs; the rest of the
+      // practice mode tunes it
+      mode: practiceMode.base,
+      modeName: practiceMode.name,
+      prompts: practiceMode.prompts,
+      turnDetection: practiceMode.turnDetection,
+      rubric: practiceMode.scoring.rubric,
+      words,
+      details,
+      // The prompts name languages in English; the codes pick translations and Whisper's hint
+      homeLanguage: home.name,
+      targetLanguage: target.name,
+      homeLanguageCode: home.code,
+      targetLanguageCode: target.code,
+      attemptsPerWord: practiceMode.attemptsPerWord,
+      index
+    }
+  };
+}
+
+// Languages travel by code ("es") from the registry the browser uses (lib/languages.json).
+// Clients from before that sent the English name ("Spanish"), which still works; anything
+// unknown is English.
+function findLanguage(value) {
+  const key = typeof value === 'string' ? value.trim().toLowerCase() : '';
+  return LANGUAGES.find(l => l.code.toLowerCase() === key || l.name.toLowerCase() === key)
+    || LANGUAGES.find(l => l.code.toLowerCase() === key.split('-')[0])
+    || LANGUAGES.find(l => l.code === 'en');
+}
+
+function boundedText(value, max = MAX_DETAIL_LENGTH) {
+  return typeof value === 'string' && value.trim() ? value.trim().slice(0, max) : undefined;
+}
+
+// Only what the prompts use survives: the translation in the learner's own language and
+// the fields that describe the word in the language being learned
+function parseWordDetails(raw, homeCode, targetCode) {
+  if (!raw || typeof raw !== 'object') return null;
+
+  const syllables = Array.isArray(raw.syllables)
+    ? raw.syllables.map(s => boundedText(s, MAX_WORD_LENGTH)).filter(Boolean).slice(0, MAX_SYLLABLES)
+    : [];
+  const stress = Number.isInteger(raw.stress) && raw.stress >= 0 && raw.stress < syllables.length
+    ? raw.stress
+    : undefined;
+  const translations = raw.translations && typeof raw.translations === 'object' ? raw.translations : {};
+
+  return {
+    ipa: boundedText(raw.ipa, MAX_WORD_LENGTH),
+    syllables,
+    stress,
+    partOfSpeech: boundedText(raw.partOfSpeech, 30),
+    definition: boundedText(raw.definition),
+    example: boundedText(raw.example),
+    translation: homeCode === targetCode ? undefined : boundedText(translations[homeCode], MAX_WORD_LENGTH)
+  };
+}
+
+function hasEnoughWords(lesson) {
+  return lesson.mode === 'pronunciation-test' || lesson.words.length >= MIN_PRACTICE_WORDS;
+}
+
+/**
+ * The `session` payload of the session.update the proxy sends for a lesson, with the
+ * instructions from server/lesson-prompts.js.
+ */
+function buildSessionConfig(lesson, instructions) {
+  const isTest = lesson.mode === 'pronunciation-test';
+
+  return {
+    modalities: ['text', 'audio'],
+    instructions,
+    voice: VOICE,
+    // Scores are reported through a tool call in test mode; the lesson engine drives progression
+    tools: isTest ? [submitPronunciationScoreTool] : [],
+    tool_choice: isTest ? 'auto' : 'none',
+    input_audio_format: 'pcm16',
+    output_audio_format: 'pcm16',
+    // The language hint keeps Whisper from "hearing" a learner's accented attempt as another language
+    input_audio_transcription: { model: 'whisper-1', language: findLanguage(lesson.targetLanguageCode).whisper },
+    turn_detection: {
+      type: 'server_vad',
+      threshold: lesson.turnDetection.threshold,
+      prefix_padding_ms: lesson.turnDetection.prefixPaddingMs,
+      silence_duration_ms: lesson.turnDetection.silenceDurationMs
+    },
+    temperature: 0.6 // The Realtime API's minimum - keeps the tutor on script
+  };
+}
+
+module.exports = {
+  PRACTICE_MODES,
+  MIN_PRACTICE_WORDS,
+  parseLessonRequest,
+  hasEnoughWords,
+  buildSessionConfig
+};
@@ -0,0 +1,96 @@
+const crypto = require('crypto');
+
+const DEFAULT_TTL_SECONDS = Number(process.env.REALTIME_TOKEN_TTL_SECONDS) || 60;
+const REALTIME_SCOPE = 'realtime';
+
+function base64url(input) {
+  return Buffer.from(input).toString('base64url');
+}
+
+/**
+ * Issues and checks short-lived credentials for the Realtime WebSocket proxy.
+ *
+ * A token is `<claims>.<signature>`: base64url JSON claims (`sub` learner id, `scope`,
+ * `iat`/`exp` in epoch seconds, a random `jti`) signed with HMAC-SHA256. Each token opens
+ * at most one socket - the proxy consumes its `jti` on upgrade, so a leaked token is only
+ * good until it is used or expires.
+ */
+function createTokenIssuer({ secret, ttlSeconds = DEFAULT_TTL_SECONDS, now = () => Date.now() }) {
+  if (!secret) throw new Error('A token secret is required');
+
+  const consumed = new Map(); // jti -> exp, pruned as tokens expire
+
+  const sign = (payload) => crypto.createHmac('sha256', secret).update(payload).digest('base64url');
+
+  const issue = (learnerId, { scope = REALTIME_SCOPE, ttlSeconds: ttl = ttlSeconds } = {}) => {
+    if (!learnerId) throw new Error('Tokens must be bound to a learner');
+    const iat = Math.floor(now() / 1000);
+    const claims = { sub: learnerId, scope, iat, exp: iat + ttl, jti: crypto.randomUUID() };
+    const payload = base64url(JSON.stringify(claims));
+    return { token: `${payload}.${sign(payload)}`, expiresAt: claims.exp, claims };
+  };
+
+  // Returns `{ ok: true, claims }` or `{ ok: false, reason }`; never throws on bad input.
+  // Pass `learnerId` to require the token to belong to that learner.
+  /**
+   * @param {string} token
+   * @param {{ scope?: string, learnerId?: string, consume?: boolean }} [options]
+   */
+  const verify = (token, { scope = REALTIME_SCOPE, learnerId, consume = false } = {}) => {
+    const [payload, signature, extra] = typeof token === 'string' ? token.split('.') : [];
+    if (!payload || !signature || extra !== undefined) return { ok: false, reason: 'malformed' };
+
+    const expected = Buffer.from(sign(payload));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+      return { ok: false, reason: 'bad signature' };
+    }
+
+    let claims;
+    try {
+      claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+    } catch {
+      return { ok: false, reason: 'malformed' };
+    }
+
+    const nowSeconds = Math.floor(now() / 1000);
+    if (typeof claims.exp !== 'number' || claims.exp <= nowSeconds) return { ok: false, reason: 'expired' };
+    if (claims.scope !== scope) return { ok: false, reason: 'wrong scope' };
+    if (!claims.sub) return { ok: false, reason: 'no learner' };
+    if (learnerId !== undefined && claims.sub !== learnerId) return { ok: false, reason: 'token belongs to another learner' };
+
+    for (const [jti, exp] of consumed) {
+      if (exp <= nowSeconds) consumed.delete(jti);
+    }
+    if (consumed.has(claims.jti)) return { ok: false, reason: 'already used' };
+    if (consume) consumed.set(claims.jti, claims.exp);
+
+    return { ok: true, claims };
+  };
+
+  return { issue, verify };
+}
+
+/**
+ * Shared issuer for the /api/realtime route (which mints tokens) and the custom server
+ * (which checks them). Cached on globalThis so both see the same secret and used-token list.
+ *
+ * Set REALTIME_TOKEN_SECRET in production. Outside production a local stand-in with a
+ * random per-process secret is used, so dev and mock runs need no configuration.
+ */
+function getTokenIssuer() {
+  if (!globalThis.__voiceTutorTokenIssuer) {
+    let secret = process.env.REALTIME_TOKEN_SECRET;
+    if (!secret) {
+      if (process.env.NODE_ENV === 'production') {
+        throw new Error('REALTIME_TOKEN_SECRET is not configured');
+      }
+      console.warn('REALTIME_TOKEN_SECRET not set - using a local stand-in token issuer');
+      secret = crypto.randomBytes(32).toString('hex');
+    }
+    globalThis.__voiceTutorTokenIssuer = createTokenIssuer({ secret });
+  }
+  return globalThis.__voiceTutorTokenIssuer;
+}
+
+module.exports = { createTokenIssuer, getTokenIssuer, REALTIME_SCOPE };
@@ -0,0 +1,54 @@
+const { getDb, transaction } = require('./db');
+
+function rowToSession(row) {
+  return {
+    id: row.id,
+    learnerId: row.learner_id,
+    startTime: row.start_time,
+    endTime: row.end_time || undefined,
+    mode: row.mode,
+    wordsReviewed: JSON.parse(row.words_reviewed),
+    turns: JSON.parse(row.turns),
+    duration: row.duration ?? undefined
+  };
+}
+
+async function listSessions(learnerId) {
+  const db = await getDb();
+  const rows = await db.all('SELECT * FROM sessions WHERE learner_id = ? ORDER BY start_time', learnerId);
+  return rows.map(rowToSession);
+}
+
+// Sessions belong to the learner who saved them; another learner can't overwrite one
+function upsertSession(db, learnerId, session) {
+  return db.run(
+    `INSERT INTO sessions (id, learner_id, start_time, end_time, mode, words_reviewed, turns, duration)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+     ON CONFLICT(id) DO UPDATE SET
+       end_time = excluded.end_time,
+       mode = excluded.mode,
+       words_reviewed = excluded.words_reviewed,
+       turns = excluded.turns,
+       duration = excluded.duration
+     WHERE sessions.learner_id = excluded.learner_id`,
+    session.id,
+    learnerId,
+    new Date(session.startTime).toISOString(),
+    session.endTime ? new Date(session.endTime).toISOString() : null,
+    session.mode,
+    JSON.stringify(session.wordsReviewed || []),
+    JSON.stringify(session.turns || []),
+    session.duration ?? null
+  );
+}
+
+// A batch (e.g. a restored backup) is saved all or nothing
+async function saveSessions(learnerId, sessions) {
+  await transaction(async (db) => {
+    for (const session of sessions) {
+      await upsertSession(db, learnerId, session);
+    }
+  });
+}
+
+module.exports = { listSessions, saveSessions };
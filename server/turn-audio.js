@@ -0,0 +1,37 @@
+const { getDb } = require('./db');
+
+// Formats the recorder produces: WAV from the client's PCM16, or Opus if a browser encoder is used
+const AUDIO_TYPES = ['audio/wav', 'audio/ogg', 'audio/webm'];
+const MAX_TURN_AUDIO_BYTES = 10 * 1024 * 1024; // ~3.5 minutes of 24kHz PCM16
+
+// A turn's audio belongs to the learner who uploaded it; another learner can't overwrite it
+async function saveTurnAudio(learnerId, sessionId, turnId, mimeType, data) {
+  const db = await getDb();
+  await db.run(
+    `INSERT INTO turn_audio (session_id, turn_id, learner_id, mime_type, data, created_at)
+     VALUES (?, ?, ?, ?, ?, ?)
+     ON CONFLICT(session_id, turn_id) DO UPDATE SET
+       mime_type = excluded.mime_type,
+       data = excluded.data
+     WHERE turn_audio.learner_id = excluded.learner_id`,
+    sessionId,
+    turnId,
+    learnerId,
+    mimeType,
+    data,
+    new Date().toISOString()
+  );
+}
+
+async function getTurnAudio(learnerId, sessionId, turnId) {
+  const db = await getDb();
+  const row = await db.get(
+    'SELECT mime_type, data FROM turn_audio WHERE session_id = ? AND turn_id = ? AND learner_id = ?',
+    sessionId,
+    turnId,
+    learnerId
+  );
+  return row ? { mimeType: row.mime_type, data: row.data } : null;
+}
+
+module.exports = { AUDIO_TYPES, MAX_TURN_AUDIO_BYTES, saveTurnAudio, getTurnAudio };
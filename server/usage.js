@@ -0,0 +1,176 @@
+const { getDb } = require('./db');
+
+// Daily limits per learner; 0 turns a limit off
+const QUOTAS = {
+  tokens: Number(process.env.QUOTA_DAILY_TOKENS ?? 200000),
+  audioSeconds: Number(process.env.QUOTA_DAILY_AUDIO_SECONDS ?? 1800)
+};
+
+// Realtime bills tutor speech by duration, one audio token per 50ms it produces. Learner
+// speech is metered from server VAD instead (see createInputAudioMeter): every response
+// re-reads the whole conversation, so its input audio tokens count all of the learner's
+// earlier turns again.
+const OUTPUT_AUDIO_TOKENS_PER_SECOND = 20;
+
+// Usage is bucketed by UTC day, so every learner's quota resets at midnight UTC
+function usageDay(date = new Date()) {
+  return date.toISOString().slice(0, 10);
+}
+
+function nextReset(date = new Date()) {
+  const reset = new Date(date);
+  reset.setUTCHours(24, 0, 0, 0);
+  return reset.toISOString();
+}
+
+function rowToUsage(row) {
+  return {
+    day: row.day,
+    responses: row.responses,
+    inputTokens: row.input_tokens,
+    outputTokens: row.output_tokens,
+    totalTokens: row.total_tokens,
+    inputAudioSeconds: row.input_audio_seconds,
+    outputAudioSeconds: row.output_audio_seconds,
+    audioSeconds: row.input_audio_seconds + row.output_audio_seconds
+  };
+}
+
+function emptyUsage(day) {
+  return rowToUsage({
+    day,
+    responses: 0,
+    input_tokens: 0,
+    output_tokens: 0,
+    total_tokens: 0,
+    input_audio_seconds: 0,
+    output_audio_seconds: 0
+  });
+}
+
+async function addUsage(learnerId, now, { responses = 0, inputTokens = 0, outputTokens = 0, totalTokens = 0, inputAudioSeconds = 0, outputAudioSeconds = 0 }) {
+  const db = await getDb();
+  await db.run(
+    `INSERT INTO usage_daily
+       (learner_id, day, responses, input_tokens, output_tokens, total_tokens, input_audio_seconds, output_audio_seconds)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+     ON CONFLICT(learner_id, day) DO UPDATE SET
+       responses = responses + excluded.responses,
+       input_tokens = input_tokens + excluded.input_tokens,
+       output_tokens = output_tokens + excluded.output_tokens,
+       total_tokens = total_tokens + excluded.total_tokens,
+       input_audio_seconds = input_audio_seconds + excluded.input_audio_seconds,
+       output_audio_seconds = output_audio_seconds + excluded.output_audio_seconds`,
+    learnerId,
+    usageDay(now),
+    responses,
+    inputTokens,
+    outputTokens,
+    totalTokens,
+    inputAudioSeconds,
+    outputAudioSeconds
+  );
+}
+
+/** Add the `usage` block of one Realtime `response.done` event to the learner's day. */
+async function recordUsage(learnerId, usage, now = new Date()) {
+  if (!usage) return;
+  const inputTokens = usage.input_tokens || 0;
+  const outputTokens = usage.output_tokens || 0;
+  await addUsage(learnerId, now, {
+    responses: 1,
+    inputTokens,
+    outputTokens,
+    totalTokens: usage.total_tokens || inputTokens + outputTokens,
+    outputAudioSeconds: (usage.output_token_details?.audio_tokens || 0) / OUTPUT_AUDIO_TOKENS_PER_SECOND
+  });
+}
+
+/** Add seconds of learner speech to the learner's day. */
+async function recordInputAudio(learnerId, seconds, now = new Date()) {
+  if (!(seconds > 0)) return;
+  await addUsage(learnerId, now, { inputAudioSeconds: seconds });
+}
+
+/**
+ * Measures learner speech on one Realtime connection from server VAD's marks. `handle` takes
+ * each upstream event and returns the seconds of speech it committed to the conversation -
+ * each turn once, when it's committed - or 0.
+ */
+function createInputAudioMeter() {
+  let speechStartMs = null;
+  let pendingSeconds = 0;
+  return {
+    handle(event) {
+      switch (event?.type) {
+        case 'input_audio_buffer.speech_started':
+          speechStartMs = typeof event.audio_start_ms === 'number' ? event.audio_start_ms : null;
+          return 0;
+        case 'input_audio_buffer.speech_stopped':
+          if (speechStartMs !== null && typeof event.audio_end_ms === 'number') {
+            pendingSeconds = Math.max(0, event.audio_end_ms - speechStartMs) / 1000;
+          }
+          speechStartMs = null;
+          return 0;
+        case 'input_audio_buffer.committed': {
+          const seconds = pendingSeconds;
+          pendingSeconds = 0;
+          return seconds;
+        }
+        case 'input_audio_buffer.cleared':
+          speechStartMs = null;
+          pendingSeconds = 0;
+          return 0;
+        default:
+          return 0;
+      }
+    }
+  };
+}
+
+async function getDailyUsage(learnerId, day = usageDay()) {
+  const db = await getDb();
+  const row = await db.get('SELECT * FROM usage_daily WHERE learner_id = ? AND day = ?', learnerId, day);
+  return row ? rowToUsage(row) : emptyUsage(day);
+}
+
+/** Every learner's totals for one day, heaviest users first. */
+async function listUsage(day = usageDay()) {
+  const db = await getDb();
+  const rows = await db.all(
+    `SELECT usage_daily.*, learners.username, learners.display_name
+     FROM usage_daily JOIN learners ON learners.id = usage_daily.learner_id
+     WHERE day = ?
+     ORDER BY total_tokens DESC`,
+    day
+  );
+  return rows.map(row => ({
+    learnerId: row.learner_id,
+    username: row.username,
+    displayName: row.display_name,
+    ...rowToUsage(row)
+  }));
+}
+
+/**
+ * Returns null while the learner is within today's quotas, otherwise the
+ * `quota.exceeded` event the proxy sends before closing the socket.
+ */
+async function checkQuota(learnerId, now = new Date()) {
+  const usage = await getDailyUsage(learnerId, usageDay(now));
+  const over = QUOTAS.tokens > 0 && usage.totalTokens >= QUOTAS.tokens
+    ? { quota: 'tokens', limit: QUOTAS.tokens, used: usage.totalTokens }
+    : QUOTAS.audioSeconds > 0 && usage.audioSeconds >= QUOTAS.audioSeconds
+      ? { quota: 'audioSeconds', limit: QUOTAS.audioSeconds, used: Math.round(usage.audioSeconds) }
+      : null;
+  if (!over) return null;
+
+  return {
+    type: 'quota.exceeded',
+    ...over,
+    resetsAt: nextReset(now),
+    messageKey: 'quota.reached' // Shown in the learner's home language (lib/messages)
+  };
+}
+
+module.exports = { QUOTAS, usageDay, recordUsage, recordInputAudio, createInputAudioMeter, getDailyUsage, listUsage, checkQuota };
@@ -0,0 +1,120 @@
+const crypto = require('crypto');
+const { getDb } = require('./db');
+
+// Per-learner sync state for each vocabulary source (see lib/vocabulary-source.ts): which
+// account the learner linked, where the last sync left off, and how it went.
+
+function rowToState(row) {
+  return {
+    source: row.source,
+    accountId: row.account_id,
+    cursor: row.cursor || null,
+    lastSyncedAt: row.last_synced_at || undefined,
+    lastPushedAt: row.last_pushed_at || undefined,
+    lastError: row.last_error || undefined,
+    wordsSynced: row.words_synced
+  };
+}
+
+async function getSyncState(learnerId, source) {
+  const db = await getDb();
+  const row = await db.get(
+    'SELECT * FROM vocabulary_sync WHERE learner_id = ? AND source = ?',
+    learnerId,
+    source
+  );
+  return row ? rowToState(row) : null;
+}
+
+// Linking a different account starts over from the beginning of its history
+async function linkAccount(learnerId, source, accountId) {
+  const db = await getDb();
+  await db.run(
+    `INSERT INTO vocabulary_sync (learner_id, source, account_id) VALUES (?, ?, ?)
+     ON CONFLICT(learner_id, source) DO UPDATE SET
+       account_id = excluded.account_id,
+       cursor = NULL,
+       last_synced_at = NULL,
+       last_pushed_at = NULL,
+       last_error = NULL,
+       words_synced = 0,
+       pending_sync = NULL
+     WHERE vocabulary_sync.account_id != excluded.account_id`,
+    learnerId,
+    source,
+    accountId
+  );
+}
+
+// Words already synced stay in the learner's list
+async function unlinkAccount(learnerId, source) {
+  const db = await getDb();
+  await db.run('DELETE FROM vocabulary_sync WHERE learner_id = ? AND source = ?', learnerId, source);
+}
+
+/**
+ * Record a successful pull and push. The mastery counts as pushed now, but the new cursor and
+ * the words it brought in only count once the client confirms it saved them (commitSync);
+ * until then the next sync pulls the same words again. Returns the id to confirm with.
+ */
+async function stageSync(learnerId, source, { cursor, syncedAt, pushed, wordsSynced }) {
+  const db = await getDb();
+  const pending = { id: crypto.randomUUID(), cursor, wordsSynced };
+  await db.run(
+    `UPDATE vocabulary_sync SET
+       last_pushed_at = CASE WHEN ? THEN ? ELSE last_pushed_at END,
+       last_error = NULL,
+       pending_sync = ?
+     WHERE learner_id = ? AND source = ?`,
+    pushed ? 1 : 0,
+    syncedAt.toISOString(),
+    JSON.stringify(pending),
+    learnerId,
+    source
+  );
+  return pending.id;
+}
+
+/**
+ * Move the cursor on to where a staged sync left off. False if that sync is no longer the
+ * pending one - the account was relinked, or a later sync replaced it.
+ */
+async function commitSync(learnerId, source, syncId, syncedAt) {
+  const db = await getDb();
+  const row = await db.get(
+    'SELECT pending_sync FROM vocabulary_sync WHERE learner_id = ? AND source = ?',
+    learnerId,
+    source
+  );
+  const pending = row?.pending_sync ? JSON.parse(row.pending_sync) : null;
+  if (!pending || pending.id !== syncId) return false;
+
+  // Only if nothing replaced it since it was read
+  const { changes } = await db.run(
+    `UPDATE vocabulary_sync SET
+       cursor = ?,
+       last_synced_at = ?,
+       words_synced = words_synced + ?,
+       pending_sync = NULL
+     WHERE learner_id = ? AND source = ? AND pending_sync = ?`,
+    pending.cursor,
+    syncedAt.toISOString(),
+    pending.wordsSynced,
+    learnerId,
+    source,
+    row.pending_sync
+  );
+  return changes > 0;
+}
+
+async function recordSyncError(learnerId, source, message) {
+  const db = await getDb();
+  await db.run(
+    'UPDATE vocabulary_sync SET last_error = ? WHERE learner_id = ? AND source = ?',
+    message,
+    learnerId,
+    source
+  );
+}
+
+module.exports = { getSyncState, linkAccount, unlinkAccount, stageSync, commitSync, recordSyncError };
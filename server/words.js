@@ -0,0 +1,135 @@
+const { getDb, transaction } = require('./db');
+
+function rowToWord(row) {
+  return {
+    id: row.id,
+    learnerId: row.learner_id,
+    word: row.word,
+    timestamp: row.timestamp,
+    language: row.language,
+    mastery: row.mastery,
+    practiceCount: row.practice_count,
+    lastPracticed: row.last_practiced || undefined,
+    orderIndex: row.order_index ?? undefined,
+    ease: row.ease,
+    interval: row.interval_days,
+    repetitions: row.repetitions,
+    lapses: row.lapses,
+    dueDate: row.due_date || undefined,
+    details: row.details ? JSON.parse(row.details) : undefined,
+    archived: row.archived === 1,
+    decks: JSON.parse(row.decks),
+    external: row.external ? JSON.parse(row.external) : undefined
+  };
+}
+
+function toIso(value) {
+  return value ? new Date(value).toISOString() : null;
+}
+
+// Deck names as a JSON array, dropping anything that isn't a non-empty string
+function decksJson(decks) {
+  return JSON.stringify(Array.isArray(decks) ? decks.filter(d => typeof d === 'string' && d.trim()) : []);
+}
+
+const MAX_WORD_LENGTH = 200;
+const NUMERIC_FIELDS = ['mastery', 'practiceCount', 'orderIndex', 'ease', 'interval', 'repetitions', 'lapses'];
+const DATE_FIELDS = ['lastPracticed', 'dueDate'];
+
+function isDate(value) {
+  return (typeof value === 'string' || typeof value === 'number') && !Number.isNaN(new Date(value).getTime());
+}
+
+/**
+ * Check a word from a request body before it's saved. Returns null if it can be saved,
+ * otherwise what's wrong with it.
+ */
+function validateWord(word) {
+  if (!word || typeof word !== 'object') return 'Each word must be an object';
+  if (typeof word.id !== 'string' || !word.id) return 'Each word needs an id';
+  if (typeof word.word !== 'string' || !word.word.trim() || word.word.length > MAX_WORD_LENGTH) {
+    return `Word ${word.id} needs its text, at most ${MAX_WORD_LENGTH} characters`;
+  }
+  if (!isDate(word.timestamp)) return `Word ${word.id} needs a valid timestamp`;
+  if (word.language !== undefined && (typeof word.language !== 'string' || !word.language)) {
+    return `Word ${word.id} has an invalid language`;
+  }
+  const number = NUMERIC_FIELDS.find(field => word[field] != null && !Number.isFinite(word[field]));
+  if (number) return `Word ${word.id} has an invalid ${number}`;
+  const date = DATE_FIELDS.find(field => word[field] != null && !isDate(word[field]));
+  if (date) return `Word ${word.id} has an invalid ${date}`;
+  return null;
+}
+
+async function listWords(learnerId) {
+  const db = await getDb();
+  const rows = await db.all('SELECT * FROM words WHERE learner_id = ? ORDER BY order_index, timestamp', learnerId);
+  return rows.map(rowToWord);
+}
+
+/**
+ * Insert or replace whole words for a learner. The client always sends the full record,
+ * so the last write wins - but only over the learner's own words; ids owned by someone
+ * else are left untouched.
+ */
+async function saveWords(learnerId, words) {
+  await transaction(async (db) => {
+    for (const w of words) {
+      await db.run(
+        `INSERT INTO words (id, learner_id, word, timestamp, language, mastery, practice_count, last_practiced, order_index,
+                            ease, interval_days, repetitions, lapses, due_date, details, archived, decks, external)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+         ON CONFLICT(id) DO UPDATE SET
+           word = excluded.word,
+           timestamp = excluded.timestamp,
+           language = excluded.language,
+           mastery = excluded.mastery,
+           practice_count = excluded.practice_count,
+           last_practiced = excluded.last_practiced,
+           order_index = excluded.order_index,
+           ease = excluded.ease,
+           interval_days = excluded.interval_days,
+           repetitions = excluded.repetitions,
+           lapses = excluded.lapses,
+           due_date = excluded.due_date,
+           details = excluded.details,
+           archived = excluded.archived,
+           decks = excluded.decks,
+           external = excluded.external
+         WHERE words.learner_id = excluded.learner_id`,
+        w.id,
+        learnerId,
+        w.word,
+        toIso(w.timestamp),
+        w.language || 'en',
+        w.mastery ?? 0,
+        w.practiceCount ?? 0,
+        toIso(w.lastPracticed),
+        w.orderIndex ?? null,
+        w.ease ?? 2.5,
+        w.interval ?? 0,
+        w.repetitions ?? 0,
+        w.lapses ?? 0,
+        toIso(w.dueDate),
+        w.details ? JSON.stringify(w.details) : null,
+        w.archived ? 1 : 0,
+        decksJson(w.decks),
+        w.external ? JSON.stringify(w.external) : null
+      );
+    }
+  });
+}
+
+// Returns how many were deleted - ids owned by someone else are skipped
+async function deleteWords(learnerId, ids) {
+  const db = await getDb();
+  const placeholders = ids.map(() => '?').join(', ');
+  const result = await db.run(
+    `DELETE FROM words WHERE learner_id = ? AND id IN (${placeholders})`,
+    learnerId,
+    ...ids
+  );
+  return result.changes;
+}
+
+module.exports = { validateWord, listWords, saveWords, deleteWords };
@@ -0,0 +1,39 @@
+import { test, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+// A database of its own, set before server/db.js reads VOICE_TUTOR_DB
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'voice-tutor-db-'));
+process.env.VOICE_TUTOR_DB = path.join(dir, 'test.db');
+
+after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+const word = (id: string) => ({ id, word: id, timestamp: new Date(Date.UTC(2025, 0, 1)), mastery: 0, practiceCount: 0 });
+
+test('saves that overlap all land', async () => {
+  const { createLearner } = await import('../server/learners');
+  const { saveWords, listWords } = await import('../server/words');
+  const learner = await createLearner({ username: 'ada', displayName: 'Ada', password: 'correct horse' });
+  assert.ok(learner);
+
+  await Promise.all([saveWords(learner.id, [word('a')]), saveWords(learner.id, [word('b')]), saveWords(learner.id, [word('c')])]);
+  assert.deepEqual((await listWords(learner.id)).map((w: { id: string }) => w.id).sort(), ['a', 'b', 'c']);
+});
+
+test('a failed transaction rolls back only its own writes', async () => {
+  const { createLearner } = await import('../server/learners');
+  const { saveWords, listWords } = await import('../server/words');
+  const learner = await createLearner({ username: 'grace', displayName: 'Grace', password: 'correct horse' });
+  assert.ok(learner);
+
+  // The second batch fails part way through (no timestamp), alongside a good one
+  const results = await Promise.allSettled([
+    saveWords(learner.id, [word('d'), { ...word('e'), timestamp: undefined }]),
+    saveWords(learner.id, [word('f')])
+  ]);
+  assert.equal(results[0].status, 'rejected');
+  assert.equal(results[1].status, 'fulfilled');
+  assert.deepEqual((await listWords(learner.id)).map((w: { id: string }) => w.id).sort(), ['f']);
+});
@@ -0,0 +1,129 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { FlashAcademySource, redeemLinkCode } from '../lib/flashacademy-source';
+import { createMockFlashAcademy } from '../server/mock-flashacademy';
+
+const API_KEY = 'test-key';
+
+// 250 words a minute apart - three pages at the adapter's 100 a page
+const words = Array.from({ length: 250 }, (_, i) => ({
+  id: `w${String(i).padStart(3, '0')}`,
+  text: `word ${i}`,
+  learned_at: new Date(Date.UTC(2025, 0, 1) + i * 60_000).toISOString(),
+  language: 'en',
+  unit: `Unit ${Math.floor(i / 50) + 1}`
+}));
+
+let time = Date.UTC(2025, 0, 1);
+const mastery: Record<string, object> = {};
+const server = http.createServer(createMockFlashAcademy({
+  apiKey: API_KEY,
+  students: { ada: { words, mastery } },
+  now: () => time
+}));
+let baseUrl = '';
+
+before(() => new Promise<void>(resolve => {
+  server.listen(0, '127.0.0.1', () => {
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    resolve();
+  });
+}));
+
+after(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+const source = () => new FlashAcademySource({ baseUrl, apiKey: API_KEY, studentId: 'ada' });
+
+async function issueLinkCode(studentId: string): Promise<string> {
+  const response = await fetch(`${baseUrl}/v1/students/${studentId}/link-codes`, {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${API_KEY}` }
+  });
+  return (await response.json()).code;
+}
+
+test('the cursor walks every page once, in the order words were learned', async () => {
+  const seen: string[] = [];
+  let cursor: string | null = null;
+  const pages = [];
+  for (;;) {
+    const page = await source().fetchLearnedWords(cursor);
+    pages.push(page.words.length);
+    seen.push(...page.words.map(w => w.externalId));
+    cursor = page.cursor;
+    if (!page.hasMore) break;
+  }
+  assert.deepEqual(pages, [100, 100, 50]);
+  assert.deepEqual(seen, words.map(w => w.id));
+
+  // Caught up: nothing new, and the cursor stays put for the next sync
+  const caughtUp = await source().fetchLearnedWords(cursor);
+  assert.deepEqual(caughtUp.words, []);
+  assert.equal(caughtUp.hasMore, false);
+  assert.equal(caughtUp.cursor, cursor);
+});
+
+test('words come back with their learned date and unit as a deck', async () => {
+  const { words: [first] } = await source().fetchLearnedWords(null);
+  assert.equal(first.word, 'word 0');
+  assert.equal(first.learnedAt.toISOString(), words[0].learned_at);
+  assert.deepEqual(first.decks, ['Unit 1']);
+});
+
+test('an invalid cursor is refused', async () => {
+  await assert.rejects(source().fetchLearnedWords('not-a-cursor'), { message: 'Invalid cursor' });
+});
+
+test('a page without a words list is refused with what was wrong', async () => {
+  const broken = http.createServer((_req, res) => {
+    res.setHeader('Content-Type', 'application/json');
+    res.end(JSON.stringify({ next_cursor: null, has_more: false }));
+  });
+  await new Promise<void>(resolve => broken.listen(0, '127.0.0.1', () => resolve()));
+  try {
+    const brokenSource = new FlashAcademySource({
+      baseUrl: `http://127.0.0.1:${(broken.address() as AddressInfo).port}`,
+      apiKey: API_KEY,
+      studentId: 'ada'
+    });
+    await assert.rejects(brokenSource.fetchLearnedWords(null), {
+      message: 'FlashAcademy sent a page of learned words without a words list'
+    });
+  } finally {
+    await new Promise<void>(resolve => broken.close(() => resolve()));
+  }
+});
+
+test('a wrong API key is refused', async () => {
+  const wrongKey = new FlashAcademySource({ baseUrl, apiKey: 'wrong', studentId: 'ada' });
+  await assert.rejects(wrongKey.fetchLearnedWords(null), { message: 'Invalid API key' });
+});
+
+test('mastery is pushed for the student\'s own words', async () => {
+  const lastPracticed = new Date(Date.UTC(2025, 1, 1));
+  await source().pushMastery([
+    { externalId: 'w001', mastery: 80, practiceCount: 4, lastPracticed },
+    { externalId: 'someone-elses', mastery: 10, practiceCount: 1 }
+  ]);
+  assert.deepEqual(Object.keys(mastery), ['w001']);
+  assert.deepEqual(
+    { ...mastery.w001, received_at: undefined },
+    { word_id: 'w001', mastery: 80, practice_count: 4, last_practiced: lastPracticed.toISOString(), received_at: undefined }
+  );
+});
+
+test('a linking code is redeemed once, for the student it was issued to', async () => {
+  const config = { baseUrl, apiKey: API_KEY };
+  const code = await issueLinkCode('ada');
+  assert.equal(await redeemLinkCode(config, code), 'ada');
+  await assert.rejects(redeemLinkCode(config, code), { message: 'Invalid or expired linking code' });
+  await assert.rejects(redeemLinkCode(config, 'GUESSED1'), { message: 'Invalid or expired linking code' });
+});
+
+test('an expired linking code is refused', async () => {
+  const code = await issueLinkCode('ada');
+  time += 11 * 60_000;
+  await assert.rejects(redeemLinkCode({ baseUrl, apiKey: API_KEY }, code), { message: 'Invalid or expired linking code' });
+});
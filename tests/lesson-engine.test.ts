@@ -0,0 +1,146 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createLesson, transition, type LessonEvent, type LessonState } from '../lib/lesson-engine';
+
+const WORDS = ['apple', 'banana', 'thought'];
+
+// Feed events in order, collecting every command on the way
+function run(state: LessonState, events: LessonEvent[]) {
+  const commands = [];
+  for (const event of events) {
+    const next = transition(state, event);
+    state = next.state;
+    commands.push(...next.commands);
+  }
+  return { state, commands };
+}
+
+test('start introduces the first word', () => {
+  const { state, commands } = run(createLesson(WORDS, { attemptsPerWord: 2 }), [{ type: 'start' }]);
+  assert.equal(state.phase, 'introduce');
+  assert.deepEqual(commands, [{ type: 'introduce-word', word: 'apple', index: 0, total: 3 }]);
+});
+
+test('start with no words completes straight away', () => {
+  const { state, commands } = run(createLesson([], { attemptsPerWord: 2 }), [{ type: 'start' }]);
+  assert.equal(state.phase, 'complete');
+  assert.deepEqual(commands, [{ type: 'complete', total: 0 }]);
+});
+
+test('start after a reconnect resumes at the current word, keeping its attempts', () => {
+  const midLesson: LessonState = { ...createLesson(WORDS, { attemptsPerWord: 3 }), phase: 'attempt', index: 1, attempt: 1 };
+  const { state, commands } = run(midLesson, [{ type: 'start' }]);
+  assert.equal(state.phase, 'introduce');
+  assert.equal(state.index, 1);
+  assert.equal(state.attempt, 1);
+  assert.deepEqual(commands, [{ type: 'introduce-word', word: 'banana', index: 1, total: 3, resume: true }]);
+});
+
+test('a score at the passing mark finishes the word early', () => {
+  const { state, commands } = run(createLesson(WORDS, { attemptsPerWord: 3, passingScore: 70 }), [
+    { type: 'start' },
+    { type: 'tutor.done' },
+    { type: 'learner.attempt', transcript: 'apple' },
+    { type: 'scored', score: 85 }
+  ]);
+  assert.equal(state.phase, 'advance');
+  assert.deepEqual(commands.at(-1), { type: 'word-finished', word: 'apple', index: 0, attempts: 1, bestScore: 85 });
+
+  // The next word waits for the tutor to finish its feedback
+  const next = transition(state, { type: 'tutor.done' });
+  assert.equal(next.state.index, 1);
+  assert.deepEqual(next.commands, [{ type: 'introduce-word', word: 'banana', index: 1, total: 3, previousWord: 'apple' }]);
+});
+
+test('a failing score leaves the learner another attempt', () => {
+  const { state, commands } = run(createLesson(WORDS, { attemptsPerWord: 3, passingScore: 70 }), [
+    { type: 'start' },
+    { type: 'tutor.done' },
+    { type: 'learner.attempt', transcript: 'apple' },
+    { type: 'scored', score: 40 },
+    { type: 'tutor.done' },
+    { type: 'retry' }
+  ]);
+  assert.equal(state.phase, 'introduce');
+  assert.equal(state.bestScore, 40);
+  assert.deepEqual(commands.at(-1), { type: 'request-retry', word: 'apple', attempt: 2, maxAttempts: 3 });
+});
+
+test('the word is finished after the last attempt', () => {
+  const { state, commands } = run(createLesson(WORDS, { attemptsPerWord: 2 }), [
+    { type: 'start' },
+    { type: 'tutor.done' },
+    { type: 'learner.attempt', transcript: 'apple' },
+    { type: 'tutor.done' },
+    { type: 'learner.attempt', transcript: 'apple' },
+    { type: 'tutor.done' }
+  ]);
+  assert.equal(state.index, 1);
+  assert.equal(state.phase, 'introduce');
+  assert.deepEqual(commands.slice(-2), [
+    { type: 'word-finished', word: 'apple', index: 0, attempts: 2, bestScore: null },
+    { type: 'introduce-word', word: 'banana', index: 1, total: 3, previousWord: 'apple' }
+  ]);
+
+  // No retry is offered beyond the limit
+  const exhausted: LessonState = { ...state, phase: 'attempt', attempt: 2 };
+  assert.deepEqual(transition(exhausted, { type: 'retry' }).commands, []);
+});
+
+test('skip finishes the current word and moves on', () => {
+  const { state, commands } = run(createLesson(WORDS, { attemptsPerWord: 2 }), [
+    { type: 'start' },
+    { type: 'skip' }
+  ]);
+  assert.equal(state.index, 1);
+  assert.deepEqual(commands.slice(-2), [
+    { type: 'word-finished', word: 'apple', index: 0, attempts: 0, bestScore: null },
+    { type: 'introduce-word', word: 'banana', index: 1, total: 3, previousWord: 'apple' }
+  ]);
+});
+
+test('finishing the last word completes the lesson, which then ignores events', () => {
+  const { state, commands } = run(createLesson(['apple'], { attemptsPerWord: 1 }), [
+    { type: 'start' },
+    { type: 'tutor.done' },
+    { type: 'learner.attempt', transcript: 'apple' },
+    { type: 'tutor.done' }
+  ]);
+  assert.equal(state.phase, 'complete');
+  assert.deepEqual(commands.slice(-2), [
+    { type: 'word-finished', word: 'apple', index: 0, attempts: 1, bestScore: null },
+    { type: 'complete', total: 1 }
+  ]);
+  assert.deepEqual(transition(state, { type: 'skip' }), { state, commands: [] });
+});
+
+test('a score that arrives after the tutor finishes still counts for the last word', () => {
+  const { state, commands } = run(createLesson(['apple'], { attemptsPerWord: 1, passingScore: 70 }), [
+    { type: 'start' },
+    { type: 'tutor.done' },
+    { type: 'learner.attempt', transcript: 'apple' },
+    { type: 'tutor.done' }
+  ]);
+  assert.equal(state.phase, 'scoring');
+  assert.deepEqual(commands.at(-1), { type: 'introduce-word', word: 'apple', index: 0, total: 1 });
+
+  const late = transition(state, { type: 'scored', score: 55 });
+  assert.equal(late.state.phase, 'complete');
+  assert.deepEqual(late.commands, [
+    { type: 'word-finished', word: 'apple', index: 0, attempts: 1, bestScore: 55 },
+    { type: 'complete', total: 1 }
+  ]);
+});
+
+test('a late failing score with attempts left hands the turn back to the learner', () => {
+  const { state, commands } = run(createLesson(WORDS, { attemptsPerWord: 3, passingScore: 70 }), [
+    { type: 'start' },
+    { type: 'tutor.done' },
+    { type: 'learner.attempt', transcript: 'apple' },
+    { type: 'tutor.done' },
+    { type: 'scored', score: 40 }
+  ]);
+  assert.equal(state.phase, 'attempt');
+  assert.equal(state.bestScore, 40);
+  assert.deepEqual(commands.at(-1), { type: 'introduce-word', word: 'apple', index: 0, total: 3 });
+});
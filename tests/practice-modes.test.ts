@@ -0,0 +1,59 @@
+import { test, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+// A database of its own, set before server/db.js reads VOICE_TUTOR_DB
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'voice-tutor-modes-'));
+process.env.VOICE_TUTOR_DB = path.join(dir, 'test.db');
+
+after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+const draft = (prompts: Record<string, string>) => ({
+  base: 'pronunciation',
+  name: 'Slow and steady',
+  description: '',
+  icon: 'mic',
+  color: 'blue',
+  enabled: true,
+  prompts,
+  attemptsPerWord: 3,
+  turnDetection: { threshold: 0.5, prefixPaddingMs: 300, silenceDurationMs: 800 },
+  scoring: { passingScore: null, rubric: '' }
+});
+
+test('an override using a variable its template lacks is refused when saved', async () => {
+  const { savePracticeMode, listPracticeModes } = await import('../server/practice-modes');
+  const result = await savePracticeMode(draft({ retry: 'Try "{word}" again, {learnerName}.' }));
+  assert.deepEqual(result, { error: 'The "retry" prompt uses {learnerName}, which it doesn\'t have' });
+  assert.equal((await listPracticeModes()).some(mode => mode.name === 'Slow and steady'), false);
+});
+
+test('an override using only its template\'s variables is saved and renders', async () => {
+  const { savePracticeMode } = await import('../server/practice-modes');
+  const { renderPrompt } = await import('../server/prompts');
+  const result = await savePracticeMode(draft({ retry: 'Try "{word}" again ({attempt} of {maxAttempts}).' }));
+  assert.ok(result.mode);
+  const values = { word: 'apple', attempt: 2, maxAttempts: 3, wordDescription: '', scoring: '' };
+  assert.equal(renderPrompt('retry', values, undefined, result.mode.prompts), 'Try "apple" again (2 of 3).');
+});
+
+test('a stored override that cannot render falls back to the shipped text', async () => {
+  const { getDb } = await import('../server/db');
+  const { getPracticeMode } = await import('../server/practice-modes');
+  const db = await getDb();
+  const now = new Date().toISOString();
+  await db.run(
+    `INSERT INTO practice_modes (id, base, name, description, icon, color, enabled, prompts, attempts_per_word, turn_detection, scoring, created_at, updated_at)
+     VALUES ('hand-edited', 'pronunciation', 'Hand edited', '', 'mic', 'blue', 1, ?, 3, ?, ?, ?, ?)`,
+    JSON.stringify({ retry: 'Again, {learnerName}!', 'start.pronunciation': 'Start with {word}.' }),
+    JSON.stringify({ threshold: 0.5, prefixPaddingMs: 300, silenceDurationMs: 800 }),
+    JSON.stringify({ passingScore: null, rubric: '' }),
+    now,
+    now
+  );
+
+  const mode = await getPracticeMode('hand-edited');
+  assert.deepEqual(Object.keys(mode?.prompts ?? {}), ['start.pronunciation']);
+});
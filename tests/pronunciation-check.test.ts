@@ -0,0 +1,25 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { canCheckIntelligibility, checkIntelligibility, crossCheckScore, normalizeText } from '../lib/pronunciation-check';
+
+test('normalizing keeps letters from any script', () => {
+  assert.equal(normalizeText('Crème Brûlée!'), 'creme brulee');
+  assert.equal(normalizeText('Привет, мир'), 'привет мир');
+  assert.equal(normalizeText('¡Señor!'), 'senor');
+});
+
+test('a close transcript scores well', () => {
+  assert.ok(checkIntelligibility('night', 'um, nite?').score >= 70);
+  assert.ok(checkIntelligibility('apple', 'banana').score < 50);
+});
+
+test('words the scorer cannot read are left to the tutor', () => {
+  assert.equal(canCheckIntelligibility('привет', 'ru'), false);
+  assert.equal(canCheckIntelligibility('こんにちは', 'ja'), false);
+  assert.equal(canCheckIntelligibility('?!', 'en'), false);
+  assert.equal(canCheckIntelligibility('über', 'de'), true);
+
+  const crossCheck = crossCheckScore(90, null);
+  assert.equal(crossCheck.score, 90);
+  assert.equal(crossCheck.disagreement, false);
+});
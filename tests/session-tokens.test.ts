@@ -0,0 +1,60 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createTokenIssuer } from '../server/session-tokens';
+
+// A local issuer on a clock the tests move by hand
+function issuerAt(start = Date.UTC(2025, 0, 1)) {
+  let time = start;
+  const issuer = createTokenIssuer({ secret: 'test-secret', ttlSeconds: 60, now: () => time });
+  return { ...issuer, advance: (seconds: number) => { time += seconds * 1000; } };
+}
+
+test('a fresh token verifies for its learner', () => {
+  const issuer = issuerAt();
+  const { token } = issuer.issue('learner-1');
+  const result = issuer.verify(token, { learnerId: 'learner-1' });
+  assert.equal(result.ok, true);
+  assert.equal(result.claims?.sub, 'learner-1');
+});
+
+test('an expired token is rejected', () => {
+  const issuer = issuerAt();
+  const { token } = issuer.issue('learner-1');
+  issuer.advance(61);
+  assert.deepEqual(issuer.verify(token), { ok: false, reason: 'expired' });
+});
+
+test('a token for another scope is rejected', () => {
+  const issuer = issuerAt();
+  const { token } = issuer.issue('learner-1', { scope: 'uploads' });
+  assert.deepEqual(issuer.verify(token), { ok: false, reason: 'wrong scope' });
+});
+
+test('a token for another learner is rejected', () => {
+  const issuer = issuerAt();
+  const { token } = issuer.issue('learner-1');
+  assert.deepEqual(issuer.verify(token, { learnerId: 'learner-2' }), { ok: false, reason: 'token belongs to another learner' });
+});
+
+test('a consumed token cannot be replayed', () => {
+  const issuer = issuerAt();
+  const { token } = issuer.issue('learner-1');
+  assert.equal(issuer.verify(token, { consume: true }).ok, true);
+  assert.deepEqual(issuer.verify(token, { consume: true }), { ok: false, reason: 'already used' });
+});
+
+test('a tampered token is rejected', () => {
+  const issuer = issuerAt();
+  const { token, claims } = issuer.issue('learner-1');
+  const [, signature] = token.split('.');
+
+  // Claims rewritten to another learner, with the original signature
+  const forged = Buffer.from(JSON.stringify({ ...claims, sub: 'learner-2' })).toString('base64url');
+  assert.deepEqual(issuer.verify(`${forged}.${signature}`), { ok: false, reason: 'bad signature' });
+
+  // Signed with a different secret
+  const other = createTokenIssuer({ secret: 'other-secret', now: () => Date.UTC(2025, 0, 1) });
+  assert.deepEqual(issuer.verify(other.issue('learner-1').token), { ok: false, reason: 'bad signature' });
+
+  assert.deepEqual(issuer.verify('not-a-token'), { ok: false, reason: 'malformed' });
+});
@@ -0,0 +1,73 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import zlib from 'node:zlib';
+import { readApkg } from '../server/anki';
+import { readBody } from '../server/request-body';
+
+// A one-entry zip, deflated, declaring whatever uncompressed size it's given
+function zipOf(name: string, content: Buffer, declaredSize = content.length): Buffer {
+  const data = zlib.deflateRawSync(content);
+  const nameBytes = Buffer.from(name);
+
+  const local = Buffer.alloc(30);
+  local.writeUInt32LE(0x04034b50, 0);
+  local.writeUInt16LE(8, 8);
+  local.writeUInt32LE(data.length, 18);
+  local.writeUInt32LE(declaredSize, 22);
+  local.writeUInt16LE(nameBytes.length, 26);
+
+  const central = Buffer.alloc(46);
+  central.writeUInt32LE(0x02014b50, 0);
+  central.writeUInt16LE(8, 10);
+  central.writeUInt32LE(data.length, 20);
+  central.writeUInt32LE(declaredSize, 24);
+  central.writeUInt16LE(nameBytes.length, 28);
+  central.writeUInt32LE(0, 42);
+
+  const directoryOffset = local.length + nameBytes.length + data.length;
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(1, 8);
+  end.writeUInt16LE(1, 10);
+  end.writeUInt32LE(central.length + nameBytes.length, 12);
+  end.writeUInt32LE(directoryOffset, 16);
+
+  return Buffer.concat([local, nameBytes, data, central, nameBytes, end]);
+}
+
+test('a package declaring a huge collection is refused before inflating it', async () => {
+  const result = await readApkg(zipOf('collection.anki2', Buffer.from('tiny'), 0xffffffff));
+  assert.ok('error' in result);
+  assert.match(result.error, /over \d+ bytes/);
+});
+
+test('a package without a collection says so', async () => {
+  assert.deepEqual(await readApkg(zipOf('media', Buffer.from('{}'))), { error: 'No Anki collection found in the package' });
+});
+
+const upload = (body: BodyInit, headers: Record<string, string> = {}) =>
+  new Request('http://localhost/upload', { method: 'POST', body, headers, duplex: 'half' } as RequestInit);
+
+test('a body within the limit is read whole', async () => {
+  assert.deepEqual(await readBody(upload('hello'), 5), Buffer.from('hello'));
+});
+
+test('a body over the limit is refused', async () => {
+  assert.equal(await readBody(upload('hello!'), 5), null);
+});
+
+test('a body whose content-length is over the limit is refused unread', async () => {
+  assert.equal(await readBody(upload('hi', { 'content-length': '1000' }), 5), null);
+});
+
+test('a streamed body is cut off once it passes the limit', async () => {
+  let pulled = 0;
+  const stream = new ReadableStream({
+    pull(controller) {
+      pulled++;
+      controller.enqueue(new Uint8Array(4));
+    }
+  });
+  assert.equal(await readBody(upload(stream), 10), null);
+  assert.ok(pulled < 10);
+});
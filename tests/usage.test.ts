@@ -0,0 +1,55 @@
+import { test, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+// A database of its own, set before server/db.js reads VOICE_TUTOR_DB
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'voice-tutor-usage-'));
+process.env.VOICE_TUTOR_DB = path.join(dir, 'test.db');
+
+after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+const NOW = new Date(Date.UTC(2025, 0, 1, 12));
+
+test('a multi-turn session counts each turn of learner speech once', async () => {
+  const { createLearner } = await import('../server/learners');
+  const { createInputAudioMeter, recordInputAudio, recordUsage, getDailyUsage, usageDay } = await import('../server/usage');
+  const learner = await createLearner({ username: 'ada', displayName: 'Ada', password: 'correct horse' });
+  assert.ok(learner);
+
+  // Three 2-second turns, each answered. Every response re-reads the conversation so far,
+  // so its input audio tokens grow with each turn: 20, 40, 60 (2s, 4s, 6s of audio)
+  const meter = createInputAudioMeter();
+  for (let turn = 0; turn < 3; turn++) {
+    const start = turn * 10_000;
+    const events = [
+      { type: 'input_audio_buffer.speech_started', audio_start_ms: start },
+      { type: 'input_audio_buffer.speech_stopped', audio_end_ms: start + 2000 },
+      { type: 'input_audio_buffer.committed' }
+    ];
+    for (const event of events) await recordInputAudio(learner.id, meter.handle(event), NOW);
+    await recordUsage(learner.id, {
+      input_tokens: 100 * (turn + 1),
+      output_tokens: 50,
+      total_tokens: 100 * (turn + 1) + 50,
+      input_token_details: { audio_tokens: 20 * (turn + 1) },
+      output_token_details: { audio_tokens: 40 }
+    }, NOW);
+  }
+
+  const usage = await getDailyUsage(learner.id, usageDay(NOW));
+  assert.equal(usage.responses, 3);
+  assert.equal(usage.inputAudioSeconds, 6);
+  assert.equal(usage.outputAudioSeconds, 6);
+  assert.equal(usage.totalTokens, 750);
+});
+
+test('speech that is cleared before it is committed is not counted', async () => {
+  const { createInputAudioMeter } = await import('../server/usage');
+  const meter = createInputAudioMeter();
+  meter.handle({ type: 'input_audio_buffer.speech_started', audio_start_ms: 0 });
+  meter.handle({ type: 'input_audio_buffer.speech_stopped', audio_end_ms: 1500 });
+  meter.handle({ type: 'input_audio_buffer.cleared' });
+  assert.equal(meter.handle({ type: 'input_audio_buffer.committed' }), 0);
+});
@@ -0,0 +1,67 @@
+import { test, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+// A database of its own, set before server/db.js reads VOICE_TUTOR_DB
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'voice-tutor-sync-'));
+process.env.VOICE_TUTOR_DB = path.join(dir, 'test.db');
+
+after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+const SOURCE = 'flashacademy';
+
+async function linkedLearner(username: string) {
+  const { createLearner } = await import('../server/learners');
+  const { linkAccount } = await import('../server/vocabulary-sync');
+  const learner = await createLearner({ username, displayName: username, password: 'correct horse' });
+  assert.ok(learner);
+  await linkAccount(learner.id, SOURCE, `student-${username}`);
+  return learner.id;
+}
+
+async function syncState(learnerId: string) {
+  const { getSyncState } = await import('../server/vocabulary-sync');
+  const state = await getSyncState(learnerId, SOURCE);
+  assert.ok(state);
+  return state;
+}
+
+const pulled = (cursor: string, wordsSynced: number) => ({ cursor, syncedAt: new Date(), pushed: true, wordsSynced });
+
+test('the cursor stays put until the pulled words are confirmed saved', async () => {
+  const { stageSync, commitSync } = await import('../server/vocabulary-sync');
+  const learnerId = await linkedLearner('ada');
+
+  const syncId = await stageSync(learnerId, SOURCE, pulled('page-2', 3));
+  let state = await syncState(learnerId);
+  assert.equal(state.cursor, null);
+  assert.equal(state.wordsSynced, 0);
+  assert.equal(state.lastSyncedAt, undefined);
+  assert.ok(state.lastPushedAt); // The mastery did go out
+
+  assert.equal(await commitSync(learnerId, SOURCE, syncId, new Date()), true);
+  state = await syncState(learnerId);
+  assert.equal(state.cursor, 'page-2');
+  assert.equal(state.wordsSynced, 3);
+  assert.ok(state.lastSyncedAt);
+
+  // Once only
+  assert.equal(await commitSync(learnerId, SOURCE, syncId, new Date()), false);
+  assert.equal((await syncState(learnerId)).wordsSynced, 3);
+});
+
+test('a sync replaced by a later one or a relink no longer commits', async () => {
+  const { linkAccount, stageSync, commitSync } = await import('../server/vocabulary-sync');
+  const learnerId = await linkedLearner('grace');
+
+  const first = await stageSync(learnerId, SOURCE, pulled('page-2', 3));
+  const second = await stageSync(learnerId, SOURCE, pulled('page-3', 5));
+  assert.equal(await commitSync(learnerId, SOURCE, first, new Date()), false);
+  assert.equal((await syncState(learnerId)).cursor, null);
+
+  await linkAccount(learnerId, SOURCE, 'student-someone-else');
+  assert.equal(await commitSync(learnerId, SOURCE, second, new Date()), false);
+  assert.equal((await syncState(learnerId)).cursor, null);
+});
@@ -0,0 +1,60 @@
+import { test, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { NextRequest } from 'next/server';
+
+// A database of its own, set before server/db.js reads VOICE_TUTOR_DB
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'voice-tutor-words-'));
+process.env.VOICE_TUTOR_DB = path.join(dir, 'test.db');
+process.env.REALTIME_TOKEN_SECRET = 'test-secret';
+
+after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+async function signedIn(username: string) {
+  const { createLearner } = await import('../server/learners');
+  const { AUTH_COOKIE, issueLearnerToken } = await import('../server/auth');
+  const learner = await createLearner({ username, displayName: username, password: 'correct horse' });
+  assert.ok(learner);
+  return `${AUTH_COOKIE}=${issueLearnerToken(learner.id).token}`;
+}
+
+const post = (cookie: string, body: string) =>
+  new NextRequest('http://localhost/api/words', { method: 'POST', headers: { cookie, 'content-type': 'application/json' }, body });
+
+const word = { id: 'w1', word: 'apple', timestamp: '2025-01-01T00:00:00.000Z', language: 'en', mastery: 0, practiceCount: 0 };
+
+test('malformed words are refused with a 400, not saved', async () => {
+  const { POST } = await import('../app/api/words/route');
+  const cookie = await signedIn('ada');
+
+  const cases: [unknown, RegExp][] = [
+    [{ words: [{ ...word, word: undefined }] }, /needs its text/],
+    [{ words: [{ ...word, timestamp: undefined }] }, /valid timestamp/],
+    [{ words: [{ ...word, language: 42 }] }, /invalid language/],
+    [{ words: [{ ...word, mastery: 'lots' }] }, /invalid mastery/],
+    [{ words: [word, null] }, /must be an object/],
+    [{ words: 'apple' }, /non-empty "words" array/]
+  ];
+  for (const [body, message] of cases) {
+    const response = await POST(post(cookie, JSON.stringify(body)));
+    assert.equal(response.status, 400, JSON.stringify(body));
+    assert.match((await response.json()).error, message);
+  }
+
+  const malformedJson = await POST(post(cookie, '{"words": ['));
+  assert.equal(malformedJson.status, 400);
+
+  const { listWords } = await import('../server/words');
+  const { learnerIdFromCookieHeader } = await import('../server/auth');
+  assert.deepEqual(await listWords(learnerIdFromCookieHeader(cookie)), []);
+});
+
+test('a valid batch is saved', async () => {
+  const { POST } = await import('../app/api/words/route');
+  const cookie = await signedIn('grace');
+  const response = await POST(post(cookie, JSON.stringify({ words: [word] })));
+  assert.equal(response.status, 200);
+  assert.deepEqual(await response.json(), { saved: 1 });
+});